@@ -1,13 +1,14 @@
-import React, { useCallback, useEffect, useState } from 'react';
-import { StatusBar, useColorScheme } from 'react-native';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, StatusBar, useColorScheme } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
-import { PreferencesProvider } from './src/state/PreferencesContext';
-import { SessionProvider, useSession } from './src/state/SessionContext';
+import { PreferencesProvider, usePreferences } from './src/state/PreferencesContext';
+import { SessionProvider, useSession, Difficulty } from './src/state/SessionContext';
 // Add Library, UserProgress, and Favorites providers
 import { LibraryProvider } from './src/state/LibraryContext';
 import { UserProgressProvider } from './src/state/UserProgressContext';
 import { FavoritesProvider } from './src/state/FavoritesContext';
+import { CustomProgramsProvider, useCustomPrograms } from './src/state/CustomProgramsContext';
 import { WorkoutHistoryProvider, useWorkoutHistory } from './src/state/WorkoutHistoryContext';
 import HomeScreen from './src/screens/HomeScreen';
 import SetupScreen from './src/screens/SetupScreen';
@@ -20,6 +21,8 @@ import { ArticleDetailScreen } from './src/screens/ArticleDetailScreen';
 import { ProgramStartScreen } from './src/screens/ProgramStartScreen';
 import { ProgramFinishScreen } from './src/screens/ProgramFinishScreen';
 import { ProgramsTestScreen } from './src/screens/ProgramsTestScreen';
+import { ProgramImportScreen } from './src/screens/ProgramImportScreen';
+import { ProgramBuilderScreen } from './src/screens/ProgramBuilderScreen';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
@@ -31,8 +34,26 @@ import OnboardingScreen from './src/screens/OnboardingScreen';
 import { OnboardingProvider, useOnboarding } from './src/state/OnboardingContext';
 import { ThemeProvider, useTheme } from './src/state/ThemeContext';
 import { Program, ExerciseStep } from './src/types/program';
-import { TRAINING_TYPES } from './src/data/trainingTypes';
+import { createIntervalProgram } from './src/utils/intervalPrograms';
+import { DIFFICULTY_PROFILES, createDifficultyProgram } from './src/utils/difficultyProfiles';
+import { getExerciseById, getExerciseTitle } from './src/data/exerciseCatalog';
 import { remoteImageCacheService } from './src/services/remoteImageCacheService';
+import {
+  StepLog,
+  StepResult,
+  TrainingSessionState,
+  applyStepLog,
+  selectors,
+} from './src/state/trainingStateMachine';
+import { SessionTimeline } from './src/state/sessionTimeline';
+import { trainingPersistence } from './src/utils/backgroundHandling';
+import { audioOutput } from './src/audio/audioOutput';
+import { AudioCueOutput } from './src/components/training/AudioCueOutput';
+import { calculateSessionCalories, estimateProgramCalories } from './src/utils/calories';
+import { applyWarmupCooldown, resolveWarmupCooldownOptions } from './src/utils/warmupCooldown';
+import { useTranslation } from './src/hooks/useTranslation';
+import { getLocalizedExerciseTitle, localizeProgram } from './src/i18n/content';
+import { DEFAULT_LANGUAGE, Language, translate } from './src/i18n/translate';
 
 type RootStackParamList = {
   home: undefined;
@@ -41,24 +62,53 @@ type RootStackParamList = {
   done: undefined;
   articleDetail: { article: any };
   programStart: { program: any };
-  complexTraining: { program: any; soundsEnabled: boolean; vibrationsEnabled: boolean };
+  complexTraining: {
+    program: any;
+    soundsEnabled: boolean;
+    vibrationsEnabled: boolean;
+    resumeSession?: TrainingSessionState;
+  };
   programFinish: { completionData: any };
   programsTest: undefined;
+  programImport: undefined;
+  programBuilder: { program?: Program } | undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 const Tab = createBottomTabNavigator();
 
-// Function to create a simple single-exercise program for HomeScreen training
-const createDynamicTrainingProgram = (setup: any): Program => {
+// Function to create the program for HomeScreen training: one exercise or an interval format
+const isSimpleProgram = (program: Program): boolean =>
+  program.stepsCount === 1 && program.tags.includes('Simple');
+
+const createDynamicTrainingProgram = (setup: any, language: Language = DEFAULT_LANGUAGE): Program => {
   const { typeId, durationMin, difficulty } = setup;
   
-  // Convert duration to seconds (0.05 = 3 seconds, others are in minutes)
-  const totalDurationSec = durationMin === 0.05 ? 3 : durationMin * 60;
+  if (setup.format && setup.format !== 'single') {
+    return createIntervalProgram({
+      format: setup.format,
+      exerciseIds: setup.exerciseIds?.length ? setup.exerciseIds : [typeId || 'pushups'],
+      level: DIFFICULTY_PROFILES[difficulty as Difficulty]?.level ?? 'Intermediate',
+      durationMin,
+      workSec: setup.workSec,
+      restSec: setup.restSec,
+      rounds: setup.rounds
+    }, language);
+  }
+  
+  // Regular sessions are work/rest rounds shaped by the difficulty
+  if (durationMin !== 0.05) {
+    return createDifficultyProgram(typeId || 'pushups', durationMin, difficulty, language);
+  }
+  
+  // The 3 second quick test stays a single continuous step
+  const totalDurationSec = 3;
   
   // Get the selected training type
-  const trainingType = TRAINING_TYPES.find(t => t.id === typeId);
-  const exerciseTitle = trainingType?.title || 'Custom Exercise';
+  const exercise = getExerciseById(typeId);
+  const exerciseTitle = getExerciseTitle(typeId);
+  // Steps keep the catalog title so localizeProgram can still match them
+  const localizedTitle = getLocalizedExerciseTitle(language, typeId, exerciseTitle);
   
   // Create a simple single-step program for HomeScreen training
   const steps: ExerciseStep[] = [{
@@ -66,7 +116,8 @@ const createDynamicTrainingProgram = (setup: any): Program => {
     type: 'exercise',
     title: exerciseTitle,
     durationSec: totalDurationSec,
-    description: `${exerciseTitle} session for ${durationMin === 0.05 ? '3 seconds' : `${durationMin} minutes`}`,
+    exerciseId: exercise?.id,
+    description: translate(language, 'session.quickStep', { exercise: localizedTitle, count: totalDurationSec }),
     icon: '💪',
     animationRef: typeId || 'pushups',
     targetReps: Math.max(1, Math.floor(totalDurationSec / 2)),
@@ -75,25 +126,66 @@ const createDynamicTrainingProgram = (setup: any): Program => {
   
   return {
     id: `simple_${typeId}_${durationMin}`,
-    title: `${exerciseTitle} - ${durationMin === 0.05 ? '3 sec' : `${durationMin} min`}`,
-    level: difficulty,
-    description: `Simple ${exerciseTitle.toLowerCase()} workout for ${durationMin === 0.05 ? '3 seconds' : `${durationMin} minutes`}`,
+    title: translate(language, 'session.quickTitle', { exercise: localizedTitle, count: totalDurationSec }),
+    level: DIFFICULTY_PROFILES[difficulty as Difficulty]?.level ?? 'Intermediate',
+    description: translate(language, 'session.quickDescription', {
+      exercise: localizedTitle.toLowerCase(),
+      count: totalDurationSec,
+    }),
     totalActiveSec: totalDurationSec,
     totalRestSec: 0,
     stepsCount: 1,
     tags: ['Simple', 'Single', difficulty],
     steps,
-    estimatedCalories: Math.round((durationMin === 0.05 ? 0.05 : durationMin) * 8.6),
+    estimatedCalories: estimateProgramCalories(steps),
     thumbnailUrl: 'https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80',
-    difficulty: difficulty === 'Light' ? 1 : difficulty === 'Easy' ? 2 : difficulty === 'Middle' ? 3 : difficulty === 'Stunt' ? 4 : difficulty === 'Hardcore' ? 5 : 6,
+    difficulty: DIFFICULTY_PROFILES[difficulty as Difficulty]?.difficulty ?? 3,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString()
   };
 };
 
-function HomeTabs() {
+function HomeTabs({ navigation: stackNavigation }: { navigation: any }) {
   const { setSetup } = useSession();
   const { theme } = useTheme();
+  const { t } = useTranslation();
+  const resumeChecked = useRef(false);
+
+  // Offer to pick up a workout that was cut short when the app was closed; only
+  // once, so switching the language doesn't ask again
+  useEffect(() => {
+    if (resumeChecked.current) return;
+    resumeChecked.current = true;
+    trainingPersistence.loadSnapshot().then(snapshot => {
+      if (!snapshot) return;
+      const { session } = snapshot;
+      Alert.alert(
+        t('training.resumeTitle'),
+        t('training.resumeMessage', {
+          title: session.program?.title ?? '',
+          current: session.currentStepIndex + 1,
+          total: session.program?.steps.length ?? 0,
+        }),
+        [
+          {
+            text: t('training.discard'),
+            style: 'destructive',
+            onPress: () => trainingPersistence.clearSnapshot(),
+          },
+          {
+            text: t('training.resumeWorkout'),
+            onPress: () => stackNavigation.navigate('complexTraining', {
+              program: session.program,
+              soundsEnabled: session.soundsEnabled,
+              vibrationsEnabled: session.vibrationsEnabled,
+              resumeSession: session,
+            }),
+          },
+        ],
+        { cancelable: false },
+      );
+    });
+  }, [stackNavigation, t]);
 
   return (
     <Tab.Navigator
@@ -110,7 +202,7 @@ function HomeTabs() {
       <Tab.Screen
         name="HomeTab"
         options={{
-          title: 'Home',
+          title: t('tabs.home'),
           tabBarIcon: ({ focused, color, size }) => (
             <Ionicons name={focused ? 'home' : 'home-outline'} size={size ?? 24} color={color as string} />
           ),
@@ -118,8 +210,8 @@ function HomeTabs() {
       >
         {({ navigation }) => (
           <HomeScreen
-            onSelect={t => {
-              setSetup({ typeId: t.id });
+            onSelect={exercise => {
+              setSetup({ typeId: exercise.id, exerciseIds: [exercise.id] });
               navigation.navigate('setup');
             }}
             onStart={() => navigation.navigate('training')}
@@ -129,6 +221,7 @@ function HomeTabs() {
       <Tab.Screen
         name="Library"
         options={{
+          title: t('tabs.library'),
           tabBarIcon: ({ focused, color, size }) => (
             <Ionicons name={focused ? 'book' : 'book-outline'} size={size ?? 24} color={color as string} />
           ),
@@ -139,6 +232,7 @@ function HomeTabs() {
       <Tab.Screen
         name="Programs"
         options={{
+          title: t('tabs.programs'),
           tabBarIcon: ({ focused, color, size }) => (
             <Ionicons name={focused ? 'calendar' : 'calendar-outline'} size={size ?? 24} color={color as string} />
           ),
@@ -149,6 +243,9 @@ function HomeTabs() {
             onProgramSelect={(program) => {
               navigation.navigate('programStart', { program });
             }}
+            onImport={() => navigation.navigate('programImport')}
+            onCreate={() => navigation.navigate('programBuilder')}
+            onEdit={(program) => navigation.navigate('programBuilder', { program })}
             onBack={() => navigation.goBack()}
           />
         )}
@@ -156,6 +253,7 @@ function HomeTabs() {
       <Tab.Screen
         name="Profile"
         options={{
+          title: t('tabs.profile'),
           tabBarIcon: ({ focused, color, size }) => (
             <Ionicons name={focused ? 'person' : 'person-outline'} size={size ?? 24} color={color as string} />
           ),
@@ -167,44 +265,75 @@ function HomeTabs() {
   );
 }
 
+// What the training screens report when the user quits early
+type ExitPartial = {
+  totalElapsedMs: number;
+  program?: Program | null;
+  stepResults?: StepResult[];
+  timeline?: SessionTimeline;
+};
+
 // Wrapper component to use hooks properly
 const TrainingScreenWrapper: React.FC<{ navigation: any }> = ({ navigation }) => {
   const { setup, setState } = useSession();
   const { addSession } = useWorkoutHistory();
-  const dynamicProgram = createDynamicTrainingProgram(setup);
+  const { profile } = useOnboarding();
+  const { prefs } = usePreferences();
+  const { language, autoWarmup, autoCooldown } = prefs;
+
+  // Built once per setup: a new program object would restart the running session
+  const dynamicProgram = useMemo(() => {
+    const baseProgram = createDynamicTrainingProgram(setup, language);
+    // Quick sessions follow the global warm-up and cool-down preferences
+    return localizeProgram(language, isSimpleProgram(baseProgram)
+      ? baseProgram
+      : applyWarmupCooldown(baseProgram, resolveWarmupCooldownOptions(baseProgram, { autoWarmup, autoCooldown })));
+  }, [setup, language, autoWarmup, autoCooldown]);
 
   // Check if this is a simple single-step program from HomeScreen
-  const isSimpleTraining = dynamicProgram.stepsCount === 1 && dynamicProgram.tags.includes('Simple');
+  const isSimpleTraining = isSimpleProgram(dynamicProgram);
 
-  const handleComplete = (results: any) => {
+  const handleComplete = useCallback((results: any) => {
     addSession({
       completedAt: new Date().toISOString(),
       totalElapsedMs: results?.totalElapsedMs ?? 0,
-      estimatedCalories: results?.program?.estimatedCalories ?? dynamicProgram.estimatedCalories ?? 0,
+      estimatedCalories: calculateSessionCalories({
+        program: results?.program ?? dynamicProgram,
+        stepResults: results?.stepResults,
+        totalElapsedMs: results?.totalElapsedMs,
+      }, profile.weightKg),
       programTitle: results?.program?.title ?? dynamicProgram.title,
+      stepResults: results?.stepResults,
+      totalVolumeKg: results?.stepResults ? selectors.getTotalVolumeKg(results.stepResults) : undefined,
+      timeline: results?.timeline,
     });
     setState('idle');
     navigation.navigate('done');
-  };
+  }, [addSession, dynamicProgram, profile.weightKg, setState, navigation]);
   
-  const handleExit = ({ totalElapsedMs }: { totalElapsedMs: number }) => {
+  const handleExit = useCallback(({ totalElapsedMs, program, stepResults, timeline }: ExitPartial) => {
     if (totalElapsedMs > 0) {
       addSession({
         completedAt: new Date().toISOString(),
         totalElapsedMs,
-        estimatedCalories: Math.round((dynamicProgram.estimatedCalories ?? 0) * (totalElapsedMs / (dynamicProgram.totalActiveSec * 1000))),
+        estimatedCalories: calculateSessionCalories({
+          program: program ?? dynamicProgram,
+          stepResults,
+          totalElapsedMs,
+        }, profile.weightKg),
         programTitle: dynamicProgram.title,
+        timeline,
       });
     }
     setState('idle');
     navigation.navigate('home');
-  };
+  }, [addSession, dynamicProgram, profile.weightKg, setState, navigation]);
   
   if (isSimpleTraining) {
     return (
       <SimpleTrainingScreen
         program={dynamicProgram}
-        _soundsEnabled={true}
+        soundsEnabled={true}
         vibrationsEnabled={true}
         onComplete={handleComplete}
         onExit={handleExit}
@@ -226,28 +355,30 @@ const TrainingScreenWrapper: React.FC<{ navigation: any }> = ({ navigation }) =>
 
 const ComplexTrainingWrapper: React.FC<{ navigation: any; route: any }> = ({ navigation, route }) => {
   const { addSession } = useWorkoutHistory();
-  const { program, soundsEnabled, vibrationsEnabled } = route.params;
+  const { profile } = useOnboarding();
+  const { program, soundsEnabled, vibrationsEnabled, resumeSession } = route.params;
   return (
     <TrainingScreen
       program={program}
       soundsEnabled={soundsEnabled}
       vibrationsEnabled={vibrationsEnabled}
+      resumeSession={resumeSession}
       onComplete={(completionData) => {
-        addSession({
-          completedAt: new Date().toISOString(),
-          totalElapsedMs: completionData?.totalElapsedMs ?? 0,
-          estimatedCalories: completionData?.program?.estimatedCalories ?? program.estimatedCalories ?? 0,
-          programTitle: completionData?.program?.title ?? program.title,
-        });
-        navigation.replace('programFinish', { completionData });
+        // Saved to history by the finish screen, once the user is done logging results
+        navigation.replace('programFinish', { completionData: { program, ...completionData } });
       }}
-      onExit={({ totalElapsedMs }) => {
+      onExit={({ totalElapsedMs, program: playedProgram, stepResults, timeline }) => {
         if (totalElapsedMs > 0) {
           addSession({
             completedAt: new Date().toISOString(),
             totalElapsedMs,
-            estimatedCalories: Math.round((program.estimatedCalories ?? 0) * (totalElapsedMs / (program.totalActiveSec * 1000))),
+            estimatedCalories: calculateSessionCalories({
+              program: playedProgram ?? program,
+              stepResults,
+              totalElapsedMs,
+            }, profile.weightKg),
             programTitle: program.title,
+            timeline,
           });
         }
         navigation.goBack();
@@ -256,8 +387,59 @@ const ComplexTrainingWrapper: React.FC<{ navigation: any; route: any }> = ({ nav
   );
 };
 
+// Results stay editable on the finish screen; the session is saved when it is left,
+// whether through Done, Repeat or going back
+const ProgramFinishWrapper: React.FC<{ navigation: any; route: any }> = ({ navigation, route }) => {
+  const { addSession } = useWorkoutHistory();
+  const { profile } = useOnboarding();
+  const [completionData, setCompletionData] = useState(route.params.completionData);
+  const completionDataRef = useRef(completionData);
+  completionDataRef.current = completionData;
+
+  const handleLogStep = useCallback((stepIndex: number, log: StepLog) => {
+    setCompletionData((data: any) => ({
+      ...data,
+      stepResults: applyStepLog(data.stepResults, stepIndex, log),
+    }));
+  }, []);
+
+  useEffect(() => navigation.addListener('beforeRemove', () => {
+    const { program, stepResults, totalElapsedMs, timeline } = completionDataRef.current;
+    addSession({
+      completedAt: new Date().toISOString(),
+      totalElapsedMs: totalElapsedMs ?? 0,
+      estimatedCalories: calculateSessionCalories({
+        program,
+        stepResults,
+        totalElapsedMs,
+      }, profile.weightKg),
+      programTitle: program.title,
+      stepResults,
+      totalVolumeKg: stepResults ? selectors.getTotalVolumeKg(stepResults) : undefined,
+      timeline,
+    });
+  }), [navigation, addSession, profile.weightKg]);
+
+  return (
+    <ProgramFinishScreen
+      completionData={completionData}
+      onLogStep={handleLogStep}
+      onDone={() => navigation.navigate('home')}
+      onRepeat={() => {
+        navigation.replace('complexTraining', {
+          program: completionData.program,
+          soundsEnabled: true,
+          vibrationsEnabled: true,
+        });
+      }}
+    />
+  );
+};
+
 function AppStack() {
   const { theme } = useTheme();
+  const { t } = useTranslation();
+  const { saveProgram } = useCustomPrograms();
   
   return (
     <Stack.Navigator
@@ -269,7 +451,7 @@ function AppStack() {
         name="setup"
         options={{
           headerShown: true,
-          title: 'Setup',
+          title: t('setup.title'),
           headerStyle: {
             backgroundColor: theme.colors.background,
           },
@@ -317,9 +499,9 @@ function AppStack() {
         {({ navigation, route }) => (
           <ProgramStartScreen
             program={route.params.program}
-            onStart={(soundsEnabled, vibrationsEnabled) => {
+            onStart={(soundsEnabled, vibrationsEnabled, sessionProgram) => {
               navigation.navigate('complexTraining', { 
-                program: route.params.program, 
+                program: sessionProgram, 
                 soundsEnabled, 
                 vibrationsEnabled 
               });
@@ -328,29 +510,45 @@ function AppStack() {
           />
         )}
       </Stack.Screen>
-      <Stack.Screen
-        name="complexTraining"
+      <Stack.Screen 
+        name="programImport"
         options={{ headerShown: false }}
-        component={ComplexTrainingWrapper}
-      />
+      >
+        {({ navigation }) => (
+          <ProgramImportScreen
+            onImported={(program) => {
+              saveProgram(program);
+              navigation.replace('programStart', { program });
+            }}
+            onBack={() => navigation.goBack()}
+          />
+        )}
+      </Stack.Screen>
       <Stack.Screen 
-        name="programFinish"
+        name="programBuilder"
         options={{ headerShown: false }}
       >
         {({ navigation, route }) => (
-          <ProgramFinishScreen
-            completionData={route.params.completionData}
-            onDone={() => navigation.navigate('home')}
-            onRepeat={() => {
-              navigation.replace('complexTraining', { 
-                program: route.params.completionData.program,
-                soundsEnabled: true,
-                vibrationsEnabled: true,
-              });
+          <ProgramBuilderScreen
+            program={route.params?.program}
+            onSave={(program) => {
+              saveProgram(program);
+              navigation.goBack();
             }}
+            onBack={() => navigation.goBack()}
           />
         )}
       </Stack.Screen>
+      <Stack.Screen
+        name="complexTraining"
+        options={{ headerShown: false }}
+        component={ComplexTrainingWrapper}
+      />
+      <Stack.Screen
+        name="programFinish"
+        options={{ headerShown: false }}
+        component={ProgramFinishWrapper}
+      />
     </Stack.Navigator>
   );
 }
@@ -383,14 +581,17 @@ function App() {
               <UserProgressProvider>
                 <WorkoutHistoryProvider>
                 <FavoritesProvider>
+                <CustomProgramsProvider>
                   <SessionProvider>
                     <OnboardingProvider>
                       <NavigationContainer>
                         <StatusBar barStyle={colorScheme === 'dark' ? 'light-content' : 'dark-content'} />
                         <RootNavigator />
                       </NavigationContainer>
+                      <AudioCueOutput output={audioOutput} />
                     </OnboardingProvider>
                   </SessionProvider>
+                </CustomProgramsProvider>
                 </FavoritesProvider>
                 </WorkoutHistoryProvider>
               </UserProgressProvider>
@@ -1,3 +1,7 @@
 module.exports = {
   preset: 'react-native',
+  transform: {
+    // Audio cue clips, handled like the preset's image and video assets
+    '^.+\\.wav$': require.resolve('react-native/jest/assetFileTransformer.js'),
+  },
 };
@@ -0,0 +1,238 @@
+import {
+  AudioCueOptions,
+  AudioPlayer,
+  AudioSource,
+  SoundPack,
+  createAudioCueScheduler,
+  resolveCue
+} from '../audio/audioCues';
+import {
+  TrainingEvent,
+  TrainingSessionState,
+  initialTrainingState,
+  selectors,
+  trainingReducer
+} from '../state/trainingStateMachine';
+import { TrainingCue } from '../state/trainingCues';
+import { Program } from '../types/program';
+
+const START_TIME = 1640995200000;
+const TICK_MS = 100;
+
+const TONES: SoundPack['tones'] = {
+  beep: 1,
+  go: 2,
+  tick: 3,
+  chime: 4,
+  alert: 5,
+  rest: 6,
+  switch: 7,
+  fanfare: 8
+};
+
+const TONE_PACK: SoundPack = { id: 'tones', tones: TONES };
+
+const VOICE_PACK: SoundPack = {
+  id: 'voice',
+  tones: TONES,
+  voice: {
+    clips: { three: 101, two: 102, one: 103, go: 104, halfway: 105, finish: 106 },
+    exercises: { squats: 201 }
+  }
+};
+
+const program: Program = {
+  id: 'cues',
+  title: 'Cues',
+  level: 'Beginner',
+  totalActiveSec: 70,
+  totalRestSec: 20,
+  stepsCount: 3,
+  tags: [],
+  steps: [
+    { id: 'squats', type: 'exercise', title: 'Squats', exerciseId: 'squats', durationSec: 40 },
+    { id: 'rest', type: 'rest', title: 'Rest', durationSec: 20 },
+    { id: 'lunges', type: 'exercise', title: 'Lunges', exerciseId: 'lunges', durationSec: 30, perSide: true }
+  ],
+  difficulty: 2,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+// Runs the reducer like the training screen does and records what the scheduler plays
+const createSession = (options: Partial<AudioCueOptions> = {}) => {
+  const played: AudioSource[][] = [];
+  const player: AudioPlayer = { play: sources => played.push(sources), stop: jest.fn() };
+  const scheduler = createAudioCueScheduler(player, {
+    enabled: true,
+    tickEvery10s: false,
+    pack: TONE_PACK,
+    ...options
+  });
+  let state: TrainingSessionState = initialTrainingState;
+  let now = START_TIME;
+  const cues: TrainingCue[][] = [];
+  scheduler.update(state);
+
+  const send = (event: TrainingEvent) => {
+    state = trainingReducer(state, { ...event, at: now } as TrainingEvent);
+    const due = scheduler.update(state);
+    if (due.length > 0) cues.push(due);
+  };
+
+  // Ticks every 100ms with the time left, as useTrainingTimer does
+  const run = (ms: number, tickMs = TICK_MS) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += tickMs) {
+      now += tickMs;
+      if (state.state !== 'running' || state.stepStartTime === null) continue;
+      const spentMs = now - state.stepStartTime - state.pausedDurationMs;
+      const remainingMs = Math.max(0, selectors.getCountdownDurationMs(state) - spentMs);
+      send({ type: 'TICK', remainingMs, stepIndex: state.currentStepIndex });
+    }
+  };
+
+  return { player, scheduler, played, cues, send, run, getState: () => state };
+};
+
+describe('Audio cues', () => {
+  it('counts a lead-in down and names the first exercise as it starts', () => {
+    const session = createSession();
+    session.send({ type: 'START', program, leadInSec: 3 });
+    session.run(3000);
+
+    expect(session.cues).toEqual([
+      [{ type: 'countdown', seconds: 3 }],
+      [{ type: 'countdown', seconds: 2 }],
+      [{ type: 'countdown', seconds: 1 }],
+      [{ type: 'go' }, { type: 'stepName', exerciseId: 'squats' }]
+    ]);
+  });
+
+  it('announces halfway, ten seconds left and the 3-2-1 into the rest', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.run(40000);
+
+    expect(session.cues).toEqual([
+      [{ type: 'go' }, { type: 'stepName', exerciseId: 'squats' }],
+      [{ type: 'halfway' }],
+      [{ type: 'tenSecondsLeft' }],
+      [{ type: 'nextUp' }],
+      [{ type: 'countdown', seconds: 3 }],
+      [{ type: 'countdown', seconds: 2 }],
+      [{ type: 'countdown', seconds: 1 }],
+      [{ type: 'rest' }]
+    ]);
+  });
+
+  it('ticks every 10 seconds only when asked to', () => {
+    const session = createSession({ tickEvery10s: true });
+    session.send({ type: 'START', program });
+    session.run(15000);
+
+    expect(session.cues).toEqual([
+      [{ type: 'go' }, { type: 'stepName', exerciseId: 'squats' }],
+      [{ type: 'tick' }]
+    ]);
+  });
+
+  it('names the exercise when its get ready countdown begins', () => {
+    const session = createSession();
+    session.send({ type: 'START', program, getReadySec: 5 });
+    session.run(5000 + 40000 + 20000);
+    expect(session.cues[session.cues.length - 1]).toEqual([
+      { type: 'getReady' },
+      { type: 'stepName', exerciseId: 'lunges' }
+    ]);
+
+    session.cues.length = 0;
+    session.run(5000);
+
+    expect(session.cues).toEqual([
+      [{ type: 'countdown', seconds: 3 }],
+      [{ type: 'countdown', seconds: 2 }],
+      [{ type: 'countdown', seconds: 1 }],
+      [{ type: 'go' }]
+    ]);
+    expect(session.getState().currentStepIndex).toBe(2);
+  });
+
+  it('cues the switch on per-side steps instead of halfway', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.run(60000);
+    session.cues.length = 0;
+    session.run(16000);
+
+    expect(session.cues).toEqual([[{ type: 'switchSides' }]]);
+  });
+
+  it('skips milestones passed by taking time off', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.run(25000);
+    session.cues.length = 0;
+    session.send({ type: 'ADJUST_TIME', seconds: -10 });
+    session.run(1000);
+
+    expect(session.cues.flat()).not.toContainEqual({ type: 'tenSecondsLeft' });
+    expect(session.getState().remainingMs).toBe(4000);
+  });
+
+  it('plays only the latest milestone after a stall', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.cues.length = 0;
+    session.run(30500, 30500);
+
+    expect(session.cues).toEqual([[{ type: 'tenSecondsLeft' }]]);
+  });
+
+  it('plays the fanfare once when the session finishes', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.run(90000);
+    session.run(1000);
+
+    expect(session.getState().state).toBe('finished');
+    expect(session.cues[session.cues.length - 1]).toEqual([{ type: 'finish' }]);
+    expect(session.cues.filter(cues => cues.some(cue => cue.type === 'finish'))).toHaveLength(1);
+  });
+
+  it('stays quiet when sounds are off', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.scheduler.setOptions({ enabled: false, tickEvery10s: false, pack: TONE_PACK });
+    session.run(40000);
+
+    expect(session.player.stop).toHaveBeenCalledTimes(1);
+    expect(session.played).toEqual([[TONES.go]]);
+  });
+
+  it('sends each update\'s clips to the player together', () => {
+    const session = createSession({ pack: VOICE_PACK });
+    session.send({ type: 'START', program });
+
+    expect(session.played).toEqual([[104, 201]]);
+  });
+});
+
+describe('resolveCue', () => {
+  it('prefers the voice and falls back to tones', () => {
+    expect(resolveCue({ type: 'countdown', seconds: 2 }, VOICE_PACK)).toEqual([102]);
+    expect(resolveCue({ type: 'tenSecondsLeft' }, VOICE_PACK)).toEqual([TONES.alert]);
+    expect(resolveCue({ type: 'countdown', seconds: 2 }, TONE_PACK)).toEqual([TONES.beep]);
+    expect(resolveCue({ type: 'tick' }, VOICE_PACK)).toEqual([TONES.tick]);
+  });
+
+  it('speaks exercise names only from recordings', () => {
+    expect(resolveCue({ type: 'stepName', exerciseId: 'squats' }, VOICE_PACK)).toEqual([201]);
+    expect(resolveCue({ type: 'stepName', exerciseId: 'lunges' }, VOICE_PACK)).toEqual([]);
+    expect(resolveCue({ type: 'stepName', exerciseId: 'squats' }, TONE_PACK)).toEqual([]);
+  });
+
+  it('follows the fanfare with the spoken finish', () => {
+    expect(resolveCue({ type: 'finish' }, VOICE_PACK)).toEqual([TONES.fanfare, 106]);
+    expect(resolveCue({ type: 'finish' }, TONE_PACK)).toEqual([TONES.fanfare]);
+  });
+});
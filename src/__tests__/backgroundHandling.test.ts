@@ -0,0 +1,325 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  InMemoryNotificationAdapter,
+  SNAPSHOT_MAX_AGE_MS,
+  StepBoundary,
+  StepNotificationScheduler,
+  calculateBackgroundRecovery,
+  getStepBoundaries,
+  trainingPersistence
+} from '../utils/backgroundHandling';
+import {
+  TrainingSessionState,
+  initialTrainingState,
+  trainingReducer
+} from '../state/trainingStateMachine';
+import { Program, Step } from '../types/program';
+
+jest.mock('@react-native-async-storage/async-storage', () => {
+  const store = new Map<string, string>();
+  return {
+    getItem: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => { store.set(key, value); }),
+    removeItem: jest.fn(async (key: string) => { store.delete(key); })
+  };
+});
+
+const START_TIME = 1640995200000; // 2022-01-01 00:00:00 UTC
+
+const steps: Step[] = [
+  { id: 'squats', type: 'exercise', title: 'Squats', durationSec: 30 },
+  { id: 'rest_1', type: 'rest', title: 'Rest', durationSec: 10 },
+  { id: 'lunges', type: 'exercise', title: 'Lunges', durationSec: 40, perSide: true },
+  { id: 'pushups', type: 'exercise', title: 'Push-ups', durationSec: 60, mode: 'reps', targetReps: 10 },
+  { id: 'plank', type: 'exercise', title: 'Plank', durationSec: 20 }
+];
+
+const program: Program = {
+  id: 'recovery-test',
+  title: 'Recovery Test',
+  level: 'Beginner',
+  totalActiveSec: 150,
+  totalRestSec: 10,
+  stepsCount: steps.length,
+  tags: [],
+  steps,
+  difficulty: 2,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+const startSession = (): TrainingSessionState =>
+  trainingReducer(initialTrainingState, { type: 'START', program });
+
+const advanceClock = (ms: number) => jest.setSystemTime(Date.now() + ms);
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(START_TIME);
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('calculateBackgroundRecovery', () => {
+  it('keeps the current step when it has not run out', () => {
+    const session = startSession();
+    advanceClock(12000);
+
+    const recovered = calculateBackgroundRecovery(session);
+
+    expect(recovered.currentStepIndex).toBe(0);
+    expect(recovered.remainingMs).toBe(18000);
+    expect(recovered.stepResults).toHaveLength(0);
+  });
+
+  it('advances through every step that finished while away', () => {
+    const session = startSession();
+    advanceClock(45000); // 30s squats, 10s rest, 5s into lunges
+
+    const recovered = calculateBackgroundRecovery(session);
+
+    expect(recovered.currentStepIndex).toBe(2);
+    expect(recovered.stepStartTime).toBe(START_TIME + 40000);
+    expect(recovered.remainingMs).toBe(35000);
+    expect(recovered.totalElapsedMs).toBe(40000);
+    expect(recovered.stepResults.map(result => [result.stepId, result.actualElapsedSec, result.wasSkipped]))
+      .toEqual([['squats', 30, false], ['rest_1', 10, false]]);
+  });
+
+  it('switches sides and closes per-side steps at their planned times', () => {
+    const session = startSession();
+    advanceClock(65000); // 25s into the 40s lunges
+
+    const midStep = calculateBackgroundRecovery(session);
+    expect(midStep.currentStepIndex).toBe(2);
+    expect(midStep.currentSide).toBe('right');
+    expect(midStep.sideResults).toEqual([{ side: 'left', elapsedSec: 20 }]);
+
+    advanceClock(20000);
+    const afterStep = calculateBackgroundRecovery(midStep);
+    expect(afterStep.currentStepIndex).toBe(3);
+    expect(afterStep.stepResults[2].sides).toEqual([
+      { side: 'left', elapsedSec: 20 },
+      { side: 'right', elapsedSec: 20 }
+    ]);
+  });
+
+  it('waits on rep-based steps, which only finish when the user is done', () => {
+    const session = startSession();
+    advanceClock(10 * 60 * 1000);
+
+    const recovered = calculateBackgroundRecovery(session);
+
+    expect(recovered.state).toBe('running');
+    expect(recovered.currentStepIndex).toBe(3);
+    expect(recovered.stepStartTime).toBe(START_TIME + 80000);
+  });
+
+  it('finishes the program when the last step ran out', () => {
+    const session = trainingReducer(
+      { ...startSession(), currentStepIndex: 4, currentStep: steps[4], currentSide: null },
+      { type: 'CATCH_UP' }
+    );
+    advanceClock(25000);
+
+    const recovered = calculateBackgroundRecovery(session);
+
+    expect(recovered.state).toBe('finished');
+    expect(recovered.stepResults[recovered.stepResults.length - 1].actualElapsedSec).toBe(20);
+  });
+
+  it('leaves out time spent paused', () => {
+    let session = startSession();
+    advanceClock(10000);
+    session = trainingReducer(session, { type: 'PAUSE' });
+    advanceClock(60000);
+    session = trainingReducer(session, { type: 'RESUME' });
+    advanceClock(5000);
+
+    const recovered = calculateBackgroundRecovery(session);
+
+    expect(recovered.currentStepIndex).toBe(0);
+    expect(recovered.remainingMs).toBe(15000);
+  });
+
+  it('does not move a paused session', () => {
+    const paused = trainingReducer(startSession(), { type: 'PAUSE' });
+    advanceClock(5 * 60 * 1000);
+
+    expect(calculateBackgroundRecovery(paused)).toBe(paused);
+  });
+});
+
+// Type, seconds from the start and the step index of each boundary
+const summarize = (boundaries: StepBoundary[]) =>
+  boundaries.map(boundary => [boundary.type, (boundary.at - START_TIME) / 1000, boundary.stepIndex]);
+
+describe('getStepBoundaries', () => {
+  it('lists every step end and side switch up to the first rep-based step', () => {
+    const boundaries = getStepBoundaries(startSession());
+
+    expect(summarize(boundaries)).toEqual([
+      ['stepEnd', 30, 0],
+      ['stepEnd', 40, 1],
+      ['switchSides', 60, 2],
+      ['stepEnd', 80, 2]
+    ]);
+    expect(boundaries.map(boundary => boundary.type === 'stepEnd' && boundary.nextStep?.id))
+      .toEqual(['rest_1', 'lunges', false, 'pushups']);
+  });
+
+  it('starts from where the session is now', () => {
+    const session = startSession();
+    advanceClock(45000);
+
+    expect(summarize(getStepBoundaries(session))).toEqual([
+      ['switchSides', 60, 2],
+      ['stepEnd', 80, 2]
+    ]);
+  });
+
+  it('counts the get ready countdown before each exercise', () => {
+    const session = trainingReducer(initialTrainingState, { type: 'START', program, getReadySec: 5 });
+
+    expect(summarize(getStepBoundaries(session))).toEqual([
+      ['stepEnd', 35, 0],
+      ['stepEnd', 45, 1],
+      ['switchSides', 70, 2],
+      ['stepEnd', 90, 2]
+    ]);
+  });
+
+  it('ends with the workout finishing', () => {
+    const session = trainingReducer(
+      { ...startSession(), currentStepIndex: 4, currentStep: steps[4], currentSide: null },
+      { type: 'CATCH_UP' }
+    );
+
+    const boundaries = getStepBoundaries(session);
+
+    expect(summarize(boundaries)).toEqual([['stepEnd', 20, 4]]);
+    expect(boundaries[0].type === 'stepEnd' && boundaries[0].nextStep).toBeNull();
+  });
+
+  it('has none while paused', () => {
+    const paused = trainingReducer(startSession(), { type: 'PAUSE' });
+
+    expect(getStepBoundaries(paused)).toEqual([]);
+  });
+});
+
+describe('StepNotificationScheduler', () => {
+  const describeBoundary = (boundary: StepBoundary) => ({
+    title: boundary.type,
+    body: boundary.step.title
+  });
+
+  const createScheduler = () => {
+    const adapter = new InMemoryNotificationAdapter();
+    return { adapter, scheduler: new StepNotificationScheduler(adapter) };
+  };
+
+  it('schedules the remaining boundaries', async () => {
+    const { adapter, scheduler } = createScheduler();
+
+    await scheduler.reschedule(startSession(), describeBoundary);
+
+    expect(adapter.getScheduled()).toEqual([
+      { id: 'training_stepEnd_0', title: 'stepEnd', body: 'Squats', fireAt: START_TIME + 30000 },
+      { id: 'training_stepEnd_1', title: 'stepEnd', body: 'Rest', fireAt: START_TIME + 40000 },
+      { id: 'training_switchSides_2', title: 'switchSides', body: 'Lunges', fireAt: START_TIME + 60000 },
+      { id: 'training_stepEnd_2', title: 'stepEnd', body: 'Lunges', fireAt: START_TIME + 80000 }
+    ]);
+  });
+
+  it('cancels everything when the app comes back', async () => {
+    const { adapter, scheduler } = createScheduler();
+    await scheduler.reschedule(startSession(), describeBoundary);
+
+    await scheduler.cancelAll();
+
+    expect(adapter.getScheduled()).toEqual([]);
+  });
+
+  it('replaces the schedule rather than adding to it', async () => {
+    const { adapter, scheduler } = createScheduler();
+    const session = startSession();
+    await scheduler.reschedule(session, describeBoundary);
+    advanceClock(35000);
+
+    await scheduler.reschedule(session, describeBoundary);
+
+    expect(adapter.getScheduled().map(notification => notification.id))
+      .toEqual(['training_stepEnd_1', 'training_switchSides_2', 'training_stepEnd_2']);
+  });
+
+  it('clears the schedule on pause and shifts it by the pause on resume', async () => {
+    const { adapter, scheduler } = createScheduler();
+    let session = startSession();
+    await scheduler.reschedule(session, describeBoundary);
+
+    advanceClock(10000);
+    session = trainingReducer(session, { type: 'PAUSE' });
+    await scheduler.reschedule(session, describeBoundary);
+    expect(adapter.getScheduled()).toEqual([]);
+
+    advanceClock(60000);
+    session = trainingReducer(session, { type: 'RESUME' });
+    await scheduler.reschedule(session, describeBoundary);
+    expect(adapter.getScheduled().map(notification => notification.fireAt - START_TIME))
+      .toEqual([90000, 100000, 120000, 140000]);
+  });
+});
+
+describe('TrainingPersistence', () => {
+  afterEach(async () => {
+    await trainingPersistence.clearSnapshot();
+  });
+
+  it('round-trips a running session', async () => {
+    const session = startSession();
+    await trainingPersistence.saveSnapshot(session);
+
+    const snapshot = await trainingPersistence.loadSnapshot();
+
+    expect(snapshot?.session).toEqual(session);
+    expect(snapshot?.savedAt).toBe(START_TIME);
+  });
+
+  it('restores a saved session and catches up on the elapsed time', async () => {
+    await trainingPersistence.saveSnapshot(startSession());
+    advanceClock(35000);
+
+    const snapshot = await trainingPersistence.loadSnapshot();
+    const restored = trainingReducer(initialTrainingState, { type: 'RESTORE', session: snapshot!.session });
+
+    expect(restored.currentStepIndex).toBe(1);
+    expect(restored.remainingMs).toBe(5000);
+  });
+
+  it('does not save sessions that are over', async () => {
+    const finished = { ...startSession(), state: 'finished' as const };
+    await trainingPersistence.saveSnapshot(finished);
+
+    expect(await trainingPersistence.loadSnapshot()).toBeNull();
+  });
+
+  it('drops snapshots too old to resume', async () => {
+    await trainingPersistence.saveSnapshot(startSession());
+    advanceClock(SNAPSHOT_MAX_AGE_MS + 1);
+
+    expect(await trainingPersistence.loadSnapshot()).toBeNull();
+    expect(AsyncStorage.removeItem).toHaveBeenCalled();
+  });
+
+  it('ignores unreadable snapshots', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await AsyncStorage.setItem('@training_session_snapshot', '{not json');
+
+    expect(await trainingPersistence.loadSnapshot()).toBeNull();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  DEFAULT_EXERCISE_MET,
+  DEFAULT_WEIGHT_KG,
+  REST_MET,
+  caloriesForDuration,
+  calculateSessionCalories,
+  estimateProgramCalories,
+  getStepMet
+} from '../utils/calories';
+import { EXERCISE_CATALOG, getExerciseById } from '../data/exerciseCatalog';
+import { Program, Step } from '../types/program';
+import { StepResult } from '../state/trainingStateMachine';
+
+describe('Calorie estimation', () => {
+  const steps: Step[] = [
+    { id: 'step_1', type: 'exercise', title: 'Burpees', exerciseId: 'burpees', durationSec: 60 },
+    { id: 'step_2', type: 'rest', title: 'Rest', durationSec: 30 },
+    { id: 'step_3', type: 'exercise', title: 'Push-ups', exerciseId: 'pushups', durationSec: 60 }
+  ];
+
+  const program: Program = {
+    id: 'calorie-test',
+    title: 'Calorie Test',
+    level: 'Beginner',
+    totalActiveSec: 120,
+    totalRestSec: 30,
+    stepsCount: steps.length,
+    tags: [],
+    steps,
+    difficulty: 3,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z'
+  };
+
+  const result = (stepIndex: number, actualElapsedSec: number): StepResult => ({
+    stepId: steps[stepIndex].id,
+    stepIndex,
+    type: steps[stepIndex].type,
+    plannedDurationSec: steps[stepIndex].durationSec,
+    actualElapsedSec,
+    wasSkipped: false,
+    wasExtended: false,
+    extensionSec: 0
+  });
+
+  it('should give every catalog exercise a positive MET', () => {
+    EXERCISE_CATALOG.forEach(exercise => {
+      expect(exercise.met).toBeGreaterThan(0);
+    });
+  });
+
+  it('should compute MET x body weight x hours', () => {
+    expect(caloriesForDuration(8, 3600, 80)).toBeCloseTo(640);
+    expect(caloriesForDuration(4, 900, 60)).toBeCloseTo(60);
+    expect(caloriesForDuration(4, -10, 60)).toBe(0);
+  });
+
+  it('should fall back to the default weight', () => {
+    expect(caloriesForDuration(6, 3600)).toBeCloseTo(6 * DEFAULT_WEIGHT_KG);
+    expect(caloriesForDuration(6, 3600, 0)).toBeCloseTo(6 * DEFAULT_WEIGHT_KG);
+    expect(caloriesForDuration(6, 3600, null)).toBeCloseTo(6 * DEFAULT_WEIGHT_KG);
+  });
+
+  it('should use catalog METs, rest MET and a default for unknown exercises', () => {
+    expect(getStepMet(steps[0])).toBe(getExerciseById('burpees')!.met);
+    expect(getStepMet(steps[1])).toBe(REST_MET);
+    expect(getStepMet({ id: 'custom', type: 'exercise', title: 'Mystery Move', durationSec: 30 }))
+      .toBe(DEFAULT_EXERCISE_MET);
+  });
+
+  it('should scale the planned estimate with body weight', () => {
+    const light = estimateProgramCalories(steps, 50);
+    const heavy = estimateProgramCalories(steps, 100);
+
+    expect(light).toBeGreaterThan(0);
+    expect(heavy).toBeGreaterThan(light);
+    expect(estimateProgramCalories(steps)).toBe(estimateProgramCalories(steps, DEFAULT_WEIGHT_KG));
+  });
+
+  it('should use the time actually spent on each step', () => {
+    const burpeesMet = getExerciseById('burpees')!.met;
+    const calories = calculateSessionCalories({ program, stepResults: [result(0, 120), result(1, 30)] }, 60);
+
+    expect(calories).toBe(Math.round(
+      caloriesForDuration(burpeesMet, 120, 60) + caloriesForDuration(REST_MET, 30, 60)
+    ));
+  });
+
+  it('should attribute total elapsed time to planned steps when no results were recorded', () => {
+    const burpeesMet = getExerciseById('burpees')!.met;
+    const calories = calculateSessionCalories({ program, totalElapsedMs: 75000 }, 70);
+
+    expect(calories).toBe(Math.round(
+      caloriesForDuration(burpeesMet, 60, 70) + caloriesForDuration(REST_MET, 15, 70)
+    ));
+    expect(calculateSessionCalories({ program })).toBe(0);
+  });
+});
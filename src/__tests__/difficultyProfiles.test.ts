@@ -0,0 +1,70 @@
+import {
+  DIFFICULTY_PROFILES,
+  createDifficultyProgram,
+  getDifficultyStructure
+} from '../utils/difficultyProfiles';
+import { validateProgram } from '../types/program';
+import { Difficulty } from '../state/SessionContext';
+
+describe('Difficulty profiles', () => {
+  const difficulties = Object.keys(DIFFICULTY_PROFILES) as Difficulty[];
+
+  it('should turn a 5 min Hardcore push-up session into an interval program', () => {
+    const program = createDifficultyProgram('pushups', 5, 'Hardcore');
+
+    expect(program.steps.filter(step => step.type === 'exercise')).toHaveLength(5);
+    expect(program.steps.filter(step => step.type === 'rest')).toHaveLength(4);
+    expect(program.steps[0]).toMatchObject({ title: 'Push-ups', durationSec: 50, targetReps: 18 });
+    expect(program.steps[1]).toMatchObject({ type: 'rest', durationSec: 10 });
+    expect(program.level).toBe('Advanced');
+    expect(validateProgram(program).isValid).toBe(true);
+  });
+
+  it('should give harder levels longer work, less rest and more reps', () => {
+    const structures = difficulties.map(difficulty => getDifficultyStructure(difficulty, 600));
+
+    structures.slice(1).forEach((structure, index) => {
+      const easier = structures[index];
+      expect(structure.workSec).toBeGreaterThanOrEqual(easier.workSec);
+      expect(structure.restSec / structure.workSec).toBeLessThanOrEqual(easier.restSec / easier.workSec);
+      expect(structure.targetReps).toBeGreaterThan(easier.targetReps);
+    });
+  });
+
+  it('should fill the chosen length without running over it', () => {
+    difficulties.forEach(difficulty => {
+      [1, 3, 5, 10, 20].forEach(durationMin => {
+        const program = createDifficultyProgram('squats', durationMin, difficulty);
+        const totalSec = program.totalActiveSec + program.totalRestSec;
+        const { workSec, restSec } = getDifficultyStructure(difficulty, durationMin * 60);
+
+        expect(totalSec).toBeLessThanOrEqual(durationMin * 60);
+        expect(durationMin * 60 - totalSec).toBeLessThan(workSec + restSec);
+        expect(validateProgram(program).isValid).toBe(true);
+      });
+    });
+  });
+
+  it('should fit a 1 min Light session into one minute', () => {
+    const program = createDifficultyProgram('squats', 1, 'Light');
+
+    expect(program.totalActiveSec + program.totalRestSec).toBe(30);
+  });
+
+  it('should describe the session in the chosen language', () => {
+    const english = createDifficultyProgram('pushups', 5, 'Hardcore');
+    const russian = createDifficultyProgram('pushups', 2, 'Hardcore', 'ru');
+
+    expect(english.title).toBe('Push-ups - 5 min');
+    expect(english.description).toBe('5 × 50s push-ups with 10s rest');
+    expect(russian.title).toBe('Отжимания — 2 минуты');
+    expect(russian.description).toBe('2 × 50 с: отжимания, отдых 10 с');
+  });
+
+  it('should keep Program.difficulty within 1-5', () => {
+    difficulties.forEach(difficulty => {
+      expect(DIFFICULTY_PROFILES[difficulty].difficulty).toBeGreaterThanOrEqual(1);
+      expect(DIFFICULTY_PROFILES[difficulty].difficulty).toBeLessThanOrEqual(5);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  EXERCISE_CATALOG,
+  FEATURED_EXERCISE_IDS,
+  findExercise,
+  getExerciseById,
+  getExerciseTitle,
+  getStepEquipment
+} from '../data/exerciseCatalog';
+import { MOCK_LIBRARY_SECTIONS, MOCK_WORKOUTS } from '../data/mockLibraryData';
+import { SAMPLE_PROGRAMS } from '../data/samplePrograms';
+import { validateProgram } from '../types/program';
+
+describe('Exercise catalog', () => {
+  it('should have unique ids and complete entries', () => {
+    const ids = EXERCISE_CATALOG.map(exercise => exercise.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    EXERCISE_CATALOG.forEach(exercise => {
+      expect(exercise.id).toMatch(/^[a-z0-9]+(-[a-z0-9]+)*$/);
+      expect(exercise.equipment.length).toBeGreaterThan(0);
+      expect(exercise.instructions.length).toBeGreaterThan(0);
+      expect(exercise.hints.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('should resolve ids, titles and legacy animation refs', () => {
+    expect(findExercise('push_ups')?.id).toBe('pushups');
+    expect(findExercise('Plank Hold')?.id).toBe('plank');
+    expect(findExercise('Bodyweight Squats')?.id).toBe('squats');
+    expect(findExercise('kb-swings')?.id).toBe('kettlebell-swing');
+    expect(findExercise('unknown-move')).toBeUndefined();
+    expect(getExerciseTitle('unknown-move')).toBe('Custom Exercise');
+  });
+
+  it('should list featured exercises that exist', () => {
+    FEATURED_EXERCISE_IDS.forEach(id => expect(getExerciseById(id)).toBeDefined());
+  });
+
+  it('should cover every library workout exercise', () => {
+    const sectionItems = MOCK_LIBRARY_SECTIONS.flatMap(section => section.items as object[]);
+    const exerciseIds = [...MOCK_WORKOUTS, ...sectionItems].flatMap(item =>
+      'exercises' in item ? (item as { exercises: string[] }).exercises : []
+    );
+
+    expect(exerciseIds.length).toBeGreaterThan(0);
+    expect(exerciseIds.filter(id => !getExerciseById(id))).toEqual([]);
+  });
+
+  it('should reference catalog entries from every sample exercise step', () => {
+    SAMPLE_PROGRAMS.flatMap(program => program.steps).forEach(step => {
+      if (step.type === 'exercise') {
+        expect(getExerciseById(step.exerciseId)).toBeDefined();
+      }
+    });
+  });
+
+  it('should reject steps with unknown exercise ids', () => {
+    const [program] = SAMPLE_PROGRAMS;
+    const steps = program.steps.map((step, index) =>
+      index === 0 && step.type === 'exercise' ? { ...step, exerciseId: 'moonwalk' } : step
+    );
+
+    expect(validateProgram({ ...program, steps }).errors).toEqual([
+      expect.stringContaining('unknown exercise: moonwalk')
+    ]);
+  });
+
+  it('should leave bodyweight out of step equipment', () => {
+    expect(getStepEquipment(getExerciseById('pushups')!)).toEqual([]);
+    expect(getStepEquipment(getExerciseById('barbell-bench-press')!)).toEqual(['barbell', 'bench']);
+  });
+});
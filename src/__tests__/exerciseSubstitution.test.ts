@@ -0,0 +1,58 @@
+import { getSubstitutes, substituteStep } from '../utils/exerciseSubstitution';
+import { getExerciseById } from '../data/exerciseCatalog';
+import { ExerciseStep } from '../types/program';
+
+describe('Exercise substitution', () => {
+  const step = (fields: Partial<ExerciseStep>): ExerciseStep => ({
+    id: 'step_1',
+    type: 'exercise',
+    title: 'Exercise',
+    durationSec: 40,
+    ...fields
+  });
+
+  it('should offer alternatives that share a primary muscle', () => {
+    const source = getExerciseById('pushups')!;
+    const substitutes = getSubstitutes(step({ exerciseId: 'pushups' }));
+
+    expect(substitutes.length).toBeGreaterThan(0);
+    expect(substitutes.map(exercise => exercise.id)).not.toContain('pushups');
+    substitutes.forEach(exercise => {
+      expect(exercise.primaryMuscles.some(muscle => source.primaryMuscles.includes(muscle))).toBe(true);
+    });
+  });
+
+  it('should not require equipment the original did not use', () => {
+    getSubstitutes(step({ exerciseId: 'squats' }), 20).forEach(exercise => {
+      expect(exercise.equipment).toEqual(['none']);
+    });
+    expect(getSubstitutes(step({ exerciseId: 'barbell-squat' }), 20).map(exercise => exercise.id))
+      .toEqual(expect.arrayContaining(['squats', 'romanian-deadlift']));
+  });
+
+  it('should not add impact for exercises that had none', () => {
+    getSubstitutes(step({ exerciseId: 'lunges' }), 20).forEach(exercise => {
+      expect(exercise.highImpact).toBeFalsy();
+    });
+  });
+
+  it('should resolve legacy steps by animation ref and ignore unknown ones', () => {
+    expect(getSubstitutes(step({ animationRef: 'push_ups' })).length).toBeGreaterThan(0);
+    expect(getSubstitutes(step({ title: 'Moonwalk' }))).toEqual([]);
+  });
+
+  it('should keep the step timing and targets when substituting', () => {
+    const original = step({ exerciseId: 'goblet-squat', mode: 'reps', targetReps: 10, loadKg: 16 });
+
+    expect(substituteStep(original, getExerciseById('squats')!)).toEqual({
+      ...original,
+      loadKg: undefined,
+      title: 'Squats',
+      exerciseId: 'squats',
+      animationRef: 'squats',
+      description: 'Knees track over toes. Chest up',
+      equipment: []
+    });
+    expect(substituteStep(original, getExerciseById('dumbbell-row')!).loadKg).toBe(16);
+  });
+});
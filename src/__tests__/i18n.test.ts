@@ -0,0 +1,127 @@
+import {
+  formatDate,
+  formatNumber,
+  getPluralCategory,
+  translate
+} from '../i18n/translate';
+import { en } from '../i18n/catalogs/en';
+import { ru } from '../i18n/catalogs/ru';
+import { getLocalizedExerciseTitle, localizeProgram } from '../i18n/content';
+import { FULL_BODY_EXPRESS, SAMPLE_PROGRAMS } from '../data/samplePrograms';
+import { createPlannedProgram } from '../utils/weeklyPlan';
+
+describe('Message catalogs', () => {
+  it('translates every English key into Russian', () => {
+    expect(Object.keys(ru).sort()).toEqual(Object.keys(en).sort());
+  });
+
+  it('gives Russian plurals the one, few and many forms', () => {
+    Object.entries(en).forEach(([key, message]) => {
+      if (typeof message === 'string') return;
+      const forms = ru[key as keyof typeof en];
+      expect(typeof forms).toBe('object');
+      expect(Object.keys(forms)).toEqual(expect.arrayContaining(['one', 'few', 'many', 'other']));
+    });
+  });
+});
+
+describe('translate', () => {
+  it('picks Russian plural categories', () => {
+    expect(getPluralCategory('ru', 1)).toBe('one');
+    expect(getPluralCategory('ru', 2)).toBe('few');
+    expect(getPluralCategory('ru', 5)).toBe('many');
+    expect(getPluralCategory('ru', 11)).toBe('many');
+    expect(getPluralCategory('ru', 21)).toBe('one');
+    expect(getPluralCategory('ru', 22)).toBe('few');
+    expect(getPluralCategory('ru', 112)).toBe('many');
+    expect(getPluralCategory('ru', 1.5)).toBe('other');
+  });
+
+  it('picks English plural categories', () => {
+    expect(getPluralCategory('en', 1)).toBe('one');
+    expect(getPluralCategory('en', 0)).toBe('other');
+    expect(getPluralCategory('en', 2)).toBe('other');
+  });
+
+  it('formats plural messages with the count', () => {
+    expect(translate('ru', 'common.minutes', { count: 1 })).toBe('1 минута');
+    expect(translate('ru', 'common.minutes', { count: 3 })).toBe('3 минуты');
+    expect(translate('ru', 'common.minutes', { count: 5 })).toBe('5 минут');
+    expect(translate('en', 'common.reps', { count: 1 })).toBe('1 rep');
+    expect(translate('en', 'common.reps', { count: 12 })).toBe('12 reps');
+  });
+
+  it('interpolates named parameters', () => {
+    expect(translate('en', 'programFinish.step', { number: 3 })).toBe('Step 3');
+    expect(translate('en', 'common.kg', { value: 20 })).toBe('20 kg');
+  });
+
+  it('leaves unknown parameters in place', () => {
+    expect(translate('en', 'programFinish.step')).toBe('Step {number}');
+  });
+
+  it('falls back to the key for unknown messages', () => {
+    expect(translate('ru', 'missing.key' as never)).toBe('missing.key');
+  });
+});
+
+describe('Locale formatting', () => {
+  it('groups numbers the Russian way', () => {
+    expect(formatNumber('en', 12345)).toBe('12,345');
+    expect(formatNumber('ru', 12345)).toMatch(/^12\s345$/);
+  });
+
+  it('formats dates in the chosen locale', () => {
+    const date = new Date(2024, 0, 15);
+    expect(formatDate('en', date)).toContain('Jan');
+    expect(formatDate('ru', date)).toContain('янв');
+  });
+});
+
+describe('Content localization', () => {
+  it('leaves English programs untouched', () => {
+    expect(localizeProgram('en', FULL_BODY_EXPRESS)).toBe(FULL_BODY_EXPRESS);
+  });
+
+  it('translates sample program titles and catalog steps', () => {
+    const localized = localizeProgram('ru', FULL_BODY_EXPRESS);
+
+    expect(localized.title).toBe('Экспресс на всё тело');
+    expect(localized.steps.map(step => step.id)).toEqual(FULL_BODY_EXPRESS.steps.map(step => step.id));
+    expect(localized.steps.find(step => step.type === 'exercise' && step.exerciseId === 'pushups')?.title).toBe('Отжимания');
+    expect(localized.steps.filter(step => step.type === 'rest').every(step => step.title === 'Rest')).toBe(true);
+  });
+
+  it('is idempotent', () => {
+    SAMPLE_PROGRAMS.forEach(program => {
+      const once = localizeProgram('ru', program);
+      expect(localizeProgram('ru', once)).toEqual(once);
+    });
+  });
+
+  it('translates the text of generated plan programs', () => {
+    const profile = { goals: [], equipment: [], locations: [] };
+    const programs = (['lower', 'full', 'conditioning', 'mobility'] as const).map(focus =>
+      localizeProgram('ru', createPlannedProgram(profile, 'wednesday', focus))
+    );
+
+    expect(programs.map(program => program.title)).toEqual([
+      'Сила низа тела',
+      'Сила всего тела',
+      'Круговая на выносливость',
+      'Мобильность'
+    ]);
+    expect(programs[0].description).toBe('Среда · по вашим целям и инвентарю');
+    programs.forEach(program => {
+      program.steps.forEach(step => {
+        if (step.type === 'rest' && step.tip) expect(step.tip).not.toMatch(/[a-z]/i);
+      });
+    });
+  });
+
+  it('looks up exercise titles by id', () => {
+    expect(getLocalizedExerciseTitle('ru', 'burpees', 'Burpees')).toBe('Бёрпи');
+    expect(getLocalizedExerciseTitle('ru', 'unknown', 'Custom')).toBe('Custom');
+    expect(getLocalizedExerciseTitle('en', 'burpees', 'Burpees')).toBe('Burpees');
+  });
+});
@@ -0,0 +1,103 @@
+import { createIntervalProgram, INTERVAL_FORMATS } from '../utils/intervalPrograms';
+import { validateProgram } from '../types/program';
+
+describe('Interval program generator', () => {
+  it('should produce a valid program for every format', () => {
+    INTERVAL_FORMATS.forEach(format => {
+      const program = createIntervalProgram({
+        format,
+        exerciseIds: ['pushups', 'squats'],
+        level: 'Intermediate'
+      });
+
+      expect(validateProgram(program)).toEqual({ isValid: true, errors: [] });
+      expect(program.estimatedCalories).toBeGreaterThan(0);
+    });
+  });
+
+  it('should carry the equipment of the chosen exercises', () => {
+    const tabata = createIntervalProgram({ format: 'tabata', exerciseIds: ['basic-jump', 'pushups'], level: 'Beginner' });
+    const amrap = createIntervalProgram({ format: 'amrap', exerciseIds: ['basic-jump', 'pushups'], level: 'Beginner' });
+
+    expect(tabata.steps[0]).toMatchObject({ equipment: ['jump-rope'] });
+    expect(tabata.steps[2]).toMatchObject({ equipment: [] });
+    expect(amrap.steps[0]).toMatchObject({ equipment: ['jump-rope'] });
+  });
+
+  it('should build Tabata as 8 rounds of 20s work and 10s rest', () => {
+    const program = createIntervalProgram({ format: 'tabata', exerciseIds: ['burpees'], level: 'Advanced' });
+    const work = program.steps.filter(step => step.type === 'exercise');
+    const rest = program.steps.filter(step => step.type === 'rest');
+
+    expect(work).toHaveLength(8);
+    expect(rest).toHaveLength(7); // No rest after the last interval
+    expect(work.every(step => step.durationSec === 20)).toBe(true);
+    expect(rest.every(step => step.durationSec === 10)).toBe(true);
+    expect(program.totalActiveSec).toBe(160);
+    expect(program.steps[2].blockPath).toEqual([
+      { blockId: 'tabata', blockType: 'rounds', title: 'Tabata', round: 2, totalRounds: 8 }
+    ]);
+  });
+
+  it('should alternate exercises between intervals', () => {
+    const program = createIntervalProgram({ format: 'tabata', exerciseIds: ['pushups', 'squats'], level: 'Beginner' });
+    const titles = program.steps.filter(step => step.type === 'exercise').map(step => step.title);
+
+    expect(titles.slice(0, 4)).toEqual(['Push-ups', 'Squats', 'Push-ups', 'Squats']);
+  });
+
+  it('should build EMOM as one minute per round with a rep target', () => {
+    const program = createIntervalProgram({
+      format: 'emom',
+      exerciseIds: ['squats'],
+      level: 'Beginner',
+      durationMin: 12
+    });
+
+    expect(program.steps).toHaveLength(12);
+    expect(program.steps.every(step => step.durationSec === 60)).toBe(true);
+    expect(program.steps[0]).toMatchObject({ targetReps: 10 });
+    expect(program.title).toBe('EMOM 12 min');
+  });
+
+  it('should build AMRAP as a single step with a round counter', () => {
+    const program = createIntervalProgram({
+      format: 'amrap',
+      exerciseIds: ['pushups', 'lunges'],
+      level: 'Intermediate',
+      durationMin: 15
+    });
+
+    expect(program.steps).toHaveLength(1);
+    expect(program.steps[0]).toMatchObject({
+      durationSec: 900,
+      roundCounter: true,
+      description: '10 Push-ups · 10 Lunges'
+    });
+  });
+
+  it('should write titles and descriptions in the chosen language', () => {
+    const emom = createIntervalProgram({ format: 'emom', exerciseIds: ['pushups'], level: 'Beginner', durationMin: 5 }, 'ru');
+    const amrap = createIntervalProgram({ format: 'amrap', exerciseIds: ['pushups'], level: 'Beginner', durationMin: 21 }, 'ru');
+
+    expect(emom.title).toBe('EMOM 5 минут');
+    expect(emom.description).toBe('Каждую минуту в начале минуты: Отжимания');
+    expect(emom.steps[0]).toMatchObject({ description: 'Отжимания × 10, остаток минуты — отдых' });
+    expect(amrap.title).toBe('AMRAP 21 минута');
+  });
+
+  it('should use custom work, rest and rounds for HIIT', () => {
+    const program = createIntervalProgram({
+      format: 'hiit',
+      exerciseIds: ['jumping-jacks'],
+      level: 'Intermediate',
+      workSec: 45,
+      restSec: 15,
+      rounds: 5
+    });
+
+    expect(program.totalActiveSec).toBe(225);
+    expect(program.totalRestSec).toBe(60);
+    expect(program.stepsCount).toBe(9);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  MAX_WORK_WITHOUT_REST_SEC,
+  analyzeProgram,
+  getIntensityScore,
+  getSuggestedDifficulty
+} from '../utils/programAnalyzer';
+import { SAMPLE_PROGRAMS } from '../data/samplePrograms';
+import { DIFFICULTY_PROFILES, createDifficultyProgram } from '../utils/difficultyProfiles';
+import { INTERVAL_FORMATS, createIntervalProgram } from '../utils/intervalPrograms';
+import { generateWeeklyPlan } from '../utils/weeklyPlan';
+import { applyWarmupCooldown } from '../utils/warmupCooldown';
+import { DEFAULT_ONBOARDING_PROFILE } from '../types/onboarding';
+import { Difficulty } from '../state/SessionContext';
+import { Program, Step, calculateStepTotals } from '../types/program';
+
+describe('Program analyzer', () => {
+  const makeProgram = (steps: Step[]): Program => ({
+    id: 'analyzer-test',
+    title: 'Analyzer Test',
+    level: 'Intermediate',
+    ...calculateStepTotals(steps),
+    tags: [],
+    steps,
+    difficulty: 3,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z'
+  });
+
+  const exercise = (id: string, exerciseId: string, durationSec: number = 40): Step => ({
+    id,
+    type: 'exercise',
+    title: exerciseId,
+    exerciseId,
+    durationSec
+  });
+
+  const rest = (id: string, durationSec: number = 20): Step => ({ id, type: 'rest', title: 'Rest', durationSec });
+
+  const codes = (program: Program) => analyzeProgram(program).issues.map(issue => issue.code);
+
+  describe('bundled programs', () => {
+    const bundled: Program[] = [
+      ...SAMPLE_PROGRAMS,
+      ...SAMPLE_PROGRAMS.map(program => applyWarmupCooldown(program, { warmup: true, cooldown: true })),
+      ...(Object.keys(DIFFICULTY_PROFILES) as Difficulty[]).map(difficulty =>
+        createDifficultyProgram('pushups', 10, difficulty)
+      ),
+      ...INTERVAL_FORMATS.map(format =>
+        createIntervalProgram({ format, exerciseIds: ['burpees', 'squats'], level: 'Intermediate', durationMin: 12 })
+      ),
+      ...generateWeeklyPlan({
+        ...DEFAULT_ONBOARDING_PROFILE,
+        goals: ['muscle', 'fat_loss', 'mobility'],
+        workoutDays: ['monday', 'wednesday', 'friday', 'saturday']
+      }).workouts.map(workout => workout.program)
+    ];
+
+    it.each(bundled.map(program => [program.title, program] as const))('%s has no errors', (_, program) => {
+      const errors = analyzeProgram(program).issues.filter(issue => issue.severity === 'error');
+
+      expect(errors).toEqual([]);
+    });
+  });
+
+  it('should report validateProgram errors', () => {
+    const program = { ...makeProgram([exercise('a', 'pushups')]), stepsCount: 5 };
+    const analysis = analyzeProgram(program);
+
+    expect(analysis.hasErrors).toBe(true);
+    expect(codes(program)).toContain('invalid-program');
+  });
+
+  it('should reject duplicate step ids', () => {
+    const program = makeProgram([exercise('a', 'pushups'), rest('r'), exercise('a', 'squats')]);
+    const analysis = analyzeProgram(program);
+
+    expect(analysis.hasErrors).toBe(true);
+    expect(analysis.issues).toEqual([expect.objectContaining({ code: 'duplicate-step-id', stepIndex: 2 })]);
+  });
+
+  it('should warn about back-to-back rests', () => {
+    const program = makeProgram([exercise('a', 'pushups'), rest('r1'), rest('r2'), exercise('b', 'squats')]);
+
+    expect(codes(program)).toEqual(['consecutive-rests']);
+    expect(analyzeProgram(program).hasErrors).toBe(false);
+  });
+
+  it('should warn about long work with no rest', () => {
+    const blockSec = MAX_WORK_WITHOUT_REST_SEC / 2 + 30;
+    const long = makeProgram([exercise('a', 'pushups', blockSec), exercise('b', 'squats', blockSec), rest('r')]);
+    const split = makeProgram([exercise('a', 'pushups', blockSec), rest('r'), exercise('b', 'squats', blockSec)]);
+
+    expect(codes(long)).toEqual(['long-work-without-rest']);
+    expect(codes(split)).toEqual([]);
+  });
+
+  it('should not count mobility moves as work', () => {
+    const program = makeProgram([
+      exercise('a', 'hip-circles', MAX_WORK_WITHOUT_REST_SEC),
+      exercise('b', 'cat-cow', MAX_WORK_WITHOUT_REST_SEC)
+    ]);
+
+    expect(codes(program)).toEqual([]);
+  });
+
+  it('should warn when consecutive exercises hit the same muscle group', () => {
+    const program = makeProgram([exercise('a', 'squats'), exercise('b', 'lunges'), exercise('c', 'pushups')]);
+    const issues = analyzeProgram(program).issues;
+
+    expect(issues).toEqual([expect.objectContaining({ code: 'same-muscle-back-to-back', stepIndex: 0 })]);
+    expect(issues[0].message).toContain('quads');
+    expect(issues[0].muscles).toContain('quads');
+    expect(issues[0].params).toMatchObject({ first: 1, second: 2 });
+  });
+
+  it('should score intensity from MET and rest', () => {
+    const hard = [exercise('a', 'burpees', 60), rest('r', 10)];
+    const easy = [exercise('a', 'plank', 30), rest('r', 60)];
+
+    expect(getIntensityScore(hard)).toBeGreaterThan(getIntensityScore(easy));
+    expect(getIntensityScore([])).toBe(0);
+    expect(getIntensityScore([rest('r')])).toBe(0);
+  });
+
+  it('should map the intensity score onto difficulty 1-5', () => {
+    expect(getSuggestedDifficulty(0)).toBe(1);
+    expect(getSuggestedDifficulty(39)).toBe(2);
+    expect(getSuggestedDifficulty(60)).toBe(4);
+    expect(getSuggestedDifficulty(100)).toBe(5);
+  });
+
+  it('should break down the muscle balance', () => {
+    const analysis = analyzeProgram(makeProgram([exercise('a', 'pushups'), rest('r'), exercise('b', 'squats')]));
+    const muscleTotal = Object.values(analysis.muscleBalance).reduce((sum, share) => sum + share, 0);
+    const { upper, lower, core } = analysis.regionBalance;
+
+    expect(muscleTotal).toBeCloseTo(1);
+    expect(upper + lower + core).toBeCloseTo(1);
+    expect(analysis.muscleBalance.chest).toBeGreaterThan(0);
+    expect(analysis.muscleBalance.quads).toBeGreaterThan(0);
+    expect(upper).toBeCloseTo(lower, 1);
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  buildProgram,
+  expandProgramItems,
+  validateProgram,
+  ProgramItem
+} from '../types/program';
+import { trainingReducer, selectors, initialTrainingState } from '../state/trainingStateMachine';
+import { FOUR_ROUND_CIRCUIT } from '../data/samplePrograms';
+
+const baseProgram = {
+  id: 'prog_blocks_test',
+  title: 'Blocks Test',
+  level: 'Beginner' as const,
+  tags: [],
+  difficulty: 2,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+const circuit: ProgramItem[] = [
+  {
+    type: 'rounds',
+    id: 'circuit',
+    rounds: 3,
+    restBetweenRoundsSec: 20,
+    items: [
+      { id: 'squats', type: 'exercise', title: 'Squats', durationSec: 30 },
+      { id: 'rest', type: 'rest', title: 'Rest', durationSec: 10 },
+      { id: 'pushups', type: 'exercise', title: 'Push-ups', durationSec: 20 }
+    ]
+  }
+];
+
+describe('Program blocks', () => {
+  describe('expandProgramItems', () => {
+    it('should repeat rounds and insert rest between rounds', () => {
+      const steps = expandProgramItems(circuit);
+
+      // 3 rounds x 3 steps + 2 between-round rests
+      expect(steps).toHaveLength(11);
+      expect(steps.map(step => step.id).slice(0, 4)).toEqual([
+        'squats_r1',
+        'rest_r1',
+        'pushups_r1',
+        'circuit_rest_1'
+      ]);
+      expect(steps[steps.length - 1].id).toBe('pushups_r3');
+    });
+
+    it('should attach round metadata to each expanded step', () => {
+      const steps = expandProgramItems(circuit);
+
+      expect(steps[4].blockPath).toEqual([
+        { blockId: 'circuit', blockType: 'rounds', title: undefined, round: 2, totalRounds: 3 }
+      ]);
+    });
+
+    it('should expand supersets nested in rounds with both block levels', () => {
+      const steps = expandProgramItems([
+        {
+          type: 'rounds',
+          id: 'outer',
+          rounds: 2,
+          items: [
+            {
+              type: 'superset',
+              id: 'ss',
+              sets: 2,
+              exercises: [
+                { id: 'a', type: 'exercise', title: 'A', durationSec: 10 },
+                { id: 'b', type: 'exercise', title: 'B', durationSec: 10 }
+              ]
+            }
+          ]
+        }
+      ]);
+
+      expect(steps).toHaveLength(8);
+      expect(steps[0].id).toBe('a_s1_r1');
+      expect(steps[7].id).toBe('b_s2_r2');
+      expect(steps[7].blockPath?.map(info => info.blockType)).toEqual(['rounds', 'superset']);
+    });
+
+    it('should pass plain steps through unchanged', () => {
+      const step = { id: 'solo', type: 'exercise' as const, title: 'Solo', durationSec: 15 };
+      expect(expandProgramItems([step])).toEqual([step]);
+    });
+  });
+
+  describe('buildProgram', () => {
+    it('should derive steps and totals from blocks', () => {
+      const program = buildProgram(baseProgram, circuit);
+
+      expect(program.stepsCount).toBe(11);
+      expect(program.totalActiveSec).toBe(150);
+      expect(program.totalRestSec).toBe(70);
+      expect(validateProgram(program).isValid).toBe(true);
+    });
+
+    it('should produce a valid built-in circuit', () => {
+      expect(validateProgram(FOUR_ROUND_CIRCUIT)).toEqual({ isValid: true, errors: [] });
+    });
+  });
+
+  describe('validateProgram with blocks', () => {
+    it('should reject invalid round counts', () => {
+      const program = buildProgram(baseProgram, [{ ...circuit[0], rounds: 0 } as ProgramItem]);
+      const result = validateProgram(program);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Block 1 (circuit) has invalid rounds: 0');
+    });
+
+    it('should detect steps out of sync with blocks', () => {
+      const program = buildProgram(baseProgram, circuit);
+      const result = validateProgram({ ...program, steps: program.steps.slice().reverse() });
+
+      expect(result.errors).toContain('Steps are out of sync with program blocks');
+    });
+  });
+
+  describe('getBlockLabel selector', () => {
+    it('should show the current round during training', () => {
+      const program = buildProgram(baseProgram, circuit);
+      let state = trainingReducer(initialTrainingState, { type: 'START', program });
+      expect(selectors.getBlockLabel(state)).toBe('Round 1/3');
+
+      for (let i = 0; i < 4; i++) {
+        state = trainingReducer(state, { type: 'TICK', remainingMs: 0 });
+      }
+      expect(selectors.getBlockLabel(state)).toBe('Round 2/3');
+    });
+  });
+});
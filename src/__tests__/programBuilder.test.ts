@@ -0,0 +1,84 @@
+import {
+  assembleProgram,
+  createEmptyDraft,
+  createExerciseStep,
+  createRestStep,
+  draftFromProgram,
+  duplicateStep,
+  moveStep,
+  removeStep,
+  updateStep
+} from '../utils/programBuilder';
+import { validateProgram } from '../types/program';
+import { getExerciseById } from '../data/exerciseCatalog';
+
+describe('Program builder', () => {
+  const pushups = getExerciseById('pushups')!;
+  const squats = getExerciseById('squats')!;
+
+  const buildSteps = () => [createExerciseStep(pushups), createRestStep(), createExerciseStep(squats)];
+
+  it('should create exercise steps from catalog exercises', () => {
+    const step = createExerciseStep(pushups);
+
+    expect(step.type).toBe('exercise');
+    expect(step.title).toBe('Push-ups');
+    expect(step.exerciseId).toBe('pushups');
+    expect(step.animationRef).toBe('pushups');
+    expect(step.equipment).toEqual([]);
+    expect(step.description).toBe('Keep back straight. Even breathing');
+  });
+
+  it('should reorder steps and ignore moves past either end', () => {
+    const steps = buildSteps();
+
+    expect(moveStep(steps, 0, 1).map(s => s.id)).toEqual([steps[1].id, steps[0].id, steps[2].id]);
+    expect(moveStep(steps, 0, -1)).toBe(steps);
+    expect(moveStep(steps, 2, 1)).toBe(steps);
+  });
+
+  it('should duplicate a step right after the original with a new id', () => {
+    const steps = buildSteps();
+    const duplicated = duplicateStep(steps, 0);
+
+    expect(duplicated).toHaveLength(4);
+    expect(duplicated[1].title).toBe(steps[0].title);
+    expect(duplicated[1].id).not.toBe(steps[0].id);
+  });
+
+  it('should update and remove steps', () => {
+    const steps = updateStep(buildSteps(), 1, { durationSec: 45, tip: 'Hydrate' });
+
+    expect(steps[1]).toMatchObject({ durationSec: 45, tip: 'Hydrate' });
+    expect(removeStep(steps, 1).map(s => s.type)).toEqual(['exercise', 'exercise']);
+  });
+
+  it('should assemble a valid program with computed totals', () => {
+    const now = new Date('2026-01-01T00:00:00.000Z');
+    const program = assembleProgram({ ...createEmptyDraft(), title: '  Morning  ', steps: buildSteps() }, now);
+
+    expect(program.title).toBe('Morning');
+    expect(program.totalActiveSec).toBe(60);
+    expect(program.totalRestSec).toBe(15);
+    expect(program.stepsCount).toBe(3);
+    expect(program.tags).toContain('Custom');
+    expect(program.createdAt).toBe(now.toISOString());
+    expect(validateProgram(program).isValid).toBe(true);
+  });
+
+  it('should keep id and creation date when re-saving an edited program', () => {
+    const original = assembleProgram(
+      { ...createEmptyDraft(), title: 'Mine', steps: buildSteps() },
+      new Date('2026-01-01T00:00:00.000Z')
+    );
+    const edited = assembleProgram(
+      { ...draftFromProgram(original), steps: removeStep(original.steps, 1) },
+      new Date('2026-02-01T00:00:00.000Z')
+    );
+
+    expect(edited.id).toBe(original.id);
+    expect(edited.createdAt).toBe(original.createdAt);
+    expect(edited.updatedAt).toBe('2026-02-01T00:00:00.000Z');
+    expect(edited.totalRestSec).toBe(0);
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  importProgramFromJSON,
+  exportProgramToJSON,
+  formatProgramJSONError
+} from '../utils/programJson';
+import { SAMPLE_PROGRAMS, FULL_BODY_EXPRESS } from '../data/samplePrograms';
+
+describe('Program JSON import/export', () => {
+  it('should round-trip every built-in program', () => {
+    SAMPLE_PROGRAMS.forEach(program => {
+      const result = importProgramFromJSON(exportProgramToJSON(program));
+
+      expect(result.errors).toEqual([]);
+      expect(result.program).toEqual(program);
+    });
+  });
+
+  it('should report malformed JSON', () => {
+    const result = importProgramFromJSON('{ "id": ');
+
+    expect(result.program).toBeNull();
+    expect(result.errors[0].message).toMatch(/^Invalid JSON/);
+  });
+
+  it('should point at the bad field inside a step', () => {
+    const data = JSON.parse(exportProgramToJSON(FULL_BODY_EXPRESS));
+    data.steps[2].durationSec = 0;
+
+    const result = importProgramFromJSON(JSON.stringify(data));
+
+    expect(result.program).toBeNull();
+    expect(result.errors).toContainEqual({ path: 'steps[2].durationSec', message: 'must be >= 1, got 0' });
+  });
+
+  it('should report missing required fields and unknown fields', () => {
+    const data = JSON.parse(exportProgramToJSON(FULL_BODY_EXPRESS));
+    delete data.title;
+    data.steps[0].reps = 10;
+
+    const messages = importProgramFromJSON(JSON.stringify(data)).errors.map(formatProgramJSONError);
+
+    expect(messages).toContain('title is required');
+    expect(messages).toContain('steps[0].reps is not an allowed field');
+  });
+
+  it('should report unknown step types', () => {
+    const data = JSON.parse(exportProgramToJSON(FULL_BODY_EXPRESS));
+    data.steps[1].type = 'pause';
+
+    const result = importProgramFromJSON(JSON.stringify(data));
+
+    expect(result.errors[0].path).toBe('steps[1]');
+    expect(result.errors[0].message).toMatch(/unknown type "pause"/);
+  });
+
+  it('should accept stopwatch steps and check their target time', () => {
+    const data = JSON.parse(exportProgramToJSON(FULL_BODY_EXPRESS));
+    Object.assign(data.steps[2], { mode: 'stopwatch', targetSec: 90 });
+
+    expect(importProgramFromJSON(JSON.stringify(data)).program?.steps[2]).toMatchObject({
+      mode: 'stopwatch',
+      targetSec: 90
+    });
+
+    data.steps[2].targetSec = 0;
+
+    expect(importProgramFromJSON(JSON.stringify(data)).errors).toContainEqual({
+      path: 'steps[2].targetSec',
+      message: 'must be >= 1, got 0'
+    });
+  });
+
+  it('should surface validateProgram errors such as wrong totals', () => {
+    const data = JSON.parse(exportProgramToJSON(FULL_BODY_EXPRESS));
+    data.totalActiveSec = 999;
+
+    const result = importProgramFromJSON(JSON.stringify(data));
+
+    expect(result.errors).toEqual([
+      { path: '', message: 'Total active time mismatch: declared 999s, actual 205s' }
+    ]);
+  });
+
+  it('should build steps and totals from blocks when steps are omitted', () => {
+    const json = JSON.stringify({
+      id: 'coach_circuit',
+      title: 'Coach Circuit',
+      level: 'Beginner',
+      tags: ['Circuit'],
+      blocks: [
+        {
+          type: 'rounds',
+          id: 'c',
+          rounds: 2,
+          items: [
+            { id: 'sq', type: 'exercise', title: 'Squats', durationSec: 30 },
+            { id: 'r', type: 'rest', title: 'Rest', durationSec: 15 }
+          ]
+        }
+      ]
+    });
+
+    const { program, errors } = importProgramFromJSON(json);
+
+    expect(errors).toEqual([]);
+    expect(program?.stepsCount).toBe(4);
+    expect(program?.totalActiveSec).toBe(60);
+    expect(program?.totalRestSec).toBe(30);
+    expect(program?.difficulty).toBe(2);
+  });
+
+  it('should report malformed blocks instead of expanding them', () => {
+    const importBlocks = (blocks: unknown[]) =>
+      importProgramFromJSON(JSON.stringify({ id: 'coach', title: 'Coach', level: 'Beginner', tags: [], blocks }));
+
+    const missingItems = importBlocks([{ type: 'rounds', id: 'r', rounds: 2 }]);
+    expect(missingItems.program).toBeNull();
+    expect(missingItems.errors).toContainEqual({ path: 'blocks[0].items', message: 'is required' });
+
+    const missingExercises = importBlocks([{ type: 'superset', id: 's', sets: 3 }]);
+    expect(missingExercises.errors).toContainEqual({ path: 'blocks[0].exercises', message: 'is required' });
+
+    const nullBlock = importBlocks([null]);
+    expect(nullBlock.program).toBeNull();
+    expect(nullBlock.errors[0].path).toBe('blocks[0]');
+  });
+});
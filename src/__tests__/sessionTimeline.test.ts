@@ -0,0 +1,151 @@
+import {
+  TimelineRecording,
+  findReplayMismatch,
+  getTimeline,
+  recordEvent,
+  replayTimeline,
+  startRecording
+} from '../state/sessionTimeline';
+import {
+  TrainingEvent,
+  initialTrainingState,
+  selectors
+} from '../state/trainingStateMachine';
+import { Program } from '../types/program';
+
+const START_TIME = 1640995200000;
+const TICK_MS = 100;
+
+const program: Program = {
+  id: 'timeline',
+  title: 'Timeline',
+  level: 'Beginner',
+  totalActiveSec: 50,
+  totalRestSec: 10,
+  stepsCount: 3,
+  tags: [],
+  steps: [
+    { id: 'squats', type: 'exercise', title: 'Squats', durationSec: 20 },
+    { id: 'rest', type: 'rest', title: 'Rest', durationSec: 10 },
+    { id: 'lunges', type: 'exercise', title: 'Lunges', durationSec: 30, perSide: true }
+  ],
+  difficulty: 2,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+// Records a session driven like the training screen drives it
+const createSession = () => {
+  let recording: TimelineRecording = startRecording({ ...initialTrainingState, soundsEnabled: false });
+  let now = START_TIME;
+  let ticks = 0;
+
+  const send = (event: TrainingEvent) => {
+    recording = recordEvent(recording, { ...event, at: now } as TrainingEvent);
+  };
+
+  const run = (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += TICK_MS) {
+      now += TICK_MS;
+      const state = recording.session;
+      if (state.state !== 'running' || state.stepStartTime === null) continue;
+      const spentMs = now - state.stepStartTime - state.pausedDurationMs;
+      const remainingMs = Math.max(0, selectors.getCountdownDurationMs(state) - spentMs);
+      ticks++;
+      send({ type: 'TICK', remainingMs, stepIndex: state.currentStepIndex });
+    }
+  };
+
+  return { send, run, getRecording: () => recording, getTicks: () => ticks };
+};
+
+describe('Session timeline', () => {
+  it('keeps every event but the ticks that only move the countdown', () => {
+    const session = createSession();
+    session.send({ type: 'START', program, getReadySec: 5 });
+    session.run(12000);
+    session.send({ type: 'PAUSE' });
+    session.run(3000);
+    session.send({ type: 'RESUME' });
+    session.run(60000);
+
+    const { entries } = getTimeline(session.getRecording());
+    const types = entries.map(entry => entry.event.type);
+
+    expect(session.getRecording().session.state).toBe('finished');
+    expect(types.filter(type => type !== 'TICK')).toEqual(['START', 'PAUSE', 'RESUME']);
+    expect(types.filter(type => type === 'TICK').length).toBeLessThan(session.getTicks() / 20);
+    expect(entries[entries.length - 1].summary).toMatchObject({ state: 'finished', stepResults: 3 });
+  });
+
+  it('replays to the exact session, time adjustments included', () => {
+    const session = createSession();
+    session.send({ type: 'START', program, leadInSec: 3 });
+    session.run(8000);
+    session.send({ type: 'ADJUST_TIME', seconds: 10 });
+    session.run(4300);
+    session.send({ type: 'ADJUST_TIME', seconds: -5 });
+    session.run(9000);
+    session.send({ type: 'SKIP_REST' });
+    session.run(1200);
+    session.send({ type: 'PREVIOUS_STEP' });
+    session.run(80000);
+
+    const recording = session.getRecording();
+    const timeline = getTimeline(recording);
+
+    expect(recording.session.state).toBe('finished');
+    expect(replayTimeline(timeline)).toEqual(recording.session);
+    expect(findReplayMismatch(timeline)).toBeNull();
+  });
+
+  it('replays part of the way', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.run(25000);
+
+    const timeline = getTimeline(session.getRecording());
+    const restStart = timeline.entries.findIndex(entry => entry.summary.stepIndex === 1);
+
+    expect(replayTimeline(timeline, restStart + 1).currentStep?.id).toBe('rest');
+  });
+
+  it('ends with the latest tick while the session is still going', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.run(4000);
+
+    const timeline = getTimeline(session.getRecording());
+
+    expect(timeline.entries.map(entry => entry.event.type)).toEqual(['START', 'TICK']);
+    expect(replayTimeline(timeline)).toEqual(session.getRecording().session);
+  });
+
+  it('points at the first event that no longer replays as recorded', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.run(35000);
+
+    // As if the reducer had moved on differently when the session was recorded
+    const timeline = getTimeline(session.getRecording());
+    const tampered = {
+      ...timeline,
+      entries: timeline.entries.map((entry, index) =>
+        index === 2 ? { ...entry, summary: { ...entry.summary, stepIndex: 2 } } : entry
+      )
+    };
+
+    expect(findReplayMismatch(tampered)).toBe(2);
+  });
+
+  it('stamps events that arrive without a time', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(START_TIME);
+
+    const recording = recordEvent(startRecording(initialTrainingState), { type: 'START', program });
+
+    expect(recording.entries[0].at).toBe(START_TIME);
+    expect(recording.entries[0].event.at).toBe(START_TIME);
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,236 @@
+import React, { useReducer } from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import { DEFAULT_TICK_INTERVAL_MS, TimerTick, createTimerEngine, monotonicNow } from '../timer/timerEngine';
+import { useTrainingTimer } from '../hooks/useTrainingTimer';
+import {
+  TrainingEvent,
+  TrainingSessionState,
+  initialTrainingState,
+  trainingReducer
+} from '../state/trainingStateMachine';
+import { Program, Step } from '../types/program';
+
+const TEN_MINUTES_MS = 10 * 60 * 1000;
+const DRIFT_TOLERANCE_MS = 200;
+
+// Deterministic timer latency between 0 and 45ms, like a busy JS thread
+const delayTimers = () => {
+  let seed = 7;
+  const fakeSetTimeout = globalThis.setTimeout;
+  jest.spyOn(globalThis, 'setTimeout').mockImplementation(((callback: () => void, ms?: number) => {
+    seed = (seed * 16807) % 2147483647;
+    return fakeSetTimeout(callback, (ms ?? 0) + (seed % 46));
+  }) as typeof setTimeout);
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  jest.useRealTimers();
+});
+
+describe('Timer engine', () => {
+  it('stays on schedule over 10 minutes of late callbacks', () => {
+    delayTimers();
+    const ticks: TimerTick[] = [];
+    const engine = createTimerEngine({}, { onTick: tick => ticks.push(tick) });
+    const startedAt = monotonicNow();
+
+    engine.start();
+    jest.advanceTimersByTime(TEN_MINUTES_MS);
+
+    const lastTick = ticks[ticks.length - 1];
+    expect(Math.abs(lastTick.elapsedMs - TEN_MINUTES_MS)).toBeLessThanOrEqual(DRIFT_TOLERANCE_MS);
+    expect(Math.abs(ticks.length - TEN_MINUTES_MS / DEFAULT_TICK_INTERVAL_MS)).toBeLessThanOrEqual(2);
+    expect(engine.getElapsedMs()).toBe(monotonicNow() - startedAt);
+    expect(engine.getTelemetry().maxDriftMs).toBeLessThan(DEFAULT_TICK_INTERVAL_MS);
+    engine.reset();
+  });
+
+  it('catches up in one tick after the JS thread stalls', () => {
+    const ticks: TimerTick[] = [];
+    let now = 0;
+    const engine = createTimerEngine({ now: () => now }, { onTick: tick => ticks.push(tick) });
+
+    engine.start();
+    now = 2550; // Blocked well past the first slot
+    jest.advanceTimersByTime(DEFAULT_TICK_INTERVAL_MS);
+
+    expect(ticks).toEqual([{ elapsedMs: 2550, deltaMs: 2550, missedTicks: 24 }]);
+    expect(engine.getTelemetry()).toMatchObject({ ticks: 1, missedTicks: 24, lastDriftMs: 2450 });
+    engine.reset();
+  });
+
+  it('ignores wall clock changes', () => {
+    const engine = createTimerEngine({}, {});
+
+    engine.start();
+    jest.advanceTimersByTime(5000);
+    jest.setSystemTime(Date.now() - 60 * 60 * 1000);
+    jest.advanceTimersByTime(5000);
+
+    expect(engine.getElapsedMs()).toBe(10000);
+    engine.reset();
+  });
+
+  it('leaves paused time out of the elapsed time', () => {
+    const onTick = jest.fn();
+    const engine = createTimerEngine({}, { onTick });
+
+    engine.start();
+    jest.advanceTimersByTime(3000);
+    engine.pause();
+    const ticksWhilePaused = onTick.mock.calls.length;
+    jest.advanceTimersByTime(60000);
+    expect(onTick).toHaveBeenCalledTimes(ticksWhilePaused);
+
+    engine.resume();
+    jest.advanceTimersByTime(2000);
+    expect(engine.getElapsedMs()).toBe(5000);
+    engine.reset();
+  });
+
+  it('emits a tick on demand', () => {
+    const onTick = jest.fn();
+    const engine = createTimerEngine({}, { onTick });
+
+    engine.tick();
+    expect(onTick).not.toHaveBeenCalled();
+
+    engine.start();
+    jest.advanceTimersByTime(50);
+    engine.tick();
+    expect(onTick).toHaveBeenCalledWith({ elapsedMs: 50, deltaMs: 50, missedTicks: 0 });
+    engine.reset();
+  });
+});
+
+describe('useTrainingTimer', () => {
+  // Twenty 30 second steps: exactly 10 minutes
+  const steps: Step[] = Array.from({ length: 20 }, (_, index) => (
+    index % 2 === 0
+      ? { id: `work_${index}`, type: 'exercise' as const, title: 'Squats', durationSec: 30 }
+      : { id: `rest_${index}`, type: 'rest' as const, title: 'Rest', durationSec: 30 }
+  ));
+  const program: Program = {
+    id: 'ten-minutes',
+    title: 'Ten Minutes',
+    level: 'Beginner',
+    totalActiveSec: 300,
+    totalRestSec: 300,
+    stepsCount: steps.length,
+    tags: [],
+    steps,
+    difficulty: 2,
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z'
+  };
+
+  let session: TrainingSessionState = initialTrainingState;
+  let send: (event: TrainingEvent) => void = () => {};
+
+  const Session = () => {
+    const [state, dispatch] = useReducer(trainingReducer, initialTrainingState);
+    useTrainingTimer(state, dispatch);
+    session = state;
+    send = dispatch;
+    return null;
+  };
+
+  const advance = (ms: number) => {
+    ReactTestRenderer.act(() => {
+      jest.advanceTimersByTime(ms);
+    });
+  };
+
+  it('finishes a 10 minute session within the drift budget', () => {
+    delayTimers();
+    let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+    ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<Session />);
+    });
+    ReactTestRenderer.act(() => send({ type: 'START', program }));
+
+    // Advance in small slices so every step change renders like it would on a device
+    for (let elapsed = 0; elapsed < TEN_MINUTES_MS - DRIFT_TOLERANCE_MS; elapsed += 50) {
+      advance(50);
+    }
+    expect(session.state).toBe('running');
+    expect(session.currentStepIndex).toBe(steps.length - 1);
+
+    advance(2 * DRIFT_TOLERANCE_MS);
+    expect(session.state).toBe('finished');
+    expect(session.stepResults).toHaveLength(steps.length);
+    expect(Math.abs(session.totalElapsedMs - TEN_MINUTES_MS)).toBeLessThanOrEqual(DRIFT_TOLERANCE_MS);
+
+    ReactTestRenderer.act(() => renderer?.unmount());
+  });
+
+  it('runs countdowns into steps on the same schedule', () => {
+    delayTimers();
+    let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+    ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<Session />);
+    });
+    // A 3 second lead-in, then 5 seconds to get ready before each of the ten exercises
+    ReactTestRenderer.act(() => send({ type: 'START', program, leadInSec: 3, getReadySec: 5 }));
+    const sessionMs = 3000 + 9 * 5000 + TEN_MINUTES_MS;
+
+    for (let elapsed = 0; elapsed < sessionMs - DRIFT_TOLERANCE_MS; elapsed += 50) {
+      advance(50);
+    }
+    expect(session.state).toBe('running');
+
+    advance(2 * DRIFT_TOLERANCE_MS);
+    expect(session.state).toBe('finished');
+    expect(Math.abs(session.totalElapsedMs - TEN_MINUTES_MS)).toBeLessThanOrEqual(DRIFT_TOLERANCE_MS);
+    expect(Math.abs(session.totalTransitionMs - 48000)).toBeLessThanOrEqual(DRIFT_TOLERANCE_MS);
+
+    ReactTestRenderer.act(() => renderer?.unmount());
+  });
+
+  it('keeps counting down through a pause without losing time', () => {
+    let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+    ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<Session />);
+    });
+    ReactTestRenderer.act(() => send({ type: 'START', program }));
+
+    advance(10000);
+    ReactTestRenderer.act(() => send({ type: 'PAUSE' }));
+    advance(60000);
+    ReactTestRenderer.act(() => send({ type: 'RESUME' }));
+    advance(5000);
+
+    expect(session.currentStepIndex).toBe(0);
+    expect(session.remainingMs).toBe(15000);
+
+    ReactTestRenderer.act(() => renderer?.unmount());
+  });
+
+  it('keeps time added to a step and restarts steps from the top', () => {
+    let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+    ReactTestRenderer.act(() => {
+      renderer = ReactTestRenderer.create(<Session />);
+    });
+    ReactTestRenderer.act(() => send({ type: 'START', program }));
+
+    advance(10000);
+    ReactTestRenderer.act(() => send({ type: 'ADJUST_TIME', seconds: 15 }));
+    advance(30000);
+
+    expect(session.currentStepIndex).toBe(0);
+    expect(session.remainingMs).toBe(5000);
+
+    ReactTestRenderer.act(() => send({ type: 'RESTART_STEP' }));
+    advance(1000);
+
+    expect(session.currentStepIndex).toBe(0);
+    expect(session.remainingMs).toBe(29000);
+
+    ReactTestRenderer.act(() => renderer?.unmount());
+  });
+});
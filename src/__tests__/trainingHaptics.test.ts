@@ -0,0 +1,119 @@
+import {
+  DEFAULT_TRAINING_HAPTICS,
+  HapticPlayer,
+  TRAINING_HAPTIC_PATTERNS,
+  TrainingHapticEvent,
+  TrainingHapticsOptions,
+  createTrainingHaptics
+} from '../utils/trainingHaptics';
+import {
+  TrainingEvent,
+  TrainingSessionState,
+  initialTrainingState,
+  selectors,
+  trainingReducer
+} from '../state/trainingStateMachine';
+import { Program } from '../types/program';
+
+const START_TIME = 1640995200000;
+const TICK_MS = 100;
+
+const program: Program = {
+  id: 'haptics',
+  title: 'Haptics',
+  level: 'Beginner',
+  totalActiveSec: 50,
+  totalRestSec: 10,
+  stepsCount: 3,
+  tags: [],
+  steps: [
+    { id: 'squats', type: 'exercise', title: 'Squats', exerciseId: 'squats', durationSec: 20 },
+    { id: 'rest', type: 'rest', title: 'Rest', durationSec: 10 },
+    { id: 'lunges', type: 'exercise', title: 'Lunges', exerciseId: 'lunges', durationSec: 30, perSide: true }
+  ],
+  difficulty: 2,
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z'
+};
+
+// Runs the reducer like the training screen does and records each pattern played
+const createSession = (options: Partial<TrainingHapticsOptions> = {}) => {
+  const player: HapticPlayer = { vibrate: jest.fn(), cancel: jest.fn() };
+  const haptics = createTrainingHaptics(player, {
+    enabled: true,
+    events: DEFAULT_TRAINING_HAPTICS,
+    ...options
+  });
+  let state: TrainingSessionState = initialTrainingState;
+  let now = START_TIME;
+  const events: TrainingHapticEvent[] = [];
+  haptics.update(state);
+
+  const send = (event: TrainingEvent) => {
+    state = trainingReducer(state, { ...event, at: now } as TrainingEvent);
+    const played = haptics.update(state);
+    if (played) events.push(played);
+  };
+
+  const run = (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += TICK_MS) {
+      now += TICK_MS;
+      if (state.state !== 'running' || state.stepStartTime === null) continue;
+      const spentMs = now - state.stepStartTime - state.pausedDurationMs;
+      const remainingMs = Math.max(0, selectors.getCountdownDurationMs(state) - spentMs);
+      send({ type: 'TICK', remainingMs, stepIndex: state.currentStepIndex });
+    }
+  };
+
+  return { player, haptics, events, send, run, getState: () => state };
+};
+
+describe('Training haptics', () => {
+  it('plays a named pattern for each training event', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.run(20000 + 10000 + 30000 + 100);
+
+    expect(session.getState().state).toBe('finished');
+    expect(session.events).toEqual([
+      'stepStart',
+      'nextUp', 'countdown', 'countdown', 'countdown',
+      'stepStart',
+      'nextUp', 'countdown', 'countdown', 'countdown',
+      'stepStart',
+      'switchSides',
+      'nextUp', 'countdown', 'countdown', 'countdown',
+      'workoutComplete'
+    ]);
+    expect(session.player.vibrate).toHaveBeenLastCalledWith(TRAINING_HAPTIC_PATTERNS.workoutComplete);
+  });
+
+  it('leaves out events that are switched off', () => {
+    const session = createSession({
+      events: { ...DEFAULT_TRAINING_HAPTICS, nextUp: false, countdown: false }
+    });
+    session.send({ type: 'START', program });
+    session.run(20000);
+
+    expect(session.events).toEqual(['stepStart', 'stepStart']);
+  });
+
+  it('buzzes for the get ready countdown and again when the exercise starts', () => {
+    const session = createSession();
+    session.send({ type: 'START', program, getReadySec: 5 });
+    session.run(5000);
+
+    expect(session.events).toEqual(['nextUp', 'countdown', 'countdown', 'countdown', 'stepStart']);
+  });
+
+  it('stays still when haptics are off', () => {
+    const session = createSession();
+    session.send({ type: 'START', program });
+    session.haptics.setOptions({ enabled: false, events: DEFAULT_TRAINING_HAPTICS });
+    session.run(20000);
+
+    expect(session.player.cancel).toHaveBeenCalledTimes(1);
+    expect(session.player.vibrate).toHaveBeenCalledTimes(1);
+    expect(session.events).toEqual(['stepStart']);
+  });
+});
@@ -1,17 +1,15 @@
-import { trainingReducer, selectors, TrainingSessionState } from '../state/trainingStateMachine';
+import {
+  TrainingEvent,
+  TrainingSessionState,
+  applyStepLog,
+  selectors,
+  trainingReducer
+} from '../state/trainingStateMachine';
 import { FULL_BODY_EXPRESS } from '../data/samplePrograms';
+import { Program } from '../types/program';
 
-// Mock Date.now for consistent testing
-const mockNow = 1640995200000; // 2022-01-01 00:00:00 UTC
-const originalDateNow = Date.now;
-
-beforeEach(() => {
-  Date.now = jest.fn(() => mockNow);
-});
-
-afterEach(() => {
-  Date.now = originalDateNow;
-});
+// Events carry their own timestamps, so no test depends on the real clock
+const START_TIME = 1640995200000; // 2022-01-01 00:00:00 UTC
 
 describe('Training State Machine', () => {
   const initialState: TrainingSessionState = {
@@ -24,10 +22,20 @@ describe('Training State Machine', () => {
     stepStartTime: null,
     pausedAt: null,
     pausedDurationMs: 0,
+    extensionMs: 0,
+    transition: null,
+    transitionMs: 0,
+    totalTransitionMs: 0,
+    leadInSec: 0,
+    getReadySec: 0,
     showNextUpBanner: false,
     nextUpStep: null,
     isLastStep: false,
     stepResults: [],
+    roundsCompleted: 0,
+    substitution: null,
+    currentSide: null,
+    sideResults: [],
     soundsEnabled: true,
     vibrationsEnabled: true,
     error: null
@@ -35,7 +43,7 @@ describe('Training State Machine', () => {
 
   describe('START event', () => {
     it('should initialize the first step correctly', () => {
-      const action = { type: 'START' as const, program: FULL_BODY_EXPRESS };
+      const action = { type: 'START' as const, program: FULL_BODY_EXPRESS, at: START_TIME };
       const newState = trainingReducer(initialState, action);
 
       expect(newState.state).toBe('running');
@@ -43,7 +51,7 @@ describe('Training State Machine', () => {
       expect(newState.currentStepIndex).toBe(0);
       expect(newState.currentStep).toBe(FULL_BODY_EXPRESS.steps[0]);
       expect(newState.remainingMs).toBe(FULL_BODY_EXPRESS.steps[0].durationSec * 1000);
-      expect(newState.stepStartTime).toBe(mockNow);
+      expect(newState.stepStartTime).toBe(START_TIME);
       expect(newState.nextUpStep).toBe(FULL_BODY_EXPRESS.steps[1]);
       expect(newState.isLastStep).toBe(false);
     });
@@ -151,15 +159,16 @@ describe('Training State Machine', () => {
     beforeEach(() => {
       runningState = trainingReducer(initialState, {
         type: 'START',
-        program: FULL_BODY_EXPRESS
+        program: FULL_BODY_EXPRESS,
+        at: START_TIME
       });
     });
 
     it('should pause from running state', () => {
-      const pausedState = trainingReducer(runningState, { type: 'PAUSE' });
+      const pausedState = trainingReducer(runningState, { type: 'PAUSE', at: START_TIME });
 
       expect(pausedState.state).toBe('paused');
-      expect(pausedState.pausedAt).toBe(mockNow);
+      expect(pausedState.pausedAt).toBe(START_TIME);
     });
 
     it('should not pause from non-running state', () => {
@@ -170,12 +179,8 @@ describe('Training State Machine', () => {
     });
 
     it('should resume from paused state', () => {
-      const pausedState = trainingReducer(runningState, { type: 'PAUSE' });
-      
-      // Simulate 5 seconds pause
-      Date.now = jest.fn(() => mockNow + 5000);
-      
-      const resumedState = trainingReducer(pausedState, { type: 'RESUME' });
+      const pausedState = trainingReducer(runningState, { type: 'PAUSE', at: START_TIME });
+      const resumedState = trainingReducer(pausedState, { type: 'RESUME', at: START_TIME + 5000 });
 
       expect(resumedState.state).toBe('running');
       expect(resumedState.pausedAt).toBe(null);
@@ -218,36 +223,544 @@ describe('Training State Machine', () => {
     });
   });
 
-  describe('ADD_TEN_SECONDS event', () => {
-    it('should add 10 seconds to rest step', () => {
-      const programWithRest = {
-        ...FULL_BODY_EXPRESS,
-        steps: [
-          { id: 'rest', type: 'rest' as const, title: 'Rest', durationSec: 30 }
-        ]
-      };
+  describe('ADJUST_TIME event', () => {
+    const programWithRest: Program = {
+      ...FULL_BODY_EXPRESS,
+      steps: [
+        { id: 'rest', type: 'rest', title: 'Rest', durationSec: 30 },
+        FULL_BODY_EXPRESS.steps[0]
+      ]
+    };
 
+    it('should add time to a rest step', () => {
       let state = trainingReducer(initialState, {
         type: 'START',
         program: programWithRest
       });
 
       const originalRemaining = state.remainingMs;
-      state = trainingReducer(state, { type: 'ADD_TEN_SECONDS' });
+      state = trainingReducer(state, { type: 'ADJUST_TIME', seconds: 10 });
 
       expect(state.remainingMs).toBe(originalRemaining + 10000);
+      expect(state.extensionMs).toBe(10000);
+    });
+
+    it('should add and take off time on an exercise step', () => {
+      let state = trainingReducer(initialState, {
+        type: 'START',
+        program: FULL_BODY_EXPRESS,
+        at: START_TIME
+      });
+      const durationMs = FULL_BODY_EXPRESS.steps[0].durationSec * 1000;
+
+      state = trainingReducer(state, { type: 'ADJUST_TIME', seconds: 20, at: START_TIME });
+      state = trainingReducer(state, { type: 'ADJUST_TIME', seconds: -5, at: START_TIME });
+
+      expect(state.remainingMs).toBe(durationMs + 15000);
+      expect(selectors.getStepDurationMs(state)).toBe(durationMs + 15000);
+    });
+
+    it('should keep the extension through ticks and record it in the result', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: programWithRest, at: START_TIME });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 20000, at: START_TIME + 10000 });
+      state = trainingReducer(state, { type: 'ADJUST_TIME', seconds: 10, at: START_TIME + 10000 });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 29900, at: START_TIME + 10100 });
+
+      expect(state.remainingMs).toBe(29900);
+      expect(state.extensionMs).toBe(10000);
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 40000 });
+
+      expect(state.currentStepIndex).toBe(1);
+      expect(state.extensionMs).toBe(0);
+      expect(state.stepResults[0]).toMatchObject({
+        actualElapsedSec: 40,
+        wasExtended: true,
+        extensionSec: 10
+      });
+    });
+
+    it('should count a step that catches up after an extension at its new length', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: programWithRest, at: START_TIME });
+      state = trainingReducer(state, { type: 'ADJUST_TIME', seconds: 10, at: START_TIME });
+      state = trainingReducer(state, { type: 'CATCH_UP', at: START_TIME + 35000 });
+
+      expect(state.currentStepIndex).toBe(0);
+      expect(state.remainingMs).toBe(5000);
+    });
+
+    it('should record time taken off as a negative extension', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: programWithRest, at: START_TIME });
+      state = trainingReducer(state, { type: 'ADJUST_TIME', seconds: -10, at: START_TIME });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 20000 });
+
+      expect(state.stepResults[0]).toMatchObject({
+        actualElapsedSec: 20,
+        wasExtended: false,
+        extensionSec: -10
+      });
+    });
+
+    it('should not take off more time than is left', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: programWithRest });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 4000 });
+      state = trainingReducer(state, { type: 'ADJUST_TIME', seconds: -10 });
+
+      expect(state.remainingMs).toBe(0);
+      expect(state.extensionMs).toBe(-4000);
+    });
+
+    it('should not adjust rep-based steps', () => {
+      const repProgram = {
+        ...FULL_BODY_EXPRESS,
+        steps: [{ id: 'reps', type: 'exercise' as const, mode: 'reps' as const, title: 'Push-ups', durationSec: 40, targetReps: 12 }]
+      };
+      const runningState = trainingReducer(initialState, { type: 'START', program: repProgram });
+
+      expect(trainingReducer(runningState, { type: 'ADJUST_TIME', seconds: 10 })).toBe(runningState);
+    });
+  });
+
+  describe('PREVIOUS_STEP and RESTART_STEP events', () => {
+    const [work, rest, nextWork] = FULL_BODY_EXPRESS.steps;
+    const threeStepProgram = { ...FULL_BODY_EXPRESS, steps: [work, rest, nextWork], stepsCount: 3 };
+    const workMs = work.durationSec * 1000;
+
+    const startOnRest = () => {
+      let state = trainingReducer(initialState, { type: 'START', program: threeStepProgram, at: START_TIME });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + workMs });
+      return trainingReducer(state, { type: 'TICK', remainingMs: 5000, at: START_TIME + workMs + 5000 });
+    };
+
+    it('should restart the current step from the top', () => {
+      let state = startOnRest();
+      state = trainingReducer(state, { type: 'ADJUST_TIME', seconds: 10, at: START_TIME + workMs + 5000 });
+      state = trainingReducer(state, { type: 'RESTART_STEP', at: START_TIME + workMs + 8000 });
+
+      expect(state.currentStepIndex).toBe(1);
+      expect(state.stepStartTime).toBe(START_TIME + workMs + 8000);
+      expect(state.remainingMs).toBe(rest.durationSec * 1000);
+      expect(state.extensionMs).toBe(0);
+      expect(state.stepResults).toHaveLength(1);
+      expect(state.totalElapsedMs).toBe(workMs + 8000);
+    });
+
+    it('should go back to the previous step and drop its result', () => {
+      let state = startOnRest();
+      state = trainingReducer(state, { type: 'PREVIOUS_STEP', at: START_TIME + workMs + 8000 });
+
+      expect(state.currentStepIndex).toBe(0);
+      expect(state.currentStep).toBe(work);
+      expect(state.nextUpStep).toBe(rest);
+      expect(state.stepStartTime).toBe(START_TIME + workMs + 8000);
+      expect(state.remainingMs).toBe(workMs);
+      expect(state.stepResults).toHaveLength(0);
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 2 * workMs + 8000 });
+
+      expect(state.stepResults.map(result => result.stepIndex)).toEqual([0]);
+      expect(state.stepResults[0].actualElapsedSec).toBe(work.durationSec);
+    });
+
+    it('should bring back the swap made on the previous step', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: threeStepProgram });
+      state = trainingReducer(state, {
+        type: 'SWAP_EXERCISE',
+        step: { id: 'x', type: 'exercise', exerciseId: 'squats', title: 'Squats', durationSec: work.durationSec }
+      });
+      state = trainingReducer(state, { type: 'NEXT_STEP' });
+      state = trainingReducer(state, { type: 'PREVIOUS_STEP' });
+
+      expect(state.currentStep?.title).toBe('Squats');
+      expect(state.substitution?.toTitle).toBe('Squats');
+    });
+
+    it('should restart the first step when there is nothing before it', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: threeStepProgram, at: START_TIME });
+      state = trainingReducer(state, { type: 'PREVIOUS_STEP', at: START_TIME + 3000 });
+
+      expect(state.currentStepIndex).toBe(0);
+      expect(state.stepStartTime).toBe(START_TIME + 3000);
+    });
+
+    it('should stay paused when moving while paused', () => {
+      let state = startOnRest();
+      state = trainingReducer(state, { type: 'PAUSE', at: START_TIME + workMs + 5000 });
+      state = trainingReducer(state, { type: 'PREVIOUS_STEP', at: START_TIME + workMs + 65000 });
+
+      expect(state.state).toBe('paused');
+      expect(state.totalElapsedMs).toBe(workMs + 5000);
+
+      state = trainingReducer(state, { type: 'RESUME', at: START_TIME + workMs + 70000 });
+      state = trainingReducer(state, { type: 'CATCH_UP', at: START_TIME + workMs + 80000 });
+
+      expect(state.remainingMs).toBe(workMs - 10000);
+    });
+
+    it('should restart per-side steps on the first side', () => {
+      const sideStep = { id: 'side_plank', type: 'exercise' as const, title: 'Side Plank', durationSec: 60, perSide: true };
+      let state = trainingReducer(initialState, {
+        type: 'START',
+        program: { ...FULL_BODY_EXPRESS, steps: [sideStep] },
+        at: START_TIME
+      });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 25000, at: START_TIME + 35000 });
+      expect(state.currentSide).toBe('right');
+
+      state = trainingReducer(state, { type: 'RESTART_STEP', at: START_TIME + 35000 });
+
+      expect(state.currentSide).toBe('left');
+      expect(state.sideResults).toEqual([]);
+    });
+  });
+
+  describe('COMPLETE_REPS event', () => {
+    const repProgram = {
+      ...FULL_BODY_EXPRESS,
+      steps: [
+        { id: 'reps', type: 'exercise' as const, mode: 'reps' as const, title: 'Push-ups', durationSec: 40, targetReps: 12 },
+        FULL_BODY_EXPRESS.steps[1]
+      ]
+    };
+
+    it('should not finish a rep-based step when its estimate runs out', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: repProgram });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0 });
+
+      expect(state.currentStepIndex).toBe(0);
+      expect(state.stepResults).toHaveLength(0);
+      expect(state.showNextUpBanner).toBe(false);
+    });
+
+    it('should record actual reps and elapsed time when the user taps Done', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: repProgram, at: START_TIME });
+      state = trainingReducer(state, { type: 'COMPLETE_REPS', actualReps: 10, at: START_TIME + 52000 });
+
+      expect(state.currentStepIndex).toBe(1);
+      expect(state.stepResults[0]).toMatchObject({
+        stepId: 'reps',
+        actualReps: 10,
+        actualElapsedSec: 52,
+        wasSkipped: false
+      });
+    });
+
+    it('should default actual reps to the target', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: repProgram });
+      state = trainingReducer(state, { type: 'COMPLETE_REPS' });
+
+      expect(state.stepResults[0].actualReps).toBe(12);
+    });
+
+    it('should ignore COMPLETE_REPS on timed steps', () => {
+      const runningState = trainingReducer(initialState, {
+        type: 'START',
+        program: FULL_BODY_EXPRESS
+      });
+
+      const newState = trainingReducer(runningState, { type: 'COMPLETE_REPS', actualReps: 5 });
+
+      expect(newState).toBe(runningState);
+    });
+  });
+
+  describe('STOP_STOPWATCH event', () => {
+    const stopwatchProgram = (fields: object = {}) => ({
+      ...FULL_BODY_EXPRESS,
+      steps: [
+        { id: 'plank', type: 'exercise' as const, mode: 'stopwatch' as const, title: 'Max Plank', durationSec: 60, ...fields },
+        FULL_BODY_EXPRESS.steps[1]
+      ]
+    });
+
+    it('should keep counting past its estimate until stopped', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: stopwatchProgram(), at: START_TIME });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 90000 });
+      state = trainingReducer(state, { type: 'CATCH_UP', at: START_TIME + 120000 });
+
+      expect(state.currentStepIndex).toBe(0);
+      expect(state.stepResults).toHaveLength(0);
+      expect(selectors.getStepElapsedMs(state, START_TIME + 120000)).toBe(120000);
+    });
+
+    it('should record the achieved time when the user stops it', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: stopwatchProgram(), at: START_TIME });
+      state = trainingReducer(state, { type: 'PAUSE', at: START_TIME + 30000 });
+      state = trainingReducer(state, { type: 'RESUME', at: START_TIME + 40000 });
+      state = trainingReducer(state, { type: 'STOP_STOPWATCH', at: START_TIME + 84260 });
+
+      expect(state.currentStepIndex).toBe(1);
+      expect(state.stepResults[0]).toMatchObject({
+        stepId: 'plank',
+        actualElapsedSec: 74,
+        achievedSec: 74.3,
+        wasSkipped: false
+      });
+    });
+
+    it('should switch sides on the first stop and record the total on the second', () => {
+      let state = trainingReducer(initialState, {
+        type: 'START',
+        program: stopwatchProgram({ perSide: true }),
+        at: START_TIME
+      });
+      state = trainingReducer(state, { type: 'STOP_STOPWATCH', at: START_TIME + 35000 });
+
+      expect(state.currentSide).toBe('right');
+      expect(state.stepResults).toHaveLength(0);
+
+      state = trainingReducer(state, { type: 'STOP_STOPWATCH', at: START_TIME + 65000 });
+
+      expect(state.stepResults[0].achievedSec).toBe(65);
+      expect(state.stepResults[0].sides).toEqual([
+        { side: 'left', elapsedSec: 35 },
+        { side: 'right', elapsedSec: 30 }
+      ]);
+    });
+
+    it('should not record an achieved time for a skipped stopwatch', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: stopwatchProgram(), at: START_TIME });
+      state = trainingReducer(state, { type: 'NEXT_STEP', at: START_TIME + 20000 });
+
+      expect(state.stepResults[0].wasSkipped).toBe(true);
+      expect(state.stepResults[0].achievedSec).toBeUndefined();
+    });
+
+    it('should ignore STOP_STOPWATCH while paused or on other steps', () => {
+      const running = trainingReducer(initialState, { type: 'START', program: FULL_BODY_EXPRESS });
+      expect(trainingReducer(running, { type: 'STOP_STOPWATCH' })).toBe(running);
+
+      let paused = trainingReducer(initialState, { type: 'START', program: stopwatchProgram() });
+      paused = trainingReducer(paused, { type: 'PAUSE' });
+      expect(trainingReducer(paused, { type: 'STOP_STOPWATCH' })).toBe(paused);
+    });
+
+    it('should fill the ring towards the target time', () => {
+      const state = trainingReducer(initialState, {
+        type: 'START',
+        program: stopwatchProgram({ targetSec: 90 }),
+        at: START_TIME
+      });
+
+      expect(selectors.getCurrentProgress(state, START_TIME + 45000)).toBeCloseTo(0.5, 2);
+      expect(selectors.getCurrentProgress(state, START_TIME + 120000)).toBe(1);
+    });
+  });
+
+  describe('COUNT_ROUND event', () => {
+    const amrapProgram = {
+      ...FULL_BODY_EXPRESS,
+      steps: [
+        { id: 'amrap', type: 'exercise' as const, title: 'AMRAP', durationSec: 600, roundCounter: true },
+        FULL_BODY_EXPRESS.steps[1]
+      ]
+    };
+
+    it('should count rounds and store them when the step ends', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: amrapProgram });
+      state = trainingReducer(state, { type: 'COUNT_ROUND' });
+      state = trainingReducer(state, { type: 'COUNT_ROUND' });
+
+      expect(state.roundsCompleted).toBe(2);
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0 });
+
+      expect(state.stepResults[0].roundsCompleted).toBe(2);
+      expect(state.roundsCompleted).toBe(0);
     });
 
-    it('should not add time to exercise step', () => {
+    it('should ignore COUNT_ROUND on steps without a round counter', () => {
       const runningState = trainingReducer(initialState, {
         type: 'START',
         program: FULL_BODY_EXPRESS
       });
 
-      const originalRemaining = runningState.remainingMs;
-      const newState = trainingReducer(runningState, { type: 'ADD_TEN_SECONDS' });
+      expect(trainingReducer(runningState, { type: 'COUNT_ROUND' })).toBe(runningState);
+    });
+  });
+
+  describe('SWAP_EXERCISE event', () => {
+    const replacement = {
+      id: 'replacement',
+      type: 'exercise' as const,
+      title: 'High Knees',
+      exerciseId: 'high-knees',
+      durationSec: 10
+    };
+
+    it('should replace the current step in place and record the substitution', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: FULL_BODY_EXPRESS });
+      state = trainingReducer(state, { type: 'SWAP_EXERCISE', step: replacement });
+      const original = FULL_BODY_EXPRESS.steps[0];
+
+      expect(state.currentStep).toMatchObject({ id: original.id, title: 'High Knees' });
+      expect(state.program?.steps[0]).toBe(state.currentStep);
+      expect(FULL_BODY_EXPRESS.steps[0]).toBe(original);
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0 });
+
+      expect(state.stepResults[0].substitution).toEqual({
+        fromExerciseId: 'jumping-jacks',
+        fromTitle: 'Jumping Jacks',
+        toExerciseId: 'high-knees',
+        toTitle: 'High Knees'
+      });
+      expect(state.substitution).toBeNull();
+    });
+
+    it('should keep the planned exercise as the source across repeated swaps', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: FULL_BODY_EXPRESS });
+      const original = FULL_BODY_EXPRESS.steps[0];
+      state = trainingReducer(state, { type: 'SWAP_EXERCISE', step: replacement });
+      state = trainingReducer(state, {
+        type: 'SWAP_EXERCISE',
+        step: { ...replacement, title: 'Butt Kickers', exerciseId: 'butt-kickers' }
+      });
+
+      expect(state.substitution).toMatchObject({ fromExerciseId: 'jumping-jacks', toExerciseId: 'butt-kickers' });
+
+      state = trainingReducer(state, { type: 'SWAP_EXERCISE', step: original as typeof replacement });
+
+      expect(state.substitution).toBeNull();
+    });
+
+    it('should ignore swaps during rest or before the session starts', () => {
+      const restIndex = FULL_BODY_EXPRESS.steps.findIndex(step => step.type === 'rest');
+      let state = trainingReducer(initialState, { type: 'START', program: FULL_BODY_EXPRESS });
+      for (let i = 0; i < restIndex; i++) {
+        state = trainingReducer(state, { type: 'NEXT_STEP' });
+      }
+
+      expect(trainingReducer(state, { type: 'SWAP_EXERCISE', step: replacement })).toBe(state);
+      expect(trainingReducer(initialState, { type: 'SWAP_EXERCISE', step: replacement })).toBe(initialState);
+    });
+  });
+
+  describe('Per-side steps', () => {
+    const sideProgram = (fields: object) => ({
+      ...FULL_BODY_EXPRESS,
+      steps: [
+        { id: 'side_plank', type: 'exercise' as const, title: 'Side Plank', durationSec: 60, perSide: true, ...fields },
+        FULL_BODY_EXPRESS.steps[1]
+      ]
+    });
+
+    it('should switch sides at the midpoint of a timed step', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: sideProgram({}), at: START_TIME });
+
+      expect(state.currentSide).toBe('left');
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 31000, at: START_TIME + 29000 });
+      expect(state.currentSide).toBe('left');
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 30000, at: START_TIME + 30000 });
+      expect(state.currentSide).toBe('right');
+      expect(state.currentStepIndex).toBe(0);
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 60000 });
+
+      expect(state.stepResults[0].sides).toEqual([
+        { side: 'left', elapsedSec: 30 },
+        { side: 'right', elapsedSec: 30 }
+      ]);
+      expect(state.currentSide).toBeNull();
+    });
+
+    it('should split reps between sides and report the total', () => {
+      let state = trainingReducer(initialState, {
+        type: 'START',
+        program: sideProgram({ title: 'Single-arm Row', mode: 'reps', targetReps: 20 })
+      });
+
+      state = trainingReducer(state, { type: 'COMPLETE_REPS', actualReps: 10 });
+      expect(state.currentSide).toBe('right');
+      expect(state.stepResults).toHaveLength(0);
+
+      state = trainingReducer(state, { type: 'COMPLETE_REPS' });
+
+      expect(state.stepResults[0].actualReps).toBe(20);
+      expect(state.stepResults[0].sides).toEqual([
+        { side: 'left', elapsedSec: 0, actualReps: 10 },
+        { side: 'right', elapsedSec: 0, actualReps: 10 }
+      ]);
+    });
+
+    it('should record only the finished side when the step is skipped early', () => {
+      let state = trainingReducer(initialState, { type: 'START', program: sideProgram({}) });
+      state = trainingReducer(state, { type: 'NEXT_STEP' });
+
+      expect(state.stepResults[0].sides).toEqual([{ side: 'left', elapsedSec: 0 }]);
+    });
+
+    it('should not track sides for regular steps', () => {
+      const state = trainingReducer(initialState, { type: 'START', program: FULL_BODY_EXPRESS });
+
+      expect(state.currentSide).toBeNull();
+      expect(trainingReducer(state, { type: 'NEXT_STEP' }).stepResults[0].sides).toBeUndefined();
+    });
+  });
+
+  describe('LOG_STEP_RESULT event', () => {
+    let stateAfterFirstStep: TrainingSessionState;
+
+    beforeEach(() => {
+      const running = trainingReducer(initialState, {
+        type: 'START',
+        program: FULL_BODY_EXPRESS
+      });
+      stateAfterFirstStep = trainingReducer(running, { type: 'TICK', remainingMs: 0 });
+    });
+
+    it('should store reps, load and RPE on the finished exercise step', () => {
+      const state = trainingReducer(stateAfterFirstStep, {
+        type: 'LOG_STEP_RESULT',
+        stepIndex: 0,
+        log: { actualReps: 28, loadKg: 12.5, rpe: 7 }
+      });
+
+      expect(state.stepResults[0]).toMatchObject({ actualReps: 28, loadKg: 12.5, rpe: 7 });
+      expect(selectors.getTotalVolumeKg(state.stepResults)).toBe(350);
+    });
+
+    it('should clamp RPE and reject negative values', () => {
+      const state = trainingReducer(stateAfterFirstStep, {
+        type: 'LOG_STEP_RESULT',
+        stepIndex: 0,
+        log: { actualReps: -3, loadKg: -5, rpe: 14 }
+      });
+
+      expect(state.stepResults[0]).toMatchObject({ actualReps: 0, loadKg: 0, rpe: 10 });
+    });
+
+    it('should ignore steps that have no exercise result', () => {
+      const state = trainingReducer(stateAfterFirstStep, {
+        type: 'LOG_STEP_RESULT',
+        stepIndex: 5,
+        log: { actualReps: 10 }
+      });
+
+      expect(state).toBe(stateAfterFirstStep);
+    });
+
+    it('should offer the last exercise for logging during the following rest', () => {
+      expect(stateAfterFirstStep.currentStep?.type).toBe('rest');
+      expect(selectors.getLoggableResult(stateAfterFirstStep)?.stepIndex).toBe(0);
+    });
+
+    it('should log any exercise once the session has finished', () => {
+      let state = stateAfterFirstStep;
+      for (let i = 0; i < 100 && state.state !== 'finished'; i++) {
+        state = trainingReducer(state, { type: 'TICK', remainingMs: 0 });
+      }
+      expect(state.state).toBe('finished');
+
+      // The last step has no rest after it, so it can only be logged from the results
+      const lastIndex = FULL_BODY_EXPRESS.steps.length - 1;
+      const stepResults = applyStepLog(state.stepResults, lastIndex, { actualReps: 12, rpe: 9 });
 
-      expect(newState.remainingMs).toBe(originalRemaining); // No change
+      expect(stepResults.find(result => result.stepIndex === lastIndex))
+        .toMatchObject({ actualReps: 12, rpe: 9 });
+      expect(applyStepLog(stepResults, 1, { actualReps: 5 })).toBe(stepResults);
     });
   });
 
@@ -277,6 +790,175 @@ describe('Training State Machine', () => {
       expect(state).toEqual(initialState);
     });
   });
+
+  describe('Countdown transitions', () => {
+    const countdownProgram: Program = {
+      ...FULL_BODY_EXPRESS,
+      steps: [
+        { id: 'squats', type: 'exercise', title: 'Squats', durationSec: 30 },
+        { id: 'rest', type: 'rest', title: 'Rest', durationSec: 10 },
+        { id: 'pushups', type: 'exercise', title: 'Push-ups', durationSec: 20 }
+      ],
+      stepsCount: 3
+    };
+    const start = (leadInSec: number, getReadySec: number) =>
+      trainingReducer(initialState, { type: 'START', program: countdownProgram, leadInSec, getReadySec, at: START_TIME });
+
+    it('should go straight into the first step without countdowns', () => {
+      const state = start(0, 0);
+
+      expect(state.transition).toBeNull();
+      expect(state.remainingMs).toBe(30000);
+    });
+
+    it('should count down the lead-in before the first step', () => {
+      let state = start(3, 0);
+
+      expect(state.transition).toBe('leadIn');
+      expect(state.currentStepIndex).toBe(0);
+      expect(state.remainingMs).toBe(3000);
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 1000, at: START_TIME + 2000 });
+      expect(state.transition).toBe('leadIn');
+      expect(selectors.getCurrentProgress(state)).toBeCloseTo(2 / 3, 2);
+      expect(selectors.getTotalProgress(state)).toBe(0);
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 3000 });
+      expect(state.transition).toBeNull();
+      expect(state.stepStartTime).toBe(START_TIME + 3000);
+      expect(state.remainingMs).toBe(30000);
+      expect(state.totalTransitionMs).toBe(3000);
+    });
+
+    it('should track countdown time apart from step time', () => {
+      let state = start(3, 0);
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 3000 });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 33000 });
+
+      expect(state.stepResults[0]).toMatchObject({ actualElapsedSec: 30, transitionSec: 3 });
+      expect(state.totalElapsedMs).toBe(30000);
+      expect(state.totalTransitionMs).toBe(3000);
+    });
+
+    it('should get ready before each exercise but not before rest', () => {
+      let state = start(0, 5);
+      expect(state.transition).toBe('getReady');
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 5000 });
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 35000 });
+      expect(state.currentStepIndex).toBe(1);
+      expect(state.transition).toBeNull();
+
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 45000 });
+      expect(state.currentStepIndex).toBe(2);
+      expect(state.transition).toBe('getReady');
+      expect(state.remainingMs).toBe(5000);
+    });
+
+    it('should run the lead-in in place of getting ready for the first step', () => {
+      const state = start(3, 5);
+
+      expect(state.transition).toBe('leadIn');
+      expect(state.remainingMs).toBe(3000);
+    });
+
+    it('should start the step right away on NEXT_STEP during a countdown', () => {
+      let state = start(0, 5);
+      state = trainingReducer(state, { type: 'NEXT_STEP', at: START_TIME + 2000 });
+
+      expect(state.currentStepIndex).toBe(0);
+      expect(state.transition).toBeNull();
+      expect(state.stepStartTime).toBe(START_TIME + 2000);
+      expect(state.transitionMs).toBe(2000);
+    });
+
+    it('should hold the countdown while paused', () => {
+      let state = start(3, 0);
+      state = trainingReducer(state, { type: 'PAUSE', at: START_TIME + 1000 });
+      state = trainingReducer(state, { type: 'RESUME', at: START_TIME + 61000 });
+      state = trainingReducer(state, { type: 'CATCH_UP', at: START_TIME + 62000 });
+
+      expect(state.transition).toBe('leadIn');
+      expect(state.remainingMs).toBe(1000);
+    });
+
+    it('should catch up through countdowns and steps alike', () => {
+      let state = start(3, 5);
+      state = trainingReducer(state, { type: 'CATCH_UP', at: START_TIME + 52000 });
+
+      expect(state.currentStepIndex).toBe(2);
+      expect(state.transition).toBeNull();
+      expect(state.stepStartTime).toBe(START_TIME + 48000);
+      expect(state.remainingMs).toBe(16000);
+      expect(state.totalTransitionMs).toBe(8000);
+      expect(state.totalElapsedMs).toBe(40000);
+      expect(state.stepResults.map(result => result.transitionSec)).toEqual([3, undefined]);
+    });
+
+    it('should not take adjustments, reps or rounds during a countdown', () => {
+      const state = start(0, 5);
+
+      expect(trainingReducer(state, { type: 'ADJUST_TIME', seconds: 10 })).toBe(state);
+      expect(trainingReducer(state, { type: 'COMPLETE_REPS', actualReps: 5 })).toBe(state);
+    });
+
+    it('should get ready again when an exercise is restarted', () => {
+      let state = start(3, 5);
+      state = trainingReducer(state, { type: 'TICK', remainingMs: 0, at: START_TIME + 3000 });
+      state = trainingReducer(state, { type: 'RESTART_STEP', at: START_TIME + 10000 });
+
+      expect(state.transition).toBe('getReady');
+      expect(state.remainingMs).toBe(5000);
+      expect(state.totalElapsedMs).toBe(7000);
+    });
+  });
+
+  describe('Event timestamps', () => {
+    const [work, rest] = FULL_BODY_EXPRESS.steps;
+    const twoStepProgram = { ...FULL_BODY_EXPRESS, steps: [work, rest], stepsCount: 2 };
+    const workMs = work.durationSec * 1000;
+    const recordedEvents: TrainingEvent[] = [
+      { type: 'START', program: twoStepProgram, at: START_TIME },
+      { type: 'TICK', remainingMs: workMs - 4000, at: START_TIME + 4000 },
+      { type: 'PAUSE', at: START_TIME + 4000 },
+      { type: 'RESUME', at: START_TIME + 64000 },
+      { type: 'TICK', remainingMs: 0, at: START_TIME + 60000 + workMs },
+      { type: 'SKIP_REST', at: START_TIME + 60000 + workMs + 7000 }
+    ];
+    const replay = () => recordedEvents.reduce(trainingReducer, initialState);
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should replay a recorded session exactly, whenever it is reduced', () => {
+      const first = replay();
+      jest.spyOn(Date, 'now').mockReturnValue(START_TIME + 24 * 60 * 60 * 1000);
+
+      expect(replay()).toEqual(first);
+      expect(first.state).toBe('finished');
+      expect(first.stepResults.map(result => [result.actualElapsedSec, result.wasSkipped])).toEqual([
+        [work.durationSec, false],
+        [7, true]
+      ]);
+      expect(first.totalElapsedMs).toBe(workMs + 7000);
+    });
+
+    it('should start the next step at the time of the event that ended the last one', () => {
+      const state = recordedEvents.slice(0, 5).reduce(trainingReducer, initialState);
+
+      expect(state.currentStepIndex).toBe(1);
+      expect(state.stepStartTime).toBe(START_TIME + 60000 + workMs);
+      expect(state.pausedDurationMs).toBe(0);
+    });
+
+    it('should use the current time for events without a timestamp', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(START_TIME + 1234);
+      const state = trainingReducer(initialState, { type: 'START', program: FULL_BODY_EXPRESS });
+
+      expect(state.stepStartTime).toBe(START_TIME + 1234);
+    });
+  });
 });
 
 describe('Selectors', () => {
@@ -287,13 +969,23 @@ describe('Selectors', () => {
     currentStep: FULL_BODY_EXPRESS.steps[0],
     remainingMs: 30000, // 30 seconds remaining out of 45 seconds
     totalElapsedMs: 0,
-    stepStartTime: mockNow,
+    stepStartTime: START_TIME,
     pausedAt: null,
     pausedDurationMs: 0,
+    extensionMs: 0,
+    transition: null,
+    transitionMs: 0,
+    totalTransitionMs: 0,
+    leadInSec: 0,
+    getReadySec: 0,
     showNextUpBanner: false,
     nextUpStep: null,
     isLastStep: false,
     stepResults: [],
+    roundsCompleted: 0,
+    substitution: null,
+    currentSide: null,
+    sideResults: [],
     soundsEnabled: true,
     vibrationsEnabled: true,
     error: null
@@ -325,6 +1017,18 @@ describe('Selectors', () => {
     });
   });
 
+  describe('getStepElapsedMs', () => {
+    it('should exclude paused time', () => {
+      const pausedState = {
+        ...sampleState,
+        pausedDurationMs: 2000,
+        pausedAt: START_TIME + 10000,
+        state: 'paused' as const
+      };
+      expect(selectors.getStepElapsedMs(pausedState, START_TIME + 15000)).toBe(8000);
+    });
+  });
+
   describe('getFormattedTime', () => {
     it('should format seconds correctly', () => {
       expect(selectors.getFormattedTime(45000)).toBe('00:45');
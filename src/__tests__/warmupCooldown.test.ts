@@ -0,0 +1,120 @@
+import {
+  PHASE_STEP_SEC,
+  applyWarmupCooldown,
+  createCooldownSteps,
+  createWarmupSteps,
+  getMainSteps,
+  getPhaseDurations,
+  getPhaseElapsed,
+  resolveWarmupCooldownOptions
+} from '../utils/warmupCooldown';
+import { FOUR_ROUND_CIRCUIT, SAMPLE_PROGRAMS, UPPER_BODY_STRENGTH } from '../data/samplePrograms';
+import { getExerciseById } from '../data/exerciseCatalog';
+import { ExerciseStep, Step, validateProgram } from '../types/program';
+import { StepResult } from '../state/trainingStateMachine';
+
+describe('Warm-up and cool-down', () => {
+  const exerciseStep = (exerciseId: string): ExerciseStep => ({
+    id: `step_${exerciseId}`,
+    type: 'exercise',
+    title: getExerciseById(exerciseId)!.title,
+    exerciseId,
+    durationSec: 40
+  });
+
+  const ids = (steps: ExerciseStep[]) => steps.map(step => step.exerciseId);
+
+  const BOTH = { warmup: true, cooldown: true };
+
+  it('should fit the warm-up to the muscles of the main block', () => {
+    expect(ids(createWarmupSteps([exerciseStep('pushups')])))
+      .toEqual(expect.arrayContaining(['arm-swings', 'arm-circles']));
+    expect(ids(createWarmupSteps([exerciseStep('squats')])))
+      .toEqual(expect.arrayContaining(['hip-circles', 'leg-swings']));
+  });
+
+  it('should fit the cool-down to the muscles of the main block', () => {
+    expect(ids(createCooldownSteps([exerciseStep('pushups')]))).toContain('chest-opener');
+    expect(ids(createCooldownSteps([exerciseStep('squats')]))).toContain('quad-stretch');
+  });
+
+  it('should still generate phases for free-form steps', () => {
+    const steps: Step[] = [{ id: 'custom', type: 'exercise', title: 'Mystery Move', durationSec: 30 }];
+
+    expect(createWarmupSteps(steps).length).toBeGreaterThan(0);
+    expect(createCooldownSteps(steps).length).toBeGreaterThan(0);
+  });
+
+  it('should mark generated steps and time unilateral moves per side', () => {
+    const steps = [...createWarmupSteps([exerciseStep('lunges')]), ...createCooldownSteps([exerciseStep('lunges')])];
+
+    steps.forEach(step => {
+      const exercise = getExerciseById(step.exerciseId)!;
+      expect(step.phase).toBeDefined();
+      expect(step.perSide ?? false).toBe(!!exercise.unilateral);
+      expect(step.durationSec).toBe(exercise.unilateral ? PHASE_STEP_SEC * 2 : PHASE_STEP_SEC);
+    });
+  });
+
+  it('should wrap every sample program and keep it valid', () => {
+    SAMPLE_PROGRAMS.forEach(program => {
+      const prepared = applyWarmupCooldown(program, BOTH);
+
+      expect(validateProgram(prepared).errors).toEqual([]);
+      expect(prepared.steps[0].phase).toBe('warmup');
+      expect(prepared.steps[prepared.steps.length - 1].phase).toBe('cooldown');
+      expect(getMainSteps(prepared.steps)).toEqual(program.steps);
+    });
+  });
+
+  it('should keep blocks in sync with the steps', () => {
+    const prepared = applyWarmupCooldown(FOUR_ROUND_CIRCUIT, BOTH);
+
+    expect(prepared.blocks?.length).toBe((FOUR_ROUND_CIRCUIT.blocks?.length ?? 0) + prepared.steps.filter(step => step.phase).length);
+    expect(validateProgram(prepared).isValid).toBe(true);
+  });
+
+  it('should regenerate rather than stack phases', () => {
+    const prepared = applyWarmupCooldown(UPPER_BODY_STRENGTH, BOTH);
+
+    expect(applyWarmupCooldown(prepared, BOTH).steps).toEqual(prepared.steps);
+    expect(applyWarmupCooldown(prepared, { warmup: false, cooldown: false }).steps).toEqual(UPPER_BODY_STRENGTH.steps);
+    expect(applyWarmupCooldown(UPPER_BODY_STRENGTH, { warmup: false, cooldown: false })).toBe(UPPER_BODY_STRENGTH);
+  });
+
+  it('should let the program override the global preference', () => {
+    const prefs = { autoWarmup: true, autoCooldown: false };
+
+    expect(resolveWarmupCooldownOptions(UPPER_BODY_STRENGTH, prefs)).toEqual({ warmup: true, cooldown: false });
+    expect(resolveWarmupCooldownOptions({ ...UPPER_BODY_STRENGTH, autoWarmup: false, autoCooldown: true }, prefs))
+      .toEqual({ warmup: false, cooldown: true });
+  });
+
+  it('should report the added time separately from the main block', () => {
+    const prepared = applyWarmupCooldown(UPPER_BODY_STRENGTH, BOTH);
+    const planned = getPhaseDurations(prepared.steps);
+
+    expect(planned.mainSec).toBe(UPPER_BODY_STRENGTH.totalActiveSec + UPPER_BODY_STRENGTH.totalRestSec);
+    expect(planned.warmupSec).toBeGreaterThan(0);
+    expect(planned.cooldownSec).toBeGreaterThan(0);
+
+    const results: StepResult[] = prepared.steps.map((step, stepIndex) => ({
+      stepId: step.id,
+      stepIndex,
+      type: step.type,
+      plannedDurationSec: step.durationSec,
+      actualElapsedSec: 10,
+      wasSkipped: false,
+      wasExtended: false,
+      extensionSec: 0
+    }));
+    const elapsed = getPhaseElapsed(prepared, results);
+    const count = (phase?: string) => prepared.steps.filter(step => step.phase === phase).length;
+
+    expect(elapsed).toEqual({
+      warmupSec: count('warmup') * 10,
+      mainSec: count(undefined) * 10,
+      cooldownSec: count('cooldown') * 10
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { generateWeeklyPlan, getAvailableEquipment, getFocusRotation } from '../utils/weeklyPlan';
+import { validateProgram, getTotalDuration } from '../types/program';
+import { DEFAULT_ONBOARDING_PROFILE, OnboardingProfile } from '../types/onboarding';
+
+describe('Weekly plan generator', () => {
+  const profile: OnboardingProfile = {
+    ...DEFAULT_ONBOARDING_PROFILE,
+    goals: ['muscle', 'fat_loss'],
+    level: 'Intermediate',
+    equipment: ['dumbbells'],
+    locations: ['home'],
+    workoutDays: ['friday', 'monday', 'wednesday'],
+    sessionDurationMin: 30
+  };
+
+  const exerciseEquipment = (plan: ReturnType<typeof generateWeeklyPlan>) =>
+    plan.workouts.flatMap(({ program }) =>
+      program.steps.flatMap(step => (step.type === 'exercise' ? step.equipment ?? [] : []))
+    );
+
+  it('should schedule one valid program per chosen day, in week order', () => {
+    const plan = generateWeeklyPlan(profile);
+
+    expect(plan.workouts.map(w => w.day)).toEqual(['monday', 'wednesday', 'friday']);
+    plan.workouts.forEach(({ program }) => {
+      expect(validateProgram(program)).toEqual({ isValid: true, errors: [] });
+      expect(program.level).toBe('Intermediate');
+    });
+  });
+
+  it('should mix strength and conditioning for those goals', () => {
+    const plan = generateWeeklyPlan(profile);
+
+    expect(plan.workouts.map(w => w.focus)).toEqual(['upper', 'lower', 'conditioning']);
+  });
+
+  it('should only use equipment the user has', () => {
+    const equipment = exerciseEquipment(generateWeeklyPlan(profile));
+
+    expect(equipment).toContain('dumbbells');
+    expect(equipment.every(item => item === 'dumbbells')).toBe(true);
+    expect(exerciseEquipment(generateWeeklyPlan({ ...profile, equipment: [] }))).toEqual([]);
+  });
+
+  it('should treat the gym as having all equipment', () => {
+    expect(getAvailableEquipment({ ...profile, equipment: [], locations: ['gym'] })).toEqual(
+      expect.arrayContaining(['none', 'barbell', 'machines'])
+    );
+  });
+
+  it('should use the level for sets and reps', () => {
+    const beginner = generateWeeklyPlan({ ...profile, level: 'Beginner' });
+    const advanced = generateWeeklyPlan({ ...profile, level: 'Advanced' });
+    const firstStep = (plan: typeof beginner) => plan.workouts[0].program.steps[0];
+
+    expect(firstStep(beginner)).toMatchObject({ mode: 'reps', targetReps: 8 });
+    expect(firstStep(advanced)).toMatchObject({ mode: 'reps', targetReps: 12 });
+  });
+
+  it('should roughly match the chosen session length', () => {
+    [20, 45].forEach(sessionDurationMin => {
+      generateWeeklyPlan({ ...profile, sessionDurationMin }).workouts.forEach(({ program }) => {
+        const minutes = getTotalDuration(program) / 60;
+        expect(Math.abs(minutes - sessionDurationMin)).toBeLessThanOrEqual(sessionDurationMin * 0.35);
+      });
+    });
+  });
+
+  it('should fall back to three full-week days and a balanced rotation', () => {
+    const plan = generateWeeklyPlan(DEFAULT_ONBOARDING_PROFILE);
+
+    expect(plan.workouts).toHaveLength(3);
+    expect(getFocusRotation([], 3)).toEqual(['upper', 'lower', 'conditioning']);
+    expect(getFocusRotation(['mobility'], 2)).toEqual(['conditioning', 'mobility']);
+  });
+});
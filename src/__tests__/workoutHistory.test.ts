@@ -0,0 +1,50 @@
+import {
+  MAX_STORED_TIMELINES,
+  WorkoutSession,
+  keepRecentTimelines
+} from '../state/WorkoutHistoryContext';
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn(async () => null),
+  setItem: jest.fn(async () => {}),
+  multiSet: jest.fn(async () => {}),
+  multiRemove: jest.fn(async () => {})
+}));
+
+const session = (index: number, hasTimeline: boolean): WorkoutSession => ({
+  id: `session_${index}`,
+  completedAt: new Date(2024, 0, 31 - index).toISOString(),
+  totalElapsedMs: 600000,
+  estimatedCalories: 80,
+  programTitle: 'Timeline',
+  hasTimeline
+});
+
+describe('keepRecentTimelines', () => {
+  it('should keep every timeline while under the limit', () => {
+    const sessions = [session(0, true), session(1, false), session(2, true)];
+
+    const result = keepRecentTimelines(sessions);
+
+    expect(result.sessions).toEqual(sessions);
+    expect(result.droppedIds).toEqual([]);
+  });
+
+  it('should drop the timelines of the oldest sessions past the limit', () => {
+    // Sessions without a timeline do not count towards the limit
+    const sessions = [
+      session(0, false),
+      ...Array.from({ length: MAX_STORED_TIMELINES + 2 }, (_, i) => session(i + 1, true))
+    ];
+
+    const result = keepRecentTimelines(sessions);
+
+    expect(result.droppedIds).toEqual([
+      `session_${MAX_STORED_TIMELINES + 1}`,
+      `session_${MAX_STORED_TIMELINES + 2}`
+    ]);
+    expect(result.sessions).toHaveLength(sessions.length);
+    expect(result.sessions.filter(s => s.hasTimeline)).toHaveLength(MAX_STORED_TIMELINES);
+    expect(result.sessions[MAX_STORED_TIMELINES + 2].hasTimeline).toBe(false);
+  });
+});
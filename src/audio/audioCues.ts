@@ -0,0 +1,118 @@
+// Audio for training cues: each cue resolves to clips from a sound pack and goes to an
+// AudioPlayer, which tests replace with a fake
+
+import { TrainingCue, TrainingCueOptions, getTrainingCues } from '../state/trainingCues';
+import { TrainingSessionState } from '../state/trainingStateMachine';
+
+export type AudioSource = number; // A require()d clip
+
+export type ToneClip = 'beep' | 'go' | 'tick' | 'chime' | 'alert' | 'rest' | 'switch' | 'fanfare';
+
+export type VoiceClip =
+  | 'three'
+  | 'two'
+  | 'one'
+  | 'go'
+  | 'rest'
+  | 'getReady'
+  | 'halfway'
+  | 'tenSecondsLeft'
+  | 'switchSides'
+  | 'finish';
+
+// Tones cover every cue but step names; a voice pack speaks instead where it has a clip
+export type SoundPack = {
+  id: string;
+  tones: Record<ToneClip, AudioSource>;
+  voice?: {
+    clips: Partial<Record<VoiceClip, AudioSource>>;
+    exercises: Record<string, AudioSource>; // Spoken names by EXERCISE_CATALOG id
+  };
+};
+
+// Plays each call's clips one after another; separate calls may overlap
+export interface AudioPlayer {
+  play: (sources: AudioSource[]) => void;
+  stop: () => void;
+}
+
+export type AudioCueOptions = TrainingCueOptions & {
+  enabled: boolean;
+  pack: SoundPack;
+};
+
+const COUNTDOWN_VOICE: Record<number, VoiceClip> = { 3: 'three', 2: 'two', 1: 'one' };
+
+// Clips for a cue, preferring the pack's voice
+export function resolveCue(cue: TrainingCue, pack: SoundPack): AudioSource[] {
+  const voice = pack.voice;
+  const speak = (clip: VoiceClip, tone: ToneClip): AudioSource[] => {
+    const spoken = voice?.clips[clip];
+    return [spoken ?? pack.tones[tone]];
+  };
+
+  switch (cue.type) {
+    case 'countdown': {
+      const clip = COUNTDOWN_VOICE[cue.seconds];
+      return clip ? speak(clip, 'beep') : [pack.tones.beep];
+    }
+    case 'go':
+      return speak('go', 'go');
+    case 'rest':
+      return speak('rest', 'rest');
+    case 'getReady':
+      return speak('getReady', 'chime');
+    case 'stepName': {
+      const spoken = voice?.exercises[cue.exerciseId];
+      return spoken !== undefined ? [spoken] : [];
+    }
+    case 'halfway':
+      return speak('halfway', 'chime');
+    case 'tenSecondsLeft':
+      return speak('tenSecondsLeft', 'alert');
+    case 'tick':
+      return [pack.tones.tick];
+    case 'nextUp':
+      return []; // The banner is enough; 3-2-1 follows shortly
+    case 'switchSides':
+      return speak('switchSides', 'switch');
+    case 'finish': {
+      const spoken = voice?.clips.finish;
+      return spoken !== undefined ? [pack.tones.fanfare, spoken] : [pack.tones.fanfare];
+    }
+  }
+}
+
+export interface AudioCueScheduler {
+  update: (state: TrainingSessionState) => TrainingCue[]; // Feed every reducer state; returns the cues due
+  setOptions: (options: AudioCueOptions) => void;
+}
+
+export function createAudioCueScheduler(
+  player: AudioPlayer,
+  initialOptions: AudioCueOptions
+): AudioCueScheduler {
+  let options = initialOptions;
+  let previous: TrainingSessionState | null = null;
+
+  return {
+    update: state => {
+      const prev = previous;
+      previous = state;
+      if (!prev || prev === state || !options.enabled) return [];
+
+      const cues = getTrainingCues(prev, state, options);
+      const sources = cues.flatMap(cue => resolveCue(cue, options.pack));
+      if (sources.length > 0) {
+        player.play(sources);
+      }
+      return cues;
+    },
+    setOptions: nextOptions => {
+      if (options.enabled && !nextOptions.enabled) {
+        player.stop();
+      }
+      options = nextOptions;
+    }
+  };
+}
@@ -0,0 +1,59 @@
+// AudioPlayer backed by hidden react-native-video elements: each play call becomes a
+// playback that AudioCueOutput renders until its last clip ends. The app renders the
+// shared output once, above navigation, so the finish fanfare outlives the screen.
+
+import { AudioPlayer, AudioSource } from './audioCues';
+
+export type AudioPlayback = {
+  id: number;
+  sources: AudioSource[];
+  index: number; // Clip now playing
+};
+
+export interface AudioOutput extends AudioPlayer {
+  getPlaybacks: () => AudioPlayback[];
+  subscribe: (listener: () => void) => () => void;
+  advance: (id: number) => void; // The playback's current clip ended or failed
+}
+
+// Beyond this, older playbacks are dropped rather than piling up
+const MAX_PLAYBACKS = 3;
+
+export function createAudioOutput(): AudioOutput {
+  let playbacks: AudioPlayback[] = [];
+  let nextId = 1;
+  const listeners = new Set<() => void>();
+
+  const setPlaybacks = (next: AudioPlayback[]) => {
+    playbacks = next;
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    play: sources => {
+      if (sources.length === 0) return;
+      setPlaybacks([...playbacks, { id: nextId++, sources, index: 0 }].slice(-MAX_PLAYBACKS));
+    },
+    stop: () => {
+      if (playbacks.length > 0) {
+        setPlaybacks([]);
+      }
+    },
+    getPlaybacks: () => playbacks,
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    advance: id => {
+      setPlaybacks(playbacks.flatMap(playback => {
+        if (playback.id !== id) return [playback];
+        const index = playback.index + 1;
+        return index < playback.sources.length ? [{ ...playback, index }] : [];
+      }));
+    }
+  };
+}
+
+export const audioOutput = createAudioOutput();
@@ -0,0 +1,153 @@
+// Sound packs bundled with the app, so cues work offline
+// Tones are synthesized sine beeps. Voice clips are eSpeak (en-us) recordings,
+// trimmed and saved as 11 kHz 8-bit WAV to keep the bundle small; a language
+// without recordings falls back to tones. Exercise names are keyed by catalog id.
+
+import { Language } from '../i18n/types';
+import { SoundPack, ToneClip } from './audioCues';
+
+const TONES: Record<ToneClip, number> = {
+  beep: require('../../assets/sfx/beep.wav'),
+  go: require('../../assets/sfx/go.wav'),
+  tick: require('../../assets/sfx/tick.wav'),
+  chime: require('../../assets/sfx/chime.wav'),
+  alert: require('../../assets/sfx/alert.wav'),
+  rest: require('../../assets/sfx/rest.wav'),
+  switch: require('../../assets/sfx/switch.wav'),
+  fanfare: require('../../assets/sfx/fanfare.wav')
+};
+
+export const TONE_PACK: SoundPack = {
+  id: 'tones',
+  tones: TONES
+};
+
+const ENGLISH_VOICE: SoundPack = {
+  id: 'voice-en',
+  tones: TONES,
+  voice: {
+    clips: {
+      three: require('../../assets/sfx/voice/en/three.wav'),
+      two: require('../../assets/sfx/voice/en/two.wav'),
+      one: require('../../assets/sfx/voice/en/one.wav'),
+      go: require('../../assets/sfx/voice/en/go.wav'),
+      rest: require('../../assets/sfx/voice/en/rest.wav'),
+      getReady: require('../../assets/sfx/voice/en/getReady.wav'),
+      halfway: require('../../assets/sfx/voice/en/halfway.wav'),
+      tenSecondsLeft: require('../../assets/sfx/voice/en/tenSecondsLeft.wav'),
+      switchSides: require('../../assets/sfx/voice/en/switchSides.wav'),
+      finish: require('../../assets/sfx/voice/en/finish.wav')
+    },
+    exercises: {
+      'alternate-foot': require('../../assets/sfx/voice/en/exercises/alternate-foot.wav'),
+      'arm-circles': require('../../assets/sfx/voice/en/exercises/arm-circles.wav'),
+      'arm-swings': require('../../assets/sfx/voice/en/exercises/arm-swings.wav'),
+      'band-curls': require('../../assets/sfx/voice/en/exercises/band-curls.wav'),
+      'band-good-morning': require('../../assets/sfx/voice/en/exercises/band-good-morning.wav'),
+      'band-press': require('../../assets/sfx/voice/en/exercises/band-press.wav'),
+      'band-pull-aparts': require('../../assets/sfx/voice/en/exercises/band-pull-aparts.wav'),
+      'band-rows': require('../../assets/sfx/voice/en/exercises/band-rows.wav'),
+      'band-squats': require('../../assets/sfx/voice/en/exercises/band-squats.wav'),
+      'barbell-bench-press': require('../../assets/sfx/voice/en/exercises/barbell-bench-press.wav'),
+      'barbell-squat': require('../../assets/sfx/voice/en/exercises/barbell-squat.wav'),
+      'basic-jump': require('../../assets/sfx/voice/en/exercises/basic-jump.wav'),
+      'bicycle-crunches': require('../../assets/sfx/voice/en/exercises/bicycle-crunches.wav'),
+      'bird-dog': require('../../assets/sfx/voice/en/exercises/bird-dog.wav'),
+      'box-breathing': require('../../assets/sfx/voice/en/exercises/box-breathing.wav'),
+      'box-jumps': require('../../assets/sfx/voice/en/exercises/box-jumps.wav'),
+      'boxer-step': require('../../assets/sfx/voice/en/exercises/boxer-step.wav'),
+      burpees: require('../../assets/sfx/voice/en/exercises/burpees.wav'),
+      'butt-kickers': require('../../assets/sfx/voice/en/exercises/butt-kickers.wav'),
+      'calf-roll': require('../../assets/sfx/voice/en/exercises/calf-roll.wav'),
+      'cat-cow': require('../../assets/sfx/voice/en/exercises/cat-cow.wav'),
+      'chest-opener': require('../../assets/sfx/voice/en/exercises/chest-opener.wav'),
+      'child-pose': require('../../assets/sfx/voice/en/exercises/child-pose.wav'),
+      'clean-and-press': require('../../assets/sfx/voice/en/exercises/clean-and-press.wav'),
+      'cold-shower': require('../../assets/sfx/voice/en/exercises/cold-shower.wav'),
+      'conventional-deadlift': require('../../assets/sfx/voice/en/exercises/conventional-deadlift.wav'),
+      'conversational-pace': require('../../assets/sfx/voice/en/exercises/conversational-pace.wav'),
+      crosses: require('../../assets/sfx/voice/en/exercises/crosses.wav'),
+      crunches: require('../../assets/sfx/voice/en/exercises/crunches.wav'),
+      'dead-bug': require('../../assets/sfx/voice/en/exercises/dead-bug.wav'),
+      'decline-pushups': require('../../assets/sfx/voice/en/exercises/decline-pushups.wav'),
+      'double-under': require('../../assets/sfx/voice/en/exercises/double-under.wav'),
+      'downward-dog': require('../../assets/sfx/voice/en/exercises/downward-dog.wav'),
+      'dumbbell-press': require('../../assets/sfx/voice/en/exercises/dumbbell-press.wav'),
+      'dumbbell-row': require('../../assets/sfx/voice/en/exercises/dumbbell-row.wav'),
+      'farmer-walk': require('../../assets/sfx/voice/en/exercises/farmer-walk.wav'),
+      footwork: require('../../assets/sfx/voice/en/exercises/footwork.wav'),
+      'forward-fold': require('../../assets/sfx/voice/en/exercises/forward-fold.wav'),
+      'glute-bridges': require('../../assets/sfx/voice/en/exercises/glute-bridges.wav'),
+      'goblet-squat': require('../../assets/sfx/voice/en/exercises/goblet-squat.wav'),
+      'hamstring-stretch': require('../../assets/sfx/voice/en/exercises/hamstring-stretch.wav'),
+      'high-knees': require('../../assets/sfx/voice/en/exercises/high-knees.wav'),
+      'hip-circles': require('../../assets/sfx/voice/en/exercises/hip-circles.wav'),
+      'hip-flexor': require('../../assets/sfx/voice/en/exercises/hip-flexor.wav'),
+      'hollow-hold': require('../../assets/sfx/voice/en/exercises/hollow-hold.wav'),
+      hooks: require('../../assets/sfx/voice/en/exercises/hooks.wav'),
+      hundred: require('../../assets/sfx/voice/en/exercises/hundred.wav'),
+      'it-band-roll': require('../../assets/sfx/voice/en/exercises/it-band-roll.wav'),
+      jabs: require('../../assets/sfx/voice/en/exercises/jabs.wav'),
+      'jump-squats': require('../../assets/sfx/voice/en/exercises/jump-squats.wav'),
+      'jumping-jacks': require('../../assets/sfx/voice/en/exercises/jumping-jacks.wav'),
+      'kettlebell-deadlift': require('../../assets/sfx/voice/en/exercises/kettlebell-deadlift.wav'),
+      'kettlebell-press': require('../../assets/sfx/voice/en/exercises/kettlebell-press.wav'),
+      'kettlebell-swing': require('../../assets/sfx/voice/en/exercises/kettlebell-swing.wav'),
+      'lat-pulldown': require('../../assets/sfx/voice/en/exercises/lat-pulldown.wav'),
+      'lat-roll': require('../../assets/sfx/voice/en/exercises/lat-roll.wav'),
+      'leg-press': require('../../assets/sfx/voice/en/exercises/leg-press.wav'),
+      'leg-raises': require('../../assets/sfx/voice/en/exercises/leg-raises.wav'),
+      'leg-swings': require('../../assets/sfx/voice/en/exercises/leg-swings.wav'),
+      lunges: require('../../assets/sfx/voice/en/exercises/lunges.wav'),
+      'mountain-climbers': require('../../assets/sfx/voice/en/exercises/mountain-climbers.wav'),
+      'neck-rolls': require('../../assets/sfx/voice/en/exercises/neck-rolls.wav'),
+      'nordic-hamstring-curl': require('../../assets/sfx/voice/en/exercises/nordic-hamstring-curl.wav'),
+      'overhead-carry': require('../../assets/sfx/voice/en/exercises/overhead-carry.wav'),
+      'physiological-sigh': require('../../assets/sfx/voice/en/exercises/physiological-sigh.wav'),
+      'pigeon-pose': require('../../assets/sfx/voice/en/exercises/pigeon-pose.wav'),
+      'pike-pushups': require('../../assets/sfx/voice/en/exercises/pike-pushups.wav'),
+      plank: require('../../assets/sfx/voice/en/exercises/plank.wav'),
+      'pull-ups': require('../../assets/sfx/voice/en/exercises/pull-ups.wav'),
+      'pushup-rotation': require('../../assets/sfx/voice/en/exercises/pushup-rotation.wav'),
+      pushups: require('../../assets/sfx/voice/en/exercises/pushups.wav'),
+      'quad-roll': require('../../assets/sfx/voice/en/exercises/quad-roll.wav'),
+      'quad-stretch': require('../../assets/sfx/voice/en/exercises/quad-stretch.wav'),
+      'roll-up': require('../../assets/sfx/voice/en/exercises/roll-up.wav'),
+      'romanian-deadlift': require('../../assets/sfx/voice/en/exercises/romanian-deadlift.wav'),
+      'russian-twists': require('../../assets/sfx/voice/en/exercises/russian-twists.wav'),
+      scissors: require('../../assets/sfx/voice/en/exercises/scissors.wav'),
+      'shoulder-shrugs': require('../../assets/sfx/voice/en/exercises/shoulder-shrugs.wav'),
+      'side-bends': require('../../assets/sfx/voice/en/exercises/side-bends.wav'),
+      'side-plank': require('../../assets/sfx/voice/en/exercises/side-plank.wav'),
+      'single-leg-stretch': require('../../assets/sfx/voice/en/exercises/single-leg-stretch.wav'),
+      'spinal-twist': require('../../assets/sfx/voice/en/exercises/spinal-twist.wav'),
+      squats: require('../../assets/sfx/voice/en/exercises/squats.wav'),
+      'stair-lunges': require('../../assets/sfx/voice/en/exercises/stair-lunges.wav'),
+      'stair-sprint': require('../../assets/sfx/voice/en/exercises/stair-sprint.wav'),
+      'star-jumps': require('../../assets/sfx/voice/en/exercises/star-jumps.wav'),
+      'steady-walk': require('../../assets/sfx/voice/en/exercises/steady-walk.wav'),
+      'step-ups': require('../../assets/sfx/voice/en/exercises/step-ups.wav'),
+      'suitcase-carry': require('../../assets/sfx/voice/en/exercises/suitcase-carry.wav'),
+      'sun-salutation': require('../../assets/sfx/voice/en/exercises/sun-salutation.wav'),
+      teaser: require('../../assets/sfx/voice/en/exercises/teaser.wav'),
+      'thoracic-roll': require('../../assets/sfx/voice/en/exercises/thoracic-roll.wav'),
+      'thoracic-rotation': require('../../assets/sfx/voice/en/exercises/thoracic-rotation.wav'),
+      'tricep-dips': require('../../assets/sfx/voice/en/exercises/tricep-dips.wav'),
+      'turkish-get-up': require('../../assets/sfx/voice/en/exercises/turkish-get-up.wav'),
+      uppercuts: require('../../assets/sfx/voice/en/exercises/uppercuts.wav'),
+      'wall-bridge': require('../../assets/sfx/voice/en/exercises/wall-bridge.wav'),
+      'wall-plank': require('../../assets/sfx/voice/en/exercises/wall-plank.wav'),
+      'wall-sit': require('../../assets/sfx/voice/en/exercises/wall-sit.wav'),
+      'warm-shower': require('../../assets/sfx/voice/en/exercises/warm-shower.wav'),
+      'warrior-i': require('../../assets/sfx/voice/en/exercises/warrior-i.wav'),
+      'wim-hof-basic': require('../../assets/sfx/voice/en/exercises/wim-hof-basic.wav')
+    }
+  }
+};
+
+const VOICE_PACKS: Partial<Record<Language, SoundPack>> = {
+  en: ENGLISH_VOICE
+};
+
+export const getSoundPack = (language: Language, voiceCues: boolean): SoundPack =>
+  (voiceCues && VOICE_PACKS[language]) || TONE_PACK;
@@ -0,0 +1,45 @@
+import React, { useSyncExternalStore } from 'react';
+import { Image, StyleSheet, View } from 'react-native';
+import Video from 'react-native-video';
+import { AudioOutput } from '../../audio/audioOutput';
+
+interface AudioCueOutputProps {
+  output: AudioOutput;
+}
+
+// Plays audio cues through invisible video elements, one per playback
+export const AudioCueOutput: React.FC<AudioCueOutputProps> = ({ output }) => {
+  const playbacks = useSyncExternalStore(output.subscribe, output.getPlaybacks);
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      {playbacks.map(playback => (
+        <Video
+          key={`${playback.id}-${playback.index}`}
+          source={{ uri: Image.resolveAssetSource(playback.sources[playback.index]).uri }}
+          style={styles.player}
+          paused={false}
+          playInBackground
+          disableFocus
+          mixWithOthers="duck"
+          ignoreSilentSwitch="obey"
+          onEnd={() => output.advance(playback.id)}
+          onError={() => output.advance(playback.id)}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    width: 0,
+    height: 0,
+    overflow: 'hidden'
+  },
+  player: {
+    width: 0,
+    height: 0
+  }
+});
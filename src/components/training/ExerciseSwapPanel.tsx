@@ -0,0 +1,122 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { CatalogExercise } from '../../data/exerciseCatalog';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface ExerciseSwapPanelProps {
+  stepTitle: string;
+  substitutes: CatalogExercise[];
+  isDark?: boolean;
+  onSelect: (exercise: CatalogExercise) => void;
+  onClose: () => void;
+}
+
+const formatEquipment = (exercise: CatalogExercise, bodyweight: string): string =>
+  exercise.equipment.every(item => item === 'none')
+    ? bodyweight
+    : exercise.equipment.join(', ');
+
+// Alternatives for the current exercise, e.g. when equipment is missing or a joint hurts
+export const ExerciseSwapPanel: React.FC<ExerciseSwapPanelProps> = ({
+  stepTitle,
+  substitutes,
+  isDark,
+  onSelect,
+  onClose
+}) => {
+  const { t } = useTranslation();
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, isDark && styles.titleDark]}>
+          {t('swap.title', { title: stepTitle })}
+        </Text>
+        <Pressable accessibilityLabel={t('swap.closeLabel')} onPress={onClose} hitSlop={8}>
+          <Text style={styles.closeText}>{t('common.close')}</Text>
+        </Pressable>
+      </View>
+      {substitutes.length === 0 ? (
+        <Text style={[styles.emptyText, isDark && styles.emptyTextDark]}>
+          {t('swap.empty')}
+        </Text>
+      ) : (
+        substitutes.map(exercise => (
+          <Pressable
+            key={exercise.id}
+            style={[styles.option, isDark && styles.optionDark]}
+            onPress={() => onSelect(exercise)}
+          >
+            <Text style={[styles.optionTitle, isDark && styles.optionTitleDark]}>{exercise.title}</Text>
+            <Text style={[styles.optionMeta, isDark && styles.optionMetaDark]}>
+              {t(`level.${exercise.difficulty}`)} · {formatEquipment(exercise, t('swap.bodyweight'))}
+            </Text>
+          </Pressable>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20
+  },
+  containerDark: {
+    backgroundColor: '#1C1C1E'
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000'
+  },
+  titleDark: {
+    color: '#FFFFFF'
+  },
+  closeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF'
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#666666',
+    textAlign: 'center',
+    paddingVertical: 8
+  },
+  emptyTextDark: {
+    color: '#AAAAAA'
+  },
+  option: {
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#E5E5E5'
+  },
+  optionDark: {
+    borderTopColor: '#333333'
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000'
+  },
+  optionTitleDark: {
+    color: '#FFFFFF'
+  },
+  optionMeta: {
+    fontSize: 12,
+    color: '#666666',
+    marginTop: 2
+  },
+  optionMetaDark: {
+    color: '#AAAAAA'
+  }
+});
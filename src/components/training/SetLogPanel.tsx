@@ -0,0 +1,162 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { StepLog, StepResult } from '../../state/trainingStateMachine';
+import { useTranslation } from '../../hooks/useTranslation';
+
+interface SetLogPanelProps {
+  result: StepResult;
+  stepTitle: string;
+  isDark?: boolean;
+  onChange: (log: StepLog) => void;
+}
+
+const LOAD_INCREMENT_KG = 2.5;
+
+const Stepper: React.FC<{
+  label: string;
+  value: string;
+  isDark?: boolean;
+  onDecrease: () => void;
+  onIncrease: () => void;
+}> = ({ label, value, isDark, onDecrease, onIncrease }) => {
+  const { t } = useTranslation();
+  return (
+    <View style={styles.stepper}>
+      <Text style={[styles.stepperLabel, isDark && styles.stepperLabelDark]}>{label}</Text>
+      <View style={styles.stepperRow}>
+        <Pressable
+          accessibilityLabel={t('common.decrease', { name: label.toLowerCase() })}
+          style={[styles.stepperButton, isDark && styles.stepperButtonDark]}
+          onPress={onDecrease}
+        >
+          <Text style={[styles.stepperButtonText, isDark && styles.stepperButtonTextDark]}>−</Text>
+        </Pressable>
+        <Text style={[styles.stepperValue, isDark && styles.stepperValueDark]}>{value}</Text>
+        <Pressable
+          accessibilityLabel={t('common.increase', { name: label.toLowerCase() })}
+          style={[styles.stepperButton, isDark && styles.stepperButtonDark]}
+          onPress={onIncrease}
+        >
+          <Text style={[styles.stepperButtonText, isDark && styles.stepperButtonTextDark]}>+</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+};
+
+// Compact logger for reps, weight and RPE of the set that just finished
+export const SetLogPanel: React.FC<SetLogPanelProps> = ({
+  result,
+  stepTitle,
+  isDark,
+  onChange
+}) => {
+  const { t } = useTranslation();
+  const reps = result.actualReps ?? 0;
+  const loadKg = result.loadKg ?? 0;
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <Text style={[styles.title, isDark && styles.titleDark]}>
+        {t('setLog.title', { title: stepTitle })}
+      </Text>
+      <View style={styles.steppers}>
+        <Stepper
+          label={t('setLog.reps')}
+          value={`${reps}`}
+          isDark={isDark}
+          onDecrease={() => onChange({ actualReps: Math.max(0, reps - 1) })}
+          onIncrease={() => onChange({ actualReps: reps + 1 })}
+        />
+        <Stepper
+          label={t('setLog.weight')}
+          value={t('common.kg', { value: loadKg })}
+          isDark={isDark}
+          onDecrease={() => onChange({ loadKg: Math.max(0, loadKg - LOAD_INCREMENT_KG) })}
+          onIncrease={() => onChange({ loadKg: loadKg + LOAD_INCREMENT_KG })}
+        />
+        <Stepper
+          label={t('setLog.rpe')}
+          value={result.rpe !== undefined ? `${result.rpe}` : '–'}
+          isDark={isDark}
+          onDecrease={() => onChange({ rpe: (result.rpe ?? 8) - 1 })}
+          onIncrease={() => onChange({ rpe: (result.rpe ?? 6) + 1 })}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20
+  },
+  containerDark: {
+    backgroundColor: '#1C1C1E'
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 12,
+    textAlign: 'center'
+  },
+  titleDark: {
+    color: '#FFFFFF'
+  },
+  steppers: {
+    flexDirection: 'row',
+    justifyContent: 'space-between'
+  },
+  stepper: {
+    alignItems: 'center',
+    flex: 1
+  },
+  stepperLabel: {
+    fontSize: 12,
+    color: '#666666',
+    textTransform: 'uppercase',
+    marginBottom: 6
+  },
+  stepperLabelDark: {
+    color: '#AAAAAA'
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#E5E5E5',
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  stepperButtonDark: {
+    backgroundColor: '#333333'
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000'
+  },
+  stepperButtonTextDark: {
+    color: '#FFFFFF'
+  },
+  stepperValue: {
+    minWidth: 44,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#000000',
+    fontVariant: ['tabular-nums']
+  },
+  stepperValueDark: {
+    color: '#FFFFFF'
+  }
+});
@@ -0,0 +1,1621 @@
+import { Equipment, Level } from '../types/library';
+
+// Single source of exercise data: ExerciseStep.exerciseId, library workouts,
+// the home grid and media lookup all reference these ids.
+
+export type MuscleGroup =
+  | 'chest'
+  | 'shoulders'
+  | 'triceps'
+  | 'biceps'
+  | 'upper_back'
+  | 'lats'
+  | 'lower_back'
+  | 'neck'
+  | 'core'
+  | 'obliques'
+  | 'glutes'
+  | 'quads'
+  | 'hamstrings'
+  | 'calves'
+  | 'hip_flexors'
+  | 'forearms';
+
+export type ExerciseCategory = 'strength' | 'cardio' | 'mobility' | 'recovery';
+
+// Library equipment plus gear the library filters don't list
+export type ExerciseEquipment = Equipment | 'pullup-bar' | 'jump-rope' | 'box' | 'bench' | 'foam-roller';
+
+export interface ExerciseMedia {
+  photo?: string; // ExercisePhoto id
+  video?: string; // Bundled video key
+  thumbnail?: string;
+  animation?: string;
+}
+
+export interface CatalogExercise {
+  id: string;
+  title: string;
+  category: ExerciseCategory;
+  primaryMuscles: MuscleGroup[];
+  secondaryMuscles: MuscleGroup[];
+  equipment: ExerciseEquipment[]; // ['none'] for bodyweight
+  difficulty: Level;
+  met: number; // Metabolic equivalent while performing it, for calorie estimates
+  instructions: string[];
+  hints: string[];
+  contraindications: string[];
+  media: ExerciseMedia;
+  highImpact?: boolean; // Jumping or running in place
+  unilateral?: boolean; // Worked one side at a time; steps default to perSide
+  aliases?: string[]; // Legacy titles and animationRefs that resolve here
+}
+
+export const EXERCISE_CATALOG: CatalogExercise[] = [
+  // Home grid exercises
+  {
+    id: 'pushups',
+    title: 'Push-ups',
+    category: 'strength',
+    primaryMuscles: ['chest', 'triceps'],
+    secondaryMuscles: ['shoulders', 'core'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.8,
+    instructions: ['Hands under shoulders, body in one straight line', 'Lower your chest to just above the floor', 'Press back up without letting the hips sag'],
+    hints: ['Keep back straight', 'Even breathing'],
+    contraindications: ['Wrist pain', 'Shoulder injury'],
+    media: {
+      photo: 'pushups',
+      video: 'push-ups',
+      thumbnail: 'assets/lottie/pushups_thumb.json',
+      animation: 'assets/lottie/pushups_large.json'
+    },
+    aliases: ['push_ups', 'pushup']
+  },
+  {
+    id: 'plank',
+    title: 'Plank',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['shoulders', 'glutes'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.8,
+    instructions: ['Forearms under shoulders, legs straight behind you', 'Hold a straight line from head to heels'],
+    hints: ['Squeeze glutes', 'Do not let hips drop'],
+    contraindications: ['Shoulder injury'],
+    media: { photo: 'plank', video: 'plank' },
+    aliases: ['plank_hold', 'planks']
+  },
+  {
+    id: 'squats',
+    title: 'Squats',
+    category: 'strength',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['hamstrings', 'core'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 5,
+    instructions: ['Feet shoulder-width apart, toes slightly out', 'Sit hips back and down until thighs are parallel', 'Drive through the heels to stand'],
+    hints: ['Knees track over toes', 'Chest up'],
+    contraindications: ['Acute knee pain'],
+    media: { photo: 'squats', video: 'squats' },
+    aliases: ['squat', 'bodyweight_squats', 'gentle_squats']
+  },
+  {
+    id: 'burpees',
+    title: 'Burpees',
+    category: 'cardio',
+    primaryMuscles: ['quads', 'chest'],
+    secondaryMuscles: ['shoulders', 'core', 'glutes'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 8,
+    instructions: ['Squat and place hands on the floor', 'Jump feet back to a plank and lower the chest', 'Jump feet in and explode upward'],
+    hints: ['Land softly', 'Keep a steady rhythm'],
+    contraindications: ['Knee injury', 'Lower back pain', 'Pregnancy'],
+    media: { photo: 'burpees', video: 'burpees' },
+    highImpact: true,
+    aliases: ['burpee']
+  },
+  {
+    id: 'lunges',
+    title: 'Lunges',
+    category: 'strength',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['hamstrings', 'calves'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 4,
+    instructions: ['Step forward and lower until both knees are bent 90°', 'Push back to standing and switch legs'],
+    hints: ['Front knee stays over the ankle', 'Torso upright'],
+    contraindications: ['Acute knee pain'],
+    media: { photo: 'lunges', video: 'lunges' },
+    aliases: ['lunge'],
+    unilateral: true
+  },
+  {
+    id: 'crunches',
+    title: 'Crunches',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['obliques'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.8,
+    instructions: ['Lie on your back with knees bent', 'Curl shoulders off the floor, then lower with control'],
+    hints: ['Do not pull on your neck', 'Exhale as you curl up'],
+    contraindications: ['Neck pain', 'Lower back pain'],
+    media: { photo: 'crunches', video: 'crunches' },
+    aliases: ['crunch']
+  },
+  {
+    id: 'mountain-climbers',
+    title: 'Mountain Climbers',
+    category: 'cardio',
+    primaryMuscles: ['core', 'hip_flexors'],
+    secondaryMuscles: ['shoulders', 'quads'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 8,
+    instructions: ['Start in a high plank', 'Drive knees toward the chest one at a time, quickly'],
+    hints: ['Hips level with shoulders', 'Breathe steadily'],
+    contraindications: ['Wrist pain'],
+    media: { photo: 'mountain-climbers' },
+    aliases: ['mountain_climbers', 'climbers']
+  },
+  {
+    id: 'jumping-jacks',
+    title: 'Jumping Jacks',
+    category: 'cardio',
+    primaryMuscles: ['calves', 'shoulders'],
+    secondaryMuscles: ['glutes', 'quads'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 7.7,
+    instructions: ['Jump feet wide while raising arms overhead', 'Jump back to the start and repeat'],
+    hints: ['Stay light on your feet'],
+    contraindications: ['Ankle injury', 'Pregnancy'],
+    media: { photo: 'jumping-jacks' },
+    highImpact: true,
+    aliases: ['jumping_jacks']
+  },
+
+  // Bodyweight strength
+  {
+    id: 'pike-pushups',
+    title: 'Pike Push-ups',
+    category: 'strength',
+    primaryMuscles: ['shoulders'],
+    secondaryMuscles: ['triceps', 'core'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 3.8,
+    instructions: ['From a downward dog, bend elbows to lower your head', 'Press back up to straight arms'],
+    hints: ['Hips high', 'Elbows at 45°'],
+    contraindications: ['Shoulder injury', 'High blood pressure'],
+    media: { video: 'push-ups' },
+    aliases: ['pike_pushups']
+  },
+  {
+    id: 'decline-pushups',
+    title: 'Decline Push-ups',
+    category: 'strength',
+    primaryMuscles: ['chest', 'shoulders'],
+    secondaryMuscles: ['triceps', 'core'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 3.8,
+    instructions: ['Feet on a raised surface, hands on the floor', 'Lower the chest and press back up'],
+    hints: ['Keep the body rigid'],
+    contraindications: ['Wrist pain', 'Shoulder injury'],
+    media: { video: 'push-ups' }
+  },
+  {
+    id: 'pushup-rotation',
+    title: 'Push-up with Rotation',
+    category: 'strength',
+    primaryMuscles: ['chest', 'obliques'],
+    secondaryMuscles: ['shoulders', 'triceps'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 4,
+    instructions: ['Do a push-up', 'At the top rotate into a side plank, then return'],
+    hints: ['Stack the shoulders when rotating'],
+    contraindications: ['Wrist pain', 'Shoulder injury'],
+    media: { video: 'push-ups' }
+  },
+  {
+    id: 'tricep-dips',
+    title: 'Tricep Dips',
+    category: 'strength',
+    primaryMuscles: ['triceps'],
+    secondaryMuscles: ['chest', 'shoulders'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.8,
+    instructions: ['Hands on the edge of a chair or bench behind you', 'Bend elbows to lower, then press up'],
+    hints: ['Keep elbows pointing back', 'Shoulders away from ears'],
+    contraindications: ['Shoulder injury'],
+    media: {},
+    aliases: ['tricep_dips']
+  },
+  {
+    id: 'step-ups',
+    title: 'Step-ups',
+    category: 'strength',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['calves'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 5,
+    instructions: ['Step onto a sturdy chair or step with one foot', 'Drive through that heel to stand tall, step down and alternate'],
+    hints: ['Do not push off the back foot'],
+    contraindications: ['Balance problems'],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'wall-sit',
+    title: 'Wall Sit',
+    category: 'strength',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['glutes', 'calves'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3,
+    instructions: ['Slide down a wall until knees are at 90°', 'Hold with your back flat against the wall'],
+    hints: ['Weight in the heels'],
+    contraindications: ['Acute knee pain'],
+    media: {},
+    aliases: ['wall_squat']
+  },
+  {
+    id: 'wall-plank',
+    title: 'Wall Plank',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['shoulders'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.8,
+    instructions: ['Forearms on a wall, walk feet back to an incline', 'Hold a straight body line'],
+    hints: ['Press the wall away'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'wall-bridge',
+    title: 'Wall Bridge',
+    category: 'strength',
+    primaryMuscles: ['glutes'],
+    secondaryMuscles: ['hamstrings', 'core'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.8,
+    instructions: ['Lie with feet flat on a wall, knees at 90°', 'Press through the feet to lift the hips'],
+    hints: ['Squeeze glutes at the top'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'glute-bridges',
+    title: 'Glute Bridges',
+    category: 'strength',
+    primaryMuscles: ['glutes'],
+    secondaryMuscles: ['hamstrings', 'core'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Lie on your back, feet flat, knees bent', 'Lift hips until the body forms a line from shoulders to knees'],
+    hints: ['Squeeze glutes at the top', 'Do not arch the lower back'],
+    contraindications: [],
+    media: {},
+    aliases: ['glute_bridge']
+  },
+  {
+    id: 'jump-squats',
+    title: 'Jump Squats',
+    category: 'cardio',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['calves', 'hamstrings'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 8,
+    instructions: ['Squat down', 'Explode upward into a jump and land softly back into the squat'],
+    hints: ['Land with bent knees'],
+    contraindications: ['Knee injury', 'Pregnancy'],
+    media: { video: 'squats' },
+    highImpact: true,
+    aliases: ['jump_squats']
+  },
+  {
+    id: 'pull-ups',
+    title: 'Pull-ups',
+    category: 'strength',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: ['biceps', 'upper_back'],
+    equipment: ['pullup-bar'],
+    difficulty: 'Advanced',
+    met: 8,
+    instructions: ['Hang from the bar with an overhand grip', 'Pull your chin over the bar, then lower with control'],
+    hints: ['Avoid swinging', 'Full range of motion'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'nordic-hamstring-curl',
+    title: 'Nordic Hamstring Curl',
+    category: 'strength',
+    primaryMuscles: ['hamstrings'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['barbell'],
+    difficulty: 'Advanced',
+    met: 5,
+    instructions: ['Kneel with heels anchored under a loaded barbell', 'Lower your torso forward as slowly as possible', 'Catch yourself with your hands and push back up'],
+    hints: ['Keep hips extended'],
+    contraindications: ['Hamstring strain', 'Knee injury'],
+    media: {}
+  },
+
+  // Core
+  {
+    id: 'side-plank',
+    title: 'Side Plank',
+    category: 'strength',
+    primaryMuscles: ['obliques'],
+    secondaryMuscles: ['core', 'shoulders'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.8,
+    instructions: ['Lie on your side, forearm under the shoulder', 'Lift hips into a straight line and hold'],
+    hints: ['Stack the feet or stagger them for balance'],
+    contraindications: ['Shoulder injury'],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'bicycle-crunches',
+    title: 'Bicycle Crunches',
+    category: 'strength',
+    primaryMuscles: ['obliques', 'core'],
+    secondaryMuscles: ['hip_flexors'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.8,
+    instructions: ['Lie on your back, hands by your head', 'Bring opposite elbow to knee while extending the other leg'],
+    hints: ['Rotate through the torso, not the neck'],
+    contraindications: ['Neck pain', 'Lower back pain'],
+    media: { video: 'crunches' },
+    aliases: ['bicycle_crunches']
+  },
+  {
+    id: 'russian-twists',
+    title: 'Russian Twists',
+    category: 'strength',
+    primaryMuscles: ['obliques'],
+    secondaryMuscles: ['core'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 3.8,
+    instructions: ['Sit leaning back with feet lifted or on the floor', 'Rotate the torso side to side'],
+    hints: ['Keep the chest lifted'],
+    contraindications: ['Lower back pain'],
+    media: {},
+    aliases: ['russian_twists']
+  },
+  {
+    id: 'dead-bug',
+    title: 'Dead Bug',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['hip_flexors'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3,
+    instructions: ['Lie on your back, arms up, knees over hips', 'Extend opposite arm and leg, return and switch'],
+    hints: ['Press the lower back into the floor'],
+    contraindications: [],
+    media: {},
+    aliases: ['dead_bug']
+  },
+  {
+    id: 'bird-dog',
+    title: 'Bird Dog',
+    category: 'strength',
+    primaryMuscles: ['core', 'lower_back'],
+    secondaryMuscles: ['glutes', 'shoulders'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3,
+    instructions: ['On hands and knees, extend opposite arm and leg', 'Pause, return and switch sides'],
+    hints: ['Keep hips square to the floor'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'hollow-hold',
+    title: 'Hollow Hold',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['hip_flexors'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 3.8,
+    instructions: ['Lie on your back, lift shoulders and legs off the floor', 'Hold a shallow banana shape'],
+    hints: ['Lower back stays down'],
+    contraindications: ['Lower back pain'],
+    media: {}
+  },
+  {
+    id: 'leg-raises',
+    title: 'Leg Raises',
+    category: 'strength',
+    primaryMuscles: ['core', 'hip_flexors'],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 3.8,
+    instructions: ['Lie on your back with legs straight', 'Raise legs to vertical and lower slowly'],
+    hints: ['Do not let the lower back arch'],
+    contraindications: ['Lower back pain'],
+    media: {}
+  },
+  {
+    id: 'side-bends',
+    title: 'Side Bends',
+    category: 'mobility',
+    primaryMuscles: ['obliques'],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.5,
+    instructions: ['Stand tall, reach one arm overhead', 'Bend gently to the opposite side and switch'],
+    hints: ['Move slowly'],
+    contraindications: [],
+    media: {},
+    aliases: ['side_bends']
+  },
+
+  // Pilates
+  {
+    id: 'hundred',
+    title: 'The Hundred',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['hip_flexors'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 3.8,
+    instructions: ['Curl head and shoulders up, legs at tabletop or extended', 'Pump the arms while breathing in for 5 and out for 5'],
+    hints: ['Keep the gaze on your belly'],
+    contraindications: ['Neck pain'],
+    media: {}
+  },
+  {
+    id: 'roll-up',
+    title: 'Roll-up',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['hamstrings'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 3,
+    instructions: ['Lie with arms overhead', 'Roll up one vertebra at a time to reach the toes, then roll down'],
+    hints: ['Move slowly, no momentum'],
+    contraindications: ['Lower back pain', 'Osteoporosis'],
+    media: {}
+  },
+  {
+    id: 'single-leg-stretch',
+    title: 'Single Leg Stretch',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['hip_flexors'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3,
+    instructions: ['Curl up, hug one knee while extending the other leg', 'Switch legs in rhythm'],
+    hints: ['Shoulders stay lifted'],
+    contraindications: ['Neck pain'],
+    media: {}
+  },
+  {
+    id: 'scissors',
+    title: 'Scissors',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['hamstrings', 'hip_flexors'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 3,
+    instructions: ['Curl up with both legs extended toward the ceiling', 'Lower one leg while holding the other, then switch'],
+    hints: ['Keep the pelvis still'],
+    contraindications: ['Neck pain'],
+    media: {}
+  },
+  {
+    id: 'teaser',
+    title: 'Teaser',
+    category: 'strength',
+    primaryMuscles: ['core'],
+    secondaryMuscles: ['hip_flexors'],
+    equipment: ['none'],
+    difficulty: 'Advanced',
+    met: 3.8,
+    instructions: ['From lying, roll up into a V-sit with arms reaching to the toes', 'Roll back down with control'],
+    hints: ['Lead with the chest'],
+    contraindications: ['Lower back pain'],
+    media: {}
+  },
+
+  // Cardio and conditioning
+  {
+    id: 'high-knees',
+    title: 'High Knees',
+    category: 'cardio',
+    primaryMuscles: ['hip_flexors', 'quads'],
+    secondaryMuscles: ['calves', 'core'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 8,
+    instructions: ['Run in place driving knees to hip height', 'Pump the arms'],
+    hints: ['Stay on the balls of your feet'],
+    contraindications: ['Knee injury'],
+    media: {},
+    highImpact: true,
+    aliases: ['high_knees', 'high_knees_jump']
+  },
+  {
+    id: 'butt-kickers',
+    title: 'Butt Kickers',
+    category: 'cardio',
+    primaryMuscles: ['hamstrings'],
+    secondaryMuscles: ['calves'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 7,
+    instructions: ['Jog in place kicking heels toward the glutes'],
+    hints: ['Quick feet'],
+    contraindications: ['Knee injury'],
+    media: {},
+    highImpact: true,
+    aliases: ['butt_kickers']
+  },
+  {
+    id: 'star-jumps',
+    title: 'Star Jumps',
+    category: 'cardio',
+    primaryMuscles: ['quads', 'calves'],
+    secondaryMuscles: ['shoulders', 'glutes'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 8,
+    instructions: ['Squat slightly, then jump spreading arms and legs into a star', 'Land softly with feet together'],
+    hints: ['Land with bent knees'],
+    contraindications: ['Knee injury', 'Pregnancy'],
+    media: {},
+    highImpact: true,
+    aliases: ['star_jumps']
+  },
+  {
+    id: 'box-jumps',
+    title: 'Box Jumps',
+    category: 'cardio',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['calves'],
+    equipment: ['box'],
+    difficulty: 'Intermediate',
+    met: 8,
+    instructions: ['Stand facing a sturdy box', 'Jump onto it landing softly, step back down'],
+    hints: ['Step down, do not jump down'],
+    contraindications: ['Knee injury', 'Achilles problems'],
+    media: {},
+    highImpact: true
+  },
+  {
+    id: 'stair-sprint',
+    title: 'Stair Sprint',
+    category: 'cardio',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['calves'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 9,
+    instructions: ['Run up a flight of stairs as fast as is safe', 'Walk down to recover'],
+    hints: ['Use the handrail if needed'],
+    contraindications: ['Knee injury', 'Balance problems'],
+    media: {},
+    highImpact: true
+  },
+  {
+    id: 'stair-lunges',
+    title: 'Stair Lunges',
+    category: 'strength',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['hamstrings'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 6,
+    instructions: ['Lunge up the stairs taking two steps at a time', 'Walk down to recover'],
+    hints: ['Drive through the front heel'],
+    contraindications: ['Knee injury', 'Balance problems'],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'steady-walk',
+    title: 'Steady Walk',
+    category: 'cardio',
+    primaryMuscles: ['quads', 'calves'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Walk at a brisk, even pace'],
+    hints: ['Relax the shoulders'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'conversational-pace',
+    title: 'Conversational Pace Jog',
+    category: 'cardio',
+    primaryMuscles: ['quads', 'calves'],
+    secondaryMuscles: ['hamstrings', 'glutes'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 7,
+    instructions: ['Jog at a pace where you can still talk in full sentences'],
+    hints: ['Short, light strides'],
+    contraindications: ['Knee injury'],
+    media: {},
+    highImpact: true
+  },
+
+  // Jump rope
+  {
+    id: 'basic-jump',
+    title: 'Basic Jump',
+    category: 'cardio',
+    primaryMuscles: ['calves'],
+    secondaryMuscles: ['shoulders', 'forearms'],
+    equipment: ['jump-rope'],
+    difficulty: 'Beginner',
+    met: 11,
+    instructions: ['Turn the rope from the wrists', 'Jump just high enough to clear it'],
+    hints: ['Elbows close to the body'],
+    contraindications: ['Ankle injury'],
+    media: {},
+    highImpact: true
+  },
+  {
+    id: 'alternate-foot',
+    title: 'Alternate Foot Step',
+    category: 'cardio',
+    primaryMuscles: ['calves'],
+    secondaryMuscles: ['hip_flexors'],
+    equipment: ['jump-rope'],
+    difficulty: 'Beginner',
+    met: 11,
+    instructions: ['Skip the rope stepping from one foot to the other like a light jog'],
+    hints: ['Stay on the balls of your feet'],
+    contraindications: ['Ankle injury'],
+    media: {},
+    highImpact: true
+  },
+  {
+    id: 'boxer-step',
+    title: 'Boxer Step',
+    category: 'cardio',
+    primaryMuscles: ['calves'],
+    secondaryMuscles: ['quads'],
+    equipment: ['jump-rope'],
+    difficulty: 'Intermediate',
+    met: 10,
+    instructions: ['Shift weight side to side, tapping the unweighted foot as the rope passes'],
+    hints: ['Keep the jumps small'],
+    contraindications: ['Ankle injury'],
+    media: {},
+    highImpact: true
+  },
+  {
+    id: 'double-under',
+    title: 'Double Under',
+    category: 'cardio',
+    primaryMuscles: ['calves'],
+    secondaryMuscles: ['shoulders', 'forearms', 'core'],
+    equipment: ['jump-rope'],
+    difficulty: 'Advanced',
+    met: 12.3,
+    instructions: ['Jump a little higher and spin the rope twice per jump'],
+    hints: ['Fast wrists, not big arms'],
+    contraindications: ['Ankle injury', 'Achilles problems'],
+    media: {},
+    highImpact: true
+  },
+
+  // Boxing
+  {
+    id: 'footwork',
+    title: 'Boxing Footwork',
+    category: 'cardio',
+    primaryMuscles: ['calves'],
+    secondaryMuscles: ['quads'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 5.5,
+    instructions: ['From a fighting stance, step forward, back and to the sides', 'Keep the feet shoulder-width apart'],
+    hints: ['Never cross the feet'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'jabs',
+    title: 'Jabs',
+    category: 'cardio',
+    primaryMuscles: ['shoulders'],
+    secondaryMuscles: ['triceps', 'core'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 5.5,
+    instructions: ['Snap the lead hand straight out and back to the guard'],
+    hints: ['Rotate the fist at the end', 'Other hand guards the chin'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'crosses',
+    title: 'Crosses',
+    category: 'cardio',
+    primaryMuscles: ['shoulders', 'obliques'],
+    secondaryMuscles: ['chest', 'triceps'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 5.5,
+    instructions: ['Throw the rear hand straight, pivoting the back foot'],
+    hints: ['Power comes from the hips'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'hooks',
+    title: 'Hooks',
+    category: 'cardio',
+    primaryMuscles: ['shoulders', 'obliques'],
+    secondaryMuscles: ['chest'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 5.5,
+    instructions: ['Bend the elbow 90° and swing horizontally, rotating the torso'],
+    hints: ['Keep the elbow at shoulder height'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'uppercuts',
+    title: 'Uppercuts',
+    category: 'cardio',
+    primaryMuscles: ['shoulders', 'biceps'],
+    secondaryMuscles: ['obliques', 'quads'],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 5.5,
+    instructions: ['Dip slightly and drive the fist upward from the hips'],
+    hints: ['Short punch, stay compact'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+
+  // Dumbbells, kettlebells and carries
+  {
+    id: 'dumbbell-row',
+    title: 'Dumbbell Row',
+    category: 'strength',
+    primaryMuscles: ['upper_back', 'lats'],
+    secondaryMuscles: ['biceps'],
+    equipment: ['dumbbells'],
+    difficulty: 'Beginner',
+    met: 5,
+    instructions: ['Hinge forward with a flat back, dumbbell hanging', 'Pull the elbow back to the hip, lower with control'],
+    hints: ['Do not rotate the torso'],
+    contraindications: ['Lower back pain'],
+    media: {},
+    aliases: ['rows'],
+    unilateral: true
+  },
+  {
+    id: 'dumbbell-press',
+    title: 'Dumbbell Press',
+    category: 'strength',
+    primaryMuscles: ['chest', 'shoulders'],
+    secondaryMuscles: ['triceps'],
+    equipment: ['dumbbells'],
+    difficulty: 'Beginner',
+    met: 5,
+    instructions: ['Lie on the floor or a bench holding dumbbells over the chest', 'Lower to chest level and press back up'],
+    hints: ['Wrists stacked over elbows'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'goblet-squat',
+    title: 'Goblet Squat',
+    category: 'strength',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['core', 'upper_back'],
+    equipment: ['dumbbells'],
+    difficulty: 'Beginner',
+    met: 5,
+    instructions: ['Hold a dumbbell or kettlebell at the chest', 'Squat between the knees and stand back up'],
+    hints: ['Elbows inside the knees at the bottom'],
+    contraindications: ['Acute knee pain'],
+    media: {}
+  },
+  {
+    id: 'farmer-walk',
+    title: 'Farmer Walk',
+    category: 'strength',
+    primaryMuscles: ['forearms', 'upper_back'],
+    secondaryMuscles: ['core', 'glutes'],
+    equipment: ['dumbbells'],
+    difficulty: 'Beginner',
+    met: 6,
+    instructions: ['Hold a heavy weight in each hand', 'Walk tall with short, quick steps'],
+    hints: ['Shoulders down and back'],
+    contraindications: ['Lower back pain'],
+    media: {}
+  },
+  {
+    id: 'suitcase-carry',
+    title: 'Suitcase Carry',
+    category: 'strength',
+    primaryMuscles: ['obliques', 'forearms'],
+    secondaryMuscles: ['core'],
+    equipment: ['kettlebell'],
+    difficulty: 'Intermediate',
+    met: 6,
+    instructions: ['Hold one weight at your side', 'Walk without leaning toward it, then switch hands'],
+    hints: ['Stay perfectly upright'],
+    contraindications: ['Lower back pain'],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'overhead-carry',
+    title: 'Overhead Carry',
+    category: 'strength',
+    primaryMuscles: ['shoulders'],
+    secondaryMuscles: ['core', 'upper_back'],
+    equipment: ['dumbbells'],
+    difficulty: 'Intermediate',
+    met: 6,
+    instructions: ['Press a weight overhead and lock the elbow', 'Walk with the arm vertical'],
+    hints: ['Ribs down'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'kettlebell-swing',
+    title: 'Kettlebell Swing',
+    category: 'cardio',
+    primaryMuscles: ['glutes', 'hamstrings'],
+    secondaryMuscles: ['core', 'shoulders', 'forearms'],
+    equipment: ['kettlebell'],
+    difficulty: 'Intermediate',
+    met: 9.8,
+    instructions: ['Hinge and hike the bell between the legs', 'Snap the hips forward to float it to chest height'],
+    hints: ['Hips drive, arms just guide'],
+    contraindications: ['Lower back pain'],
+    media: {},
+    aliases: ['kb_swings']
+  },
+  {
+    id: 'kettlebell-press',
+    title: 'Kettlebell Press',
+    category: 'strength',
+    primaryMuscles: ['shoulders'],
+    secondaryMuscles: ['triceps', 'core'],
+    equipment: ['kettlebell'],
+    difficulty: 'Intermediate',
+    met: 5,
+    instructions: ['Hold the bell in the rack position', 'Press overhead to lockout and lower to the rack'],
+    hints: ['Squeeze glutes to avoid arching'],
+    contraindications: ['Shoulder injury'],
+    media: {},
+    aliases: ['kb_press']
+  },
+  {
+    id: 'kettlebell-deadlift',
+    title: 'Kettlebell Deadlift',
+    category: 'strength',
+    primaryMuscles: ['glutes', 'hamstrings'],
+    secondaryMuscles: ['lower_back', 'forearms'],
+    equipment: ['kettlebell'],
+    difficulty: 'Beginner',
+    met: 5,
+    instructions: ['Bell between the feet, hinge and grip the handle', 'Stand up by driving the hips forward'],
+    hints: ['Flat back throughout'],
+    contraindications: ['Lower back pain'],
+    media: {}
+  },
+  {
+    id: 'turkish-get-up',
+    title: 'Turkish Get-up',
+    category: 'strength',
+    primaryMuscles: ['shoulders', 'core'],
+    secondaryMuscles: ['glutes', 'quads'],
+    equipment: ['kettlebell'],
+    difficulty: 'Advanced',
+    met: 5,
+    instructions: ['From lying with the bell pressed up, move step by step to standing', 'Reverse the steps back to the floor'],
+    hints: ['Eyes on the bell', 'Slow and controlled'],
+    contraindications: ['Shoulder injury'],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'clean-and-press',
+    title: 'Clean and Press',
+    category: 'strength',
+    primaryMuscles: ['shoulders', 'glutes'],
+    secondaryMuscles: ['hamstrings', 'triceps', 'core'],
+    equipment: ['kettlebell'],
+    difficulty: 'Advanced',
+    met: 6,
+    instructions: ['Clean the bell to the rack position', 'Press it overhead, lower and repeat'],
+    hints: ['Let the bell roll around the wrist'],
+    contraindications: ['Shoulder injury', 'Lower back pain'],
+    media: {}
+  },
+
+  // Barbell and machines
+  {
+    id: 'conventional-deadlift',
+    title: 'Conventional Deadlift',
+    category: 'strength',
+    primaryMuscles: ['glutes', 'hamstrings', 'lower_back'],
+    secondaryMuscles: ['upper_back', 'forearms', 'quads'],
+    equipment: ['barbell'],
+    difficulty: 'Intermediate',
+    met: 6,
+    instructions: ['Bar over mid-foot, grip just outside the knees', 'Brace and stand up pushing the floor away', 'Lower by hinging at the hips'],
+    hints: ['Bar stays close to the legs'],
+    contraindications: ['Lower back pain', 'Hernia'],
+    media: {},
+    aliases: ['deadlifts', 'deadlift']
+  },
+  {
+    id: 'romanian-deadlift',
+    title: 'Romanian Deadlift',
+    category: 'strength',
+    primaryMuscles: ['hamstrings', 'glutes'],
+    secondaryMuscles: ['lower_back'],
+    equipment: ['barbell'],
+    difficulty: 'Intermediate',
+    met: 5,
+    instructions: ['Stand with the bar at the hips', 'Push hips back with soft knees until you feel the hamstrings, then stand'],
+    hints: ['Neutral spine'],
+    contraindications: ['Lower back pain'],
+    media: {}
+  },
+  {
+    id: 'barbell-squat',
+    title: 'Barbell Back Squat',
+    category: 'strength',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['hamstrings', 'lower_back', 'core'],
+    equipment: ['barbell'],
+    difficulty: 'Intermediate',
+    met: 6,
+    instructions: ['Bar on the upper back, feet shoulder-width', 'Squat to parallel or below and drive up'],
+    hints: ['Brace before each rep'],
+    contraindications: ['Knee injury', 'Lower back pain'],
+    media: {}
+  },
+  {
+    id: 'barbell-bench-press',
+    title: 'Barbell Bench Press',
+    category: 'strength',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps', 'shoulders'],
+    equipment: ['barbell', 'bench'],
+    difficulty: 'Intermediate',
+    met: 5,
+    instructions: ['Lie on the bench, eyes under the bar', 'Lower the bar to the chest and press up'],
+    hints: ['Feet planted', 'Use a spotter for heavy sets'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'lat-pulldown',
+    title: 'Lat Pulldown',
+    category: 'strength',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: ['biceps', 'upper_back'],
+    equipment: ['machines'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Grip the bar wider than shoulders', 'Pull it to the upper chest and return slowly'],
+    hints: ['Lead with the elbows'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'leg-press',
+    title: 'Leg Press',
+    category: 'strength',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['hamstrings'],
+    equipment: ['machines'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Feet hip-width on the platform', 'Lower until knees are at 90°, press back without locking out'],
+    hints: ['Lower back stays on the pad'],
+    contraindications: ['Knee injury'],
+    media: {}
+  },
+
+  // Resistance bands
+  {
+    id: 'band-rows',
+    title: 'Band Rows',
+    category: 'strength',
+    primaryMuscles: ['upper_back', 'lats'],
+    secondaryMuscles: ['biceps'],
+    equipment: ['bands'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Anchor the band at chest height', 'Pull handles to the ribs, squeezing the shoulder blades'],
+    hints: ['Control the return'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'band-press',
+    title: 'Band Chest Press',
+    category: 'strength',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['triceps', 'shoulders'],
+    equipment: ['bands'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Band anchored behind you at chest height', 'Press the handles forward and return slowly'],
+    hints: ['Keep the wrists straight'],
+    contraindications: ['Shoulder injury'],
+    media: {}
+  },
+  {
+    id: 'band-squats',
+    title: 'Band Squats',
+    category: 'strength',
+    primaryMuscles: ['quads', 'glutes'],
+    secondaryMuscles: ['hamstrings'],
+    equipment: ['bands'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Stand on the band holding handles at the shoulders', 'Squat down and stand up against the tension'],
+    hints: ['Knees out'],
+    contraindications: ['Acute knee pain'],
+    media: {}
+  },
+  {
+    id: 'band-curls',
+    title: 'Band Curls',
+    category: 'strength',
+    primaryMuscles: ['biceps'],
+    secondaryMuscles: ['forearms'],
+    equipment: ['bands'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Stand on the band, palms forward', 'Curl the handles to the shoulders and lower slowly'],
+    hints: ['Elbows pinned to the sides'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'band-pull-aparts',
+    title: 'Band Pull-Aparts',
+    category: 'strength',
+    primaryMuscles: ['upper_back'],
+    secondaryMuscles: ['shoulders'],
+    equipment: ['bands'],
+    difficulty: 'Beginner',
+    met: 3,
+    instructions: ['Hold the band at shoulder height with straight arms', 'Pull it apart until it touches the chest'],
+    hints: ['Squeeze the shoulder blades'],
+    contraindications: [],
+    media: {},
+    aliases: ['band_pull_apart']
+  },
+  {
+    id: 'band-good-morning',
+    title: 'Band Good Morning',
+    category: 'strength',
+    primaryMuscles: ['hamstrings', 'lower_back'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['bands'],
+    difficulty: 'Beginner',
+    met: 3.5,
+    instructions: ['Stand on the band with it looped behind the neck', 'Hinge forward with a flat back and stand up'],
+    hints: ['Soft knees'],
+    contraindications: ['Lower back pain'],
+    media: {}
+  },
+
+  // Mobility and yoga
+  {
+    id: 'arm-circles',
+    title: 'Arm Circles',
+    category: 'mobility',
+    primaryMuscles: ['shoulders'],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.8,
+    instructions: ['Arms out to the sides', 'Make circles, growing bigger, then reverse'],
+    hints: ['Relax the neck'],
+    contraindications: [],
+    media: {},
+    aliases: ['arm_circles']
+  },
+  {
+    id: 'arm-swings',
+    title: 'Arm Swings',
+    category: 'mobility',
+    primaryMuscles: ['shoulders', 'chest'],
+    secondaryMuscles: ['upper_back'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.8,
+    instructions: ['Swing the arms open across the chest and back'],
+    hints: ['Easy, loose movement'],
+    contraindications: [],
+    media: {},
+    aliases: ['arm_swings']
+  },
+  {
+    id: 'leg-swings',
+    title: 'Leg Swings',
+    category: 'mobility',
+    primaryMuscles: ['hip_flexors', 'hamstrings'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.8,
+    instructions: ['Hold a wall for balance', 'Swing one leg forward and back, then side to side'],
+    hints: ['Stay tall'],
+    contraindications: [],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'hip-circles',
+    title: 'Hip Circles',
+    category: 'mobility',
+    primaryMuscles: ['hip_flexors', 'glutes'],
+    secondaryMuscles: ['core'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.5,
+    instructions: ['Hands on hips, feet wide', 'Draw big circles with the hips in both directions'],
+    hints: ['Keep the head still'],
+    contraindications: [],
+    media: {},
+    aliases: ['hip_opener']
+  },
+  {
+    id: 'neck-rolls',
+    title: 'Neck Rolls',
+    category: 'mobility',
+    primaryMuscles: ['neck'],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 1.8,
+    instructions: ['Drop the chin and slowly roll the head ear to ear'],
+    hints: ['Avoid rolling fully backward'],
+    contraindications: ['Neck injury'],
+    media: {},
+    aliases: ['neck_rolls']
+  },
+  {
+    id: 'shoulder-shrugs',
+    title: 'Shoulder Shrugs',
+    category: 'mobility',
+    primaryMuscles: ['neck', 'upper_back'],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 1.8,
+    instructions: ['Lift the shoulders to the ears, hold, then drop them'],
+    hints: ['Exhale as you release'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'cat-cow',
+    title: 'Cat-Cow',
+    category: 'mobility',
+    primaryMuscles: ['lower_back'],
+    secondaryMuscles: ['core', 'neck'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.3,
+    instructions: ['On hands and knees, round the back toward the ceiling', 'Then let the belly drop and lift the chest'],
+    hints: ['Move with the breath'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'thoracic-rotation',
+    title: 'Thoracic Rotation',
+    category: 'mobility',
+    primaryMuscles: ['upper_back'],
+    secondaryMuscles: ['obliques'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.3,
+    instructions: ['On hands and knees, hand behind the head', 'Rotate the elbow up toward the ceiling and back down'],
+    hints: ['Follow the elbow with your eyes'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'forward-fold',
+    title: 'Forward Fold',
+    category: 'mobility',
+    primaryMuscles: ['hamstrings'],
+    secondaryMuscles: ['lower_back'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.3,
+    instructions: ['Hinge from the hips and let the upper body hang', 'Bend the knees as much as needed'],
+    hints: ['Let the head relax'],
+    contraindications: ['High blood pressure'],
+    media: {}
+  },
+  {
+    id: 'spinal-twist',
+    title: 'Spinal Twist',
+    category: 'mobility',
+    primaryMuscles: ['lower_back', 'obliques'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2,
+    instructions: ['Lie on your back and drop both knees to one side', 'Look the other way and breathe, then switch'],
+    hints: ['Keep both shoulders down'],
+    contraindications: [],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'pigeon-pose',
+    title: 'Pigeon Pose',
+    category: 'mobility',
+    primaryMuscles: ['glutes', 'hip_flexors'],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 2.3,
+    instructions: ['Bring one shin forward across the mat, other leg straight back', 'Square the hips and fold forward'],
+    hints: ['Use a cushion under the hip'],
+    contraindications: ['Knee injury'],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'sun-salutation',
+    title: 'Sun Salutation',
+    category: 'mobility',
+    primaryMuscles: ['hamstrings', 'shoulders'],
+    secondaryMuscles: ['core', 'chest'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 3.3,
+    instructions: ['Flow from standing to forward fold, plank, cobra and downward dog', 'Return to standing with the breath'],
+    hints: ['One breath per movement'],
+    contraindications: ['Wrist pain'],
+    media: {}
+  },
+  {
+    id: 'warrior-i',
+    title: 'Warrior I',
+    category: 'mobility',
+    primaryMuscles: ['quads', 'hip_flexors'],
+    secondaryMuscles: ['shoulders'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.5,
+    instructions: ['Step one foot back, bend the front knee', 'Reach arms overhead and hold'],
+    hints: ['Back heel grounded'],
+    contraindications: [],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'downward-dog',
+    title: 'Downward Dog',
+    category: 'mobility',
+    primaryMuscles: ['hamstrings', 'calves'],
+    secondaryMuscles: ['shoulders'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.5,
+    instructions: ['From hands and knees, lift hips up and back', 'Press heels toward the floor'],
+    hints: ['Long spine over straight legs'],
+    contraindications: ['Wrist pain', 'High blood pressure'],
+    media: {}
+  },
+  {
+    id: 'child-pose',
+    title: "Child's Pose",
+    category: 'mobility',
+    primaryMuscles: ['lower_back'],
+    secondaryMuscles: ['hip_flexors', 'shoulders'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 1.5,
+    instructions: ['Kneel and sit back on the heels', 'Reach arms forward and rest the forehead down'],
+    hints: ['Breathe into the back'],
+    contraindications: ['Knee injury'],
+    media: {}
+  },
+  {
+    id: 'quad-stretch',
+    title: 'Quad Stretch',
+    category: 'mobility',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['hip_flexors'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.3,
+    instructions: ['Stand and pull one heel toward the glute', 'Hold, then switch'],
+    hints: ['Knees together'],
+    contraindications: [],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'hamstring-stretch',
+    title: 'Hamstring Stretch',
+    category: 'mobility',
+    primaryMuscles: ['hamstrings'],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.3,
+    instructions: ['Heel on a low step, leg straight', 'Hinge forward from the hips and hold'],
+    hints: ['Flat back'],
+    contraindications: [],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'hip-flexor',
+    title: 'Hip Flexor Stretch',
+    category: 'mobility',
+    primaryMuscles: ['hip_flexors'],
+    secondaryMuscles: ['quads'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.3,
+    instructions: ['Kneel on one knee, other foot forward', 'Shift the hips forward and hold'],
+    hints: ['Tuck the pelvis'],
+    contraindications: ['Knee pain'],
+    media: {},
+    unilateral: true
+  },
+  {
+    id: 'chest-opener',
+    title: 'Chest Opener',
+    category: 'mobility',
+    primaryMuscles: ['chest'],
+    secondaryMuscles: ['shoulders'],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 2.3,
+    instructions: ['Clasp hands behind the back', 'Lift the chest and draw the hands down and away'],
+    hints: ['Do not shrug'],
+    contraindications: [],
+    media: {}
+  },
+
+  // Foam rolling
+  {
+    id: 'quad-roll',
+    title: 'Quad Roll',
+    category: 'recovery',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: [],
+    equipment: ['foam-roller'],
+    difficulty: 'Beginner',
+    met: 2,
+    instructions: ['Lie face down with the roller under the thighs', 'Roll slowly from hip to knee'],
+    hints: ['Pause on tender spots'],
+    contraindications: ['Varicose veins'],
+    media: {}
+  },
+  {
+    id: 'it-band-roll',
+    title: 'IT Band Roll',
+    category: 'recovery',
+    primaryMuscles: ['quads'],
+    secondaryMuscles: ['glutes'],
+    equipment: ['foam-roller'],
+    difficulty: 'Beginner',
+    met: 2,
+    instructions: ['Lie on your side with the roller under the outer thigh', 'Roll between hip and knee'],
+    hints: ['Support yourself with the top leg'],
+    contraindications: ['Varicose veins'],
+    media: {}
+  },
+  {
+    id: 'calf-roll',
+    title: 'Calf Roll',
+    category: 'recovery',
+    primaryMuscles: ['calves'],
+    secondaryMuscles: [],
+    equipment: ['foam-roller'],
+    difficulty: 'Beginner',
+    met: 2,
+    instructions: ['Sit with the roller under the calves', 'Lift the hips and roll ankle to knee'],
+    hints: ['Cross one leg over for more pressure'],
+    contraindications: ['Varicose veins'],
+    media: {}
+  },
+  {
+    id: 'lat-roll',
+    title: 'Lat Roll',
+    category: 'recovery',
+    primaryMuscles: ['lats'],
+    secondaryMuscles: [],
+    equipment: ['foam-roller'],
+    difficulty: 'Beginner',
+    met: 2,
+    instructions: ['Lie on your side, arm overhead, roller under the armpit', 'Roll down along the side of the back'],
+    hints: ['Small movements'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'thoracic-roll',
+    title: 'Thoracic Roll',
+    category: 'recovery',
+    primaryMuscles: ['upper_back'],
+    secondaryMuscles: [],
+    equipment: ['foam-roller'],
+    difficulty: 'Beginner',
+    met: 2,
+    instructions: ['Roller across the upper back, hands behind the head', 'Roll between shoulder blades and mid-back'],
+    hints: ['Keep the lower back off the roller'],
+    contraindications: ['Osteoporosis'],
+    media: {}
+  },
+
+  // Breathing and recovery protocols
+  {
+    id: 'box-breathing',
+    title: 'Box Breathing',
+    category: 'recovery',
+    primaryMuscles: [],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 1.3,
+    instructions: ['Inhale 4 s, hold 4 s, exhale 4 s, hold 4 s', 'Repeat'],
+    hints: ['Breathe through the nose'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'physiological-sigh',
+    title: 'Physiological Sigh',
+    category: 'recovery',
+    primaryMuscles: [],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 1.3,
+    instructions: ['Two inhales through the nose, the second one short', 'One long exhale through the mouth'],
+    hints: ['Make the exhale longer than the inhales'],
+    contraindications: [],
+    media: {}
+  },
+  {
+    id: 'wim-hof-basic',
+    title: 'Power Breathing',
+    category: 'recovery',
+    primaryMuscles: [],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 1.5,
+    instructions: ['30 deep, relaxed breaths', 'Exhale and hold as long as comfortable, then recover'],
+    hints: ['Always sitting or lying down'],
+    contraindications: ['Pregnancy', 'Epilepsy', 'Heart conditions', 'Never in or near water'],
+    media: {}
+  },
+  {
+    id: 'cold-shower',
+    title: 'Cold Shower',
+    category: 'recovery',
+    primaryMuscles: [],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Intermediate',
+    met: 1.5,
+    instructions: ['Turn the water to cold for the last 30-60 seconds', 'Breathe slowly and stay calm'],
+    hints: ['Start with short exposures'],
+    contraindications: ['Heart conditions', 'Raynaud\'s syndrome'],
+    media: {}
+  },
+  {
+    id: 'warm-shower',
+    title: 'Warm Shower',
+    category: 'recovery',
+    primaryMuscles: [],
+    secondaryMuscles: [],
+    equipment: ['none'],
+    difficulty: 'Beginner',
+    met: 1.5,
+    instructions: ['Warm up gradually under warm water'],
+    hints: ['Avoid very hot water right after cold'],
+    contraindications: [],
+    media: {}
+  }
+];
+
+// Quick-start exercises for the home grid and session setup, in order
+export const FEATURED_EXERCISE_IDS = [
+  'pushups',
+  'plank',
+  'squats',
+  'burpees',
+  'lunges',
+  'crunches',
+  'mountain-climbers',
+  'jumping-jacks'
+];
+
+const normalizeRef = (value: string = ''): string =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const CATALOG_BY_ID = new Map(EXERCISE_CATALOG.map(exercise => [exercise.id, exercise]));
+
+const CATALOG_BY_REF = new Map<string, CatalogExercise>();
+EXERCISE_CATALOG.forEach(exercise => {
+  [exercise.id, exercise.title, ...(exercise.aliases ?? [])].forEach(ref => {
+    const key = normalizeRef(ref);
+    if (!CATALOG_BY_REF.has(key)) CATALOG_BY_REF.set(key, exercise);
+  });
+});
+
+export const getExerciseById = (id: string | null | undefined): CatalogExercise | undefined =>
+  id ? CATALOG_BY_ID.get(id) : undefined;
+
+// Resolve a catalog id, title or legacy animationRef such as "push_ups"
+export const findExercise = (ref: string | null | undefined): CatalogExercise | undefined =>
+  getExerciseById(ref) ?? (ref ? CATALOG_BY_REF.get(normalizeRef(ref)) : undefined);
+
+// Steps from before the catalog only carry an animationRef or title
+export const findStepExercise = (step: {
+  exerciseId?: string;
+  animationRef?: string;
+  title: string;
+}): CatalogExercise | undefined =>
+  getExerciseById(step.exerciseId) ?? findExercise(step.animationRef) ?? findExercise(step.title);
+
+export const getExerciseTitle = (id: string | null | undefined, fallback: string = 'Custom Exercise'): string =>
+  getExerciseById(id)?.title ?? fallback;
+
+export const FEATURED_EXERCISES = FEATURED_EXERCISE_IDS.map(id => CATALOG_BY_ID.get(id) as CatalogExercise);
+
+export const isBodyweight = (exercise: CatalogExercise): boolean =>
+  exercise.equipment.every(item => item === 'none');
+
+// ExerciseStep.equipment lists only the gear actually needed
+export const getStepEquipment = (exercise: CatalogExercise): string[] =>
+  exercise.equipment.filter(item => item !== 'none');
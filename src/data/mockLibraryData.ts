@@ -490,7 +490,7 @@ const CONTINUE_ITEMS: Workout[] = [
     equipment: ['dumbbells'],
     locations: ['gym'],
     goals: ['strength'],
-    exercises: ['squats', 'deadlifts'],
+    exercises: ['squats', 'conventional-deadlift'],
     estimatedCalories: 200,
   },
   {
@@ -596,7 +596,7 @@ const QUICK_START_ITEMS: Workout[] = [
     equipment: ['dumbbells'],
     locations: ['home', 'gym'],
     goals: ['strength', 'muscle'],
-    exercises: ['squats', 'pushups', 'rows'],
+    exercises: ['squats', 'pushups', 'dumbbell-row'],
     estimatedCalories: 180,
   },
   {
@@ -807,7 +807,7 @@ const NEW_THIS_WEEK: Workout[] = [
     equipment: ['kettlebell'],
     locations: ['gym', 'home'],
     goals: ['strength'],
-    exercises: ['kb-swings', 'kb-press'],
+    exercises: ['kettlebell-swing', 'kettlebell-press'],
     estimatedCalories: 200,
   },
   {
@@ -841,7 +841,7 @@ const NEW_THIS_WEEK: Workout[] = [
     equipment: ['none'],
     locations: ['home'],
     goals: ['strength'],
-    exercises: ['glute-bridges', 'planks'],
+    exercises: ['glute-bridges', 'plank'],
     estimatedCalories: 120,
   },
   {
@@ -1089,7 +1089,7 @@ export const MOCK_LIBRARY_SECTIONS: LibrarySection[] = [
         equipment: ['jump-rope'],
         locations: ['home', 'outdoor'],
         goals: ['cardio', 'fat_loss'],
-        exercises: ['basic-jump', 'alternate-foot', 'double-under', 'high-knees-jump', 'boxer-step'],
+        exercises: ['basic-jump', 'alternate-foot', 'double-under', 'high-knees', 'boxer-step'],
         estimatedCalories: 240,
       },
       {
@@ -1140,7 +1140,7 @@ export const MOCK_LIBRARY_SECTIONS: LibrarySection[] = [
         equipment: ['none'],
         locations: ['home'],
         goals: ['strength', 'mobility'],
-        exercises: ['wall-plank', 'wall-squat', 'wall-bridge'],
+        exercises: ['wall-plank', 'wall-sit', 'wall-bridge'],
         estimatedCalories: 100,
       },
       {
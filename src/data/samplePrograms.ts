@@ -1,4 +1,4 @@
-import { Program, ExerciseStep, RestStep } from '../types/program';
+import { Program, ExerciseStep, RestStep, buildProgram } from '../types/program';
 
 // Sample Program 1: Full-Body Express
 const fullBodyExpressSteps: (ExerciseStep | RestStep)[] = [
@@ -9,6 +9,7 @@ const fullBodyExpressSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 45,
     description: 'Start with feet together, jump feet apart while raising arms overhead',
     icon: '🤸‍♂️',
+    exerciseId: 'jumping-jacks',
     animationRef: 'jumping_jacks',
     targetReps: 30,
     equipment: []
@@ -27,6 +28,7 @@ const fullBodyExpressSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 30,
     description: 'Keep your body in a straight line, lower chest to floor',
     icon: '💪',
+    exerciseId: 'pushups',
     animationRef: 'push_ups',
     targetReps: 15,
     equipment: []
@@ -45,6 +47,7 @@ const fullBodyExpressSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 40,
     description: 'Feet shoulder-width apart, lower hips back and down',
     icon: '🦵',
+    exerciseId: 'squats',
     animationRef: 'squats',
     targetReps: 20,
     equipment: []
@@ -63,6 +66,7 @@ const fullBodyExpressSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 30,
     description: 'Start in plank position, alternate bringing knees to chest',
     icon: '🏔️',
+    exerciseId: 'mountain-climbers',
     animationRef: 'mountain_climbers',
     targetReps: 20,
     equipment: []
@@ -81,6 +85,7 @@ const fullBodyExpressSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 35,
     description: 'Hold a straight line from head to heels, engage your core',
     icon: '🏋️‍♀️',
+    exerciseId: 'plank',
     animationRef: 'plank',
     equipment: []
   },
@@ -98,6 +103,7 @@ const fullBodyExpressSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 25,
     description: 'Squat down, jump back to plank, push-up, jump forward, jump up',
     icon: '🔥',
+    exerciseId: 'burpees',
     animationRef: 'burpees',
     targetReps: 8,
     equipment: []
@@ -114,7 +120,6 @@ export const FULL_BODY_EXPRESS: Program = {
   stepsCount: 11,
   tags: ['No equipment', 'Full body', 'HIIT', 'Beginner friendly'],
   steps: fullBodyExpressSteps,
-  estimatedCalories: 85,
   thumbnailUrl: 'https://images.unsplash.com/photo-1526506118085-60ce8714f8c5?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80',
   difficulty: 3,
   createdAt: '2024-01-15T10:00:00Z',
@@ -130,6 +135,7 @@ const coreCardioSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 30,
     description: 'Run in place lifting knees as high as possible',
     icon: '🏃‍♂️',
+    exerciseId: 'high-knees',
     animationRef: 'high_knees',
     targetReps: 40,
     equipment: []
@@ -148,6 +154,7 @@ const coreCardioSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 45,
     description: 'Alternate bringing opposite elbow to knee in a cycling motion',
     icon: '🚴‍♀️',
+    exerciseId: 'bicycle-crunches',
     animationRef: 'bicycle_crunches',
     targetReps: 30,
     equipment: []
@@ -166,6 +173,7 @@ const coreCardioSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 35,
     description: 'Explosive squat with a jump at the top',
     icon: '⚡',
+    exerciseId: 'jump-squats',
     animationRef: 'jump_squats',
     targetReps: 15,
     equipment: []
@@ -184,6 +192,7 @@ const coreCardioSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 40,
     description: 'Sit with knees bent, lean back slightly, rotate torso side to side',
     icon: '🌪️',
+    exerciseId: 'russian-twists',
     animationRef: 'russian_twists',
     targetReps: 25,
     equipment: []
@@ -202,6 +211,7 @@ const coreCardioSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 25,
     description: 'Run in place kicking heels to glutes',
     icon: '🦵',
+    exerciseId: 'butt-kickers',
     animationRef: 'butt_kickers',
     targetReps: 30,
     equipment: []
@@ -220,6 +230,7 @@ const coreCardioSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 50,
     description: 'Lie on back, extend opposite arm and leg, return to start',
     icon: '🪲',
+    exerciseId: 'dead-bug',
     animationRef: 'dead_bug',
     targetReps: 20,
     equipment: []
@@ -238,6 +249,7 @@ const coreCardioSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 30,
     description: 'Jump with arms and legs spread wide like a star',
     icon: '⭐',
+    exerciseId: 'star-jumps',
     animationRef: 'star_jumps',
     targetReps: 20,
     equipment: []
@@ -254,7 +266,6 @@ export const CORE_CARDIO_MIX: Program = {
   stepsCount: 13,
   tags: ['No equipment', 'Core', 'Cardio', 'Beginner', 'Fat burn'],
   steps: coreCardioSteps,
-  estimatedCalories: 95,
   thumbnailUrl: 'https://images.unsplash.com/photo-1540497077202-7c8a3999166f?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80',
   difficulty: 2,
   createdAt: '2024-01-15T11:00:00Z',
@@ -266,10 +277,12 @@ const upperBodySteps: (ExerciseStep | RestStep)[] = [
   {
     id: 'ubs_1',
     type: 'exercise',
+    mode: 'reps',
     title: 'Push-ups',
     durationSec: 40,
     description: 'Standard push-ups with proper form',
     icon: '💪',
+    exerciseId: 'pushups',
     animationRef: 'push_ups',
     targetReps: 20,
     equipment: []
@@ -284,10 +297,12 @@ const upperBodySteps: (ExerciseStep | RestStep)[] = [
   {
     id: 'ubs_2',
     type: 'exercise',
+    mode: 'reps',
     title: 'Pike Push-ups',
     durationSec: 30,
     description: 'Targets shoulders and upper chest',
     icon: '🔺',
+    exerciseId: 'pike-pushups',
     animationRef: 'pike_pushups',
     targetReps: 12,
     equipment: []
@@ -302,10 +317,12 @@ const upperBodySteps: (ExerciseStep | RestStep)[] = [
   {
     id: 'ubs_3',
     type: 'exercise',
+    mode: 'reps',
     title: 'Tricep Dips',
     durationSec: 35,
     description: 'Use a chair or bench for support',
     icon: '🪑',
+    exerciseId: 'tricep-dips',
     animationRef: 'tricep_dips',
     targetReps: 15,
     equipment: ['chair']
@@ -324,6 +341,7 @@ const upperBodySteps: (ExerciseStep | RestStep)[] = [
     durationSec: 20,
     description: 'Large circles forward and backward',
     icon: '🔄',
+    exerciseId: 'arm-circles',
     animationRef: 'arm_circles',
     targetReps: 20,
     equipment: []
@@ -340,7 +358,6 @@ export const UPPER_BODY_STRENGTH: Program = {
   stepsCount: 7,
   tags: ['Upper body', 'Strength', 'No equipment', 'Intermediate'],
   steps: upperBodySteps,
-  estimatedCalories: 65,
   thumbnailUrl: 'https://images.unsplash.com/photo-1581009146145-b5ef050c2e1e?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80',
   difficulty: 3,
   createdAt: '2024-01-15T12:00:00Z',
@@ -356,6 +373,7 @@ const morningRoutineSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 15,
     description: 'Gentle arm swings to wake up your body',
     icon: '🌅',
+    exerciseId: 'arm-swings',
     animationRef: 'arm_swings',
     equipment: []
   },
@@ -366,6 +384,7 @@ const morningRoutineSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 15,
     description: 'Slow, controlled neck movements',
     icon: '🔄',
+    exerciseId: 'neck-rolls',
     animationRef: 'neck_rolls',
     equipment: []
   },
@@ -383,6 +402,7 @@ const morningRoutineSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 20,
     description: 'Low-intensity squats to activate legs',
     icon: '🦵',
+    exerciseId: 'squats',
     animationRef: 'gentle_squats',
     targetReps: 10,
     equipment: []
@@ -394,6 +414,7 @@ const morningRoutineSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 20,
     description: 'Gentle side stretches',
     icon: '🤸‍♀️',
+    exerciseId: 'side-bends',
     animationRef: 'side_bends',
     targetReps: 10,
     equipment: []
@@ -410,7 +431,6 @@ export const QUICK_MORNING_ROUTINE: Program = {
   stepsCount: 5,
   tags: ['Morning', 'Gentle', 'Wake up', 'Beginner', 'No equipment'],
   steps: morningRoutineSteps,
-  estimatedCalories: 25,
   thumbnailUrl: 'https://images.unsplash.com/photo-1447452001602-7090c7ab2db3?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80',
   difficulty: 1,
   createdAt: '2024-01-15T06:00:00Z',
@@ -426,6 +446,7 @@ const hiitBlastSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 30,
     description: 'Maximum intensity burpees',
     icon: '🔥',
+    exerciseId: 'burpees',
     animationRef: 'burpees',
     targetReps: 10,
     equipment: []
@@ -444,6 +465,7 @@ const hiitBlastSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 30,
     description: 'Fast-paced mountain climbers',
     icon: '🏔️',
+    exerciseId: 'mountain-climbers',
     animationRef: 'mountain_climbers',
     targetReps: 30,
     equipment: []
@@ -462,6 +484,7 @@ const hiitBlastSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 30,
     description: 'Explosive jump squats',
     icon: '⚡',
+    exerciseId: 'jump-squats',
     animationRef: 'jump_squats',
     targetReps: 15,
     equipment: []
@@ -480,6 +503,7 @@ const hiitBlastSteps: (ExerciseStep | RestStep)[] = [
     durationSec: 30,
     description: 'Sprint in place with high knees',
     icon: '🏃‍♂️',
+    exerciseId: 'high-knees',
     animationRef: 'high_knees',
     targetReps: 40,
     equipment: []
@@ -496,20 +520,135 @@ export const HIIT_BLAST: Program = {
   stepsCount: 7,
   tags: ['HIIT', 'High intensity', 'Cardio', 'Advanced', 'No equipment'],
   steps: hiitBlastSteps,
-  estimatedCalories: 120,
   thumbnailUrl: 'https://images.unsplash.com/photo-1541625602330-2277a4c46182?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80',
   difficulty: 5,
   createdAt: '2024-01-15T18:00:00Z',
   updatedAt: '2024-01-15T18:00:00Z'
 };
 
+// Sample Program 6: Circuit built from blocks (4 rounds + superset finisher)
+export const FOUR_ROUND_CIRCUIT: Program = buildProgram(
+  {
+    id: 'prog_four_round_circuit',
+    title: '4-Round Circuit',
+    level: 'Intermediate',
+    description: 'Four rounds of a bodyweight circuit finished with a core superset',
+    tags: ['Circuit', 'Full body', 'No equipment', 'Intermediate'],
+    thumbnailUrl: 'https://images.unsplash.com/photo-1517836357463-d25dfeac3438?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80',
+    difficulty: 3,
+    createdAt: '2024-01-16T10:00:00Z',
+    updatedAt: '2024-01-16T10:00:00Z'
+  },
+  [
+    {
+      type: 'rounds',
+      id: 'frc_circuit',
+      title: 'Circuit',
+      rounds: 4,
+      restBetweenRoundsSec: 30,
+      items: [
+        {
+          id: 'frc_squats',
+          type: 'exercise',
+          title: 'Bodyweight Squats',
+          durationSec: 30,
+          description: 'Feet shoulder-width apart, lower hips back and down',
+          icon: '🦵',
+          exerciseId: 'squats',
+          animationRef: 'squats',
+          targetReps: 15,
+          equipment: []
+        },
+        {
+          id: 'frc_rest_1',
+          type: 'rest',
+          title: 'Rest',
+          durationSec: 10,
+          tip: 'Shake out your legs'
+        },
+        {
+          id: 'frc_pushups',
+          type: 'exercise',
+          title: 'Push-ups',
+          durationSec: 30,
+          description: 'Keep your body in a straight line, lower chest to floor',
+          icon: '💪',
+          exerciseId: 'pushups',
+          animationRef: 'push_ups',
+          targetReps: 12,
+          equipment: []
+        },
+        {
+          id: 'frc_rest_2',
+          type: 'rest',
+          title: 'Rest',
+          durationSec: 10,
+          tip: 'Breathe deeply'
+        },
+        {
+          id: 'frc_climbers',
+          type: 'exercise',
+          title: 'Mountain Climbers',
+          durationSec: 30,
+          description: 'Start in plank position, alternate bringing knees to chest',
+          icon: '🏔️',
+          exerciseId: 'mountain-climbers',
+          animationRef: 'mountain_climbers',
+          targetReps: 20,
+          equipment: []
+        }
+      ]
+    },
+    {
+      id: 'frc_rest_finisher',
+      type: 'rest',
+      title: 'Rest',
+      durationSec: 45,
+      tip: 'Core finisher is next'
+    },
+    {
+      type: 'superset',
+      id: 'frc_core',
+      title: 'Core Superset',
+      sets: 2,
+      restBetweenSetsSec: 20,
+      exercises: [
+        {
+          id: 'frc_crunches',
+          type: 'exercise',
+          title: 'Crunches',
+          durationSec: 30,
+          description: 'Lift shoulders off the floor, keep your neck relaxed',
+          icon: '🔥',
+          exerciseId: 'crunches',
+          animationRef: 'crunches',
+          targetReps: 20,
+          equipment: []
+        },
+        {
+          id: 'frc_plank',
+          type: 'exercise',
+          title: 'Plank Hold',
+          durationSec: 30,
+          description: 'Hold a straight line from head to heels, engage your core',
+          icon: '🏋️‍♀️',
+          exerciseId: 'plank',
+          animationRef: 'plank',
+          equipment: []
+        }
+      ]
+    }
+  ]
+);
+
 // Export all sample programs
 export const SAMPLE_PROGRAMS: Program[] = [
   FULL_BODY_EXPRESS,
   CORE_CARDIO_MIX,
   UPPER_BODY_STRENGTH,
   QUICK_MORNING_ROUTINE,
-  HIIT_BLAST
+  HIIT_BLAST,
+  FOUR_ROUND_CIRCUIT
 ];
 
 // Utility to get program by ID
@@ -0,0 +1,40 @@
+import { useEffect, useRef } from 'react';
+import { AudioCueScheduler, createAudioCueScheduler } from '../audio/audioCues';
+import { audioOutput } from '../audio/audioOutput';
+import { getSoundPack } from '../audio/soundPacks';
+import { usePreferences } from '../state/PreferencesContext';
+import { TrainingSessionState } from '../state/trainingStateMachine';
+
+// Plays the session's audio cues through the app's shared audio output.
+// soundsEnabled is the session's own switch, on top of the sounds preference.
+export const useAudioCues = (state: TrainingSessionState, soundsEnabled: boolean): void => {
+  const { prefs } = usePreferences();
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const schedulerRef = useRef<AudioCueScheduler | null>(null);
+
+  const enabled = soundsEnabled && prefs.soundsEnabled;
+  const { tickEvery10s } = prefs;
+  const pack = getSoundPack(prefs.language, prefs.voiceCues);
+
+  if (!schedulerRef.current) {
+    schedulerRef.current = createAudioCueScheduler(audioOutput, { enabled, tickEvery10s, pack });
+  }
+  const scheduler = schedulerRef.current;
+
+  // Declared first so a state change sees the options of the same render
+  useEffect(() => {
+    scheduler.setOptions({ enabled, tickEvery10s, pack });
+  }, [scheduler, enabled, tickEvery10s, pack]);
+
+  useEffect(() => {
+    scheduler.update(state);
+  }, [scheduler, state]);
+
+  // Leaving mid-session silences the cues; a finished session keeps its fanfare
+  useEffect(() => () => {
+    if (stateRef.current.state !== 'finished') {
+      audioOutput.stop();
+    }
+  }, []);
+};
@@ -0,0 +1,15 @@
+import { useCallback, useReducer, useRef } from 'react';
+import { SessionTimeline, getTimeline, recordEvent, startRecording } from '../state/sessionTimeline';
+import { TrainingSessionState } from '../state/trainingStateMachine';
+
+// useReducer over trainingReducer that keeps the session's event timeline as it goes.
+// The timeline is read on demand, typically once when the session ends.
+export const useRecordedTrainingReducer = (initialState: TrainingSessionState) => {
+  const [recording, dispatch] = useReducer(recordEvent, initialState, startRecording);
+  const recordingRef = useRef(recording);
+  recordingRef.current = recording;
+
+  const getSessionTimeline = useCallback((): SessionTimeline => getTimeline(recordingRef.current), []);
+
+  return [recording.session, dispatch, getSessionTimeline] as const;
+};
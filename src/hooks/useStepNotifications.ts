@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { TrainingSessionState } from '../state/trainingStateMachine';
+import { Step } from '../types/program';
+import { NotificationContent, StepBoundary } from '../utils/backgroundHandling';
+import { stepNotifications } from '../utils/localNotifications';
+import { useTranslation } from './useTranslation';
+
+// Posts a notification for every step boundary the session passes while the app is
+// in the background. Leaving schedules them all; coming back cancels them.
+export const useStepNotifications = (state: TrainingSessionState): void => {
+  const { t } = useTranslation();
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const awayRef = useRef(AppState.currentState !== 'active');
+
+  const describe = useCallback(
+    (boundary: StepBoundary): NotificationContent => {
+      const stepTitle = (step: Step) => (step.type === 'exercise' ? step.title : t('common.rest'));
+
+      if (boundary.type === 'switchSides') {
+        return {
+          title: t('training.switchSides'),
+          body: t('notifications.otherSide', { title: boundary.step.title }),
+        };
+      }
+      if (!boundary.nextStep) {
+        return { title: t('notifications.finishTitle'), body: t('notifications.finishBody') };
+      }
+      return {
+        title: t('notifications.nextUp', { title: stepTitle(boundary.nextStep) }),
+        body: t('notifications.stepDone', { title: stepTitle(boundary.step) }),
+      };
+    },
+    [t],
+  );
+  const describeRef = useRef(describe);
+  describeRef.current = describe;
+
+  useEffect(() => {
+    stepNotifications.prepare(t('notifications.channel'));
+  }, [t]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', nextAppState => {
+      if (nextAppState === 'active') {
+        awayRef.current = false;
+        stepNotifications.cancelAll();
+      } else if (!awayRef.current) {
+        awayRef.current = true;
+        stepNotifications.reschedule(stateRef.current, describeRef.current);
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      stepNotifications.cancelAll();
+    };
+  }, []);
+
+  // A pause or resume that lands while away moves every boundary.
+  // Finishing is left alone so its notification stays up.
+  useEffect(() => {
+    if (awayRef.current && (state.state === 'running' || state.state === 'paused')) {
+      stepNotifications.reschedule(stateRef.current, describeRef.current);
+    }
+  }, [state.state, state.pausedDurationMs]);
+};
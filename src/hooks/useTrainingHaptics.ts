@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+import { usePreferences } from '../state/PreferencesContext';
+import { TrainingSessionState } from '../state/trainingStateMachine';
+import { TrainingHaptics, createTrainingHaptics, vibrationPlayer } from '../utils/trainingHaptics';
+
+// Vibrates for the session's cues, each event behind its own setting.
+// vibrationsEnabled is the session's own switch, on top of the haptics preference.
+export const useTrainingHaptics = (state: TrainingSessionState, vibrationsEnabled: boolean): void => {
+  const { prefs } = usePreferences();
+  const hapticsRef = useRef<TrainingHaptics | null>(null);
+
+  const enabled = vibrationsEnabled && prefs.hapticsEnabled;
+  const events = prefs.trainingHaptics;
+
+  if (!hapticsRef.current) {
+    hapticsRef.current = createTrainingHaptics(vibrationPlayer, { enabled, events });
+  }
+  const haptics = hapticsRef.current;
+
+  // Declared first so a state change sees the options of the same render
+  useEffect(() => {
+    haptics.setOptions({ enabled, events });
+  }, [haptics, enabled, events]);
+
+  useEffect(() => {
+    haptics.update(state);
+  }, [haptics, state]);
+};
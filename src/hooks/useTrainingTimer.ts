@@ -0,0 +1,115 @@
+import { Dispatch, useCallback, useEffect, useRef } from 'react';
+import { TrainingEvent, TrainingSessionState, selectors } from '../state/trainingStateMachine';
+import { isOpenEndedStep } from '../types/program';
+import { TimerEngine, createTimerEngine } from '../timer/timerEngine';
+
+type StepClock = {
+  stepIndex: number;
+  stepStartTime: number | null; // The reducer's start time for the step or its countdown
+  startMs: number; // Engine time the step or its countdown began
+};
+
+// Clock for whatever follows a countdown that ran out, until the reducer gets there
+type HandOver = {
+  stepIndex: number;
+  startMs: number;
+};
+
+// Drives trainingReducer from the shared timer engine: the engine runs while the
+// session does, and each tick becomes a TICK with the remaining time of the step,
+// or of the countdown into it
+export const useTrainingTimer = (
+  state: TrainingSessionState,
+  dispatch: Dispatch<TrainingEvent>,
+): TimerEngine => {
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const stepClockRef = useRef<StepClock | null>(null);
+  const handOverRef = useRef<HandOver | null>(null);
+  const engineRef = useRef<TimerEngine | null>(null);
+
+  if (!engineRef.current) {
+    engineRef.current = createTimerEngine({}, {
+      onTick: ({ elapsedMs }) => {
+        const session = stateRef.current;
+        const { state: status, currentStep, currentStepIndex, transition } = session;
+        const stepClock = stepClockRef.current;
+        // Wait out a pending hand-over, and the render for a new or restarted step
+        if (
+          status !== 'running' ||
+          !currentStep ||
+          handOverRef.current ||
+          stepClock?.stepIndex !== currentStepIndex ||
+          stepClock.stepStartTime !== session.stepStartTime
+        ) {
+          return;
+        }
+
+        const durationMs = selectors.getCountdownDurationMs(session);
+        const remainingMs = Math.max(0, durationMs - (elapsedMs - stepClock.startMs));
+        if (remainingMs === 0 && (transition || !isOpenEndedStep(currentStep))) {
+          // What follows starts when this ran out, not when the tick landed
+          handOverRef.current = {
+            stepIndex: transition ? currentStepIndex : currentStepIndex + 1,
+            startMs: stepClock.startMs + durationMs,
+          };
+        }
+        dispatch({ type: 'TICK', remainingMs, stepIndex: currentStepIndex });
+      },
+    });
+  }
+  const engine = engineRef.current;
+
+  // Take the step's progress from the reducer
+  const alignStepClock = useCallback(() => {
+    const session = stateRef.current;
+    const { currentStep, currentStepIndex, remainingMs, stepStartTime, transition } = session;
+    if (!currentStep) return;
+    handOverRef.current = null;
+    const stepElapsedMs = transition || !isOpenEndedStep(currentStep)
+      ? selectors.getCountdownDurationMs(session) - remainingMs
+      : 0;
+    stepClockRef.current = {
+      stepIndex: currentStepIndex,
+      stepStartTime,
+      startMs: engine.getElapsedMs() - stepElapsedMs,
+    };
+  }, [engine]);
+
+  // Take over the hand-over once the reducer moves on, or re-align when it starts a
+  // step some other way: START, RESTORE, CATCH_UP or a step the user ended, went
+  // back to or restarted
+  useEffect(() => {
+    const handOver = handOverRef.current;
+    const { currentStepIndex, stepStartTime } = stateRef.current;
+    if (handOver && handOver.stepIndex === currentStepIndex) {
+      handOverRef.current = null;
+      stepClockRef.current = { stepIndex: currentStepIndex, stepStartTime, startMs: handOver.startMs };
+      return;
+    }
+    alignStepClock();
+  }, [alignStepClock, state.currentStepIndex, state.stepStartTime]);
+
+  useEffect(() => {
+    if (state.state === 'running') {
+      // A hand-over can be left behind by a last tick that raced a pause
+      const stepClock = stepClockRef.current;
+      if (
+        handOverRef.current ||
+        stepClock?.stepIndex !== stateRef.current.currentStepIndex ||
+        stepClock.stepStartTime !== stateRef.current.stepStartTime
+      ) {
+        alignStepClock();
+      }
+      engine.resume();
+    } else if (state.state === 'paused') {
+      engine.pause();
+    } else {
+      engine.reset();
+    }
+  }, [alignStepClock, engine, state.state]);
+
+  useEffect(() => () => engine.reset(), [engine]);
+
+  return engine;
+};
@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from 'react';
+import { usePreferences } from '../state/PreferencesContext';
+import {
+  MessageKey,
+  MessageParams,
+  formatDate as formatDateFor,
+  formatNumber as formatNumberFor,
+  translate,
+} from '../i18n/translate';
+
+// Strings and formatters for the language picked in settings; changing it re-renders every caller
+export const useTranslation = () => {
+  const { prefs } = usePreferences();
+  const { language } = prefs;
+
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) => translate(language, key, params),
+    [language],
+  );
+
+  const formatNumber = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) => formatNumberFor(language, value, options),
+    [language],
+  );
+
+  const formatDate = useCallback(
+    (date: Date | string, options?: Intl.DateTimeFormatOptions) => formatDateFor(language, date, options),
+    [language],
+  );
+
+  return useMemo(
+    () => ({ language, t, formatNumber, formatDate }),
+    [language, t, formatNumber, formatDate],
+  );
+};
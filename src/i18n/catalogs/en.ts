@@ -0,0 +1,361 @@
+// Source catalog; every other language must cover these keys (see Catalog in ../translate)
+export const en = {
+  'common.cancel': 'Cancel',
+  'common.ok': 'OK',
+  'common.done': 'Done',
+  'common.delete': 'Delete',
+  'common.edit': 'Edit',
+  'common.exit': 'Exit',
+  'common.reset': 'Reset',
+  'common.share': 'Share',
+  'common.repeat': 'Repeat',
+  'common.start': 'Start',
+  'common.import': 'Import',
+  'common.export': 'Export',
+  'common.close': 'Close',
+  'common.settings': 'Settings',
+  'common.steps': 'Steps',
+  'common.active': 'Active',
+  'common.rest': 'Rest',
+  'common.calories': 'Calories',
+  'common.warmup': 'Warm-up',
+  'common.cooldown': 'Cool-down',
+  'common.sounds': 'Sound Effects',
+  'common.vibrations': 'Vibrations',
+  'common.programIssues': 'Program Issues:',
+  'common.minutes': { one: '{count} min', other: '{count} min' },
+  'common.seconds': '{count}s',
+  'common.reps': { one: '{count} rep', other: '{count} reps' },
+  'common.rounds': { one: '{count} round', other: '{count} rounds' },
+  'common.max': 'Max',
+  'common.steps.count': { one: '{count} step', other: '{count} steps' },
+  'common.kg': '{value} kg',
+  'common.decrease': 'Decrease {name}',
+  'common.increase': 'Increase {name}',
+
+  'tabs.home': 'Home',
+  'tabs.library': 'Library',
+  'tabs.programs': 'Programs',
+  'tabs.profile': 'Profile',
+
+  'level.Beginner': 'Beginner',
+  'level.Intermediate': 'Intermediate',
+  'level.Advanced': 'Advanced',
+
+  'difficulty.Light': 'Light',
+  'difficulty.Easy': 'Easy',
+  'difficulty.Middle': 'Middle',
+  'difficulty.Stunt': 'Stunt',
+  'difficulty.Hardcore': 'Hardcore',
+  'difficulty.Pro': 'Pro',
+
+  'format.single': 'Standard',
+  'format.tabata': 'Tabata',
+  'format.tabata.description': '20s work / 10s rest × 8',
+  'format.emom': 'EMOM',
+  'format.emom.description': 'Every minute on the minute',
+  'format.amrap': 'AMRAP',
+  'format.amrap.description': 'As many rounds as possible',
+  'format.hiit': 'Custom HIIT',
+  'format.hiit.description': 'Your own work, rest and rounds',
+
+  'home.quickStart': 'Quick Start',
+  'home.customTraining': 'Custom Training',
+
+  'setup.title': 'Setup',
+  'setup.format': 'Format',
+  'setup.exercises': 'Exercises',
+  'setup.work': 'Work',
+  'setup.rest': 'Rest',
+  'setup.rounds': 'Rounds',
+  'setup.duration': 'Duration',
+  'setup.difficulty': 'Difficulty',
+  'setup.custom': 'Custom',
+  'setup.threeSeconds': '3 sec',
+  'setup.decreaseMinutes': 'Decrease minutes',
+  'setup.increaseMinutes': 'Increase minutes',
+  'setup.hiitSummary': '{work}s work / {rest}s rest × {rounds} · {total}',
+  'setup.structure': {
+    one: '{rounds} × {work}s work / {rest}s rest · {count} rep per round',
+    other: '{rounds} × {work}s work / {rest}s rest · {count} reps per round'
+  },
+
+  'session.timedTitle': { one: '{format} {count} min', other: '{format} {count} min' },
+  'session.formatDescription': '{description}: {exercises}',
+  'session.repsOf': '{count} {exercise}',
+  'session.emomStep': '{reps}, rest for the rest of the minute',
+  'session.title': { one: '{exercise} - {count} min', other: '{exercise} - {count} min' },
+  'session.summary': '{rounds} × {work}s {exercise} with {rest}s rest',
+  'session.quickTitle': { one: '{exercise} - {count} sec', other: '{exercise} - {count} sec' },
+  'session.quickStep': { one: '{exercise} session for {count} second', other: '{exercise} session for {count} seconds' },
+  'session.quickDescription': {
+    one: 'Simple {exercise} workout for {count} second',
+    other: 'Simple {exercise} workout for {count} seconds'
+  },
+
+  'done.title': 'WORKOUT\nCOMPLETE',
+  'done.time': 'Time',
+  'done.changeSetup': 'Change Setup',
+
+  'training.exitTitle': 'Exit Workout',
+  'training.exitMessage': 'Are you sure you want to exit? Your progress will be lost.',
+  'training.progress': '{current} of {total}',
+  'training.restBreak': 'Rest Break',
+  'training.exercise': 'Exercise',
+  'training.switchSides': 'Switch sides!',
+  'training.leftSide': 'Left side',
+  'training.rightSide': 'Right side',
+  'training.target': { one: 'Target: {count} rep', other: 'Target: {count} reps' },
+  'training.targetPerSide': { one: 'Target: {count} rep per side', other: 'Target: {count} reps per side' },
+  'training.animation': 'Exercise Animation',
+  'training.skipRest': 'Skip Rest',
+  'training.addTime': { one: 'Add {count} second', other: 'Add {count} seconds' },
+  'training.removeTime': { one: 'Take off {count} second', other: 'Take off {count} seconds' },
+  'training.previous': 'Back',
+  'training.previousLabel': 'Go back to the previous step',
+  'training.restart': 'Restart',
+  'training.restartLabel': 'Restart this step',
+  'training.doneReps': { one: 'Done · {count} rep', other: 'Done · {count} reps' },
+  'training.countRound': '+1 Round · {count} done',
+  'training.countRoundLabel': 'Count a completed round',
+  'training.stop': 'Stop',
+  'training.stopLabel': 'Stop the stopwatch and record the time',
+  'training.targetTime': 'Target {time}',
+  'training.decreaseReps': 'Decrease reps',
+  'training.increaseReps': 'Increase reps',
+  'training.next': 'Next',
+  'training.startNow': 'Start Now',
+  'training.swap': 'Swap',
+  'training.swapLabel': 'Swap exercise',
+  'training.pause': 'Pause',
+  'training.resume': 'Resume',
+  'training.paused': 'Paused',
+  'training.nextUp': 'Next up:',
+  'training.finish': 'Finish!',
+  'training.noStep': 'No current step available',
+  'training.getReady': 'Get Ready!',
+  'training.startingIn': 'Starting in',
+  'training.swipeToExit': 'swipe down to exit the session',
+  'training.round': 'Round',
+  'training.set': 'Set',
+  'training.resumeTitle': 'Resume workout?',
+  'training.resumeMessage': '"{title}" was interrupted at step {current} of {total}.',
+  'training.resumeWorkout': 'Resume workout',
+  'training.discard': 'Discard',
+
+  'notifications.channel': 'Workout timer',
+  'notifications.nextUp': 'Up next: {title}',
+  'notifications.stepDone': '{title} is done',
+  'notifications.otherSide': '{title}: now the other side',
+  'notifications.finishTitle': 'Workout complete',
+  'notifications.finishBody': 'Open the app to see how it went.',
+
+  'setLog.title': 'Log set: {title}',
+  'setLog.reps': 'Reps',
+  'setLog.weight': 'Weight',
+  'setLog.rpe': 'RPE',
+
+  'swap.title': 'Swap {title}',
+  'swap.closeLabel': 'Close swap options',
+  'swap.empty': 'No alternatives for this exercise',
+  'swap.bodyweight': 'Bodyweight',
+
+  'programs.title': 'Complex Training Programs',
+  'programs.subtitle': 'Test the new Complex Training Programs with timed exercises, animations, and step-by-step guidance.',
+  'programs.yourWeek': 'Your Week',
+  'programs.myPrograms': 'My Programs',
+  'programs.create': '+ Create',
+  'programs.empty': 'Programs you build or import appear here.',
+  'programs.featured': 'Featured',
+  'programs.totalDuration': 'Total Duration',
+  'programs.moreTags': '+{count} more',
+  'programs.startProgram': 'Start Program →',
+  'programs.deleteTitle': 'Delete Program',
+  'programs.deleteMessage': 'Delete "{title}"? This cannot be undone.',
+
+  'programStart.exportLabel': 'Export program as JSON',
+  'programStart.addedWarmup': '+{duration} warm-up',
+  'programStart.addedCooldown': '+{duration} cool-down',
+  'programStart.cal': 'Cal',
+  'programStart.longSteps': 'This program contains long duration steps. Consider device battery usage.',
+  'programStart.workoutSteps': 'Workout Steps',
+  'programStart.invalidTitle': 'Invalid Program',
+  'programStart.startWorkout': 'Start Workout',
+  'programStart.cannotStart': 'Cannot Start',
+  'programStart.issues.duplicateStepId': 'Step {step} ({title}) reuses step id "{id}"',
+  'programStart.issues.consecutiveRests': 'Steps {first} and {second} are back-to-back rests',
+  'programStart.issues.longWork': 'Steps {first}-{last} have {duration} of work with no rest',
+  'programStart.issues.sameMuscle': 'Step {first} ({firstTitle}) and Step {second} ({secondTitle}) both load the {muscles}',
+  'programStart.issues.and': ' and ',
+
+  'muscle.chest': 'chest',
+  'muscle.shoulders': 'shoulders',
+  'muscle.triceps': 'triceps',
+  'muscle.biceps': 'biceps',
+  'muscle.upper_back': 'upper back',
+  'muscle.lats': 'lats',
+  'muscle.lower_back': 'lower back',
+  'muscle.neck': 'neck',
+  'muscle.core': 'core',
+  'muscle.obliques': 'obliques',
+  'muscle.glutes': 'glutes',
+  'muscle.quads': 'quads',
+  'muscle.hamstrings': 'hamstrings',
+  'muscle.calves': 'calves',
+  'muscle.hip_flexors': 'hip flexors',
+  'muscle.forearms': 'forearms',
+
+  'programFinish.title': 'Workout Complete!',
+  'programFinish.perfect': 'Outstanding! You completed every step! 🏆',
+  'programFinish.great': 'Great job! You pushed through most of the workout! 💪',
+  'programFinish.good': 'Good effort! Keep building that consistency! 👍',
+  'programFinish.keepGoing': 'Every step counts! Keep going! 🌟',
+  'programFinish.totalTime': 'Total Time',
+  'programFinish.completion': 'Completion',
+  'programFinish.breakdown': 'Workout Breakdown',
+  'programFinish.activeTime': 'Active Time',
+  'programFinish.restTime': 'Rest Time',
+  'programFinish.avgStepTime': 'Avg Step Time',
+  'programFinish.transitionTime': 'Get Ready Time',
+  'programFinish.estCalories': 'Est. Calories',
+  'programFinish.volume': 'Volume',
+  'programFinish.skipped': 'Skipped',
+  'programFinish.extended': 'Extended',
+  'programFinish.stepResults': 'Step Results',
+  'programFinish.step': 'Step {number}',
+  'programFinish.swappedFor': '{to} (swapped for {from})',
+  'programFinish.left': 'L',
+  'programFinish.right': 'R',
+  'programFinish.logSet': 'Log reps, weight and RPE',
+  'programFinish.hideLog': 'Hide log',
+  'programFinish.shareMessage': 'Just completed "{title}"! 💪\n\n⏱️ Total Time: {total}\n🔥 Active Time: {active}\n📊 Completion: {completion}%\n🎯 Steps: {steps}\n\n#FitnessTrainerPro #Workout #Fitness',
+
+  'programImport.title': 'Import Program',
+  'programImport.subtitle': 'Paste a program in JSON format or choose a JSON file. It is checked against the program schema before it can be started.',
+  'programImport.chooseFile': 'Choose JSON File',
+  'programImport.fileError': 'The file could not be read',
+  'programImport.submit': 'Validate & Import',
+
+  'programBuilder.newTitle': 'New Program',
+  'programBuilder.editTitle': 'Edit Program',
+  'programBuilder.namePlaceholder': 'Program name',
+  'programBuilder.exercisePlaceholder': 'Exercise name',
+  'programBuilder.tipPlaceholder': 'Tip (optional)',
+  'programBuilder.timeCap': 'Time cap',
+  'programBuilder.duration': 'Duration',
+  'programBuilder.reps': 'Reps',
+  'programBuilder.finish': 'Finish',
+  'programBuilder.whenTimeIsUp': 'When time is up',
+  'programBuilder.onDone': 'On Done',
+  'programBuilder.whenStopped': 'Stopwatch',
+  'programBuilder.estimate': 'Estimate',
+  'programBuilder.targetTime': 'Target',
+  'programBuilder.sides': 'Sides',
+  'programBuilder.leftRight': 'Left + Right',
+  'programBuilder.bothAtOnce': 'Both at once',
+  'programBuilder.duplicate': 'Duplicate',
+  'programBuilder.addExercise': '+ Exercise',
+  'programBuilder.addRest': '+ Rest',
+  'programBuilder.save': 'Save Program',
+
+  'profile.subtitle': 'Manage your preferences and settings',
+  'profile.account': 'Account',
+  'profile.name': 'Fitness Enthusiast',
+  'profile.tagline': 'Stay strong and healthy',
+  'profile.quickActions': 'Quick Actions',
+  'profile.favorites': 'Favorites',
+  'profile.favoritesSubtitle': 'Your saved articles and workouts',
+  'profile.settingsSubtitle': 'App preferences and configuration',
+  'profile.about': 'About',
+  'profile.aboutSubtitle': 'App version and information',
+  'profile.sessionLog': 'Session Log',
+  'profile.sessionLogSubtitle': 'Event timelines of recent workouts',
+  'profile.progress': 'Your Progress',
+  'profile.workouts': 'Workouts',
+  'profile.thisMonth': 'This month',
+  'profile.minutes': 'Minutes',
+  'profile.totalActive': 'Total active',
+  'profile.burned': 'Burned',
+  'profile.streak': 'Streak',
+  'profile.days': 'Days',
+
+  'sessionLog.title': 'Session Log',
+  'sessionLog.count': { one: '{count} recorded workout', other: '{count} recorded workouts' },
+  'sessionLog.empty': 'Workouts record their events here once they end',
+  'sessionLog.loading': 'Loading timeline…',
+  'sessionLog.missing': 'This timeline is no longer stored',
+  'sessionLog.replayMatches': {
+    one: 'Replay reproduces {count} event',
+    other: 'Replay reproduces all {count} events'
+  },
+  'sessionLog.replayDiverges': 'Replay diverges at event {index}',
+  'sessionLog.share': 'Share timeline',
+
+  'settings.appearance': 'Appearance',
+  'settings.themeSystem': 'System',
+  'settings.themeLight': 'Light',
+  'settings.themeDark': 'Dark',
+  'settings.language': 'Language',
+  'settings.units': 'Units',
+  'settings.metric': 'Metric',
+  'settings.imperial': 'Imperial',
+  'settings.audioHaptics': 'Audio & Haptics',
+  'settings.sounds': 'Sounds',
+  'settings.soundsSubtitle': 'Exercise sounds and audio cues',
+  'settings.voiceCues': 'Voice Cues',
+  'settings.voiceCuesSubtitle': 'Count down and name exercises out loud',
+  'settings.tickEvery10s': 'Tick Every 10 Seconds',
+  'settings.tickEvery10sSubtitle': 'A short tick as each 10 seconds pass',
+  'settings.vibrationsSubtitle': 'Haptic feedback during workouts',
+  'settings.hapticStepStart': 'Step Start',
+  'settings.hapticStepStartSubtitle': 'A long buzz as each exercise or rest begins',
+  'settings.hapticNextUp': 'Next Up',
+  'settings.hapticNextUpSubtitle': 'Two taps when the next step is coming',
+  'settings.hapticCountdown': 'Last 3 Seconds',
+  'settings.hapticCountdownSubtitle': 'A tap on each of the last 3 seconds',
+  'settings.hapticSwitchSides': 'Switch Sides',
+  'settings.hapticSwitchSidesSubtitle': 'A double buzz when it is time to change sides',
+  'settings.hapticWorkoutComplete': 'Workout Complete',
+  'settings.hapticWorkoutCompleteSubtitle': 'A long pattern when you finish',
+  'settings.workout': 'Workout',
+  'settings.warmupSubtitle': 'Add a warm-up for the muscles each workout uses',
+  'settings.cooldownSubtitle': 'Finish every workout with stretches',
+  'settings.leadIn': '3-2-1 Lead-in',
+  'settings.leadInSubtitle': 'Count down before the first step',
+  'settings.getReady': 'Get Ready',
+  'settings.getReadySubtitle': 'Countdown before each exercise',
+  'settings.off': 'Off',
+  'settings.notifications': 'Notifications',
+  'settings.reminders': 'Workout Reminders',
+  'settings.remindersSubtitle': 'Get notified about your workout schedule',
+  'settings.doNotDisturb': 'Do Not Disturb',
+  'settings.doNotDisturbHours': '{from}–{to}',
+  'settings.health': 'Health Integration',
+  'settings.healthApps': 'Apple Health or Google Fit',
+  'settings.connected': 'Connected',
+  'settings.notConnected': 'Not Connected',
+  'settings.privacy': 'Privacy',
+  'settings.analytics': 'Analytics',
+  'settings.analyticsSubtitle': 'Help improve the app with usage data',
+  'settings.appInfo': 'App Information',
+  'settings.version': 'Version',
+  'settings.build': 'Build',
+  'settings.advanced': 'Advanced',
+  'settings.resetSettings': 'Reset Settings',
+  'settings.resetSettingsSubtitle': 'Reset all settings to default values',
+  'settings.resetMessage': 'This will reset all settings to their default values.',
+  'settings.resetDone': 'Settings Reset',
+  'settings.resetDoneMessage': 'All settings have been reset to defaults.',
+  'settings.clearData': 'Clear All Data',
+  'settings.clearDataSubtitle': 'Remove all favorites and progress',
+  'settings.clearDataMessage': 'This will remove all your favorites, progress, and settings. This action cannot be undone.',
+  'settings.clearDataConfirm': 'Clear Data',
+  'settings.clearDataDone': 'Data Cleared',
+  'settings.clearDataDoneMessage': 'All data has been cleared successfully.',
+  'settings.offlineNote': 'FitnessTrainerPro is designed to be completely offline and private. No data is sent to external servers.',
+
+  'language.en': 'English',
+  'language.ru': 'Русский'
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,417 @@
+import type { Catalog } from '../translate';
+
+export const ru: Catalog = {
+  'common.cancel': 'Отмена',
+  'common.ok': 'ОК',
+  'common.done': 'Готово',
+  'common.delete': 'Удалить',
+  'common.edit': 'Изменить',
+  'common.exit': 'Выйти',
+  'common.reset': 'Сбросить',
+  'common.share': 'Поделиться',
+  'common.repeat': 'Повторить',
+  'common.start': 'Старт',
+  'common.import': 'Импорт',
+  'common.export': 'Экспорт',
+  'common.close': 'Закрыть',
+  'common.settings': 'Настройки',
+  'common.steps': 'Шаги',
+  'common.active': 'Работа',
+  'common.rest': 'Отдых',
+  'common.calories': 'Калории',
+  'common.warmup': 'Разминка',
+  'common.cooldown': 'Заминка',
+  'common.sounds': 'Звуковые эффекты',
+  'common.vibrations': 'Вибрация',
+  'common.programIssues': 'Проблемы в программе:',
+  'common.minutes': { one: '{count} минута', few: '{count} минуты', many: '{count} минут', other: '{count} минуты' },
+  'common.seconds': '{count} с',
+  'common.reps': { one: '{count} повтор', few: '{count} повтора', many: '{count} повторов', other: '{count} повтора' },
+  'common.rounds': { one: '{count} раунд', few: '{count} раунда', many: '{count} раундов', other: '{count} раунда' },
+  'common.max': 'Макс.',
+  'common.steps.count': { one: '{count} шаг', few: '{count} шага', many: '{count} шагов', other: '{count} шага' },
+  'common.kg': '{value} кг',
+  'common.decrease': 'Уменьшить: {name}',
+  'common.increase': 'Увеличить: {name}',
+
+  'tabs.home': 'Главная',
+  'tabs.library': 'Библиотека',
+  'tabs.programs': 'Программы',
+  'tabs.profile': 'Профиль',
+
+  'level.Beginner': 'Новичок',
+  'level.Intermediate': 'Средний',
+  'level.Advanced': 'Продвинутый',
+
+  'difficulty.Light': 'Лёгкий',
+  'difficulty.Easy': 'Простой',
+  'difficulty.Middle': 'Средний',
+  'difficulty.Stunt': 'Трюковой',
+  'difficulty.Hardcore': 'Хардкор',
+  'difficulty.Pro': 'Профи',
+
+  'format.single': 'Стандарт',
+  'format.tabata': 'Табата',
+  'format.tabata.description': '20 с работы / 10 с отдыха × 8',
+  'format.emom': 'EMOM',
+  'format.emom.description': 'Каждую минуту в начале минуты',
+  'format.amrap': 'AMRAP',
+  'format.amrap.description': 'Как можно больше раундов',
+  'format.hiit': 'Свой ВИИТ',
+  'format.hiit.description': 'Своя работа, отдых и раунды',
+
+  'home.quickStart': 'Быстрый старт',
+  'home.customTraining': 'Своя тренировка',
+
+  'setup.title': 'Настройка',
+  'setup.format': 'Формат',
+  'setup.exercises': 'Упражнения',
+  'setup.work': 'Работа',
+  'setup.rest': 'Отдых',
+  'setup.rounds': 'Раунды',
+  'setup.duration': 'Длительность',
+  'setup.difficulty': 'Сложность',
+  'setup.custom': 'Своя',
+  'setup.threeSeconds': '3 сек',
+  'setup.decreaseMinutes': 'Уменьшить минуты',
+  'setup.increaseMinutes': 'Увеличить минуты',
+  'setup.hiitSummary': '{work} с работы / {rest} с отдыха × {rounds} · {total}',
+  'setup.structure': {
+    one: '{rounds} × {work} с работы / {rest} с отдыха · {count} повтор за раунд',
+    few: '{rounds} × {work} с работы / {rest} с отдыха · {count} повтора за раунд',
+    many: '{rounds} × {work} с работы / {rest} с отдыха · {count} повторов за раунд',
+    other: '{rounds} × {work} с работы / {rest} с отдыха · {count} повтора за раунд'
+  },
+
+  'session.timedTitle': {
+    one: '{format} {count} минута',
+    few: '{format} {count} минуты',
+    many: '{format} {count} минут',
+    other: '{format} {count} минуты'
+  },
+  'session.formatDescription': '{description}: {exercises}',
+  'session.repsOf': '{exercise} × {count}',
+  'session.emomStep': '{reps}, остаток минуты — отдых',
+  'session.title': {
+    one: '{exercise} — {count} минута',
+    few: '{exercise} — {count} минуты',
+    many: '{exercise} — {count} минут',
+    other: '{exercise} — {count} минуты'
+  },
+  'session.summary': '{rounds} × {work} с: {exercise}, отдых {rest} с',
+  'session.quickTitle': {
+    one: '{exercise} — {count} секунда',
+    few: '{exercise} — {count} секунды',
+    many: '{exercise} — {count} секунд',
+    other: '{exercise} — {count} секунды'
+  },
+  'session.quickStep': {
+    one: '{exercise}: тренировка на {count} секунду',
+    few: '{exercise}: тренировка на {count} секунды',
+    many: '{exercise}: тренировка на {count} секунд',
+    other: '{exercise}: тренировка на {count} секунды'
+  },
+  'session.quickDescription': {
+    one: 'Простая тренировка на {count} секунду: {exercise}',
+    few: 'Простая тренировка на {count} секунды: {exercise}',
+    many: 'Простая тренировка на {count} секунд: {exercise}',
+    other: 'Простая тренировка на {count} секунды: {exercise}'
+  },
+
+  'done.title': 'ТРЕНИРОВКА\nЗАВЕРШЕНА',
+  'done.time': 'Время',
+  'done.changeSetup': 'Изменить настройки',
+
+  'training.exitTitle': 'Выйти из тренировки',
+  'training.exitMessage': 'Вы уверены, что хотите выйти? Прогресс будет потерян.',
+  'training.progress': '{current} из {total}',
+  'training.restBreak': 'Перерыв',
+  'training.exercise': 'Упражнение',
+  'training.switchSides': 'Смените сторону!',
+  'training.leftSide': 'Левая сторона',
+  'training.rightSide': 'Правая сторона',
+  'training.target': {
+    one: 'Цель: {count} повтор',
+    few: 'Цель: {count} повтора',
+    many: 'Цель: {count} повторов',
+    other: 'Цель: {count} повтора'
+  },
+  'training.targetPerSide': {
+    one: 'Цель: {count} повтор на сторону',
+    few: 'Цель: {count} повтора на сторону',
+    many: 'Цель: {count} повторов на сторону',
+    other: 'Цель: {count} повтора на сторону'
+  },
+  'training.animation': 'Анимация упражнения',
+  'training.skipRest': 'Пропустить отдых',
+  'training.addTime': {
+    one: 'Добавить {count} секунду',
+    few: 'Добавить {count} секунды',
+    many: 'Добавить {count} секунд',
+    other: 'Добавить {count} секунды'
+  },
+  'training.removeTime': {
+    one: 'Убрать {count} секунду',
+    few: 'Убрать {count} секунды',
+    many: 'Убрать {count} секунд',
+    other: 'Убрать {count} секунды'
+  },
+  'training.previous': 'Назад',
+  'training.previousLabel': 'Вернуться к предыдущему шагу',
+  'training.restart': 'Заново',
+  'training.restartLabel': 'Начать этот шаг заново',
+  'training.doneReps': {
+    one: 'Готово · {count} повтор',
+    few: 'Готово · {count} повтора',
+    many: 'Готово · {count} повторов',
+    other: 'Готово · {count} повтора'
+  },
+  'training.countRound': '+1 раунд · выполнено {count}',
+  'training.countRoundLabel': 'Засчитать выполненный раунд',
+  'training.stop': 'Стоп',
+  'training.stopLabel': 'Остановить секундомер и записать время',
+  'training.targetTime': 'Цель {time}',
+  'training.decreaseReps': 'Уменьшить повторы',
+  'training.increaseReps': 'Увеличить повторы',
+  'training.next': 'Далее',
+  'training.startNow': 'Начать сейчас',
+  'training.swap': 'Замена',
+  'training.swapLabel': 'Заменить упражнение',
+  'training.pause': 'Пауза',
+  'training.resume': 'Продолжить',
+  'training.paused': 'Пауза',
+  'training.nextUp': 'Далее:',
+  'training.finish': 'Финиш!',
+  'training.noStep': 'Нет текущего шага',
+  'training.getReady': 'Приготовьтесь!',
+  'training.startingIn': 'Начинаем через',
+  'training.swipeToExit': 'смахните вниз, чтобы завершить',
+  'training.round': 'Раунд',
+  'training.set': 'Подход',
+  'training.resumeTitle': 'Продолжить тренировку?',
+  'training.resumeMessage': 'Тренировка «{title}» прервана на шаге {current} из {total}.',
+  'training.resumeWorkout': 'Продолжить',
+  'training.discard': 'Сбросить',
+
+  'notifications.channel': 'Таймер тренировки',
+  'notifications.nextUp': 'Далее: {title}',
+  'notifications.stepDone': '{title} — готово',
+  'notifications.otherSide': '{title}: теперь другая сторона',
+  'notifications.finishTitle': 'Тренировка завершена',
+  'notifications.finishBody': 'Откройте приложение, чтобы посмотреть итоги.',
+
+  'setLog.title': 'Запись подхода: {title}',
+  'setLog.reps': 'Повторы',
+  'setLog.weight': 'Вес',
+  'setLog.rpe': 'RPE',
+
+  'swap.title': 'Заменить: {title}',
+  'swap.closeLabel': 'Закрыть варианты замены',
+  'swap.empty': 'Нет замен для этого упражнения',
+  'swap.bodyweight': 'Свой вес',
+
+  'programs.title': 'Комплексные программы',
+  'programs.subtitle': 'Попробуйте комплексные программы с упражнениями на время, анимациями и пошаговыми подсказками.',
+  'programs.yourWeek': 'Ваша неделя',
+  'programs.myPrograms': 'Мои программы',
+  'programs.create': '+ Создать',
+  'programs.empty': 'Здесь появятся созданные и импортированные программы.',
+  'programs.featured': 'Рекомендуемые',
+  'programs.totalDuration': 'Общее время',
+  'programs.moreTags': '+ещё {count}',
+  'programs.startProgram': 'Начать программу →',
+  'programs.deleteTitle': 'Удалить программу',
+  'programs.deleteMessage': 'Удалить «{title}»? Это действие нельзя отменить.',
+
+  'programStart.exportLabel': 'Экспортировать программу в JSON',
+  'programStart.addedWarmup': '+{duration} разминка',
+  'programStart.addedCooldown': '+{duration} заминка',
+  'programStart.cal': 'ккал',
+  'programStart.longSteps': 'В программе есть очень длинные шаги. Следите за зарядом батареи.',
+  'programStart.workoutSteps': 'Шаги тренировки',
+  'programStart.invalidTitle': 'Некорректная программа',
+  'programStart.startWorkout': 'Начать тренировку',
+  'programStart.cannotStart': 'Запуск невозможен',
+  'programStart.issues.duplicateStepId': 'Шаг {step} ({title}) повторяет id шага «{id}»',
+  'programStart.issues.consecutiveRests': 'Шаги {first} и {second} — два отдыха подряд',
+  'programStart.issues.longWork': 'В шагах {first}–{last} {duration} работы без отдыха',
+  'programStart.issues.sameMuscle': 'Шаг {first} ({firstTitle}) и шаг {second} ({secondTitle}) нагружают {muscles}',
+  'programStart.issues.and': ' и ',
+
+  // Accusative, as in «нагружают грудь и плечи»
+  'muscle.chest': 'грудь',
+  'muscle.shoulders': 'плечи',
+  'muscle.triceps': 'трицепс',
+  'muscle.biceps': 'бицепс',
+  'muscle.upper_back': 'верх спины',
+  'muscle.lats': 'широчайшие',
+  'muscle.lower_back': 'поясницу',
+  'muscle.neck': 'шею',
+  'muscle.core': 'кор',
+  'muscle.obliques': 'косые мышцы',
+  'muscle.glutes': 'ягодицы',
+  'muscle.quads': 'квадрицепсы',
+  'muscle.hamstrings': 'заднюю поверхность бедра',
+  'muscle.calves': 'икры',
+  'muscle.hip_flexors': 'сгибатели бедра',
+  'muscle.forearms': 'предплечья',
+
+  'programFinish.title': 'Тренировка завершена!',
+  'programFinish.perfect': 'Потрясающе! Вы выполнили все шаги! 🏆',
+  'programFinish.great': 'Отлично! Вы прошли почти всю тренировку! 💪',
+  'programFinish.good': 'Хорошая работа! Продолжайте в том же духе! 👍',
+  'programFinish.keepGoing': 'Каждый шаг на счету! Не останавливайтесь! 🌟',
+  'programFinish.totalTime': 'Общее время',
+  'programFinish.completion': 'Выполнено',
+  'programFinish.breakdown': 'Итоги тренировки',
+  'programFinish.activeTime': 'Время работы',
+  'programFinish.restTime': 'Время отдыха',
+  'programFinish.avgStepTime': 'Среднее на шаг',
+  'programFinish.transitionTime': 'Подготовка',
+  'programFinish.estCalories': 'Калории (оценка)',
+  'programFinish.volume': 'Объём',
+  'programFinish.skipped': 'Пропущено',
+  'programFinish.extended': 'Продлено',
+  'programFinish.stepResults': 'Результаты по шагам',
+  'programFinish.step': 'Шаг {number}',
+  'programFinish.swappedFor': '{to} (вместо {from})',
+  'programFinish.left': 'Л',
+  'programFinish.right': 'П',
+  'programFinish.logSet': 'Записать повторы, вес и RPE',
+  'programFinish.hideLog': 'Скрыть запись',
+  'programFinish.shareMessage': 'Тренировка «{title}» завершена! 💪\n\n⏱️ Общее время: {total}\n🔥 Время работы: {active}\n📊 Выполнено: {completion}%\n🎯 Шагов: {steps}\n\n#FitnessTrainerPro #Workout #Fitness',
+
+  'programImport.title': 'Импорт программы',
+  'programImport.subtitle': 'Вставьте программу в формате JSON или выберите JSON-файл. Перед запуском она проверяется по схеме программ.',
+  'programImport.chooseFile': 'Выбрать JSON-файл',
+  'programImport.fileError': 'Не удалось прочитать файл',
+  'programImport.submit': 'Проверить и импортировать',
+
+  'programBuilder.newTitle': 'Новая программа',
+  'programBuilder.editTitle': 'Изменить программу',
+  'programBuilder.namePlaceholder': 'Название программы',
+  'programBuilder.exercisePlaceholder': 'Название упражнения',
+  'programBuilder.tipPlaceholder': 'Подсказка (необязательно)',
+  'programBuilder.timeCap': 'Лимит времени',
+  'programBuilder.duration': 'Длительность',
+  'programBuilder.reps': 'Повторы',
+  'programBuilder.finish': 'Завершение',
+  'programBuilder.whenTimeIsUp': 'По времени',
+  'programBuilder.onDone': 'По кнопке «Готово»',
+  'programBuilder.whenStopped': 'Секундомер',
+  'programBuilder.estimate': 'Примерно',
+  'programBuilder.targetTime': 'Цель',
+  'programBuilder.sides': 'Стороны',
+  'programBuilder.leftRight': 'Левая + правая',
+  'programBuilder.bothAtOnce': 'Обе сразу',
+  'programBuilder.duplicate': 'Дублировать',
+  'programBuilder.addExercise': '+ Упражнение',
+  'programBuilder.addRest': '+ Отдых',
+  'programBuilder.save': 'Сохранить программу',
+
+  'profile.subtitle': 'Управляйте предпочтениями и настройками',
+  'profile.account': 'Аккаунт',
+  'profile.name': 'Любитель фитнеса',
+  'profile.tagline': 'Будьте сильными и здоровыми',
+  'profile.quickActions': 'Быстрые действия',
+  'profile.favorites': 'Избранное',
+  'profile.favoritesSubtitle': 'Сохранённые статьи и тренировки',
+  'profile.settingsSubtitle': 'Параметры и настройка приложения',
+  'profile.about': 'О приложении',
+  'profile.aboutSubtitle': 'Версия и сведения о приложении',
+  'profile.sessionLog': 'Журнал сессий',
+  'profile.sessionLogSubtitle': 'Хронология событий последних тренировок',
+  'profile.progress': 'Ваш прогресс',
+  'profile.workouts': 'Тренировки',
+  'profile.thisMonth': 'В этом месяце',
+  'profile.minutes': 'Минуты',
+  'profile.totalActive': 'Всего активно',
+  'profile.burned': 'Сожжено',
+  'profile.streak': 'Серия',
+  'profile.days': 'Дни',
+
+  'sessionLog.title': 'Журнал сессий',
+  'sessionLog.count': {
+    one: '{count} записанная тренировка',
+    few: '{count} записанные тренировки',
+    many: '{count} записанных тренировок',
+    other: '{count} записанной тренировки'
+  },
+  'sessionLog.empty': 'Здесь появятся события тренировок после их завершения',
+  'sessionLog.loading': 'Загрузка хронологии…',
+  'sessionLog.missing': 'Эта хронология больше не хранится',
+  'sessionLog.replayMatches': {
+    one: 'Повтор воспроизводит {count} событие',
+    few: 'Повтор воспроизводит все {count} события',
+    many: 'Повтор воспроизводит все {count} событий',
+    other: 'Повтор воспроизводит все {count} события'
+  },
+  'sessionLog.replayDiverges': 'Повтор расходится на событии {index}',
+  'sessionLog.share': 'Поделиться хронологией',
+
+  'settings.appearance': 'Оформление',
+  'settings.themeSystem': 'Системная',
+  'settings.themeLight': 'Светлая',
+  'settings.themeDark': 'Тёмная',
+  'settings.language': 'Язык',
+  'settings.units': 'Единицы',
+  'settings.metric': 'Метрические',
+  'settings.imperial': 'Имперские',
+  'settings.audioHaptics': 'Звук и вибрация',
+  'settings.sounds': 'Звуки',
+  'settings.soundsSubtitle': 'Звуки упражнений и голосовые сигналы',
+  'settings.voiceCues': 'Голосовые подсказки',
+  'settings.voiceCuesSubtitle': 'Отсчёт и названия упражнений вслух',
+  'settings.tickEvery10s': 'Щелчок каждые 10 секунд',
+  'settings.tickEvery10sSubtitle': 'Короткий сигнал каждые 10 секунд',
+  'settings.vibrationsSubtitle': 'Тактильный отклик во время тренировок',
+  'settings.hapticStepStart': 'Начало шага',
+  'settings.hapticStepStartSubtitle': 'Долгая вибрация в начале упражнения или отдыха',
+  'settings.hapticNextUp': 'Далее',
+  'settings.hapticNextUpSubtitle': 'Два касания перед следующим шагом',
+  'settings.hapticCountdown': 'Последние 3 секунды',
+  'settings.hapticCountdownSubtitle': 'Касание на каждой из последних 3 секунд',
+  'settings.hapticSwitchSides': 'Смена стороны',
+  'settings.hapticSwitchSidesSubtitle': 'Двойная вибрация, когда пора сменить сторону',
+  'settings.hapticWorkoutComplete': 'Тренировка завершена',
+  'settings.hapticWorkoutCompleteSubtitle': 'Длинная вибрация в конце тренировки',
+  'settings.workout': 'Тренировка',
+  'settings.warmupSubtitle': 'Разминка для мышц, которые задействует тренировка',
+  'settings.cooldownSubtitle': 'Завершать каждую тренировку растяжкой',
+  'settings.leadIn': 'Отсчёт 3-2-1',
+  'settings.leadInSubtitle': 'Обратный отсчёт перед первым шагом',
+  'settings.getReady': 'Подготовка',
+  'settings.getReadySubtitle': 'Отсчёт перед каждым упражнением',
+  'settings.off': 'Выкл.',
+  'settings.notifications': 'Уведомления',
+  'settings.reminders': 'Напоминания о тренировках',
+  'settings.remindersSubtitle': 'Уведомления по расписанию тренировок',
+  'settings.doNotDisturb': 'Не беспокоить',
+  'settings.doNotDisturbHours': '{from}–{to}',
+  'settings.health': 'Интеграция со здоровьем',
+  'settings.healthApps': 'Apple Health или Google Fit',
+  'settings.connected': 'Подключено',
+  'settings.notConnected': 'Не подключено',
+  'settings.privacy': 'Конфиденциальность',
+  'settings.analytics': 'Аналитика',
+  'settings.analyticsSubtitle': 'Помогите улучшить приложение данными об использовании',
+  'settings.appInfo': 'О приложении',
+  'settings.version': 'Версия',
+  'settings.build': 'Сборка',
+  'settings.advanced': 'Дополнительно',
+  'settings.resetSettings': 'Сбросить настройки',
+  'settings.resetSettingsSubtitle': 'Вернуть все настройки к значениям по умолчанию',
+  'settings.resetMessage': 'Все настройки будут возвращены к значениям по умолчанию.',
+  'settings.resetDone': 'Настройки сброшены',
+  'settings.resetDoneMessage': 'Все настройки возвращены к значениям по умолчанию.',
+  'settings.clearData': 'Удалить все данные',
+  'settings.clearDataSubtitle': 'Удалить избранное и прогресс',
+  'settings.clearDataMessage': 'Будут удалены избранное, прогресс и настройки. Это действие нельзя отменить.',
+  'settings.clearDataConfirm': 'Удалить данные',
+  'settings.clearDataDone': 'Данные удалены',
+  'settings.clearDataDoneMessage': 'Все данные успешно удалены.',
+  'settings.offlineNote': 'FitnessTrainerPro полностью работает офлайн и бережёт вашу приватность. Данные не отправляются на внешние серверы.',
+
+  'language.en': 'English',
+  'language.ru': 'Русский'
+};
@@ -0,0 +1,86 @@
+import { CatalogExercise, findStepExercise, getExerciseById } from '../data/exerciseCatalog';
+import { Program, Step } from '../types/program';
+import { Content, LibrarySection } from '../types/library';
+import { Language } from './types';
+import { ru } from './content/ru';
+
+// Translations for bundled content: exercise catalog entries by id, and free text
+// (sample programs, library titles) keyed by the English source so copies made by
+// the generators and the builder still resolve. Anything missing stays in English.
+
+export interface ExerciseTranslation {
+  title: string;
+  hints?: string[];
+}
+
+export interface ContentCatalog {
+  exercises: Record<string, ExerciseTranslation>;
+  text: Record<string, string>;
+}
+
+const CONTENT: Partial<Record<Language, ContentCatalog>> = { ru };
+
+export const translateText = (language: Language, text: string): string =>
+  CONTENT[language]?.text[text] ?? text;
+
+export const localizeExercise = (language: Language, exercise: CatalogExercise): CatalogExercise => {
+  const translation = CONTENT[language]?.exercises[exercise.id];
+  if (!translation) return exercise;
+  return { ...exercise, title: translation.title, hints: translation.hints ?? exercise.hints };
+};
+
+export const getLocalizedExerciseTitle = (
+  language: Language,
+  id: string | null | undefined,
+  fallback: string
+): string => {
+  const exercise = getExerciseById(id);
+  return exercise ? localizeExercise(language, exercise).title : fallback;
+};
+
+const localizeStep = (language: Language, step: Step): Step => {
+  const blockPath = step.blockPath?.map(info =>
+    info.title ? { ...info, title: translateText(language, info.title) } : info
+  );
+
+  // RestStep.title is always 'Rest'; screens render it through the UI catalog
+  if (step.type === 'rest') {
+    return { ...step, blockPath, tip: step.tip && translateText(language, step.tip) };
+  }
+
+  const exercise = findStepExercise(step);
+  const localized = exercise && localizeExercise(language, exercise);
+  // Generators title steps and describe them with the catalog's own wording
+  const usesTitle = !!exercise && step.title === exercise.title;
+  const usesHints = !!exercise && step.description === exercise.hints.join('. ');
+  return {
+    ...step,
+    blockPath,
+    title: usesTitle && localized ? localized.title : translateText(language, step.title),
+    description: step.description && (usesHints && localized
+      ? localized.hints.join('. ')
+      : translateText(language, step.description))
+  };
+};
+
+export const localizeProgram = (language: Language, program: Program): Program => {
+  if (!CONTENT[language]) return program;
+  return {
+    ...program,
+    title: translateText(language, program.title),
+    description: program.description && translateText(language, program.description),
+    steps: program.steps.map(step => localizeStep(language, step))
+  };
+};
+
+export const localizeContent = <T extends Content>(language: Language, item: T): T =>
+  CONTENT[language] ? { ...item, title: translateText(language, item.title) } : item;
+
+export const localizeLibrarySection = (language: Language, section: LibrarySection): LibrarySection =>
+  CONTENT[language]
+    ? {
+        ...section,
+        title: translateText(language, section.title),
+        items: section.items.map(item => localizeContent(language, item))
+      }
+    : section;
@@ -0,0 +1,292 @@
+import type { ContentCatalog } from '../content';
+
+export const ru: ContentCatalog = {
+  exercises: {
+    'pushups': { title: 'Отжимания', hints: ['Спина прямая', 'Ровное дыхание'] },
+    'plank': { title: 'Планка', hints: ['Напрягите ягодицы', 'Не опускайте таз'] },
+    'squats': { title: 'Приседания', hints: ['Колени смотрят по направлению носков', 'Грудь вперёд'] },
+    'burpees': { title: 'Бёрпи', hints: ['Приземляйтесь мягко', 'Держите ровный ритм'] },
+    'lunges': { title: 'Выпады', hints: ['Переднее колено над голеностопом', 'Корпус прямой'] },
+    'crunches': { title: 'Скручивания', hints: ['Не тяните себя за шею', 'Выдох на подъёме'] },
+    'mountain-climbers': { title: 'Скалолаз', hints: ['Таз на уровне плеч', 'Дышите ровно'] },
+    'jumping-jacks': { title: 'Прыжки «звёздочка»', hints: ['Прыгайте легко'] },
+    'pike-pushups': { title: 'Отжимания уголком' },
+    'decline-pushups': { title: 'Отжимания с ногами на опоре' },
+    'pushup-rotation': { title: 'Отжимания с поворотом' },
+    'tricep-dips': { title: 'Обратные отжимания' },
+    'step-ups': { title: 'Зашагивания' },
+    'wall-sit': { title: 'Стульчик у стены' },
+    'wall-plank': { title: 'Планка у стены' },
+    'wall-bridge': { title: 'Ягодичный мост у стены' },
+    'glute-bridges': { title: 'Ягодичный мост' },
+    'jump-squats': { title: 'Приседания с выпрыгиванием' },
+    'pull-ups': { title: 'Подтягивания' },
+    'nordic-hamstring-curl': { title: 'Скандинавские сгибания' },
+    'side-plank': { title: 'Боковая планка' },
+    'bicycle-crunches': { title: 'Велосипед' },
+    'russian-twists': { title: 'Русские скручивания' },
+    'dead-bug': { title: 'Мёртвый жук' },
+    'bird-dog': { title: 'Птица-собака' },
+    'hollow-hold': { title: 'Лодочка' },
+    'leg-raises': { title: 'Подъёмы ног' },
+    'side-bends': { title: 'Наклоны в стороны' },
+    'hundred': { title: 'Сотня' },
+    'roll-up': { title: 'Скручивание вверх' },
+    'single-leg-stretch': { title: 'Растяжка одной ноги' },
+    'scissors': { title: 'Ножницы' },
+    'teaser': { title: 'Тизер' },
+    'high-knees': { title: 'Бег с высоким подниманием колен' },
+    'butt-kickers': { title: 'Захлёст голени' },
+    'star-jumps': { title: 'Прыжки «звезда»' },
+    'box-jumps': { title: 'Прыжки на тумбу' },
+    'stair-sprint': { title: 'Спринт по лестнице' },
+    'stair-lunges': { title: 'Выпады на лестнице' },
+    'steady-walk': { title: 'Ровная ходьба' },
+    'conversational-pace': { title: 'Бег в разговорном темпе' },
+    'basic-jump': { title: 'Базовый прыжок' },
+    'alternate-foot': { title: 'Прыжки с ноги на ногу' },
+    'boxer-step': { title: 'Боксёрский шаг' },
+    'double-under': { title: 'Двойной прокрут' },
+    'footwork': { title: 'Боксёрская работа ног' },
+    'jabs': { title: 'Джебы' },
+    'crosses': { title: 'Кроссы' },
+    'hooks': { title: 'Хуки' },
+    'uppercuts': { title: 'Апперкоты' },
+    'dumbbell-row': { title: 'Тяга гантели' },
+    'dumbbell-press': { title: 'Жим гантелей' },
+    'goblet-squat': { title: 'Гоблет-присед' },
+    'farmer-walk': { title: 'Прогулка фермера' },
+    'suitcase-carry': { title: 'Перенос «чемодана»' },
+    'overhead-carry': { title: 'Перенос над головой' },
+    'kettlebell-swing': { title: 'Махи гирей' },
+    'kettlebell-press': { title: 'Жим гири' },
+    'kettlebell-deadlift': { title: 'Становая тяга с гирей' },
+    'turkish-get-up': { title: 'Турецкий подъём' },
+    'clean-and-press': { title: 'Взятие на грудь и жим' },
+    'conventional-deadlift': { title: 'Классическая становая тяга' },
+    'romanian-deadlift': { title: 'Румынская тяга' },
+    'barbell-squat': { title: 'Приседания со штангой' },
+    'barbell-bench-press': { title: 'Жим штанги лёжа' },
+    'lat-pulldown': { title: 'Тяга верхнего блока' },
+    'leg-press': { title: 'Жим ногами' },
+    'band-rows': { title: 'Тяга с резинкой' },
+    'band-press': { title: 'Жим от груди с резинкой' },
+    'band-squats': { title: 'Приседания с резинкой' },
+    'band-curls': { title: 'Сгибания с резинкой' },
+    'band-pull-aparts': { title: 'Разведение резинки' },
+    'band-good-morning': { title: 'Гуд-морнинг с резинкой' },
+    'arm-circles': { title: 'Круги руками' },
+    'arm-swings': { title: 'Махи руками' },
+    'leg-swings': { title: 'Махи ногами' },
+    'hip-circles': { title: 'Круги тазом' },
+    'neck-rolls': { title: 'Вращения шеей' },
+    'shoulder-shrugs': { title: 'Пожимания плечами' },
+    'cat-cow': { title: 'Кошка-корова' },
+    'thoracic-rotation': { title: 'Грудные вращения' },
+    'forward-fold': { title: 'Наклон вперёд' },
+    'spinal-twist': { title: 'Скручивание позвоночника' },
+    'pigeon-pose': { title: 'Поза голубя' },
+    'sun-salutation': { title: 'Приветствие солнцу' },
+    'warrior-i': { title: 'Воин I' },
+    'downward-dog': { title: 'Собака мордой вниз' },
+    'child-pose': { title: 'Поза ребёнка' },
+    'quad-stretch': { title: 'Растяжка квадрицепса' },
+    'hamstring-stretch': { title: 'Растяжка задней поверхности бедра' },
+    'hip-flexor': { title: 'Растяжка сгибателей бедра' },
+    'chest-opener': { title: 'Раскрытие грудной клетки' },
+    'quad-roll': { title: 'Прокатка квадрицепса' },
+    'it-band-roll': { title: 'Прокатка илиотибиального тракта' },
+    'calf-roll': { title: 'Прокатка икр' },
+    'lat-roll': { title: 'Прокатка широчайших' },
+    'thoracic-roll': { title: 'Прокатка грудного отдела' },
+    'box-breathing': { title: 'Квадратное дыхание' },
+    'physiological-sigh': { title: 'Физиологический вздох' },
+    'wim-hof-basic': { title: 'Силовое дыхание' },
+    'cold-shower': { title: 'Холодный душ' },
+    'warm-shower': { title: 'Тёплый душ' }
+  },
+  text: {
+    // Sample programs
+    'Full-Body Express': 'Экспресс на всё тело',
+    'A quick but intense full-body workout that targets all major muscle groups in under 6 minutes':
+      'Быстрая, но интенсивная тренировка на все основные группы мышц меньше чем за 6 минут',
+    'Core + Cardio Mix': 'Кор + кардио',
+    'Perfect blend of core strengthening and cardiovascular conditioning for beginners':
+      'Идеальное сочетание укрепления кора и кардионагрузки для новичков',
+    'Upper Body Strength': 'Сила верха тела',
+    'Build upper body strength with bodyweight exercises targeting arms, shoulders, and chest':
+      'Развивайте силу верха тела упражнениями с собственным весом на руки, плечи и грудь',
+    'Quick Morning Routine': 'Быстрая утренняя зарядка',
+    'Gentle wake-up routine to energize your body and mind for the day ahead':
+      'Мягкая зарядка, чтобы зарядить тело и голову энергией на весь день',
+    'HIIT Blast': 'ВИИТ-взрыв',
+    'High-intensity interval training for maximum calorie burn and cardiovascular improvement':
+      'Высокоинтенсивная интервальная тренировка для максимального расхода калорий и выносливости',
+    '4-Round Circuit': 'Круговая в 4 раунда',
+    'Four rounds of a bodyweight circuit finished with a core superset':
+      'Четыре круга упражнений с собственным весом и суперсет на кор в конце',
+    'Circuit': 'Круг',
+    'Core Superset': 'Суперсет на кор',
+
+    'Bodyweight Squats': 'Приседания с собственным весом',
+    'Plank Hold': 'Удержание планки',
+    'Gentle Squats': 'Лёгкие приседания',
+
+    'Start with feet together, jump feet apart while raising arms overhead':
+      'Ноги вместе, в прыжке разведите ноги и поднимите руки над головой',
+    'Keep your body in a straight line, lower chest to floor': 'Тело в одну линию, опускайте грудь к полу',
+    'Feet shoulder-width apart, lower hips back and down': 'Ноги на ширине плеч, отводите таз назад и вниз',
+    'Start in plank position, alternate bringing knees to chest':
+      'Из планки поочерёдно подтягивайте колени к груди',
+    'Hold a straight line from head to heels, engage your core':
+      'Держите прямую линию от головы до пяток, напрягите кор',
+    'Squat down, jump back to plank, push-up, jump forward, jump up':
+      'Присед, прыжком в планку, отжимание, прыжком вперёд, выпрыгивание',
+    'Run in place lifting knees as high as possible': 'Бег на месте с максимально высоким подниманием колен',
+    'Alternate bringing opposite elbow to knee in a cycling motion':
+      'Поочерёдно тянитесь локтем к противоположному колену, как при езде на велосипеде',
+    'Explosive squat with a jump at the top': 'Взрывной присед с прыжком вверх',
+    'Sit with knees bent, lean back slightly, rotate torso side to side':
+      'Сядьте, согнув колени, немного отклонитесь назад и поворачивайте корпус из стороны в сторону',
+    'Run in place kicking heels to glutes': 'Бег на месте с захлёстом пяток к ягодицам',
+    'Lie on back, extend opposite arm and leg, return to start':
+      'Лёжа на спине, вытяните противоположные руку и ногу, вернитесь в исходное положение',
+    'Jump with arms and legs spread wide like a star': 'Прыжок с широко разведёнными руками и ногами, как звезда',
+    'Standard push-ups with proper form': 'Классические отжимания с правильной техникой',
+    'Targets shoulders and upper chest': 'Нагружает плечи и верх груди',
+    'Use a chair or bench for support': 'Используйте стул или скамью как опору',
+    'Large circles forward and backward': 'Большие круги вперёд и назад',
+    'Gentle arm swings to wake up your body': 'Мягкие махи руками, чтобы проснуться',
+    'Slow, controlled neck movements': 'Медленные контролируемые движения шеей',
+    'Low-intensity squats to activate legs': 'Лёгкие приседания, чтобы включить ноги',
+    'Gentle side stretches': 'Мягкие наклоны в стороны',
+    'Maximum intensity burpees': 'Бёрпи на максимальной интенсивности',
+    'Fast-paced mountain climbers': 'Скалолаз в быстром темпе',
+    'Explosive jump squats': 'Взрывные приседания с выпрыгиванием',
+    'Sprint in place with high knees': 'Спринт на месте с высоким подниманием колен',
+    'Lift shoulders off the floor, keep your neck relaxed': 'Отрывайте плечи от пола, шея расслаблена',
+
+    'Almost done! Stay strong': 'Почти готово! Держитесь',
+    'Almost there!': 'Почти у цели!',
+    'Breathe deeply': 'Дышите глубоко',
+    'Catch your breath and hydrate': 'Восстановите дыхание и попейте воды',
+    'Catch your breath quickly': 'Быстро восстановите дыхание',
+    'Control your breathing': 'Контролируйте дыхание',
+    'Core finisher is next': 'Дальше финишер на кор',
+    'Feel the burn in your legs': 'Почувствуйте жжение в ногах',
+    'Feel your core working': 'Почувствуйте, как работает кор',
+    'Final exercise coming up!': 'Впереди последнее упражнение!',
+    'Final push coming up!': 'Впереди финальный рывок!',
+    'Keep that core tight': 'Держите кор в напряжении',
+    'Power through, you got this!': 'Поднажмите, у вас получится!',
+    'Push through the burn!': 'Терпите жжение!',
+    'Quick recovery, keep moving lightly': 'Быстрое восстановление, двигайтесь легко',
+    'Shake out your arms and shoulders': 'Встряхните руки и плечи',
+    'Shake out your arms': 'Встряхните руки',
+    'Shake out your legs': 'Встряхните ноги',
+    'Stay moving lightly': 'Продолжайте легко двигаться',
+    'Stretch your shoulders': 'Потяните плечи',
+    'Take a deep breath': 'Сделайте глубокий вдох',
+
+    // Weekly plan and block generators
+    'Lower Body Strength': 'Сила низа тела',
+    'Full Body Strength': 'Сила всего тела',
+    'Conditioning Circuit': 'Круговая на выносливость',
+    'Mobility Flow': 'Мобильность',
+    'Monday · planned from your goals and equipment': 'Понедельник · по вашим целям и инвентарю',
+    'Tuesday · planned from your goals and equipment': 'Вторник · по вашим целям и инвентарю',
+    'Wednesday · planned from your goals and equipment': 'Среда · по вашим целям и инвентарю',
+    'Thursday · planned from your goals and equipment': 'Четверг · по вашим целям и инвентарю',
+    'Friday · planned from your goals and equipment': 'Пятница · по вашим целям и инвентарю',
+    'Saturday · planned from your goals and equipment': 'Суббота · по вашим целям и инвентарю',
+    'Sunday · planned from your goals and equipment': 'Воскресенье · по вашим целям и инвентарю',
+    'Set up for the next exercise': 'Подготовьтесь к следующему упражнению',
+    'Get ready for the next round': 'Приготовьтесь к следующему раунду',
+    'Get ready for the next set': 'Приготовьтесь к следующему подходу',
+
+    // Library sections
+    'Continue': 'Продолжить',
+    'Quick Starts': 'Быстрый старт',
+    'Programs': 'Программы',
+    'Challenges with Friends': 'Челленджи с друзьями',
+    'New This Week': 'Новое на этой неделе',
+    'Recommended For You': 'Рекомендуем вам',
+    'Trending Now': 'Сейчас в тренде',
+    'Top Rated': 'Лучшие по оценкам',
+    'Articles & Knowledge': 'Статьи и знания',
+
+    // Library items
+    'Beginner Full Body': 'Всё тело для новичков',
+    'Advanced Strength': 'Сила для продвинутых',
+    'Fat Loss Circuit': 'Круговая для жиросжигания',
+    'GZCLP Strength Protocol': 'Силовой протокол GZCLP',
+    '5/3/1 Boring But Big': '5/3/1 Boring But Big',
+    '12-Week Hybrid Athlete': 'Гибридный атлет за 12 недель',
+    '28-Day Bodyweight Foundations': 'Основы работы с весом тела за 28 дней',
+    '30-Day Push-up Challenge': '30 дней отжиманий',
+    'Plank Master': 'Мастер планки',
+    '21-Day Squat Challenge': '21 день приседаний',
+    '100-Burpee Ladder': 'Лесенка на 100 бёрпи',
+    'Flexibility Streak': 'Серия на гибкость',
+    'Zone 2 Heart Rate Month': 'Месяц во второй пульсовой зоне',
+    '5-Min Morning Boost': 'Утренний заряд за 5 минут',
+    '10-Min Core Blast': 'Кор за 10 минут',
+    '15-Min Full Body': 'Всё тело за 15 минут',
+    'Progressive Overload Basics': 'Основы прогрессии нагрузок',
+    'Protein Timing Guide': 'Когда есть белок',
+    'Sleep for Performance': 'Сон для результатов',
+    'Squat Form Checklist': 'Чек-лист техники приседа',
+    'Hydration & Electrolytes: Simple Field Guide': 'Вода и электролиты: простое руководство',
+    'The Science of HIIT (Protocol Chooser)': 'Наука о ВИИТ: как выбрать протокол',
+    'Deload Week: The Evidence': 'Разгрузочная неделя: что говорят исследования',
+    'Creatine: The Complete Guide': 'Креатин: полное руководство',
+    'VO₂ Max Explained': 'Что такое МПК',
+    'RPE & RIR: Train Smarter': 'RPE и RIR: тренируйтесь с умом',
+    'Mobility vs. Flexibility': 'Мобильность и гибкость',
+    '4-Week Strength Builder · W3D2': 'Сила за 4 недели · Н3Д2',
+    'Yoga for Hips · Day 5': 'Йога для бёдер · день 5',
+    'Core Burner · Session 2': 'Жаркий кор · занятие 2',
+    '10-Min Warm-Up Flow': 'Разминка на 10 минут',
+    '12-Min HIIT Blast': 'ВИИТ на 12 минут',
+    '15-Min Core': 'Кор за 15 минут',
+    '20-Min Full Body': 'Всё тело за 20 минут',
+    '7-Min Scientific Workout': 'Научная 7-минутка',
+    '4-Min Tabata Blast': 'Табата на 4 минуты',
+    '3-Min Breathing Reset': 'Дыхательная перезагрузка за 3 минуты',
+    '6-Week Fat-Loss Plan': 'План жиросжигания на 6 недель',
+    '3-Week Mobility Reset': 'Мобильность за 3 недели',
+    '8-Week Marathon Prep': 'Подготовка к марафону за 8 недель',
+    '10K-Steps Streak': 'Серия по 10 000 шагов',
+    '7-Day Push-Up Ladder': 'Лесенка отжиманий на 7 дней',
+    'Weekend Ride': 'Велопрогулка выходного дня',
+    'Kettlebell Complex': 'Комплекс с гирей',
+    'Mindful Stretch': 'Осознанная растяжка',
+    'Glutes & Core': 'Ягодицы и кор',
+    'Desk Mobility': 'Мобильность за рабочим столом',
+    'Nordic Hamstring Curl Protocol': 'Протокол скандинавских сгибаний',
+    'Loaded Carry Series': 'Серия переносов с весом',
+    'Cold Exposure Protocol': 'Протокол закаливания',
+    'Lower Body Power': 'Мощь нижней части тела',
+    'Resistance Band Total Body': 'Всё тело с резинкой',
+    'Post-Workout Recovery': 'Восстановление после тренировки',
+    'Abs & Core Fundamentals': 'Основы пресса и кора',
+    'Boxing Basics': 'Основы бокса',
+    'Pilates Power': 'Сила пилатеса',
+    'Jump Rope Cardio Blast': 'Кардио со скакалкой',
+    'Staircase HIIT': 'ВИИТ на лестнице',
+    'Foam Rolling & Recovery': 'МФР и восстановление',
+    'Wall Pilates': 'Пилатес у стены',
+    'Zone 2 Walk Protocol': 'Ходьба во второй пульсовой зоне',
+    'Breathwork for Athletes': 'Дыхательные практики для спортсменов',
+    'Strength 101': 'Сила: с чего начать',
+    'StrongLifts 5×5': 'StrongLifts 5×5',
+    'HIIT Cardio Inferno': 'Кардио-ВИИТ на пределе',
+    'Morning Yoga Flow': 'Утренняя йога',
+    'Couch to 5K Running Plan': 'С дивана до 5 км',
+    'The Science of Sleep & Recovery': 'Наука о сне и восстановлении',
+    'Kettlebell Power Circuit': 'Силовая круговая с гирей',
+    'Grease the Groove': 'Смазка канала',
+    'Beginner Bodyweight Workout': 'Тренировка с весом тела для новичков',
+    'Deadlift Fundamentals': 'Основы становой тяги'
+  }
+};
@@ -0,0 +1,68 @@
+import { en, MessageKey } from './catalogs/en';
+import { ru } from './catalogs/ru';
+import { Language, Message, MessageParams, PluralCategory } from './types';
+
+// Message lookup, plural selection and locale-aware formatting.
+// Pure functions; screens get them bound to the current language from useTranslation.
+
+export type { Language, Message, MessageParams, PluralCategory, PluralForms } from './types';
+export type { MessageKey };
+
+export type Catalog = Record<MessageKey, Message>;
+
+export const LANGUAGES: Language[] = ['en', 'ru'];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const CATALOGS: Record<Language, Catalog> = { en, ru };
+
+const LOCALE_TAGS: Record<Language, string> = {
+  en: 'en-US',
+  ru: 'ru-RU'
+};
+
+export const getLocaleTag = (language: Language): string => LOCALE_TAGS[language] ?? LOCALE_TAGS.en;
+
+export const getPluralCategory = (language: Language, count: number): PluralCategory => {
+  if (!Number.isInteger(count)) return 'other';
+  const n = Math.abs(count);
+
+  if (language === 'ru') {
+    const mod10 = n % 10;
+    const mod100 = n % 100;
+    if (mod10 === 1 && mod100 !== 11) return 'one';
+    if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return 'few';
+    return 'many';
+  }
+
+  return n === 1 ? 'one' : 'other';
+};
+
+const interpolate = (template: string, params?: MessageParams): string =>
+  params
+    ? template.replace(/\{(\w+)\}/g, (match, name: string) =>
+        params[name] !== undefined ? String(params[name]) : match)
+    : template;
+
+// Missing keys fall back to English, then to the key itself
+export const translate = (language: Language, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[language]?.[key] ?? en[key];
+  if (message === undefined) return key;
+  if (typeof message === 'string') return interpolate(message, params);
+
+  const count = Number(params?.count ?? 0);
+  const form = message[getPluralCategory(language, count)] ?? message.other;
+  return interpolate(form, params);
+};
+
+export const formatNumber = (
+  language: Language,
+  value: number,
+  options?: Intl.NumberFormatOptions
+): string => new Intl.NumberFormat(getLocaleTag(language), options).format(value);
+
+export const formatDate = (
+  language: Language,
+  date: Date | string,
+  options: Intl.DateTimeFormatOptions = { day: 'numeric', month: 'short', year: 'numeric' }
+): string => new Intl.DateTimeFormat(getLocaleTag(language), options).format(new Date(date));
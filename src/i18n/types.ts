@@ -0,0 +1,10 @@
+export type Language = 'en' | 'ru';
+
+export type PluralCategory = 'one' | 'few' | 'many' | 'other';
+
+// English needs one/other; Russian also needs few and many ("1 минута, 2 минуты, 5 минут")
+export type PluralForms = Partial<Record<PluralCategory, string>> & { other: string };
+
+export type Message = string | PluralForms;
+
+export type MessageParams = Record<string, string | number>;
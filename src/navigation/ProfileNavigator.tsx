@@ -4,7 +4,9 @@ import { ProfileScreen } from '../screens/ProfileScreen';
 import { SettingsScreen } from '../screens/SettingsScreen';
 import { AboutScreen } from '../screens/AboutScreen';
 import { FavoritesScreen } from '../screens/FavoritesScreen';
+import { SessionLogScreen } from '../screens/SessionLogScreen';
 import { useTheme } from '../state/ThemeContext';
+import { useTranslation } from '../hooks/useTranslation';
 
 // Navigation parameter types
 export type ProfileStackParamList = {
@@ -12,6 +14,7 @@ export type ProfileStackParamList = {
   Favorites: undefined;
   Settings: undefined;
   About: undefined;
+  SessionLog: undefined;
   ArticleDetail: {
     article: any;
   };
@@ -21,6 +24,7 @@ const Stack = createNativeStackNavigator<ProfileStackParamList>();
 
 export const ProfileNavigator: React.FC = () => {
   const { theme } = useTheme();
+  const { t } = useTranslation();
 
   const screenOptions = {
     headerStyle: {
@@ -47,7 +51,7 @@ export const ProfileNavigator: React.FC = () => {
         name="ProfileMain"
         component={ProfileMainScreen}
         options={{
-          title: 'Profile',
+          title: t('tabs.profile'),
           headerShown: false, // Custom header in component
         }}
       />
@@ -56,7 +60,7 @@ export const ProfileNavigator: React.FC = () => {
         name="Favorites"
         component={FavoritesScreenWrapper}
         options={{
-          title: 'Favorites',
+          title: t('profile.favorites'),
           headerShown: false, // Using custom header in FavoritesScreen
         }}
       />
@@ -65,7 +69,7 @@ export const ProfileNavigator: React.FC = () => {
         name="Settings"
         component={SettingsScreenWrapper}
         options={{
-          title: 'Settings',
+          title: t('common.settings'),
           headerShown: false, // Using custom header in SettingsScreen
         }}
       />
@@ -74,11 +78,20 @@ export const ProfileNavigator: React.FC = () => {
         name="About"
         component={AboutScreenWrapper}
         options={{
-          title: 'About',
+          title: t('profile.about'),
           headerShown: false, // Using custom header in AboutScreen
         }}
       />
 
+      <Stack.Screen
+        name="SessionLog"
+        component={SessionLogScreenWrapper}
+        options={{
+          title: t('sessionLog.title'),
+          headerShown: false, // Using custom header in SessionLogScreen
+        }}
+      />
+
       <Stack.Screen
         name="ArticleDetail"
         component={ArticleDetailScreen}
@@ -106,11 +119,16 @@ const ProfileMainScreen: React.FC<{ navigation: any }> = ({ navigation }) => {
     navigation.navigate('About');
   };
 
+  const handleNavigateToSessionLog = () => {
+    navigation.navigate('SessionLog');
+  };
+
   return (
     <ProfileScreen
       onNavigateToFavorites={handleNavigateToFavorites}
       onNavigateToSettings={handleNavigateToSettings}
       onNavigateToAbout={handleNavigateToAbout}
+      onNavigateToSessionLog={handleNavigateToSessionLog}
     />
   );
 };
@@ -152,6 +170,16 @@ const AboutScreenWrapper: React.FC<{ navigation: any }> = ({ navigation }) => {
   );
 };
 
+const SessionLogScreenWrapper: React.FC<{ navigation: any }> = ({ navigation }) => {
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  return (
+    <SessionLogScreen onBack={handleBack} />
+  );
+};
+
 // Placeholder for ArticleDetailScreen - this should be imported from the actual file
 const ArticleDetailScreen: React.FC<{ route: any; navigation: any }> = ({
   route,
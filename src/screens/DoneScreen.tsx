@@ -1,7 +1,9 @@
 import React, { useMemo } from 'react';
 import { SafeAreaView, StyleSheet, Text, View, Pressable } from 'react-native';
 import { useSession } from '../state/SessionContext';
-import { TRAINING_TYPES } from '../data/trainingTypes';
+import { useWorkoutHistory } from '../state/WorkoutHistoryContext';
+import { useTranslation } from '../hooks/useTranslation';
+import { getLocalizedExerciseTitle } from '../i18n/content';
 
 type Props = {
   onReplay?: () => void;
@@ -15,12 +17,13 @@ export const DoneScreen: React.FC<Props> = ({
   onHome,
 }) => {
   const { setup } = useSession();
+  const { sessions } = useWorkoutHistory();
+  const { language, t, formatNumber } = useTranslation();
 
   // Get the selected training type title
   const selectedTrainingTitle = useMemo(() => {
-    const trainingType = TRAINING_TYPES.find(t => t.id === setup.typeId);
-    return trainingType?.title ?? 'Custom Training';
-  }, [setup.typeId]);
+    return getLocalizedExerciseTitle(language, setup.typeId, t('home.customTraining'));
+  }, [setup.typeId, language, t]);
 
   // Format duration for display
   const formattedDuration = useMemo(() => {
@@ -31,38 +34,35 @@ export const DoneScreen: React.FC<Props> = ({
     return `${minutes.toString().padStart(2, '0')}:00`;
   }, [setup.durationMin]);
 
-  // Calculate estimated calories (rough estimate: 5-10 calories per minute depending on exercise)
-  const estimatedCalories = useMemo(() => {
-    const minutes = setup.durationMin === 0.05 ? 0.05 : setup.durationMin;
-    return Math.round(minutes * 8.6); // Average calories per minute
-  }, [setup.durationMin]);
+  // The session that just finished is saved before this screen opens
+  const estimatedCalories = sessions[0]?.estimatedCalories ?? 0;
 
   return (
     <SafeAreaView style={styles.container}>
-      <Text style={styles.title}>WORKOUT{'\n'}COMPLETE</Text>
+      <Text style={styles.title}>{t('done.title')}</Text>
 
       <Text style={styles.exerciseName}>{selectedTrainingTitle}</Text>
 
       <View style={styles.statsContainer}>
         <View style={styles.statItem}>
-          <Text style={styles.statLabel}>Time</Text>
+          <Text style={styles.statLabel}>{t('done.time')}</Text>
           <Text style={styles.statValue}>{formattedDuration}</Text>
         </View>
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
-          <Text style={styles.statLabel}>Calories</Text>
-          <Text style={styles.statValue}>{estimatedCalories}</Text>
+          <Text style={styles.statLabel}>{t('common.calories')}</Text>
+          <Text style={styles.statValue}>{formatNumber(estimatedCalories)}</Text>
         </View>
       </View>
 
       <View style={styles.doneButtonContainer}>
         <Pressable style={styles.doneButton} onPress={onHome}>
-          <Text style={styles.doneButtonText}>Done</Text>
+          <Text style={styles.doneButtonText}>{t('common.done')}</Text>
         </Pressable>
       </View>
 
       <Pressable style={styles.changeSetupButton} onPress={onChangeSetup}>
-        <Text style={styles.changeSetupButtonText}>Change Setup</Text>
+        <Text style={styles.changeSetupButtonText}>{t('done.changeSetup')}</Text>
       </Pressable>
     </SafeAreaView>
   );
@@ -7,29 +7,34 @@ import {
   Text,
   View,
 } from 'react-native';
-import { TRAINING_TYPES, TrainingType } from '../data/trainingTypes';
+import { CatalogExercise, FEATURED_EXERCISES } from '../data/exerciseCatalog';
 import { useSession } from '../state/SessionContext';
 import { useTheme } from '../state/ThemeContext';
 import ExercisePhoto from '../components/ExercisePhotos';
+import { useTranslation } from '../hooks/useTranslation';
+import { getLocalizedExerciseTitle, localizeExercise } from '../i18n/content';
 
 type Props = {
-  onSelect?: (t: TrainingType) => void;
+  onSelect?: (exercise: CatalogExercise) => void;
   onStart?: () => void;
 };
 
 export const HomeScreen: React.FC<Props> = ({ onSelect, onStart }) => {
   const { theme } = useTheme();
   const { setup } = useSession();
-  const data = useMemo(() => TRAINING_TYPES.slice(0, 6), []);
+  const { language, t } = useTranslation();
+  const data = useMemo(
+    () => FEATURED_EXERCISES.slice(0, 6).map(exercise => localizeExercise(language, exercise)),
+    [language]
+  );
   
   // Use theme-aware background color
   const bgColor = theme.colors.background;
 
   // Get the selected training type title
   const selectedTrainingTitle = useMemo(() => {
-    const trainingType = TRAINING_TYPES.find(t => t.id === setup.typeId);
-    return trainingType?.title ?? 'Custom Training';
-  }, [setup.typeId]);
+    return getLocalizedExerciseTitle(language, setup.typeId, t('home.customTraining'));
+  }, [setup.typeId, language, t]);
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: bgColor }]}>
@@ -41,10 +46,10 @@ export const HomeScreen: React.FC<Props> = ({ onSelect, onStart }) => {
         scrollEnabled={false}
         ListFooterComponent={
           <Pressable style={styles.quickStartBtn} onPress={onStart}>
-            <Text style={styles.quickStartText}>Quick Start</Text>
+            <Text style={styles.quickStartText}>{t('home.quickStart')}</Text>
             <View style={styles.quickChipsRow}>
-              <QuickChip label={`${setup.durationMin} min`} />
-              <QuickChip label={setup.difficulty} active />
+              <QuickChip label={t('common.minutes', { count: setup.durationMin })} />
+              <QuickChip label={t(`difficulty.${setup.difficulty}`)} active />
               <QuickChip label={selectedTrainingTitle} />
             </View>
           </Pressable>
@@ -55,7 +60,7 @@ export const HomeScreen: React.FC<Props> = ({ onSelect, onStart }) => {
             onPress={() => onSelect?.(item)}
           >
             <View style={styles.cardPhotoContainer}>
-              <ExercisePhoto id={item.id as any} />
+              <ExercisePhoto id={item.media.photo as any} />
             </View>
             <View style={styles.cardOverlay} />
             <Text style={styles.cardTitle}>{item.title}</Text>
@@ -13,6 +13,8 @@ import { LibrarySection, Content } from '../types/library';
 import { useLibrary } from '../state/LibraryContext';
 import { useUserProgress } from '../state/UserProgressContext';
 import { useTheme } from '../state/ThemeContext';
+import { useTranslation } from '../hooks/useTranslation';
+import { localizeLibrarySection } from '../i18n/content';
 import { SearchBar } from '../components/library/SearchBar';
 import { FilterBar } from '../components/library/FilterBar';
 import { OfflineBanner } from '../components/library/OfflineBanner';
@@ -34,6 +36,7 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
   onSeeAllPress,
 }) => {
   const { theme } = useTheme();
+  const { language } = useTranslation();
   const isDark = theme.mode === 'dark';
   const { state: libraryState, actions: libraryActions } = useLibrary();
   const { state: progressState } = useUserProgress();
@@ -205,13 +208,13 @@ export const LibraryScreen: React.FC<LibraryScreenProps> = ({
         );
 
         return {
-          ...section,
+          ...localizeLibrarySection(language, section),
           items: continueContent,
         };
       }
-      return section;
+      return localizeLibrarySection(language, section);
     });
-  }, [sections, progressState.userProgress]);
+  }, [sections, progressState.userProgress, language]);
 
   // Render section item
   const renderSection = useCallback(
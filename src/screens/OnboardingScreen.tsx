@@ -2,9 +2,24 @@ import React, { useState } from 'react';
 import { View, Text, StyleSheet, Pressable, TextInput, Switch, ScrollView, Alert, PermissionsAndroid, Platform } from 'react-native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { useOnboarding } from '../state/OnboardingContext';
+import { Goal, Level } from '../types/library';
+import { Weekday } from '../types/onboarding';
+
+// Answers on the goal and training type slides, as profile goals
+const GOALS_BY_ANSWER: Record<string, Goal> = {
+  'Lose Weight': 'fat_loss',
+  'Build Muscle': 'muscle',
+  'Get Fitter': 'strength',
+  'Improve Endurance': 'cardio',
+  'Strength Training': 'strength',
+  'Cardio': 'cardio',
+  'HIIT': 'fat_loss',
+  'Yoga': 'mobility',
+  'Pilates': 'mobility'
+};
 
 const OnboardingScreen = () => {
-  const { setHasOnboarded } = useOnboarding();
+  const { setHasOnboarded, updateProfile } = useOnboarding();
   const [currentSlide, setCurrentSlide] = useState(0);
   const [formData, setFormData] = useState({
     goals: [] as string[],
@@ -105,10 +120,30 @@ const OnboardingScreen = () => {
     if (currentSlide < TOTAL_SLIDES - 1) {
       setCurrentSlide(currentSlide + 1);
     } else {
+      saveProfile();
       setHasOnboarded(true);
     }
   };
 
+  // Keep the answers the plan generator needs
+  const saveProfile = () => {
+    const goals = [...formData.goals, ...formData.trainingTypes]
+      .map(answer => GOALS_BY_ANSWER[answer])
+      .filter((goal): goal is Goal => !!goal);
+
+    updateProfile({
+      age: formData.age,
+      heightCm: formData.height,
+      weightKg: formData.weight,
+      gender: formData.sex === 'Male' ? 'male' : formData.sex === 'Female' ? 'female' : 'other',
+      goals: Array.from(new Set(goals)),
+      level: formData.experience as Level,
+      workoutDays: formData.workoutDays as Weekday[],
+      sessionDurationMin: formData.workoutDuration,
+      notificationsOptIn: formData.notifications
+    });
+  };
+
   const prevSlide = () => {
     if (currentSlide > 0) {
       setCurrentSlide(currentSlide - 1);
@@ -11,21 +11,25 @@ import {
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { useTheme } from '../state/ThemeContext';
 import { useWorkoutHistory } from '../state/WorkoutHistoryContext';
+import { useTranslation } from '../hooks/useTranslation';
 
 type ProfileScreenProps = {
   onNavigateToFavorites?: () => void;
   onNavigateToSettings?: () => void;
   onNavigateToAbout?: () => void;
+  onNavigateToSessionLog?: () => void;
 };
 
 export const ProfileScreen: React.FC<ProfileScreenProps> = ({
   onNavigateToFavorites,
   onNavigateToSettings,
   onNavigateToAbout,
+  onNavigateToSessionLog,
 }) => {
   const { theme } = useTheme();
   const isDark = theme.mode === 'dark';
   const { stats } = useWorkoutHistory();
+  const { t, formatNumber } = useTranslation();
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -34,16 +38,16 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {/* Header */}
         <View style={styles.header}>
-          <Text style={[styles.title, isDark && styles.titleDark]}>Profile</Text>
+          <Text style={[styles.title, isDark && styles.titleDark]}>{t('tabs.profile')}</Text>
           <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
-            Manage your preferences and settings
+            {t('profile.subtitle')}
           </Text>
         </View>
 
         {/* Profile Section */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Account
+            {t('profile.account')}
           </Text>
           
           <View style={[styles.profileCard, isDark && styles.profileCardDark]}>
@@ -53,10 +57,10 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
               </View>
               <View style={styles.profileDetails}>
                 <Text style={[styles.profileName, isDark && styles.profileNameDark]}>
-                  Fitness Enthusiast
+                  {t('profile.name')}
                 </Text>
                 <Text style={[styles.profileEmail, isDark && styles.profileEmailDark]}>
-                  Stay strong and healthy
+                  {t('profile.tagline')}
                 </Text>
               </View>
             </View>
@@ -66,66 +70,74 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({
         {/* Quick Actions */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Quick Actions
+            {t('profile.quickActions')}
           </Text>
           
           <MenuItem
             icon="heart-outline"
-            title="Favorites"
-            subtitle="Your saved articles and workouts"
+            title={t('profile.favorites')}
+            subtitle={t('profile.favoritesSubtitle')}
             onPress={onNavigateToFavorites}
             isDark={isDark}
           />
           
           <MenuItem
             icon="settings-outline"
-            title="Settings"
-            subtitle="App preferences and configuration"
+            title={t('common.settings')}
+            subtitle={t('profile.settingsSubtitle')}
             onPress={onNavigateToSettings}
             isDark={isDark}
           />
           
           <MenuItem
             icon="information-circle-outline"
-            title="About"
-            subtitle="App version and information"
+            title={t('profile.about')}
+            subtitle={t('profile.aboutSubtitle')}
             onPress={onNavigateToAbout}
             isDark={isDark}
           />
+          
+          <MenuItem
+            icon="list-outline"
+            title={t('profile.sessionLog')}
+            subtitle={t('profile.sessionLogSubtitle')}
+            onPress={onNavigateToSessionLog}
+            isDark={isDark}
+          />
         </View>
 
         {/* Stats Section */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Your Progress
+            {t('profile.progress')}
           </Text>
           
           <View style={styles.statsGrid}>
             <StatCard
-              title="Workouts"
-              value={String(stats.workoutsThisMonth)}
-              subtitle="This month"
+              title={t('profile.workouts')}
+              value={formatNumber(stats.workoutsThisMonth)}
+              subtitle={t('profile.thisMonth')}
               icon="fitness-outline"
               isDark={isDark}
             />
             <StatCard
-              title="Minutes"
-              value={stats.totalMinutes.toLocaleString()}
-              subtitle="Total active"
+              title={t('profile.minutes')}
+              value={formatNumber(stats.totalMinutes)}
+              subtitle={t('profile.totalActive')}
               icon="time-outline"
               isDark={isDark}
             />
             <StatCard
-              title="Calories"
-              value={stats.totalCalories.toLocaleString()}
-              subtitle="Burned"
+              title={t('common.calories')}
+              value={formatNumber(stats.totalCalories)}
+              subtitle={t('profile.burned')}
               icon="flame-outline"
               isDark={isDark}
             />
             <StatCard
-              title="Streak"
-              value={String(stats.streakDays)}
-              subtitle="Days"
+              title={t('profile.streak')}
+              value={formatNumber(stats.streakDays)}
+              subtitle={t('profile.days')}
               icon="calendar-outline"
               isDark={isDark}
             />
@@ -0,0 +1,646 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  SafeAreaView,
+  StatusBar,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import {
+  Program,
+  ProgramLevel,
+  Step,
+  calculateStepTotals,
+  formatDuration,
+  validateProgram
+} from '../types/program';
+import { EXERCISE_CATALOG } from '../data/exerciseCatalog';
+import { BackButton } from '../components/BackButton';
+import { useTheme } from '../state/ThemeContext';
+import {
+  MIN_STEP_DURATION_SEC,
+  assembleProgram,
+  createEmptyDraft,
+  createExerciseStep,
+  createRestStep,
+  draftFromProgram,
+  duplicateStep,
+  moveStep,
+  removeStep,
+  updateStep
+} from '../utils/programBuilder';
+import { useTranslation } from '../hooks/useTranslation';
+import { MessageKey } from '../i18n/translate';
+import { localizeExercise } from '../i18n/content';
+
+interface ProgramBuilderScreenProps {
+  program?: Program; // Edit an existing custom program when provided
+  onSave: (program: Program) => void;
+  onBack: () => void;
+}
+
+const LEVELS: ProgramLevel[] = ['Beginner', 'Intermediate', 'Advanced'];
+const PHASE_TOGGLES: { key: 'autoWarmup' | 'autoCooldown'; label: MessageKey }[] = [
+  { key: 'autoWarmup', label: 'common.warmup' },
+  { key: 'autoCooldown', label: 'common.cooldown' }
+];
+const DURATION_STEP_SEC = 5;
+
+export const ProgramBuilderScreen: React.FC<ProgramBuilderScreenProps> = ({
+  program,
+  onSave,
+  onBack
+}) => {
+  const { theme } = useTheme();
+  const { language, t } = useTranslation();
+  const isDark = theme.mode === 'dark';
+  const [draft, setDraft] = useState(() => (program ? draftFromProgram(program) : createEmptyDraft()));
+  const [showPicker, setShowPicker] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Live totals as steps change
+  const totals = useMemo(() => calculateStepTotals(draft.steps), [draft.steps]);
+  const canSave = draft.title.trim().length > 0 && draft.steps.length > 0;
+
+  const setSteps = (update: (steps: Step[]) => Step[]) => {
+    setDraft(prev => ({ ...prev, steps: update(prev.steps) }));
+    setErrors([]);
+  };
+
+  const handleSave = () => {
+    const built = assembleProgram(draft);
+    const validation = validateProgram(built);
+    if (!validation.isValid) {
+      setErrors(validation.errors);
+      return;
+    }
+    onSave(built);
+  };
+
+  const renderStep = (step: Step, index: number) => {
+    const isExercise = step.type === 'exercise';
+    const isReps = isExercise && step.mode === 'reps';
+    const isStopwatch = isExercise && step.mode === 'stopwatch';
+
+    return (
+      <View
+        key={step.id}
+        style={[
+          styles.stepCard,
+          { backgroundColor: isExercise ? theme.colors.card : theme.colors.backgroundTertiary }
+        ]}
+      >
+        <View style={styles.stepHeader}>
+          <Text style={[styles.stepIndex, { color: theme.colors.textTertiary }]}>{index + 1}</Text>
+          <TextInput
+            style={[styles.stepTitleInput, { color: theme.colors.text }]}
+            value={step.title}
+            onChangeText={title => setSteps(steps => updateStep(steps, index, { title }))}
+            placeholder={isExercise ? t('programBuilder.exercisePlaceholder') : t('common.rest')}
+            placeholderTextColor={theme.colors.textTertiary}
+          />
+        </View>
+
+        <View style={styles.stepRow}>
+          <Text style={[styles.stepLabel, { color: theme.colors.textSecondary }]}>
+            {isReps
+              ? t('programBuilder.timeCap')
+              : isStopwatch ? t('programBuilder.estimate') : t('programBuilder.duration')}
+          </Text>
+          <Stepper
+            value={`${step.durationSec}s`}
+            onDecrement={() => setSteps(steps => updateStep(steps, index, {
+              durationSec: Math.max(MIN_STEP_DURATION_SEC, step.durationSec - DURATION_STEP_SEC)
+            }))}
+            onIncrement={() => setSteps(steps => updateStep(steps, index, {
+              durationSec: step.durationSec + DURATION_STEP_SEC
+            }))}
+          />
+        </View>
+
+        {isExercise && (
+          <>
+            <View style={styles.stepRow}>
+              <Text style={[styles.stepLabel, { color: theme.colors.textSecondary }]}>{t('programBuilder.reps')}</Text>
+              <Stepper
+                value={step.targetReps ? String(step.targetReps) : '—'}
+                onDecrement={() => setSteps(steps => updateStep(steps, index, {
+                  targetReps: step.targetReps && step.targetReps > 1 ? step.targetReps - 1 : undefined
+                }))}
+                onIncrement={() => setSteps(steps => updateStep(steps, index, {
+                  targetReps: (step.targetReps ?? 0) + 1
+                }))}
+              />
+            </View>
+            {isStopwatch && (
+              <View style={styles.stepRow}>
+                <Text style={[styles.stepLabel, { color: theme.colors.textSecondary }]}>{t('programBuilder.targetTime')}</Text>
+                <Stepper
+                  value={step.targetSec ? `${step.targetSec}s` : '—'}
+                  onDecrement={() => setSteps(steps => updateStep(steps, index, {
+                    targetSec: step.targetSec && step.targetSec > DURATION_STEP_SEC ? step.targetSec - DURATION_STEP_SEC : undefined
+                  }))}
+                  onIncrement={() => setSteps(steps => updateStep(steps, index, {
+                    targetSec: (step.targetSec ?? 0) + DURATION_STEP_SEC
+                  }))}
+                />
+              </View>
+            )}
+            <View style={styles.stepRow}>
+              <Text style={[styles.stepLabel, { color: theme.colors.textSecondary }]}>{t('programBuilder.finish')}</Text>
+              <View style={styles.chipRow}>
+                {(['timed', 'reps', 'stopwatch'] as const).map(mode => {
+                  const selected = (step.mode ?? 'timed') === mode;
+                  return (
+                    <Pressable
+                      key={mode}
+                      style={[styles.chip, { borderColor: theme.colors.border }, selected && { backgroundColor: theme.colors.primary }]}
+                      onPress={() => setSteps(steps => updateStep(steps, index, {
+                        mode,
+                        targetReps: mode === 'reps' ? step.targetReps ?? 10 : step.targetReps
+                      }))}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? theme.colors.primaryText : theme.colors.text }]}>
+                        {mode === 'timed'
+                          ? t('programBuilder.whenTimeIsUp')
+                          : mode === 'reps' ? t('programBuilder.onDone') : t('programBuilder.whenStopped')}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+            <View style={styles.stepRow}>
+              <Text style={[styles.stepLabel, { color: theme.colors.textSecondary }]}>{t('programBuilder.sides')}</Text>
+              <View style={styles.chipRow}>
+                {[false, true].map(perSide => {
+                  const selected = !!step.perSide === perSide;
+                  return (
+                    <Pressable
+                      key={String(perSide)}
+                      style={[styles.chip, { borderColor: theme.colors.border }, selected && { backgroundColor: theme.colors.primary }]}
+                      onPress={() => setSteps(steps => updateStep(steps, index, { perSide: perSide || undefined }))}
+                    >
+                      <Text style={[styles.chipText, { color: selected ? theme.colors.primaryText : theme.colors.text }]}>
+                        {perSide ? t('programBuilder.leftRight') : t('programBuilder.bothAtOnce')}
+                      </Text>
+                    </Pressable>
+                  );
+                })}
+              </View>
+            </View>
+          </>
+        )}
+
+        <TextInput
+          style={[styles.tipInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+          value={(isExercise ? step.description : step.tip) ?? ''}
+          onChangeText={text => setSteps(steps => updateStep(
+            steps,
+            index,
+            isExercise ? { description: text || undefined } : { tip: text || undefined }
+          ))}
+          placeholder={t('programBuilder.tipPlaceholder')}
+          placeholderTextColor={theme.colors.textTertiary}
+        />
+
+        <View style={styles.stepActions}>
+          <StepAction label="↑" disabled={index === 0} onPress={() => setSteps(steps => moveStep(steps, index, -1))} />
+          <StepAction label="↓" disabled={index === draft.steps.length - 1} onPress={() => setSteps(steps => moveStep(steps, index, 1))} />
+          <StepAction label={t('programBuilder.duplicate')} onPress={() => setSteps(steps => duplicateStep(steps, index))} />
+          <StepAction label={t('common.delete')} destructive onPress={() => setSteps(steps => removeStep(steps, index))} />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <StatusBar barStyle={isDark ? 'light-content' : 'dark-content'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <BackButton onPress={onBack} />
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+          {program ? t('programBuilder.editTitle') : t('programBuilder.newTitle')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+          <TextInput
+            style={[styles.titleInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+            value={draft.title}
+            onChangeText={title => setDraft(prev => ({ ...prev, title }))}
+            placeholder={t('programBuilder.namePlaceholder')}
+            placeholderTextColor={theme.colors.textTertiary}
+          />
+
+          <View style={styles.chipRow}>
+            {LEVELS.map(level => {
+              const selected = draft.level === level;
+              return (
+                <Pressable
+                  key={level}
+                  style={[styles.chip, { borderColor: theme.colors.border }, selected && { backgroundColor: theme.colors.primary }]}
+                  onPress={() => setDraft(prev => ({ ...prev, level }))}
+                >
+                  <Text style={[styles.chipText, { color: selected ? theme.colors.primaryText : theme.colors.text }]}>
+                    {t(`level.${level}`)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {/* Off means the global preference decides */}
+          <View style={styles.chipRow}>
+            {PHASE_TOGGLES.map(({ key, label }) => {
+              const selected = !!draft[key];
+              return (
+                <Pressable
+                  key={key}
+                  style={[styles.chip, { borderColor: theme.colors.border }, selected && { backgroundColor: theme.colors.primary }]}
+                  onPress={() => setDraft(prev => ({ ...prev, [key]: selected ? undefined : true }))}
+                >
+                  <Text style={[styles.chipText, { color: selected ? theme.colors.primaryText : theme.colors.text }]}>
+                    {t(label)}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          {/* Live totals */}
+          <View style={[styles.totals, { backgroundColor: theme.colors.surface }]}>
+            <View style={styles.totalItem}>
+              <Text style={[styles.totalValue, { color: theme.colors.text }]}>{formatDuration(totals.totalActiveSec)}</Text>
+              <Text style={[styles.totalLabel, { color: theme.colors.textSecondary }]}>{t('common.active')}</Text>
+            </View>
+            <View style={styles.totalItem}>
+              <Text style={[styles.totalValue, { color: theme.colors.text }]}>{formatDuration(totals.totalRestSec)}</Text>
+              <Text style={[styles.totalLabel, { color: theme.colors.textSecondary }]}>{t('common.rest')}</Text>
+            </View>
+            <View style={styles.totalItem}>
+              <Text style={[styles.totalValue, { color: theme.colors.text }]}>{totals.stepsCount}</Text>
+              <Text style={[styles.totalLabel, { color: theme.colors.textSecondary }]}>{t('common.steps')}</Text>
+            </View>
+          </View>
+
+          {draft.steps.map(renderStep)}
+
+          {showPicker && (
+            <View style={[styles.picker, { backgroundColor: theme.colors.surface }]}>
+              {EXERCISE_CATALOG.map(exercise => (
+                <Pressable
+                  key={exercise.id}
+                  style={[styles.pickerItem, { borderBottomColor: theme.colors.border }]}
+                  onPress={() => {
+                    setSteps(steps => [...steps, createExerciseStep(exercise)]);
+                    setShowPicker(false);
+                  }}
+                >
+                  <Text style={[styles.pickerTitle, { color: theme.colors.text }]}>
+                    {localizeExercise(language, exercise).title}
+                  </Text>
+                  <Text style={[styles.pickerTags, { color: theme.colors.textTertiary }]}>
+                    {[exercise.category, ...exercise.primaryMuscles].join(', ').replace(/_/g, ' ')}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.addRow}>
+            <Pressable
+              style={[styles.addButton, { borderColor: theme.colors.primary }]}
+              onPress={() => setShowPicker(prev => !prev)}
+            >
+              <Text style={[styles.addButtonText, { color: theme.colors.primary }]}>
+                {showPicker ? t('common.cancel') : t('programBuilder.addExercise')}
+              </Text>
+            </Pressable>
+            <Pressable
+              style={[styles.addButton, { borderColor: theme.colors.primary }]}
+              onPress={() => setSteps(steps => [...steps, createRestStep()])}
+            >
+              <Text style={[styles.addButtonText, { color: theme.colors.primary }]}>{t('programBuilder.addRest')}</Text>
+            </Pressable>
+          </View>
+
+          {errors.length > 0 && (
+            <View style={[styles.errorContainer, isDark && styles.errorContainerDark]}>
+              <Text style={[styles.errorTitle, isDark && styles.errorTextDark]}>
+                Program Issues:
+              </Text>
+              {errors.map((error, index) => (
+                <Text key={index} style={[styles.errorText, isDark && styles.errorTextDark]}>
+                  • {error}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.bottomPadding} />
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* Fixed Save Button */}
+      <View style={[styles.saveButtonContainer, { borderTopColor: theme.colors.border }]}>
+        <Pressable
+          style={[
+            styles.saveButton,
+            canSave ? { backgroundColor: theme.colors.primary } : styles.saveButtonDisabled
+          ]}
+          onPress={handleSave}
+          disabled={!canSave}
+        >
+          <Text style={[
+            styles.saveButtonText,
+            canSave ? { color: theme.colors.primaryText } : styles.saveButtonTextDisabled
+          ]}>
+            {t('programBuilder.save')}
+          </Text>
+        </Pressable>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const Stepper: React.FC<{ value: string; onDecrement: () => void; onIncrement: () => void }> = ({
+  value,
+  onDecrement,
+  onIncrement
+}) => {
+  const { theme } = useTheme();
+  return (
+    <View style={styles.stepper}>
+      <Pressable style={[styles.stepperButton, { borderColor: theme.colors.border }]} onPress={onDecrement}>
+        <Text style={[styles.stepperButtonText, { color: theme.colors.text }]}>−</Text>
+      </Pressable>
+      <Text style={[styles.stepperValue, { color: theme.colors.text }]}>{value}</Text>
+      <Pressable style={[styles.stepperButton, { borderColor: theme.colors.border }]} onPress={onIncrement}>
+        <Text style={[styles.stepperButtonText, { color: theme.colors.text }]}>+</Text>
+      </Pressable>
+    </View>
+  );
+};
+
+const StepAction: React.FC<{ label: string; onPress: () => void; disabled?: boolean; destructive?: boolean }> = ({
+  label,
+  onPress,
+  disabled,
+  destructive
+}) => {
+  const { theme } = useTheme();
+  return (
+    <Pressable onPress={onPress} disabled={disabled} style={styles.stepAction}>
+      <Text style={[
+        styles.stepActionText,
+        { color: theme.colors.primary },
+        destructive && styles.stepActionTextDestructive,
+        disabled && styles.stepActionTextDisabled
+      ]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF'
+  },
+  flex: {
+    flex: 1
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'center'
+  },
+  headerSpacer: {
+    width: 32
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 20
+  },
+  titleInput: {
+    fontSize: 22,
+    fontWeight: '700',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    paddingVertical: 8,
+    marginBottom: 16
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500'
+  },
+  totals: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    paddingVertical: 12,
+    marginVertical: 16
+  },
+  totalItem: {
+    flex: 1,
+    alignItems: 'center'
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 4
+  },
+  totalLabel: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    fontWeight: '500'
+  },
+  stepCard: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8
+  },
+  stepIndex: {
+    width: 24,
+    fontSize: 14,
+    fontWeight: '600'
+  },
+  stepTitleInput: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    paddingVertical: 4
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8
+  },
+  stepLabel: {
+    fontSize: 14
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center'
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center'
+  },
+  stepperButtonText: {
+    fontSize: 18,
+    fontWeight: '600'
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600'
+  },
+  tipInput: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    marginBottom: 8
+  },
+  stepActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end'
+  },
+  stepAction: {
+    paddingHorizontal: 10,
+    paddingVertical: 4
+  },
+  stepActionText: {
+    fontSize: 14,
+    fontWeight: '600'
+  },
+  stepActionTextDestructive: {
+    color: '#FF3B30'
+  },
+  stepActionTextDisabled: {
+    opacity: 0.3
+  },
+  picker: {
+    borderRadius: 12,
+    marginBottom: 12
+  },
+  pickerItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth
+  },
+  pickerTitle: {
+    fontSize: 16,
+    fontWeight: '500'
+  },
+  pickerTags: {
+    fontSize: 12,
+    marginTop: 2
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 12
+  },
+  addButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center'
+  },
+  addButtonText: {
+    fontSize: 16,
+    fontWeight: '600'
+  },
+  errorContainer: {
+    backgroundColor: '#F8D7DA',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16
+  },
+  errorContainerDark: {
+    backgroundColor: '#2D1B1E'
+  },
+  errorTitle: {
+    color: '#721C24',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8
+  },
+  errorText: {
+    color: '#721C24',
+    fontSize: 14,
+    lineHeight: 20
+  },
+  errorTextDark: {
+    color: '#F5C6CB'
+  },
+  bottomPadding: {
+    height: 40
+  },
+  saveButtonContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 34,
+    borderTopWidth: StyleSheet.hairlineWidth
+  },
+  saveButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center'
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#CCCCCC'
+  },
+  saveButtonText: {
+    fontSize: 18,
+    fontWeight: '600'
+  },
+  saveButtonTextDisabled: {
+    color: '#666666'
+  }
+});
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -10,8 +10,13 @@ import {
   Share
 } from 'react-native';
 import { Program, formatDuration } from '../types/program';
-import { StepResult } from '../state/trainingStateMachine';
+import { StepLog, StepResult, selectors } from '../state/trainingStateMachine';
 import { useTheme } from '../state/ThemeContext';
+import { useOnboarding } from '../state/OnboardingContext';
+import { calculateSessionCalories } from '../utils/calories';
+import { getPhaseElapsed } from '../utils/warmupCooldown';
+import { useTranslation } from '../hooks/useTranslation';
+import { SetLogPanel } from '../components/training/SetLogPanel';
 
 interface ProgramCompletionData {
   program: Program;
@@ -23,36 +28,84 @@ interface ProgramFinishScreenProps {
   completionData: ProgramCompletionData;
   onDone: () => void;
   onRepeat: () => void;
+  // Reps, load and RPE for an exercise, logged here before the session is saved
+  onLogStep?: (stepIndex: number, log: StepLog) => void;
 }
 
 export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
   completionData,
   onDone,
-  onRepeat
+  onRepeat,
+  onLogStep
 }) => {
   const { theme } = useTheme();
+  const { profile } = useOnboarding();
+  const { t, formatNumber } = useTranslation();
   const isDark = theme.mode === 'dark';
   const { program, stepResults, totalElapsedMs } = completionData;
+  const [loggingIndex, setLoggingIndex] = useState<number | null>(null);
+  
+  // Calculate statistics; active and rest time cover the main block only
+  const isMainResult = (result: StepResult) => !program.steps[result.stepIndex]?.phase;
   
-  // Calculate statistics
   const totalActiveTime = stepResults
-    .filter(result => result.type === 'exercise')
+    .filter(result => result.type === 'exercise' && isMainResult(result))
     .reduce((sum, result) => sum + result.actualElapsedSec, 0);
   
   const totalRestTime = stepResults
-    .filter(result => result.type === 'rest')
+    .filter(result => result.type === 'rest' && isMainResult(result))
     .reduce((sum, result) => sum + result.actualElapsedSec, 0);
   
+  const phaseElapsed = getPhaseElapsed(program, stepResults);
+  
+  // Countdowns before steps, kept out of active and rest time
+  const totalTransitionTime = stepResults
+    .reduce((sum, result) => sum + (result.transitionSec ?? 0), 0);
+  
   const skippedSteps = stepResults.filter(result => result.wasSkipped).length;
   const extendedSteps = stepResults.filter(result => result.wasExtended).length;
   
+  // Time added to extended steps; time taken off other steps doesn't offset it
   const totalExtensionTime = stepResults
-    .reduce((sum, result) => sum + result.extensionSec, 0);
+    .reduce((sum, result) => sum + Math.max(0, result.extensionSec), 0);
   
   const averageStepTime = stepResults.length > 0 
     ? stepResults.reduce((sum, result) => sum + result.actualElapsedSec, 0) / stepResults.length
     : 0;
   
+  const totalVolumeKg = selectors.getTotalVolumeKg(stepResults);
+  const burnedCalories = calculateSessionCalories({ program, stepResults, totalElapsedMs }, profile.weightKg);
+  
+  const formatStepLog = (result: StepResult): string | null => {
+    const parts: string[] = [];
+    if (result.substitution) {
+      parts.push(t('programFinish.swappedFor', {
+        to: result.substitution.toTitle,
+        from: result.substitution.fromTitle
+      }));
+    }
+    if (result.actualReps !== undefined) {
+      const reps = t('common.reps', { count: result.actualReps });
+      parts.push(result.loadKg ? `${reps} × ${t('common.kg', { value: result.loadKg })}` : reps);
+    } else if (result.loadKg) {
+      parts.push(t('common.kg', { value: result.loadKg }));
+    }
+    if (result.sides) {
+      parts.push(result.sides
+        .map(side => `${side.side === 'left' ? t('programFinish.left') : t('programFinish.right')} ${side.actualReps !== undefined
+          ? t('common.reps', { count: side.actualReps })
+          : formatDuration(side.elapsedSec)}`)
+        .join(' / '));
+    }
+    if (result.roundsCompleted !== undefined) {
+      parts.push(t('common.rounds', { count: result.roundsCompleted }));
+    }
+    if (result.rpe !== undefined) {
+      parts.push(`${t('setLog.rpe')} ${result.rpe}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : null;
+  };
+  
   const completionRate = stepResults.length > 0 
     ? ((stepResults.length - skippedSteps) / stepResults.length) * 100
     : 0;
@@ -60,16 +113,17 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
   // Share functionality
   const handleShare = async () => {
     try {
-      const message = `Just completed "${program.title}"! 💪\n\n` +
-        `⏱️ Total Time: ${formatDuration(Math.round(totalElapsedMs / 1000))}\n` +
-        `🔥 Active Time: ${formatDuration(totalActiveTime)}\n` +
-        `📊 Completion: ${completionRate.toFixed(0)}%\n` +
-        `🎯 Steps: ${stepResults.length}\n\n` +
-        `#FitnessTrainerPro #Workout #Fitness`;
+      const message = t('programFinish.shareMessage', {
+        title: program.title,
+        total: formatDuration(Math.round(totalElapsedMs / 1000)),
+        active: formatDuration(totalActiveTime),
+        completion: completionRate.toFixed(0),
+        steps: stepResults.length
+      });
       
       await Share.share({
         message,
-        title: 'Workout Complete!'
+        title: t('programFinish.title')
       });
     } catch (error) {
       console.error('Error sharing workout results:', error);
@@ -78,13 +132,13 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
   
   const getPerformanceMessage = () => {
     if (completionRate === 100) {
-      return "Outstanding! You completed every step! 🏆";
+      return t('programFinish.perfect');
     } else if (completionRate >= 80) {
-      return "Great job! You pushed through most of the workout! 💪";
+      return t('programFinish.great');
     } else if (completionRate >= 60) {
-      return "Good effort! Keep building that consistency! 👍";
+      return t('programFinish.good');
     } else {
-      return "Every step counts! Keep going! 🌟";
+      return t('programFinish.keepGoing');
     }
   };
   
@@ -104,7 +158,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
         <View style={styles.header}>
           <Text style={styles.completionIcon}>🎉</Text>
           <Text style={[styles.title, { color: theme.colors.text }]}>
-            Workout Complete!
+            {t('programFinish.title')}
           </Text>
           <Text style={[styles.programTitle, { color: theme.colors.primary }]}>
             {program.title}
@@ -122,7 +176,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
               {formatDuration(Math.round(totalElapsedMs / 1000))}
             </Text>
             <Text style={[styles.mainStatLabel, { color: theme.colors.textSecondary }]}>
-              Total Time
+              {t('programFinish.totalTime')}
             </Text>
           </View>
           
@@ -136,7 +190,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
               {completionRate.toFixed(0)}%
             </Text>
             <Text style={[styles.mainStatLabel, { color: theme.colors.textSecondary }]}>
-              Completion
+              {t('programFinish.completion')}
             </Text>
           </View>
           
@@ -147,7 +201,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
               {stepResults.length}
             </Text>
             <Text style={[styles.mainStatLabel, { color: theme.colors.textSecondary }]}>
-              Steps
+              {t('common.steps')}
             </Text>
           </View>
         </View>
@@ -155,7 +209,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
         {/* Detailed Stats */}
         <View style={styles.detailedStatsSection}>
           <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            Workout Breakdown
+            {t('programFinish.breakdown')}
           </Text>
           
           <View style={[styles.statsGrid, { backgroundColor: theme.colors.surface }]}>
@@ -165,7 +219,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
                   {formatDuration(totalActiveTime)}
                 </Text>
                 <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                  Active Time
+                  {t('programFinish.activeTime')}
                 </Text>
               </View>
               <View style={styles.statItem}>
@@ -173,7 +227,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
                   {formatDuration(totalRestTime)}
                 </Text>
                 <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                  Rest Time
+                  {t('programFinish.restTime')}
                 </Text>
               </View>
             </View>
@@ -184,19 +238,70 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
                   {formatDuration(Math.round(averageStepTime))}
                 </Text>
                 <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                  Avg Step Time
+                  {t('programFinish.avgStepTime')}
                 </Text>
               </View>
               <View style={styles.statItem}>
                 <Text style={[styles.statValue, { color: theme.colors.text }]}>
-                  {program.estimatedCalories || '~'}
+                  {formatNumber(burnedCalories)}
                 </Text>
                 <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                  Est. Calories
+                  {t('programFinish.estCalories')}
                 </Text>
               </View>
             </View>
             
+            {(phaseElapsed.warmupSec > 0 || phaseElapsed.cooldownSec > 0) && (
+              <View style={styles.statRow}>
+                {phaseElapsed.warmupSec > 0 && (
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                      {formatDuration(phaseElapsed.warmupSec)}
+                    </Text>
+                    <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                      {t('common.warmup')}
+                    </Text>
+                  </View>
+                )}
+                {phaseElapsed.cooldownSec > 0 && (
+                  <View style={styles.statItem}>
+                    <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                      {formatDuration(phaseElapsed.cooldownSec)}
+                    </Text>
+                    <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                      {t('common.cooldown')}
+                    </Text>
+                  </View>
+                )}
+              </View>
+            )}
+            
+            {totalTransitionTime > 0 && (
+              <View style={styles.statRow}>
+                <View style={styles.statItem}>
+                  <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                    {formatDuration(totalTransitionTime)}
+                  </Text>
+                  <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                    {t('programFinish.transitionTime')}
+                  </Text>
+                </View>
+              </View>
+            )}
+            
+            {totalVolumeKg > 0 && (
+              <View style={styles.statRow}>
+                <View style={styles.statItem}>
+                  <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                    {t('common.kg', { value: formatNumber(Math.round(totalVolumeKg)) })}
+                  </Text>
+                  <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                    {t('programFinish.volume')}
+                  </Text>
+                </View>
+              </View>
+            )}
+            
             {(skippedSteps > 0 || extendedSteps > 0) && (
               <View style={styles.statRow}>
                 {skippedSteps > 0 && (
@@ -205,7 +310,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
                       {skippedSteps}
                     </Text>
                     <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                      Skipped
+                      {t('programFinish.skipped')}
                     </Text>
                   </View>
                 )}
@@ -215,7 +320,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
                       +{formatDuration(totalExtensionTime)}
                     </Text>
                     <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                      Extended
+                      {t('programFinish.extended')}
                     </Text>
                   </View>
                 )}
@@ -227,7 +332,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
         {/* Step-by-Step Results */}
         <View style={styles.stepResultsSection}>
           <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            Step Results
+            {t('programFinish.stepResults')}
           </Text>
           
           {stepResults.map((result, index) => (
@@ -241,7 +346,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
                 </Text>
                 <View style={styles.stepResultInfo}>
                   <Text style={[styles.stepResultTitle, { color: theme.colors.text }]}>
-                    Step {result.stepIndex + 1}
+                    {t('programFinish.step', { number: result.stepIndex + 1 })}
                   </Text>
                   <View style={styles.stepResultMeta}>
                     <Text style={[styles.stepResultTime, { color: theme.colors.primary }]}>
@@ -251,11 +356,16 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
                       / {formatDuration(result.plannedDurationSec)}
                     </Text>
                   </View>
+                  {formatStepLog(result) && (
+                    <Text style={[styles.stepResultLog, { color: theme.colors.textSecondary }]}>
+                      {formatStepLog(result)}
+                    </Text>
+                  )}
                 </View>
                 <View style={styles.stepResultBadges}>
                   {result.wasSkipped && (
                     <View style={styles.skippedBadge}>
-                      <Text style={styles.skippedBadgeText}>Skipped</Text>
+                      <Text style={styles.skippedBadgeText}>{t('programFinish.skipped')}</Text>
                     </View>
                   )}
                   {result.wasExtended && (
@@ -265,6 +375,25 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
                   )}
                 </View>
               </View>
+              {onLogStep && result.type === 'exercise' && (
+                <Pressable
+                  accessibilityRole="button"
+                  style={styles.logToggle}
+                  onPress={() => setLoggingIndex(loggingIndex === index ? null : index)}
+                >
+                  <Text style={[styles.logToggleText, { color: theme.colors.primary }]}>
+                    {loggingIndex === index ? t('programFinish.hideLog') : t('programFinish.logSet')}
+                  </Text>
+                </Pressable>
+              )}
+              {onLogStep && loggingIndex === index && (
+                <SetLogPanel
+                  result={result}
+                  stepTitle={program.steps[result.stepIndex]?.title ?? t('training.exercise')}
+                  isDark={isDark}
+                  onChange={log => onLogStep(result.stepIndex, log)}
+                />
+              )}
             </View>
           ))}
         </View>
@@ -280,7 +409,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
             onPress={handleShare}
           >
             <Text style={[styles.secondaryButtonText, { color: theme.colors.primary }]}>
-              Share
+              {t('common.share')}
             </Text>
           </Pressable>
           
@@ -289,7 +418,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
             onPress={onRepeat}
           >
             <Text style={[styles.secondaryButtonText, { color: theme.colors.primary }]}>
-              Repeat
+              {t('common.repeat')}
             </Text>
           </Pressable>
         </View>
@@ -299,7 +428,7 @@ export const ProgramFinishScreen: React.FC<ProgramFinishScreenProps> = ({
           onPress={onDone}
         >
           <Text style={[styles.primaryButtonText, { color: theme.colors.primaryText }]}>
-            Done
+            {t('common.done')}
           </Text>
         </Pressable>
       </View>
@@ -447,6 +576,21 @@ const styles = StyleSheet.create({
     color: '#666666',
     marginLeft: 4
   },
+  stepResultLog: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2
+  },
+  logToggle: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+    marginBottom: 12,
+    marginLeft: 40
+  },
+  logToggleText: {
+    fontSize: 14,
+    fontWeight: '600'
+  },
   stepResultBadges: {
     flexDirection: 'row',
     gap: 8
@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  SafeAreaView,
+  StatusBar,
+  KeyboardAvoidingView,
+  Platform
+} from 'react-native';
+import { Program } from '../types/program';
+import { BackButton } from '../components/BackButton';
+import { useTheme } from '../state/ThemeContext';
+import {
+  ProgramJSONError,
+  importProgramFromJSON,
+  formatProgramJSONError
+} from '../utils/programJson';
+import { pickProgramFile } from '../utils/programFile';
+import { useTranslation } from '../hooks/useTranslation';
+
+interface ProgramImportScreenProps {
+  onImported: (program: Program) => void;
+  onBack: () => void;
+}
+
+export const ProgramImportScreen: React.FC<ProgramImportScreenProps> = ({
+  onImported,
+  onBack
+}) => {
+  const { theme } = useTheme();
+  const { t } = useTranslation();
+  const isDark = theme.mode === 'dark';
+  const [jsonText, setJsonText] = useState('');
+  const [errors, setErrors] = useState<ProgramJSONError[]>([]);
+
+  const canImport = jsonText.trim().length > 0;
+
+  const importText = (text: string) => {
+    const result = importProgramFromJSON(text);
+    setErrors(result.errors);
+    if (result.program) {
+      onImported(result.program);
+    }
+  };
+
+  const handleImport = () => importText(jsonText);
+
+  // A picked file goes through the same checks as pasted text, and is left in the
+  // input so any problems can be fixed there
+  const handlePickFile = async () => {
+    try {
+      const text = await pickProgramFile();
+      if (text === null) return;
+      setJsonText(text);
+      importText(text);
+    } catch {
+      setErrors([{ path: '', message: t('programImport.fileError') }]);
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <StatusBar barStyle={isDark ? 'light-content' : 'dark-content'} />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <BackButton onPress={onBack} />
+        <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
+          {t('programImport.title')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+            {t('programImport.subtitle')}
+          </Text>
+
+          <Pressable
+            style={[styles.fileButton, { backgroundColor: theme.colors.surface }]}
+            onPress={handlePickFile}
+          >
+            <Text style={[styles.fileButtonText, { color: theme.colors.primary }]}>
+              {t('programImport.chooseFile')}
+            </Text>
+          </Pressable>
+
+          <TextInput
+            style={[
+              styles.input,
+              { backgroundColor: theme.colors.surface, color: theme.colors.text, borderColor: theme.colors.border }
+            ]}
+            value={jsonText}
+            onChangeText={text => {
+              setJsonText(text);
+              setErrors([]);
+            }}
+            placeholder='{ "id": "my_program", "title": "...", "steps": [...] }'
+            placeholderTextColor={theme.colors.textTertiary}
+            multiline
+            autoCapitalize="none"
+            autoCorrect={false}
+            spellCheck={false}
+            textAlignVertical="top"
+          />
+
+          {errors.length > 0 && (
+            <View style={[styles.errorContainer, isDark && styles.errorContainerDark]}>
+              <Text style={[styles.errorTitle, isDark && styles.errorTextDark]}>
+                {t('common.programIssues')}
+              </Text>
+              {errors.map((error, index) => (
+                <Text key={index} style={[styles.errorText, isDark && styles.errorTextDark]}>
+                  • {formatProgramJSONError(error)}
+                </Text>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+
+      {/* Fixed Import Button */}
+      <View style={[styles.importButtonContainer, { borderTopColor: theme.colors.border }]}>
+        <Pressable
+          style={[
+            styles.importButton,
+            canImport ? { backgroundColor: theme.colors.primary } : styles.importButtonDisabled
+          ]}
+          onPress={handleImport}
+          disabled={!canImport}
+        >
+          <Text style={[
+            styles.importButtonText,
+            canImport ? { color: theme.colors.primaryText } : styles.importButtonTextDisabled
+          ]}>
+            {t('programImport.submit')}
+          </Text>
+        </Pressable>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF'
+  },
+  flex: {
+    flex: 1
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'center'
+  },
+  headerSpacer: {
+    width: 32
+  },
+  scrollView: {
+    flex: 1,
+    paddingHorizontal: 20
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#666666',
+    lineHeight: 20,
+    marginBottom: 16
+  },
+  fileButton: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginBottom: 16
+  },
+  fileButtonText: {
+    fontSize: 16,
+    fontWeight: '600'
+  },
+  input: {
+    minHeight: 260,
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 13,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace'
+  },
+  errorContainer: {
+    backgroundColor: '#F8D7DA',
+    borderRadius: 12,
+    padding: 16,
+    marginTop: 16,
+    marginBottom: 24
+  },
+  errorContainerDark: {
+    backgroundColor: '#2D1B1E'
+  },
+  errorTitle: {
+    color: '#721C24',
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8
+  },
+  errorText: {
+    color: '#721C24',
+    fontSize: 14,
+    lineHeight: 20
+  },
+  errorTextDark: {
+    color: '#F5C6CB'
+  },
+  importButtonContainer: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 34,
+    borderTopWidth: StyleSheet.hairlineWidth
+  },
+  importButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center'
+  },
+  importButtonDisabled: {
+    backgroundColor: '#CCCCCC'
+  },
+  importButtonText: {
+    fontSize: 18,
+    fontWeight: '600'
+  },
+  importButtonTextDisabled: {
+    color: '#666666'
+  }
+});
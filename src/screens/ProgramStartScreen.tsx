@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -8,15 +8,38 @@ import {
   SafeAreaView,
   StatusBar,
   Switch,
-  Alert
+  Alert,
+  Share
 } from 'react-native';
-import { Program, validateProgram, formatDuration, getTotalDuration } from '../types/program';
+import { Program, StepPhase, formatDuration, isRepBasedStep } from '../types/program';
 import { BackButton } from '../components/BackButton';
 import { useTheme } from '../state/ThemeContext';
+import { useOnboarding } from '../state/OnboardingContext';
+import { usePreferences } from '../state/PreferencesContext';
+import { exportProgramToJSON } from '../utils/programJson';
+import { estimateProgramCalories } from '../utils/calories';
+import { ProgramIssue, ProgramIssueCode, analyzeProgram } from '../utils/programAnalyzer';
+import {
+  applyWarmupCooldown,
+  getPhaseDurations,
+  resolveWarmupCooldownOptions
+} from '../utils/warmupCooldown';
+import { useTranslation } from '../hooks/useTranslation';
+import { localizeProgram } from '../i18n/content';
+import { MessageKey } from '../i18n/translate';
+
+// validateProgram errors have no key and keep their English message
+const ISSUE_MESSAGES: Record<Exclude<ProgramIssueCode, 'invalid-program'>, MessageKey> = {
+  'duplicate-step-id': 'programStart.issues.duplicateStepId',
+  'consecutive-rests': 'programStart.issues.consecutiveRests',
+  'long-work-without-rest': 'programStart.issues.longWork',
+  'same-muscle-back-to-back': 'programStart.issues.sameMuscle'
+};
 
 interface ProgramStartScreenProps {
   program: Program;
-  onStart: (soundsEnabled: boolean, vibrationsEnabled: boolean) => void;
+  // Receives the program with any generated warm-up and cool-down
+  onStart: (soundsEnabled: boolean, vibrationsEnabled: boolean, program: Program) => void;
   onBack: () => void;
 }
 
@@ -26,25 +49,55 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
   onBack
 }) => {
   const { theme } = useTheme();
+  const { profile } = useOnboarding();
+  const { prefs } = usePreferences();
+  const { language, t, formatNumber } = useTranslation();
   const isDark = theme.mode === 'dark';
   const [soundsEnabled, setSoundsEnabled] = useState(true);
   const [vibrationsEnabled, setVibrationsEnabled] = useState(true);
+  const [phaseOptions, setPhaseOptions] = useState(() => resolveWarmupCooldownOptions(program, prefs));
   
-  // Validate program
-  const validation = validateProgram(program);
-  const canStart = validation.isValid;
+  // The program as it will be played, with the generated warm-up and cool-down
+  const sessionProgram = useMemo(
+    () => localizeProgram(language, applyWarmupCooldown(program, phaseOptions)),
+    [program, phaseOptions, language]
+  );
+  const phaseDurations = getPhaseDurations(sessionProgram.steps);
+  const estimatedCalories = estimateProgramCalories(sessionProgram.steps, profile.weightKg);
+  
+  // Validate program; warnings are advice and don't block the start
+  const analysis = useMemo(() => analyzeProgram(sessionProgram), [sessionProgram]);
+  const describeIssue = (issue: ProgramIssue): string => {
+    if (issue.code === 'invalid-program') return issue.message;
+    const muscles = (issue.muscles ?? []).map(muscle => t(`muscle.${muscle}`)).join(t('programStart.issues.and'));
+    return t(ISSUE_MESSAGES[issue.code], { ...issue.params, muscles });
+  };
+  const errors = analysis.issues.filter(issue => issue.severity === 'error').map(describeIssue);
+  const warnings = analysis.issues.filter(issue => issue.severity === 'warning').map(describeIssue);
+  const canStart = !analysis.hasErrors;
   
   const handleStart = () => {
     if (!canStart) {
       Alert.alert(
-        'Invalid Program',
-        validation.errors.join('\n'),
-        [{ text: 'OK' }]
+        t('programStart.invalidTitle'),
+        errors.join('\n'),
+        [{ text: t('common.ok') }]
       );
       return;
     }
     
-    onStart(soundsEnabled, vibrationsEnabled);
+    onStart(soundsEnabled, vibrationsEnabled, sessionProgram);
+  };
+  
+  const handleExport = async () => {
+    try {
+      await Share.share({
+        message: exportProgramToJSON(program),
+        title: `${program.title}.json`
+      });
+    } catch (error) {
+      console.error('Error exporting program:', error);
+    }
   };
   
   const getLevelColor = (level: string) => {
@@ -60,8 +113,20 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
     return stepType === 'exercise' ? '💪' : '⏸️';
   };
   
-  const totalDuration = getTotalDuration(program);
-  const hasLongSteps = program.steps.some(step => step.durationSec >= 7200); // 2+ hours
+  const getPhaseLabel = (phase?: StepPhase): string | null => {
+    switch (phase) {
+      case 'warmup': return t('common.warmup');
+      case 'cooldown': return t('common.cooldown');
+      default: return null;
+    }
+  };
+  
+  const addedPhaseText = [
+    phaseDurations.warmupSec > 0 && t('programStart.addedWarmup', { duration: formatDuration(phaseDurations.warmupSec) }),
+    phaseDurations.cooldownSec > 0 && t('programStart.addedCooldown', { duration: formatDuration(phaseDurations.cooldownSec) })
+  ].filter(Boolean).join(' · ');
+  
+  const hasLongSteps = sessionProgram.steps.some(step => step.durationSec >= 7200); // 2+ hours
   
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -70,27 +135,37 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
       {/* Header */}
       <View style={styles.header}>
         <BackButton onPress={onBack} />
+        <Pressable onPress={handleExport} accessibilityRole="button" accessibilityLabel={t('programStart.exportLabel')}>
+          <Text style={[styles.exportButtonText, { color: theme.colors.primary }]}>
+            {t('common.export')}
+          </Text>
+        </Pressable>
       </View>
       
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {/* Program Header */}
         <View style={styles.programHeader}>
           <Text style={[styles.programTitle, { color: theme.colors.text }]}>
-            {program.title}
+            {sessionProgram.title}
           </Text>
           
           <View style={styles.programMeta}>
             <View style={[styles.levelBadge, { backgroundColor: getLevelColor(program.level) }]}>
-              <Text style={styles.levelText}>{program.level}</Text>
+              <Text style={styles.levelText}>{t(`level.${program.level}`)}</Text>
             </View>
             <Text style={[styles.duration, { color: theme.colors.textSecondary }]}>
-              {formatDuration(totalDuration)}
+              {formatDuration(phaseDurations.mainSec)}
             </Text>
+            {addedPhaseText.length > 0 && (
+              <Text style={[styles.addedPhaseTime, { color: theme.colors.textSecondary }]}>
+                {addedPhaseText}
+              </Text>
+            )}
           </View>
           
-          {program.description && (
+          {sessionProgram.description && (
             <Text style={[styles.programDescription, { color: theme.colors.textSecondary }]}>
-              {program.description}
+              {sessionProgram.description}
             </Text>
           )}
         </View>
@@ -102,7 +177,7 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
               {program.stepsCount}
             </Text>
             <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-              Steps
+              {t('common.steps')}
             </Text>
           </View>
           <View style={styles.statItem}>
@@ -110,7 +185,7 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
               {formatDuration(program.totalActiveSec)}
             </Text>
             <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-              Active
+              {t('common.active')}
             </Text>
           </View>
           <View style={styles.statItem}>
@@ -118,16 +193,16 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
               {formatDuration(program.totalRestSec)}
             </Text>
             <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-              Rest
+              {t('common.rest')}
             </Text>
           </View>
-          {program.estimatedCalories && (
+          {estimatedCalories > 0 && (
             <View style={styles.statItem}>
               <Text style={[styles.statValue, { color: theme.colors.text }]}>
-                {program.estimatedCalories}
+                {formatNumber(estimatedCalories)}
               </Text>
               <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                Cal
+                {t('programStart.cal')}
               </Text>
             </View>
           )}
@@ -151,20 +226,34 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
           <View style={[styles.warningContainer, { backgroundColor: isDark ? '#2D2A1A' : '#FFF3CD' }]}>
             <Text style={styles.warningIcon}>⚠️</Text>
             <Text style={[styles.warningText, { color: isDark ? '#FFC107' : '#856404' }]}>
-              This program contains long duration steps. Consider device battery usage.
+              {t('programStart.longSteps')}
             </Text>
           </View>
         )}
         
+        {/* Program quality warnings */}
+        {warnings.length > 0 && (
+          <View style={[styles.warningContainer, isDark && styles.warningContainerDark]}>
+            <Text style={styles.warningIcon}>💡</Text>
+            <View style={styles.errorTextContainer}>
+              {warnings.map((warning, index) => (
+                <Text key={index} style={[styles.warningText, isDark && styles.warningTextDark]}>
+                  • {warning}
+                </Text>
+              ))}
+            </View>
+          </View>
+        )}
+        
         {/* Validation Errors */}
         {!canStart && (
           <View style={[styles.errorContainer, { backgroundColor: isDark ? '#2D1B1E' : '#F8D7DA' }]}>
             <Text style={styles.errorIcon}>❌</Text>
             <View style={styles.errorTextContainer}>
               <Text style={[styles.errorTitle, { color: isDark ? '#F5C6CB' : '#721C24' }]}>
-                Program Issues:
+                {t('common.programIssues')}
               </Text>
-              {validation.errors.map((error, index) => (
+              {errors.map((error, index) => (
                 <Text key={index} style={[styles.errorText, { color: isDark ? '#F5C6CB' : '#721C24' }]}>
                   • {error}
                 </Text>
@@ -176,10 +265,10 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
         {/* Steps List */}
         <View style={styles.stepsSection}>
           <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            Workout Steps
+            {t('programStart.workoutSteps')}
           </Text>
           
-          {program.steps.map((step, index) => (
+          {sessionProgram.steps.map((step, index) => (
             <View 
               key={step.id} 
               style={[
@@ -194,8 +283,13 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
                     {step.type === 'exercise' && 'icon' in step && step.icon ? step.icon : getStepIcon(step.type)}
                   </Text>
                   <View style={styles.stepInfo}>
+                    {getPhaseLabel(step.phase) && (
+                      <Text style={[styles.stepPhase, { color: theme.colors.primary }]}>
+                        {getPhaseLabel(step.phase)}
+                      </Text>
+                    )}
                     <Text style={[styles.stepTitle, { color: theme.colors.text }]}>
-                      {step.title}
+                      {step.type === 'rest' ? t('common.rest') : step.title}
                     </Text>
                     {step.type === 'exercise' && 'description' in step && step.description && (
                       <Text style={[styles.stepDescription, { color: theme.colors.textSecondary }]}>
@@ -218,7 +312,11 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
                     { color: theme.colors.primary },
                     step.durationSec <= 0 && styles.stepDurationError
                   ]}>
-                    {formatDuration(step.durationSec)}
+                    {step.type === 'exercise' && step.mode === 'stopwatch'
+                      ? step.targetSec ? formatDuration(step.targetSec) : t('common.max')
+                      : isRepBasedStep(step)
+                        ? t('common.reps', { count: step.targetReps ?? 0 })
+                        : formatDuration(step.durationSec)}
                   </Text>
                 </View>
               </View>
@@ -229,12 +327,36 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
         {/* Settings */}
         <View style={styles.settingsSection}>
           <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-            Settings
+            {t('common.settings')}
           </Text>
           
           <View style={[styles.settingItem, { backgroundColor: theme.colors.surface }]}>
             <Text style={[styles.settingLabel, { color: theme.colors.text }]}>
-              Sound Effects
+              {t('common.warmup')}
+            </Text>
+            <Switch
+              value={phaseOptions.warmup}
+              onValueChange={warmup => setPhaseOptions(prev => ({ ...prev, warmup }))}
+              trackColor={{ false: '#767577', true: '#007AFF' }}
+              thumbColor={phaseOptions.warmup ? '#FFFFFF' : '#f4f3f4'}
+            />
+          </View>
+          
+          <View style={[styles.settingItem, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.settingLabel, { color: theme.colors.text }]}>
+              {t('common.cooldown')}
+            </Text>
+            <Switch
+              value={phaseOptions.cooldown}
+              onValueChange={cooldown => setPhaseOptions(prev => ({ ...prev, cooldown }))}
+              trackColor={{ false: '#767577', true: '#007AFF' }}
+              thumbColor={phaseOptions.cooldown ? '#FFFFFF' : '#f4f3f4'}
+            />
+          </View>
+          
+          <View style={[styles.settingItem, { backgroundColor: theme.colors.surface }]}>
+            <Text style={[styles.settingLabel, { color: theme.colors.text }]}>
+              {t('common.sounds')}
             </Text>
             <Switch
               value={soundsEnabled}
@@ -246,7 +368,7 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
           
           <View style={[styles.settingItem, { backgroundColor: theme.colors.surface }]}>
             <Text style={[styles.settingLabel, { color: theme.colors.text }]}>
-              Vibrations
+              {t('common.vibrations')}
             </Text>
             <Switch
               value={vibrationsEnabled}
@@ -276,7 +398,7 @@ export const ProgramStartScreen: React.FC<ProgramStartScreenProps> = ({
             !canStart && styles.startButtonTextDisabled,
             { color: canStart ? theme.colors.primaryText : '#666666' }
           ]}>
-            {canStart ? 'Start Workout' : 'Cannot Start'}
+            {canStart ? t('programStart.startWorkout') : t('programStart.cannotStart')}
           </Text>
         </Pressable>
       </View>
@@ -290,9 +412,16 @@ const styles = StyleSheet.create({
     backgroundColor: '#FFFFFF'
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
     paddingHorizontal: 20,
     paddingVertical: 12
   },
+  exportButtonText: {
+    fontSize: 16,
+    fontWeight: '600'
+  },
   backButton: {
     alignSelf: 'flex-start'
   },
@@ -335,6 +464,10 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#666666'
   },
+  addedPhaseTime: {
+    fontSize: 14,
+    color: '#666666'
+  },
   programDescription: {
     fontSize: 16,
     lineHeight: 22,
@@ -398,6 +531,12 @@ const styles = StyleSheet.create({
     color: '#856404',
     lineHeight: 20
   },
+  warningContainerDark: {
+    backgroundColor: '#2D2A1A'
+  },
+  warningTextDark: {
+    color: '#FFC107'
+  },
   errorContainer: {
     flexDirection: 'row',
     backgroundColor: '#F8D7DA',
@@ -461,6 +600,12 @@ const styles = StyleSheet.create({
   stepInfo: {
     flex: 1
   },
+  stepPhase: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 2
+  },
   stepTitle: {
     fontSize: 16,
     fontWeight: '600',
@@ -1,4 +1,4 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,28 +7,66 @@ import {
   Pressable,
   SafeAreaView,
   StatusBar,
-  ImageBackground
+  ImageBackground,
+  Alert
 } from 'react-native';
 import { SAMPLE_PROGRAMS } from '../data/samplePrograms';
-import { formatDuration, getTotalDuration } from '../types/program';
+import { Program, formatDuration, getTotalDuration } from '../types/program';
 import { useTheme } from '../state/ThemeContext';
+import { useCustomPrograms } from '../state/CustomProgramsContext';
+import { useOnboarding } from '../state/OnboardingContext';
+import { Weekday } from '../types/onboarding';
+import { generateWeeklyPlan } from '../utils/weeklyPlan';
+import { estimateProgramCalories } from '../utils/calories';
 import { BackButton } from '../components/BackButton';
+import { useTranslation } from '../hooks/useTranslation';
+import { localizeProgram } from '../i18n/content';
 import {
   getCachedImageSource,
   remoteImageCacheService,
 } from '../services/remoteImageCacheService';
 
+// A week from a Sunday, in Weekday order, to name days the way the locale does
+const WEEKDAY_DATES: Record<Weekday, Date> = {
+  sunday: new Date(2024, 0, 7),
+  monday: new Date(2024, 0, 8),
+  tuesday: new Date(2024, 0, 9),
+  wednesday: new Date(2024, 0, 10),
+  thursday: new Date(2024, 0, 11),
+  friday: new Date(2024, 0, 12),
+  saturday: new Date(2024, 0, 13)
+};
+
 interface ProgramsTestScreenProps {
   onProgramSelect: (program: any) => void;
+  onImport?: () => void;
+  onCreate?: () => void;
+  onEdit?: (program: Program) => void;
   onBack: () => void;
 }
 
 export const ProgramsTestScreen: React.FC<ProgramsTestScreenProps> = ({
   onProgramSelect,
+  onImport,
+  onCreate,
+  onEdit,
   onBack
 }) => {
   const { theme } = useTheme();
   const isDark = theme.mode === 'dark';
+  const { programs: customPrograms, deleteProgram } = useCustomPrograms();
+  const { profile } = useOnboarding();
+  const { language, t, formatDate } = useTranslation();
+  const weeklyPlan = useMemo(() => generateWeeklyPlan(profile), [profile]);
+  // Display copies; the start screen gets the original and localizes it itself
+  const featuredPrograms = useMemo(
+    () => SAMPLE_PROGRAMS.map(program => localizeProgram(language, program)),
+    [language]
+  );
+  const plannedTitles = useMemo(
+    () => weeklyPlan.workouts.map(({ program }) => localizeProgram(language, program).title),
+    [weeklyPlan, language]
+  );
 
   useEffect(() => {
     void remoteImageCacheService.prefetchPrograms(SAMPLE_PROGRAMS);
@@ -43,6 +81,17 @@ export const ProgramsTestScreen: React.FC<ProgramsTestScreenProps> = ({
     }
   };
 
+  const confirmDelete = (program: Program) => {
+    Alert.alert(
+      t('programs.deleteTitle'),
+      t('programs.deleteMessage', { title: program.title }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: () => deleteProgram(program.id) }
+      ]
+    );
+  };
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
       <StatusBar barStyle={isDark ? 'light-content' : 'dark-content'} />
@@ -51,21 +100,95 @@ export const ProgramsTestScreen: React.FC<ProgramsTestScreenProps> = ({
       <View style={styles.header}>
         <BackButton onPress={onBack} />
         <Text style={[styles.headerTitle, { color: theme.colors.text }]}>
-          Complex Training Programs
+          {t('programs.title')}
         </Text>
-        <View style={styles.headerSpacer} />
+        {onImport ? (
+          <Pressable onPress={onImport} style={styles.headerAction} accessibilityRole="button">
+            <Text style={[styles.headerActionText, { color: theme.colors.primary }]}>
+              {t('common.import')}
+            </Text>
+          </Pressable>
+        ) : (
+          <View style={styles.headerSpacer} />
+        )}
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
-          Test the new Complex Training Programs with timed exercises, animations, and step-by-step guidance.
+          {t('programs.subtitle')}
         </Text>
 
-        {SAMPLE_PROGRAMS.map((program) => (
+        {/* Plan generated from the onboarding profile */}
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{t('programs.yourWeek')}</Text>
+        </View>
+
+        {weeklyPlan.workouts.map(({ day, program }, index) => (
           <Pressable
             key={program.id}
-            style={[styles.programCard, { backgroundColor: theme.colors.card }]}
+            style={[styles.customCard, { backgroundColor: theme.colors.card }]}
             onPress={() => onProgramSelect(program)}
+          >
+            <Text style={[styles.planDay, { color: theme.colors.primary }]}>
+              {formatDate(WEEKDAY_DATES[day], { weekday: 'short' }).toUpperCase()}
+            </Text>
+            <View style={styles.customInfo}>
+              <Text style={[styles.customTitle, { color: theme.colors.text }]}>{plannedTitles[index]}</Text>
+              <Text style={[styles.customMeta, { color: theme.colors.textSecondary }]}>
+                {t(`level.${program.level}`)} · {formatDuration(getTotalDuration(program))} · {t('common.steps.count', { count: program.stepsCount })}
+              </Text>
+            </View>
+          </Pressable>
+        ))}
+
+        {/* User-built programs */}
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{t('programs.myPrograms')}</Text>
+          {onCreate && (
+            <Pressable onPress={onCreate} accessibilityRole="button">
+              <Text style={[styles.headerActionText, { color: theme.colors.primary }]}>{t('programs.create')}</Text>
+            </Pressable>
+          )}
+        </View>
+
+        {customPrograms.length === 0 ? (
+          <Text style={[styles.emptyText, { color: theme.colors.textTertiary }]}>
+            {t('programs.empty')}
+          </Text>
+        ) : (
+          customPrograms.map((program) => (
+            <Pressable
+              key={program.id}
+              style={[styles.customCard, { backgroundColor: theme.colors.card }]}
+              onPress={() => onProgramSelect(program)}
+            >
+              <View style={styles.customInfo}>
+                <Text style={[styles.customTitle, { color: theme.colors.text }]}>{program.title}</Text>
+                <Text style={[styles.customMeta, { color: theme.colors.textSecondary }]}>
+                  {t(`level.${program.level}`)} · {formatDuration(getTotalDuration(program))} · {t('common.steps.count', { count: program.stepsCount })}
+                </Text>
+              </View>
+              {onEdit && (
+                <Pressable onPress={() => onEdit(program)} style={styles.customAction}>
+                  <Text style={[styles.customActionText, { color: theme.colors.primary }]}>{t('common.edit')}</Text>
+                </Pressable>
+              )}
+              <Pressable onPress={() => confirmDelete(program)} style={styles.customAction}>
+                <Text style={[styles.customActionText, styles.deleteText]}>{t('common.delete')}</Text>
+              </Pressable>
+            </Pressable>
+          ))
+        )}
+
+        <View style={styles.sectionHeader}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{t('programs.featured')}</Text>
+        </View>
+
+        {featuredPrograms.map((program, programIndex) => (
+          <Pressable
+            key={program.id}
+            style={[styles.programCard, { backgroundColor: theme.colors.card }]}
+            onPress={() => onProgramSelect(SAMPLE_PROGRAMS[programIndex])}
           >
             <ImageBackground
               source={getCachedImageSource(program.thumbnailUrl)}
@@ -75,7 +198,7 @@ export const ProgramsTestScreen: React.FC<ProgramsTestScreenProps> = ({
               <View style={styles.programOverlay}>
                 <View style={styles.programHeader}>
                   <View style={[styles.levelBadge, { backgroundColor: getLevelColor(program.level) }]}>
-                    <Text style={styles.levelText}>{program.level}</Text>
+                    <Text style={styles.levelText}>{t(`level.${program.level}`)}</Text>
                   </View>
                   <View style={styles.difficultyContainer}>
                     {Array.from({ length: 5 }, (_, i) => (
@@ -103,7 +226,7 @@ export const ProgramsTestScreen: React.FC<ProgramsTestScreenProps> = ({
                     {formatDuration(getTotalDuration(program))}
                   </Text>
                   <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                    Total Duration
+                    {t('programs.totalDuration')}
                   </Text>
                 </View>
                 
@@ -112,16 +235,16 @@ export const ProgramsTestScreen: React.FC<ProgramsTestScreenProps> = ({
                     {program.stepsCount}
                   </Text>
                   <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                    Steps
+                    {t('common.steps')}
                   </Text>
                 </View>
                 
                 <View style={styles.statItem}>
                   <Text style={[styles.statValue, { color: theme.colors.text }]}>
-                    {program.estimatedCalories}
+                    {estimateProgramCalories(program.steps, profile.weightKg)}
                   </Text>
                   <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                    Calories
+                    {t('common.calories')}
                   </Text>
                 </View>
               </View>
@@ -136,17 +259,17 @@ export const ProgramsTestScreen: React.FC<ProgramsTestScreenProps> = ({
                 ))}
                 {program.tags.length > 3 && (
                   <Text style={[styles.moreTagsText, { color: theme.colors.textTertiary }]}>
-                    +{program.tags.length - 3} more
+                    {t('programs.moreTags', { count: program.tags.length - 3 })}
                   </Text>
                 )}
               </View>
 
               <Pressable 
                 style={[styles.startButton, { backgroundColor: theme.colors.primary }]}
-                onPress={() => onProgramSelect(program)}
+                onPress={() => onProgramSelect(SAMPLE_PROGRAMS[programIndex])}
               >
                 <Text style={[styles.startButtonText, { color: theme.colors.primaryText }]}>
-                  Start Program →
+                  {t('programs.startProgram')}
                 </Text>
               </Pressable>
             </View>
@@ -188,6 +311,15 @@ const styles = StyleSheet.create({
   headerSpacer: {
     width: 60
   },
+  headerAction: {
+    width: 60,
+    alignItems: 'flex-end',
+    paddingVertical: 8
+  },
+  headerActionText: {
+    fontSize: 16,
+    fontWeight: '600'
+  },
   scrollView: {
     flex: 1,
     paddingHorizontal: 20
@@ -199,6 +331,54 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     lineHeight: 22
   },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700'
+  },
+  emptyText: {
+    fontSize: 14,
+    marginBottom: 24
+  },
+  customCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12
+  },
+  planDay: {
+    width: 48,
+    fontSize: 14,
+    fontWeight: '700'
+  },
+  customInfo: {
+    flex: 1
+  },
+  customTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4
+  },
+  customMeta: {
+    fontSize: 13
+  },
+  customAction: {
+    paddingHorizontal: 8,
+    paddingVertical: 4
+  },
+  customActionText: {
+    fontSize: 14,
+    fontWeight: '600'
+  },
+  deleteText: {
+    color: '#FF3B30'
+  },
   programCard: {
     backgroundColor: '#F8F9FA',
     borderRadius: 16,
@@ -0,0 +1,344 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  SafeAreaView,
+  StatusBar,
+  Pressable,
+  Share,
+} from 'react-native';
+import Ionicons from 'react-native-vector-icons/Ionicons';
+import { BackButton } from '../components/BackButton';
+import { useTheme } from '../state/ThemeContext';
+import { WorkoutSession, useWorkoutHistory } from '../state/WorkoutHistoryContext';
+import { SessionTimeline, TimelineEntry, findReplayMismatch } from '../state/sessionTimeline';
+import { TrainingEvent, selectors } from '../state/trainingStateMachine';
+import { useTranslation } from '../hooks/useTranslation';
+
+type SessionLogScreenProps = {
+  onBack?: () => void;
+};
+
+// Debug view of the event timelines saved with workouts: what was dispatched, when,
+// and where the session stood after each event
+
+const COMPLETED_AT_FORMAT: Intl.DateTimeFormatOptions = {
+  day: 'numeric',
+  month: 'short',
+  year: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
+
+const formatOffset = (ms: number): string => {
+  const tenths = Math.floor(ms / 100);
+  const minutes = Math.floor(tenths / 600);
+  const seconds = (tenths % 600) / 10;
+  return `+${minutes}:${seconds.toFixed(1).padStart(4, '0')}`;
+};
+
+const describeEvent = (event: TrainingEvent): string => {
+  switch (event.type) {
+    case 'START':
+      return `START ${event.program.title}`;
+    case 'RESTORE':
+      return `RESTORE at step ${event.session.currentStepIndex + 1}`;
+    case 'TICK':
+      return `TICK ${selectors.getFormattedTime(event.remainingMs)}`;
+    case 'COMPLETE_REPS':
+      return event.actualReps !== undefined ? `COMPLETE_REPS ${event.actualReps}` : 'COMPLETE_REPS';
+    case 'SWAP_EXERCISE':
+      return `SWAP_EXERCISE ${event.step.title}`;
+    case 'LOG_STEP_RESULT':
+      return `LOG_STEP_RESULT step ${event.stepIndex + 1}`;
+    case 'ADJUST_TIME':
+      return `ADJUST_TIME ${event.seconds > 0 ? '+' : ''}${event.seconds}s`;
+    default:
+      return event.type;
+  }
+};
+
+const describeSummary = ({ summary }: TimelineEntry): string => {
+  const parts = [summary.state, `step ${summary.stepIndex + 1}`];
+  if (summary.side) parts.push(summary.side);
+  if (summary.transition) parts.push(summary.transition);
+  parts.push(`${selectors.getFormattedTime(summary.remainingMs)} left`);
+  parts.push(`${summary.stepResults} done`);
+  return parts.join(' · ');
+};
+
+export const SessionLogScreen: React.FC<SessionLogScreenProps> = ({ onBack }) => {
+  const { theme } = useTheme();
+  const isDark = theme.mode === 'dark';
+  const { sessions, loadTimeline } = useWorkoutHistory();
+  const { t, formatDate } = useTranslation();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // undefined while the selected timeline is being read, null when it is gone
+  const [timeline, setTimeline] = useState<SessionTimeline | null | undefined>(undefined);
+
+  const logged = useMemo(() => sessions.filter(session => session.hasTimeline), [sessions]);
+  const selected = logged.find(session => session.id === selectedId) ?? null;
+
+  // Timelines are kept apart from the history and only read once one is opened
+  useEffect(() => {
+    if (!selectedId) return;
+    let cancelled = false;
+    setTimeline(undefined);
+    loadTimeline(selectedId).then(loaded => {
+      if (!cancelled) setTimeline(loaded && loaded.entries.length > 0 ? loaded : null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, loadTimeline]);
+
+  const handleBack = () => {
+    if (selected) {
+      setSelectedId(null);
+    } else {
+      onBack?.();
+    }
+  };
+
+  const header = (title: string, subtitle: string, action?: React.ReactNode) => (
+    <View style={styles.header}>
+      {(onBack || selected) && <BackButton onPress={handleBack} />}
+      <View style={styles.headerContent}>
+        <Text style={[styles.title, { color: theme.colors.text }]} numberOfLines={1}>{title}</Text>
+        <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>{subtitle}</Text>
+      </View>
+      {action ?? <View style={styles.headerSpacer} />}
+    </View>
+  );
+
+  if (selected) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <StatusBar barStyle={isDark ? 'light-content' : 'dark-content'} />
+        {timeline ? (
+          <SessionTimelineView
+            session={selected}
+            timeline={timeline}
+            header={header}
+          />
+        ) : (
+          <>
+            {header(selected.programTitle, formatDate(selected.completedAt, COMPLETED_AT_FORMAT))}
+            <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+              {timeline === undefined ? t('sessionLog.loading') : t('sessionLog.missing')}
+            </Text>
+          </>
+        )}
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <StatusBar barStyle={isDark ? 'light-content' : 'dark-content'} />
+      {header(t('sessionLog.title'), t('sessionLog.count', { count: logged.length }))}
+
+      <FlatList
+        data={logged}
+        keyExtractor={session => session.id}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.colors.textSecondary }]}>
+            {t('sessionLog.empty')}
+          </Text>
+        }
+        renderItem={({ item }) => (
+          <Pressable
+            style={({ pressed }) => [
+              styles.sessionRow,
+              { backgroundColor: theme.colors.card },
+              pressed && styles.rowPressed,
+            ]}
+            onPress={() => setSelectedId(item.id)}
+          >
+            <View style={styles.sessionText}>
+              <Text style={[styles.sessionTitle, { color: theme.colors.text }]}>{item.programTitle}</Text>
+              <Text style={[styles.sessionMeta, { color: theme.colors.textSecondary }]}>
+                {formatDate(item.completedAt, COMPLETED_AT_FORMAT)}
+              </Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color={theme.colors.textTertiary} />
+          </Pressable>
+        )}
+      />
+    </SafeAreaView>
+  );
+};
+
+type SessionTimelineViewProps = {
+  session: WorkoutSession;
+  timeline: SessionTimeline;
+  header: (title: string, subtitle: string, action?: React.ReactNode) => React.ReactNode;
+};
+
+const SessionTimelineView: React.FC<SessionTimelineViewProps> = ({ session, timeline, header }) => {
+  const { theme } = useTheme();
+  const { t, formatDate } = useTranslation();
+  const startedAt = timeline.entries[0].at;
+  // Replaying is the check that the log explains the session; a mismatch is a bug
+  const mismatch = useMemo(() => findReplayMismatch(timeline), [timeline]);
+
+  const handleShare = () => {
+    Share.share({
+      title: session.programTitle,
+      message: JSON.stringify(timeline),
+    }).catch(() => {});
+  };
+
+  const shareButton = (
+    <Pressable
+      onPress={handleShare}
+      accessibilityRole="button"
+      accessibilityLabel={t('sessionLog.share')}
+      style={styles.shareButton}
+    >
+      <Ionicons name="share-outline" size={24} color={theme.colors.text} />
+    </Pressable>
+  );
+
+  return (
+    <>
+      {header(session.programTitle, formatDate(session.completedAt, COMPLETED_AT_FORMAT), shareButton)}
+      <View style={[styles.replayBanner, { backgroundColor: theme.colors.card }]}>
+        <Ionicons
+          name={mismatch === null ? 'checkmark-circle' : 'alert-circle'}
+          size={20}
+          color={mismatch === null ? theme.colors.success : theme.colors.error}
+        />
+        <Text style={[styles.replayText, { color: theme.colors.text }]}>
+          {mismatch === null
+            ? t('sessionLog.replayMatches', { count: timeline.entries.length })
+            : t('sessionLog.replayDiverges', { index: mismatch + 1 })}
+        </Text>
+      </View>
+
+      <FlatList
+        data={timeline.entries}
+        keyExtractor={(_, index) => String(index)}
+        contentContainerStyle={styles.list}
+        renderItem={({ item, index }) => (
+          <View
+            style={[
+              styles.entryRow,
+              { borderBottomColor: theme.colors.border },
+              index === mismatch && { backgroundColor: theme.colors.card },
+            ]}
+          >
+            <Text style={[styles.entryTime, { color: theme.colors.textSecondary }]}>
+              {formatOffset(item.at - startedAt)}
+            </Text>
+            <View style={styles.entryText}>
+              <Text style={[styles.entryEvent, { color: theme.colors.text }]}>{describeEvent(item.event)}</Text>
+              <Text style={[styles.entrySummary, { color: theme.colors.textSecondary }]}>
+                {describeSummary(item)}
+              </Text>
+            </View>
+          </View>
+        )}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: 20,
+    paddingBottom: 16,
+  },
+  headerContent: {
+    flex: 1,
+  },
+  headerSpacer: {
+    width: 44, // Same width as back button for balance
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 15,
+  },
+  shareButton: {
+    width: 44,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  list: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  rowPressed: {
+    opacity: 0.7,
+  },
+  sessionText: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  sessionMeta: {
+    fontSize: 14,
+  },
+  replayBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginBottom: 12,
+    padding: 12,
+    borderRadius: 12,
+  },
+  replayText: {
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  entryRow: {
+    flexDirection: 'row',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  entryTime: {
+    width: 72,
+    fontSize: 13,
+    fontVariant: ['tabular-nums'],
+  },
+  entryText: {
+    flex: 1,
+  },
+  entryEvent: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  entrySummary: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
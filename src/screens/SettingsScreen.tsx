@@ -12,36 +12,63 @@ import {
 } from 'react-native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import { useTheme, ThemeMode } from '../state/ThemeContext';
+import { usePreferences } from '../state/PreferencesContext';
+import { useTranslation } from '../hooks/useTranslation';
+import { DEFAULT_LANGUAGE, LANGUAGES, Language, MessageKey } from '../i18n/translate';
+import {
+  DEFAULT_TRAINING_HAPTICS,
+  TRAINING_HAPTIC_EVENTS,
+  TrainingHapticEvent,
+} from '../utils/trainingHaptics';
 
 type SettingsScreenProps = {
   onBack?: () => void;
 };
 
+const TRAINING_HAPTIC_ICONS: Record<TrainingHapticEvent, string> = {
+  stepStart: 'play-outline',
+  nextUp: 'arrow-forward-outline',
+  countdown: 'stopwatch-outline',
+  switchSides: 'swap-horizontal-outline',
+  workoutComplete: 'trophy-outline',
+};
+
+const TRAINING_HAPTIC_LABELS: Record<TrainingHapticEvent, { title: MessageKey; subtitle: MessageKey }> = {
+  stepStart: { title: 'settings.hapticStepStart', subtitle: 'settings.hapticStepStartSubtitle' },
+  nextUp: { title: 'settings.hapticNextUp', subtitle: 'settings.hapticNextUpSubtitle' },
+  countdown: { title: 'settings.hapticCountdown', subtitle: 'settings.hapticCountdownSubtitle' },
+  switchSides: { title: 'settings.hapticSwitchSides', subtitle: 'settings.hapticSwitchSidesSubtitle' },
+  workoutComplete: { title: 'settings.hapticWorkoutComplete', subtitle: 'settings.hapticWorkoutCompleteSubtitle' },
+};
+
 export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
   const { theme, themeMode, setThemeMode } = useTheme();
+  const { prefs, setPrefs } = usePreferences();
+  const { t, formatDate } = useTranslation();
   const isDark = theme.mode === 'dark';
   
   // Settings state
-  const [soundsEnabled, setSoundsEnabled] = useState(true);
-  const [vibrationsEnabled, setVibrationsEnabled] = useState(true);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
   const [analyticsEnabled, setAnalyticsEnabled] = useState(false);
   const [unitsType, setUnitsType] = useState<'metric' | 'imperial'>('metric');
   const [healthConnected, setHealthConnected] = useState(true);
   const [doNotDisturbEnabled, setDoNotDisturbEnabled] = useState(true);
 
+  const formatHour = (hour: number) =>
+    formatDate(new Date(2000, 0, 1, hour), { hour: 'numeric', minute: '2-digit' });
+
   const handleClearData = () => {
     Alert.alert(
-      'Clear All Data',
-      'This will remove all your favorites, progress, and settings. This action cannot be undone.',
+      t('settings.clearData'),
+      t('settings.clearDataMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Clear Data', 
+          text: t('settings.clearDataConfirm'), 
           style: 'destructive',
           onPress: () => {
             // Implementation for clearing data would go here
-            Alert.alert('Data Cleared', 'All data has been cleared successfully.');
+            Alert.alert(t('settings.clearDataDone'), t('settings.clearDataDoneMessage'));
           }
         }
       ]
@@ -50,23 +77,33 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
 
   const handleResetSettings = () => {
     Alert.alert(
-      'Reset Settings',
-      'This will reset all settings to their default values.',
+      t('settings.resetSettings'),
+      t('settings.resetMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Reset', 
+          text: t('common.reset'), 
           style: 'destructive',
           onPress: () => {
-            setSoundsEnabled(true);
-            setVibrationsEnabled(true);
             setNotificationsEnabled(false);
             setAnalyticsEnabled(false);
             setUnitsType('metric');
             setHealthConnected(true);
             setDoNotDisturbEnabled(true);
             setThemeMode('system');
-            Alert.alert('Settings Reset', 'All settings have been reset to defaults.');
+            setPrefs({
+              soundsEnabled: true,
+              tickEvery10s: false,
+              voiceCues: true,
+              hapticsEnabled: true,
+              trainingHaptics: DEFAULT_TRAINING_HAPTICS,
+              autoWarmup: false,
+              autoCooldown: false,
+              leadInEnabled: true,
+              getReadySec: 0,
+              language: DEFAULT_LANGUAGE,
+            });
+            Alert.alert(t('settings.resetDone'), t('settings.resetDoneMessage'));
           }
         }
       ]
@@ -86,7 +123,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
             color={isDark ? '#FFFFFF' : '#000000'} 
           />
         </Pressable>
-        <Text style={[styles.title, isDark && styles.titleDark]}>Settings</Text>
+        <Text style={[styles.title, isDark && styles.titleDark]}>{t('common.settings')}</Text>
         <View style={styles.headerSpacer} />
       </View>
 
@@ -94,7 +131,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
         {/* Theme */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Appearance
+            {t('settings.appearance')}
           </Text>
           
           <ThemeSelector
@@ -104,10 +141,23 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
           />
         </View>
 
+        {/* Language */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+            {t('settings.language')}
+          </Text>
+          
+          <LanguageSelector
+            selectedLanguage={prefs.language}
+            onLanguageChange={language => setPrefs({ language })}
+            isDark={isDark}
+          />
+        </View>
+
         {/* Units */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Units
+            {t('settings.units')}
           </Text>
           
           <UnitsSelector
@@ -120,24 +170,101 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
         {/* Audio & Haptics */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Audio & Haptics
+            {t('settings.audioHaptics')}
           </Text>
           
           <SettingItem
             icon="volume-high-outline"
-            title="Sounds"
-            subtitle="Exercise sounds and audio cues"
-            value={soundsEnabled}
-            onValueChange={setSoundsEnabled}
+            title={t('settings.sounds')}
+            subtitle={t('settings.soundsSubtitle')}
+            value={prefs.soundsEnabled}
+            onValueChange={soundsEnabled => setPrefs({ soundsEnabled })}
+            isDark={isDark}
+          />
+          
+          <SettingItem
+            icon="mic-outline"
+            title={t('settings.voiceCues')}
+            subtitle={t('settings.voiceCuesSubtitle')}
+            value={prefs.voiceCues}
+            onValueChange={voiceCues => setPrefs({ voiceCues })}
+            isDark={isDark}
+          />
+          
+          <SettingItem
+            icon="time-outline"
+            title={t('settings.tickEvery10s')}
+            subtitle={t('settings.tickEvery10sSubtitle')}
+            value={prefs.tickEvery10s}
+            onValueChange={tickEvery10s => setPrefs({ tickEvery10s })}
             isDark={isDark}
           />
           
           <SettingItem
             icon="phone-portrait-outline"
-            title="Vibrations"
-            subtitle="Haptic feedback during workouts"
-            value={vibrationsEnabled}
-            onValueChange={setVibrationsEnabled}
+            title={t('common.vibrations')}
+            subtitle={t('settings.vibrationsSubtitle')}
+            value={prefs.hapticsEnabled}
+            onValueChange={hapticsEnabled => setPrefs({ hapticsEnabled })}
+            isDark={isDark}
+          />
+          
+          {prefs.hapticsEnabled && TRAINING_HAPTIC_EVENTS.map(event => (
+            <SettingItem
+              key={event}
+              icon={TRAINING_HAPTIC_ICONS[event]}
+              title={t(TRAINING_HAPTIC_LABELS[event].title)}
+              subtitle={t(TRAINING_HAPTIC_LABELS[event].subtitle)}
+              value={prefs.trainingHaptics[event]}
+              onValueChange={value => setPrefs({ trainingHaptics: { ...prefs.trainingHaptics, [event]: value } })}
+              isDark={isDark}
+            />
+          ))}
+        </View>
+
+        {/* Workout */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+            {t('settings.workout')}
+          </Text>
+          
+          <SettingItem
+            icon="flame-outline"
+            title={t('common.warmup')}
+            subtitle={t('settings.warmupSubtitle')}
+            value={prefs.autoWarmup}
+            onValueChange={autoWarmup => setPrefs({ autoWarmup })}
+            isDark={isDark}
+          />
+          
+          <SettingItem
+            icon="leaf-outline"
+            title={t('common.cooldown')}
+            subtitle={t('settings.cooldownSubtitle')}
+            value={prefs.autoCooldown}
+            onValueChange={autoCooldown => setPrefs({ autoCooldown })}
+            isDark={isDark}
+          />
+          
+          <SettingItem
+            icon="timer-outline"
+            title={t('settings.leadIn')}
+            subtitle={t('settings.leadInSubtitle')}
+            value={prefs.leadInEnabled}
+            onValueChange={leadInEnabled => setPrefs({ leadInEnabled })}
+            isDark={isDark}
+          />
+        </View>
+
+        {/* Get Ready */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
+            {t('settings.getReady')}
+          </Text>
+          
+          <GetReadySelector
+            selectedSec={prefs.getReadySec}
+            onChange={getReadySec => setPrefs({ getReadySec })}
             isDark={isDark}
           />
         </View>
@@ -145,21 +272,21 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
         {/* Notifications */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Notifications
+            {t('settings.notifications')}
           </Text>
           
           <SettingItem
             icon="notifications-outline"
-            title="Workout Reminders"
-            subtitle="Get notified about your workout schedule"
+            title={t('settings.reminders')}
+            subtitle={t('settings.remindersSubtitle')}
             value={notificationsEnabled}
             onValueChange={setNotificationsEnabled}
             isDark={isDark}
           />
           
           <DoNotDisturbItem
-            title="Do Not Disturb"
-            subtitle="9:00 PM–7:00 AM"
+            title={t('settings.doNotDisturb')}
+            subtitle={t('settings.doNotDisturbHours', { from: formatHour(21), to: formatHour(7) })}
             enabled={doNotDisturbEnabled}
             onPress={() => setDoNotDisturbEnabled(!doNotDisturbEnabled)}
             isDark={isDark}
@@ -169,11 +296,11 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
         {/* Health Integration */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Health Integration
+            {t('settings.health')}
           </Text>
           
           <HealthIntegrationItem
-            title="Apple Health or Google Fit"
+            title={t('settings.healthApps')}
             connected={healthConnected}
             onPress={() => setHealthConnected(!healthConnected)}
             isDark={isDark}
@@ -183,13 +310,13 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
         {/* Privacy */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Privacy
+            {t('settings.privacy')}
           </Text>
           
           <SettingItem
             icon="analytics-outline"
-            title="Analytics"
-            subtitle="Help improve the app with usage data"
+            title={t('settings.analytics')}
+            subtitle={t('settings.analyticsSubtitle')}
             value={analyticsEnabled}
             onValueChange={setAnalyticsEnabled}
             isDark={isDark}
@@ -199,19 +326,19 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
         {/* App Info */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            App Information
+            {t('settings.appInfo')}
           </Text>
           
           <InfoItem
             icon="information-circle-outline"
-            title="Version"
+            title={t('settings.version')}
             value="1.0.0"
             isDark={isDark}
           />
           
           <InfoItem
             icon="build-outline"
-            title="Build"
+            title={t('settings.build')}
             value="2024.08.24"
             isDark={isDark}
           />
@@ -220,21 +347,21 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
         {/* Danger Zone */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>
-            Advanced
+            {t('settings.advanced')}
           </Text>
           
           <ActionItem
             icon="refresh-outline"
-            title="Reset Settings"
-            subtitle="Reset all settings to default values"
+            title={t('settings.resetSettings')}
+            subtitle={t('settings.resetSettingsSubtitle')}
             onPress={handleResetSettings}
             isDark={isDark}
           />
           
           <ActionItem
             icon="trash-outline"
-            title="Clear All Data"
-            subtitle="Remove all favorites and progress"
+            title={t('settings.clearData')}
+            subtitle={t('settings.clearDataSubtitle')}
             onPress={handleClearData}
             isDark={isDark}
             destructive
@@ -244,8 +371,7 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({ onBack }) => {
         {/* Footer */}
         <View style={styles.footer}>
           <Text style={[styles.footerText, isDark && styles.footerTextDark]}>
-            FitnessTrainerPro is designed to be completely offline and private.
-            No data is sent to external servers.
+            {t('settings.offlineNote')}
           </Text>
         </View>
       </ScrollView>
@@ -391,10 +517,11 @@ type ThemeSelectorProps = {
 };
 
 const ThemeSelector: React.FC<ThemeSelectorProps> = ({ selectedTheme, onThemeChange, isDark }) => {
+  const { t } = useTranslation();
   const themes: { key: ThemeMode; label: string; icon: string }[] = [
-    { key: 'system', label: 'System', icon: 'phone-portrait-outline' },
-    { key: 'light', label: 'Light', icon: 'sunny-outline' },
-    { key: 'dark', label: 'Dark', icon: 'moon-outline' },
+    { key: 'system', label: t('settings.themeSystem'), icon: 'phone-portrait-outline' },
+    { key: 'light', label: t('settings.themeLight'), icon: 'sunny-outline' },
+    { key: 'dark', label: t('settings.themeDark'), icon: 'moon-outline' },
   ];
 
   return (
@@ -435,6 +562,7 @@ type UnitsSelectorProps = {
 };
 
 const UnitsSelector: React.FC<UnitsSelectorProps> = ({ selectedUnits, onUnitsChange, isDark }) => {
+  const { t } = useTranslation();
   return (
     <View style={[styles.unitsSelector, isDark && styles.unitsSelectorDark]}>
       <Pressable
@@ -451,7 +579,7 @@ const UnitsSelector: React.FC<UnitsSelectorProps> = ({ selectedUnits, onUnitsCha
           selectedUnits === 'metric' && styles.unitsOptionTextSelected,
           isDark && styles.unitsOptionTextDark
         ]}>
-          Units
+          {t('settings.metric')}
         </Text>
       </Pressable>
       <Pressable
@@ -468,13 +596,87 @@ const UnitsSelector: React.FC<UnitsSelectorProps> = ({ selectedUnits, onUnitsCha
           selectedUnits === 'imperial' && styles.unitsOptionTextSelected,
           isDark && styles.unitsOptionTextDark
         ]}>
-          Imperial
+          {t('settings.imperial')}
         </Text>
       </Pressable>
     </View>
   );
 };
 
+const GET_READY_OPTIONS_SEC = [0, 5, 10, 15];
+
+type GetReadySelectorProps = {
+  selectedSec: number;
+  onChange: (seconds: number) => void;
+  isDark: boolean;
+};
+
+const GetReadySelector: React.FC<GetReadySelectorProps> = ({ selectedSec, onChange, isDark }) => {
+  const { t } = useTranslation();
+  return (
+    <View
+      style={[styles.unitsSelector, isDark && styles.unitsSelectorDark]}
+      accessibilityLabel={t('settings.getReadySubtitle')}
+    >
+      {GET_READY_OPTIONS_SEC.map(seconds => (
+        <Pressable
+          key={seconds}
+          style={({ pressed }) => [
+            styles.unitsOption,
+            selectedSec === seconds && styles.unitsOptionSelected,
+            isDark && styles.unitsOptionDark,
+            pressed && styles.unitsOptionPressed
+          ]}
+          onPress={() => onChange(seconds)}
+        >
+          <Text style={[
+            styles.unitsOptionText,
+            selectedSec === seconds && styles.unitsOptionTextSelected,
+            isDark && styles.unitsOptionTextDark
+          ]}>
+            {seconds === 0 ? t('settings.off') : t('common.seconds', { count: seconds })}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+};
+
+type LanguageSelectorProps = {
+  selectedLanguage: Language;
+  onLanguageChange: (language: Language) => void;
+  isDark: boolean;
+};
+
+// Each language is labelled in its own script so it can be found from any setting
+const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguage, onLanguageChange, isDark }) => {
+  const { t } = useTranslation();
+  return (
+    <View style={[styles.unitsSelector, isDark && styles.unitsSelectorDark]}>
+      {LANGUAGES.map(language => (
+        <Pressable
+          key={language}
+          style={({ pressed }) => [
+            styles.unitsOption,
+            selectedLanguage === language && styles.unitsOptionSelected,
+            isDark && styles.unitsOptionDark,
+            pressed && styles.unitsOptionPressed
+          ]}
+          onPress={() => onLanguageChange(language)}
+        >
+          <Text style={[
+            styles.unitsOptionText,
+            selectedLanguage === language && styles.unitsOptionTextSelected,
+            isDark && styles.unitsOptionTextDark
+          ]}>
+            {t(`language.${language}`)}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+};
+
 type DoNotDisturbItemProps = {
   title: string;
   subtitle: string;
@@ -523,6 +725,7 @@ type HealthIntegrationItemProps = {
 };
 
 const HealthIntegrationItem: React.FC<HealthIntegrationItemProps> = ({ title, connected, onPress, isDark }) => {
+  const { t } = useTranslation();
   return (
     <Pressable
       style={({ pressed }) => [
@@ -549,7 +752,7 @@ const HealthIntegrationItem: React.FC<HealthIntegrationItemProps> = ({ title, co
             styles.statusBadgeText,
             connected ? styles.statusBadgeTextConnected : styles.statusBadgeTextDisconnected
           ]}>
-            {connected ? 'Connected' : 'Not Connected'}
+            {connected ? t('settings.connected') : t('settings.notConnected')}
           </Text>
         </View>
         <Ionicons 
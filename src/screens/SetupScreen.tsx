@@ -7,9 +7,15 @@ import {
   ScrollView,
   SafeAreaView,
 } from 'react-native';
-import { useSession } from '../state/SessionContext';
+import { useSession, WorkoutFormat } from '../state/SessionContext';
 import { useTheme } from '../state/ThemeContext';
-import { TRAINING_TYPES } from '../data/trainingTypes';
+import { FEATURED_EXERCISES } from '../data/exerciseCatalog';
+import { INTERVAL_FORMATS, IntervalFormat } from '../utils/intervalPrograms';
+import { getDifficultyStructure } from '../utils/difficultyProfiles';
+import { formatDuration } from '../types/program';
+import { useTranslation } from '../hooks/useTranslation';
+import { getLocalizedExerciseTitle, localizeExercise } from '../i18n/content';
+import { MessageKey } from '../i18n/translate';
 
 type Props = {
   onStart?: () => void;
@@ -24,10 +30,18 @@ const DIFFICULTIES = [
   'Hardcore',
   'Pro',
 ] as const;
+const FORMATS: WorkoutFormat[] = ['single', ...INTERVAL_FORMATS];
+const FORMAT_DESCRIPTIONS: Record<IntervalFormat, MessageKey> = {
+  tabata: 'format.tabata.description',
+  emom: 'format.emom.description',
+  amrap: 'format.amrap.description',
+  hiit: 'format.hiit.description'
+};
 
 export const SetupScreen: React.FC<Props> = ({ onStart }) => {
   const { setup, setSetup } = useSession();
   const { theme } = useTheme();
+  const { language, t } = useTranslation();
   const isDark = theme.mode === 'dark';
 
   const [useCustom, setUseCustom] = useState<boolean>(
@@ -44,19 +58,47 @@ export const SetupScreen: React.FC<Props> = ({ onStart }) => {
   const durationScrollRef = useRef<ScrollView>(null);
   const difficultyScrollRef = useRef<ScrollView>(null);
 
+  const isInterval = setup.format !== 'single';
+  // Tabata and custom HIIT length comes from their rounds, not the duration picker
+  const usesDuration = setup.format === 'single' || setup.format === 'emom' || setup.format === 'amrap';
+
   const selectedTypeTitle = useMemo(() => {
-    const tt = TRAINING_TYPES.find(t => t.id === setup.typeId);
-    return tt?.title ?? 'Custom Training';
-  }, [setup.typeId]);
+    if (setup.format !== 'single') {
+      return t(`format.${setup.format}`);
+    }
+    return getLocalizedExerciseTitle(language, setup.typeId, t('home.customTraining'));
+  }, [setup.typeId, setup.format, language, t]);
+
+  const exercises = useMemo(
+    () => FEATURED_EXERCISES.map(exercise => localizeExercise(language, exercise)),
+    [language]
+  );
+
+  const selectedExerciseIds = setup.exerciseIds.length > 0
+    ? setup.exerciseIds
+    : setup.typeId ? [setup.typeId] : [];
+
+  const toggleExercise = (id: string) => {
+    const next = selectedExerciseIds.includes(id)
+      ? selectedExerciseIds.filter(e => e !== id)
+      : [...selectedExerciseIds, id];
+    setSetup({ exerciseIds: next });
+  };
+
+  // What the chosen difficulty turns a standard session into
+  const standardStructure = setup.format === 'single' && setup.durationMin !== 0.05
+    ? getDifficultyStructure(setup.difficulty, Math.round(Number(setup.durationMin) * 60))
+    : null;
+
+  const hiitTotalSec = setup.rounds * setup.workSec + (setup.rounds - 1) * setup.restSec;
 
   const selectedDuration = useCustom
     ? customMin
     : (setup.durationMin as number);
   const canStart =
-    selectedDuration >= 0.05 &&
-    selectedDuration <= 180 &&
+    (!usesDuration || (selectedDuration >= 0.05 && selectedDuration <= 180)) &&
     !!setup.difficulty &&
-    !!setup.typeId;
+    (isInterval ? selectedExerciseIds.length > 0 : !!setup.typeId);
 
   // Auto-scroll to selected values when component mounts
   useEffect(() => {
@@ -91,103 +133,195 @@ export const SetupScreen: React.FC<Props> = ({ onStart }) => {
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]}>
-      <View style={styles.header}>
-        <Text style={[styles.title, { color: theme.colors.text }]}>{selectedTypeTitle}</Text>
-      </View>
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={[styles.title, { color: theme.colors.text }]}>{selectedTypeTitle}</Text>
+        </View>
 
-      <View style={styles.section}>
-        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Duration</Text>
-        <ScrollView
-          ref={durationScrollRef}
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.carouselContent}
-        >
-          {DURATIONS.map(min => {
-            const active = !useCustom && setup.durationMin === min;
-            const label = min === 0.05 ? '3 sec' : `${min} min`;
-            return (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{t('setup.format')}</Text>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.carouselContent}
+          >
+            {FORMATS.map(format => (
               <Chip
-                key={min}
-                label={label}
-                active={active}
+                key={format}
+                label={t(`format.${format}`)}
+                active={setup.format === format}
                 isDark={isDark}
-                onPress={() => {
-                  setUseCustom(false);
-                  setSetup({ durationMin: min });
-                }}
+                onPress={() => setSetup({ format })}
               />
-            );
-          })}
-          <Chip
-            label="Custom"
-            active={useCustom}
-            isDark={isDark}
-            onPress={() => {
-              setUseCustom(true);
-              setSetup({ durationMin: customMin });
-            }}
-          />
-        </ScrollView>
+            ))}
+          </ScrollView>
+          {setup.format !== 'single' && (
+            <Text style={[styles.formatHint, { color: theme.colors.textSecondary }]}>
+              {setup.format === 'hiit'
+                ? t('setup.hiitSummary', {
+                    work: setup.workSec,
+                    rest: setup.restSec,
+                    rounds: setup.rounds,
+                    total: formatDuration(hiitTotalSec)
+                  })
+                : t(FORMAT_DESCRIPTIONS[setup.format])}
+            </Text>
+          )}
+        </View>
 
-        {useCustom && (
-          <View style={styles.stepperRow}>
-            <Pressable
-              accessibilityLabel="Decrease minutes"
-              style={[styles.stepperBtn, styles.stepperGhost]}
-              onPress={() => {
-                const v = Math.max(1, customMin - 1);
-                setCustomMin(v);
-                setSetup({ durationMin: v });
-              }}
+        {isInterval && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{t('setup.exercises')}</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.carouselContent}
             >
-              <Text style={styles.stepperBtnText}>-1</Text>
-            </Pressable>
-            <Text style={[styles.stepperValue, { color: theme.colors.text }]}>{customMin} min</Text>
-            <Pressable
-              accessibilityLabel="Increase minutes"
-              style={[styles.stepperBtn, styles.stepperGhost]}
-              onPress={() => {
-                const v = Math.min(180, customMin + 1);
-                setCustomMin(v);
-                setSetup({ durationMin: v });
-              }}
-            >
-              <Text style={styles.stepperBtnText}>+1</Text>
-            </Pressable>
+              {exercises.map(exercise => (
+                <Chip
+                  key={exercise.id}
+                  label={exercise.title}
+                  active={selectedExerciseIds.includes(exercise.id)}
+                  isDark={isDark}
+                  onPress={() => toggleExercise(exercise.id)}
+                />
+              ))}
+            </ScrollView>
           </View>
         )}
-      </View>
 
-      <View style={styles.section}>
-        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Difficulty</Text>
-        <ScrollView
-          ref={difficultyScrollRef}
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.carouselContent}
-        >
-          {DIFFICULTIES.map(label => (
-            <Chip
-              key={label}
-              label={label}
-              active={setup.difficulty === label}
-              isDark={isDark}
-              onPress={() => setSetup({ difficulty: label })}
+        {setup.format === 'hiit' && (
+          <View style={styles.section}>
+            <IntervalStepper
+              label={t('setup.work')}
+              value={t('common.seconds', { count: setup.workSec })}
+              textColor={theme.colors.text}
+              onDecrement={() => setSetup({ workSec: Math.max(5, setup.workSec - 5) })}
+              onIncrement={() => setSetup({ workSec: Math.min(300, setup.workSec + 5) })}
+            />
+            <IntervalStepper
+              label={t('setup.rest')}
+              value={t('common.seconds', { count: setup.restSec })}
+              textColor={theme.colors.text}
+              onDecrement={() => setSetup({ restSec: Math.max(0, setup.restSec - 5) })}
+              onIncrement={() => setSetup({ restSec: Math.min(300, setup.restSec + 5) })}
+            />
+            <IntervalStepper
+              label={t('setup.rounds')}
+              value={String(setup.rounds)}
+              textColor={theme.colors.text}
+              onDecrement={() => setSetup({ rounds: Math.max(1, setup.rounds - 1) })}
+              onIncrement={() => setSetup({ rounds: Math.min(50, setup.rounds + 1) })}
             />
-          ))}
-        </ScrollView>
-      </View>
+          </View>
+        )}
 
-      <View style={styles.startButtonContainer}>
-        <Pressable
-          disabled={!canStart}
-          style={[styles.startButton, !canStart && styles.buttonDisabled]}
-          onPress={onStart}
-        >
-          <Text style={styles.startButtonText}>Start</Text>
-        </Pressable>
-      </View>
+        {usesDuration && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{t('setup.duration')}</Text>
+            <ScrollView
+              ref={durationScrollRef}
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.carouselContent}
+            >
+              {DURATIONS.map(min => {
+                const active = !useCustom && setup.durationMin === min;
+                const label = min === 0.05 ? t('setup.threeSeconds') : t('common.minutes', { count: min });
+                return (
+                  <Chip
+                    key={min}
+                    label={label}
+                    active={active}
+                    isDark={isDark}
+                    onPress={() => {
+                      setUseCustom(false);
+                      setSetup({ durationMin: min });
+                    }}
+                  />
+                );
+              })}
+              <Chip
+                label={t('setup.custom')}
+                active={useCustom}
+                isDark={isDark}
+                onPress={() => {
+                  setUseCustom(true);
+                  setSetup({ durationMin: customMin });
+                }}
+              />
+            </ScrollView>
+  
+            {useCustom && (
+              <View style={styles.stepperRow}>
+                <Pressable
+                  accessibilityLabel={t('setup.decreaseMinutes')}
+                  style={[styles.stepperBtn, styles.stepperGhost]}
+                  onPress={() => {
+                    const v = Math.max(1, customMin - 1);
+                    setCustomMin(v);
+                    setSetup({ durationMin: v });
+                  }}
+                >
+                  <Text style={styles.stepperBtnText}>-1</Text>
+                </Pressable>
+                <Text style={[styles.stepperValue, { color: theme.colors.text }]}>{t('common.minutes', { count: customMin })}</Text>
+                <Pressable
+                  accessibilityLabel={t('setup.increaseMinutes')}
+                  style={[styles.stepperBtn, styles.stepperGhost]}
+                  onPress={() => {
+                    const v = Math.min(180, customMin + 1);
+                    setCustomMin(v);
+                    setSetup({ durationMin: v });
+                  }}
+                >
+                  <Text style={styles.stepperBtnText}>+1</Text>
+                </Pressable>
+              </View>
+            )}
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>{t('setup.difficulty')}</Text>
+          <ScrollView
+            ref={difficultyScrollRef}
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.carouselContent}
+          >
+            {DIFFICULTIES.map(difficulty => (
+              <Chip
+                key={difficulty}
+                label={t(`difficulty.${difficulty}`)}
+                active={setup.difficulty === difficulty}
+                isDark={isDark}
+                onPress={() => setSetup({ difficulty })}
+              />
+            ))}
+          </ScrollView>
+          {standardStructure && (
+            <Text style={[styles.formatHint, { color: theme.colors.textSecondary }]}>
+              {t('setup.structure', {
+                rounds: standardStructure.rounds,
+                work: standardStructure.workSec,
+                rest: standardStructure.restSec,
+                count: standardStructure.targetReps
+              })}
+            </Text>
+          )}
+        </View>
+
+        <View style={styles.startButtonContainer}>
+          <Pressable
+            disabled={!canStart}
+            style={[styles.startButton, !canStart && styles.buttonDisabled]}
+            onPress={onStart}
+          >
+            <Text style={styles.startButtonText}>{t('common.start')}</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
     </SafeAreaView>
   );
 };
@@ -215,6 +349,36 @@ const Chip: React.FC<{
   </Pressable>
 );
 
+const IntervalStepper: React.FC<{
+  label: string;
+  value: string;
+  textColor: string;
+  onDecrement: () => void;
+  onIncrement: () => void;
+}> = ({ label, value, textColor, onDecrement, onIncrement }) => {
+  const { t } = useTranslation();
+  return (
+    <View style={styles.stepperRow}>
+      <Text style={[styles.stepperLabel, { color: textColor }]}>{label}</Text>
+      <Pressable
+        accessibilityLabel={t('common.decrease', { name: label.toLowerCase() })}
+        style={[styles.stepperBtn, styles.stepperGhost]}
+        onPress={onDecrement}
+      >
+        <Text style={styles.stepperBtnText}>-</Text>
+      </Pressable>
+      <Text style={[styles.stepperValue, { color: textColor }]}>{value}</Text>
+      <Pressable
+        accessibilityLabel={t('common.increase', { name: label.toLowerCase() })}
+        style={[styles.stepperBtn, styles.stepperGhost]}
+        onPress={onIncrement}
+      >
+        <Text style={styles.stepperBtnText}>+</Text>
+      </Pressable>
+    </View>
+  );
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -222,6 +386,10 @@ const styles = StyleSheet.create({
     paddingTop: 24,
     backgroundColor: '#f5f5f5',
   },
+  content: {
+    flexGrow: 1,
+    paddingBottom: 24,
+  },
   header: {
     marginBottom: 32,
     alignItems: 'center',
@@ -242,6 +410,10 @@ const styles = StyleSheet.create({
   },
 
   carouselContent: { paddingRight: 12, gap: 12 },
+  formatHint: {
+    fontSize: 14,
+    marginTop: 8,
+  },
   chip: {
     paddingHorizontal: 20,
     paddingVertical: 12,
@@ -292,6 +464,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
+  stepperLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    minWidth: 72,
+  },
   stepperValue: {
     fontSize: 16,
     fontWeight: '700',
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import React, { useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -9,74 +9,65 @@ import {
   StatusBar,
   PanResponder,
   AppState,
-  AppStateStatus,
-  Vibration
+  AppStateStatus
 } from 'react-native';
 import Ionicons from 'react-native-vector-icons/Ionicons';
 import Video from 'react-native-video';
 import { useTheme } from '../state/ThemeContext';
 import { CountdownRing } from '../components/training/SimpleCountdownRing';
 import { Program, ExerciseStep, formatDuration } from '../types/program';
+import { findStepExercise } from '../data/exerciseCatalog';
+import { useTranslation } from '../hooks/useTranslation';
+import { useRecordedTrainingReducer } from '../hooks/useRecordedTrainingReducer';
+import { useTrainingTimer } from '../hooks/useTrainingTimer';
+import { useAudioCues } from '../hooks/useAudioCues';
+import { useTrainingHaptics } from '../hooks/useTrainingHaptics';
+import { LEAD_IN_SEC, initialTrainingState } from '../state/trainingStateMachine';
+import { SessionTimeline } from '../state/sessionTimeline';
 
 interface SimpleTrainingScreenProps {
   program: Program;
-  _soundsEnabled: boolean;
+  soundsEnabled: boolean;
   vibrationsEnabled: boolean;
   onComplete: (results: any) => void;
-  onExit: (partial: { totalElapsedMs: number }) => void;
+  onExit: (partial: { totalElapsedMs: number; timeline?: SessionTimeline }) => void;
 }
 
-const TICK_INTERVAL = 100; // Update every 100ms for smooth animation
 const SWIPE_EXIT_DISTANCE = 70;
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+// Bundled videos by catalog media.video key
 const EXERCISE_VIDEO_SOURCES: Record<string, number> = {
-  pushup: require('../assets/exercise-videos/push-ups.mp4'),
-  pushups: require('../assets/exercise-videos/push-ups.mp4'),
-  pikepushups: require('../assets/exercise-videos/push-ups.mp4'),
-
-  burpee: require('../assets/exercise-videos/burpees.mp4'),
+  'push-ups': require('../assets/exercise-videos/push-ups.mp4'),
   burpees: require('../assets/exercise-videos/burpees.mp4'),
-
-  crunch: require('../assets/exercise-videos/crunches.mp4'),
   crunches: require('../assets/exercise-videos/crunches.mp4'),
-  bicyclecrunches: require('../assets/exercise-videos/crunches.mp4'),
-
-  lunge: require('../assets/exercise-videos/lunges.mp4'),
   lunges: require('../assets/exercise-videos/lunges.mp4'),
-
   plank: require('../assets/exercise-videos/plank.mp4'),
-  plankhold: require('../assets/exercise-videos/plank.mp4'),
-
-  squat: require('../assets/exercise-videos/squats.mp4'),
   squats: require('../assets/exercise-videos/squats.mp4'),
-  bodyweightsquats: require('../assets/exercise-videos/squats.mp4'),
-  gentlesquats: require('../assets/exercise-videos/squats.mp4'),
-  jumpsquats: require('../assets/exercise-videos/squats.mp4'),
 };
 
-const normalizeVideoKey = (value: string = ''): string =>
-  value.toLowerCase().replace(/[^a-z0-9]/g, '');
-
 export const SimpleTrainingScreen: React.FC<SimpleTrainingScreenProps> = ({
   program,
-  _soundsEnabled,
+  soundsEnabled,
   vibrationsEnabled,
   onComplete,
   onExit
 }) => {
   const { theme } = useTheme();
+  const { t } = useTranslation();
   const isDark = theme.mode === 'dark';
   
-  // Simple state for single exercise
-  const [isRunning, setIsRunning] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const [remainingMs, setRemainingMs] = useState(0);
-  const [_totalElapsedMs, setTotalElapsedMs] = useState(0);
-  const [hasStarted, setHasStarted] = useState(false);
-  const [countdownSeconds, setCountdownSeconds] = useState(3);
+  // The single exercise runs through the same reducer and timer as full programs
+  const [state, dispatch, getTimeline] = useRecordedTrainingReducer({
+    ...initialTrainingState,
+    soundsEnabled,
+    vibrationsEnabled
+  });
+  const timer = useTrainingTimer(state, dispatch);
+  useAudioCues(state, soundsEnabled);
+  useTrainingHaptics(state, vibrationsEnabled);
+  const hasStarted = state.state !== 'idle' && !state.transition;
   
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const swipeTranslateY = useRef(new Animated.Value(0)).current;
   const ringScale = useRef(new Animated.Value(1)).current;
   const ringTranslateX = useRef(new Animated.Value(0)).current;
@@ -86,38 +77,27 @@ export const SimpleTrainingScreen: React.FC<SimpleTrainingScreenProps> = ({
   const videoTranslateY = useRef(new Animated.Value(60)).current;
   const hasPlayedRingTransitionRef = useRef(false);
   const isExitingRef = useRef(false);
-  const startTimeRef = useRef<number>(0);
-  const pausedDurationRef = useRef<number>(0);
-  const lastUpdateRef = useRef<number>(0);
+  // Parents may pass a fresh copy of the same program on every render; only a
+  // different program starts a new session
+  const programRef = useRef(program);
+  programRef.current = program;
+  const completedRef = useRef(false);
   
   const exercise = program.steps[0] as ExerciseStep; // Single exercise
   const totalDurationMs = exercise.durationSec * 1000;
+  const isPaused = state.state === 'paused';
+  const isRunning = state.state === 'running' || isPaused;
+  const remainingMs = hasStarted ? state.remainingMs : totalDurationMs;
+  const countdownSeconds = state.transition ? Math.ceil(state.remainingMs / 1000) : LEAD_IN_SEC;
   const exerciseVideoSource = useMemo(() => {
-    const keys = [
-      normalizeVideoKey(exercise.title),
-      normalizeVideoKey(exercise.id),
-      normalizeVideoKey(exercise.animationRef),
-      normalizeVideoKey(exercise.icon),
-    ].filter(Boolean);
-
-    for (const key of keys) {
-      if (EXERCISE_VIDEO_SOURCES[key]) {
-        return EXERCISE_VIDEO_SOURCES[key];
-      }
-    }
-
-    return null;
-  }, [exercise.title, exercise.id, exercise.animationRef, exercise.icon]);
+    const videoKey = findStepExercise(exercise)?.media.video;
+    return videoKey ? EXERCISE_VIDEO_SOURCES[videoKey] ?? null : null;
+  }, [exercise]);
   
-  // Initialize state when component mounts
+  // Start with the 3-2-1 lead-in when the component mounts
   useEffect(() => {
-    // Reset all state when component mounts
-    setRemainingMs(totalDurationMs);
-    setIsRunning(false);
-    setIsPaused(false);
-    setHasStarted(false);
-    setCountdownSeconds(3);
-    pausedDurationRef.current = 0;
+    dispatch({ type: 'START', program: programRef.current, leadInSec: LEAD_IN_SEC });
+    completedRef.current = false;
     hasPlayedRingTransitionRef.current = false;
     ringScale.setValue(1);
     ringTranslateX.setValue(0);
@@ -125,7 +105,7 @@ export const SimpleTrainingScreen: React.FC<SimpleTrainingScreenProps> = ({
     videoOpacity.setValue(0);
     videoScale.setValue(0.88);
     videoTranslateY.setValue(60);
-  }, [totalDurationMs, ringScale, ringTranslateX, ringTranslateY, videoOpacity, videoScale, videoTranslateY]);
+  }, [program.id, dispatch, ringScale, ringTranslateX, ringTranslateY, videoOpacity, videoScale, videoTranslateY]);
 
   useEffect(() => {
     if (!hasStarted || hasPlayedRingTransitionRef.current) return;
@@ -167,99 +147,38 @@ export const SimpleTrainingScreen: React.FC<SimpleTrainingScreenProps> = ({
     ]).start();
   }, [hasStarted, ringScale, ringTranslateX, ringTranslateY, videoOpacity, videoScale, videoTranslateY]);
   
-  // Start countdown automatically
-  useEffect(() => {
-    if (!hasStarted) {
-      const countdownInterval = setInterval(() => {
-        setCountdownSeconds(prev => {
-          if (prev <= 1) {
-            clearInterval(countdownInterval);
-            setHasStarted(true);
-            setIsRunning(true);
-            startTimeRef.current = Date.now();
-            lastUpdateRef.current = Date.now();
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-      
-      return () => clearInterval(countdownInterval);
-    }
-  }, [hasStarted]);
-  
-  // Timer management
-  const startTimer = useCallback(() => {
-    if (intervalRef.current) return;
-    
-    lastUpdateRef.current = Date.now();
-    intervalRef.current = setInterval(() => {
-      const now = Date.now();
-      const elapsed = now - startTimeRef.current - pausedDurationRef.current;
-      const remaining = Math.max(0, totalDurationMs - elapsed);
-      
-      setRemainingMs(remaining);
-      setTotalElapsedMs(elapsed);
-      
-      if (remaining <= 0) {
-        // Exercise completed
-        setIsRunning(false);
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-          intervalRef.current = null;
-        }
-        
-        // Complete the workout
-        onComplete({
-          program,
-          totalElapsedMs: elapsed,
-          completedAt: new Date().toISOString()
-        });
-      }
-      
-      lastUpdateRef.current = now;
-    }, TICK_INTERVAL);
-  }, [totalDurationMs, onComplete, program]);
-  
-  const stopTimer = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
-    }
-  }, []);
-  
-  // Start/stop timer based on running state
+  // Complete the workout once the reducer closes the step, and only once
   useEffect(() => {
-    if (isRunning && !isPaused) {
-      startTimer();
-    } else {
-      stopTimer();
+    if (state.state === 'finished' && !completedRef.current) {
+      completedRef.current = true;
+      onComplete({
+        program: state.program,
+        stepResults: state.stepResults,
+        totalElapsedMs: state.totalElapsedMs,
+        completedAt: new Date().toISOString(),
+        timeline: getTimeline()
+      });
     }
-    
-    return stopTimer;
-  }, [isRunning, isPaused, startTimer, stopTimer]);
+  }, [state.state, state.program, state.stepResults, state.totalElapsedMs, onComplete, getTimeline]);
   
   // Event handlers
   const handlePause = useCallback(() => {
     if (isRunning && !isPaused) {
-      setIsPaused(true);
-      const pauseStartTime = Date.now();
-      pausedDurationRef.current += pauseStartTime - lastUpdateRef.current;
+      dispatch({ type: 'PAUSE' });
     }
-  }, [isRunning, isPaused]);
+  }, [isRunning, isPaused, dispatch]);
   
   const handleResume = useCallback(() => {
     if (isPaused) {
-      setIsPaused(false);
-      lastUpdateRef.current = Date.now();
+      dispatch({ type: 'RESUME' });
     }
-  }, [isPaused]);
+  }, [isPaused, dispatch]);
   
   const handleExit = useCallback(() => {
-    stopTimer();
+    timer.reset();
     const elapsed = totalDurationMs - remainingMs;
-    onExit({ totalElapsedMs: elapsed });
-  }, [stopTimer, onExit, totalDurationMs, remainingMs]);
+    onExit({ totalElapsedMs: elapsed, timeline: getTimeline() });
+  }, [timer, onExit, totalDurationMs, remainingMs, getTimeline]);
 
   const handleScreenPress = useCallback(() => {
     if (!isRunning) return;
@@ -328,26 +247,15 @@ export const SimpleTrainingScreen: React.FC<SimpleTrainingScreenProps> = ({
   // Handle app state changes
   useEffect(() => {
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
-      if (nextAppState.match(/inactive|background/) && isRunning && !isPaused) {
-        // Auto-pause when going to background
+      // Auto-pause when going to background; the lead-in screen has no way to resume
+      if (nextAppState.match(/inactive|background/) && hasStarted && !isPaused) {
         handlePause();
       }
     };
     
     const subscription = AppState.addEventListener('change', handleAppStateChange);
     return () => subscription?.remove();
-  }, [isRunning, isPaused, handlePause]);
-  
-  // Sound and vibration effects
-  useEffect(() => {
-    const remainingSeconds = Math.ceil(remainingMs / 1000);
-    
-    if (isRunning && !isPaused && vibrationsEnabled) {
-      if (remainingSeconds <= 3 && remainingSeconds > 0 && remainingMs % 1000 < TICK_INTERVAL * 2) {
-        Vibration.vibrate(100);
-      }
-    }
-  }, [remainingMs, isRunning, isPaused, vibrationsEnabled]);
+  }, [hasStarted, isPaused, handlePause]);
   
   // Calculate progress
   const progress = totalDurationMs > 0 ? Math.max(0, Math.min(1, (totalDurationMs - remainingMs) / totalDurationMs)) : 0;
@@ -361,7 +269,7 @@ export const SimpleTrainingScreen: React.FC<SimpleTrainingScreenProps> = ({
         
         <View style={styles.countdownContainer}>
           <Text style={[styles.countdownText, { color: theme.colors.text }]}>
-            Get Ready!
+            {t('training.getReady')}
           </Text>
           <Text style={[styles.exerciseTitle, { color: theme.colors.text }]}>
             {exercise.title}
@@ -400,13 +308,13 @@ export const SimpleTrainingScreen: React.FC<SimpleTrainingScreenProps> = ({
           {/* Exercise Info */}
           <View style={styles.exerciseInfo}>
             <Text style={[styles.exerciseType, { color: theme.colors.textSecondary }]}>
-              Push-ups
+              {t('training.exercise')}
             </Text>
             <Text style={[styles.exerciseTitle, { color: theme.colors.text }]}>
               {exercise.title}
             </Text>
             <Text style={[styles.exerciseDescription, { color: theme.colors.textSecondary }]}>
-              swipe down to exit the session
+              {t('training.swipeToExit')}
             </Text>
           </View>
           
@@ -471,7 +379,7 @@ export const SimpleTrainingScreen: React.FC<SimpleTrainingScreenProps> = ({
               </Text>
               {exercise.targetReps && (
                 <Text style={[styles.targetReps, { color: theme.colors.textSecondary }]}>
-                  Target: {exercise.targetReps} reps
+                  {t('training.target', { count: exercise.targetReps })}
                 </Text>
               )}
             </View>
@@ -1,4 +1,4 @@
-import React, { useEffect, useReducer, useRef, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -9,8 +9,7 @@ import {
   useColorScheme,
   Alert,
   AppState,
-  AppStateStatus,
-  Vibration
+  AppStateStatus
 } from 'react-native';
 import Animated, {
   useSharedValue,
@@ -20,36 +19,81 @@ import Animated, {
   runOnJS
 } from 'react-native-reanimated';
 import { CountdownRing } from '../components/training/SimpleCountdownRing';
+import { SetLogPanel } from '../components/training/SetLogPanel';
+import { ExerciseSwapPanel } from '../components/training/ExerciseSwapPanel';
 import {
-  trainingReducer,
   TrainingSessionState,
   TrainingEvent,
+  TransitionKind,
+  StepLog,
+  StepResult,
+  LEAD_IN_SEC,
   selectors
 } from '../state/trainingStateMachine';
-import { Program, Step, formatDuration } from '../types/program';
+import { SessionTimeline } from '../state/sessionTimeline';
+import {
+  Program,
+  Step,
+  formatDuration,
+  getSideTargetReps,
+  isRepBasedStep,
+  isStopwatchStep
+} from '../types/program';
+import { CatalogExercise } from '../data/exerciseCatalog';
+import { getSubstitutes, substituteStep } from '../utils/exerciseSubstitution';
+import { useTranslation } from '../hooks/useTranslation';
+import { usePreferences } from '../state/PreferencesContext';
+import { localizeExercise } from '../i18n/content';
+import { trainingPersistence } from '../utils/backgroundHandling';
+import { useRecordedTrainingReducer } from '../hooks/useRecordedTrainingReducer';
+import { useTrainingTimer } from '../hooks/useTrainingTimer';
+import { useAudioCues } from '../hooks/useAudioCues';
+import { useStepNotifications } from '../hooks/useStepNotifications';
+import { useTrainingHaptics } from '../hooks/useTrainingHaptics';
 
 interface TrainingScreenProps {
   program: Program;
   soundsEnabled: boolean;
   vibrationsEnabled: boolean;
   onComplete: (results: any) => void;
-  onExit: (partial: { totalElapsedMs: number }) => void;
+  onExit: (partial: {
+    totalElapsedMs: number;
+    program?: Program | null;
+    stepResults?: StepResult[];
+    timeline?: SessionTimeline;
+  }) => void;
+  resumeSession?: TrainingSessionState; // Pick up a saved session instead of starting over
 }
 
-const TICK_INTERVAL = 100; // Update every 100ms for smooth animation
 const FIVE_SECOND_WARNING_MS = 5000;
+const SWITCH_SIDES_CUE_MS = 2000;
+const TIME_ADJUSTMENT_SEC = 10;
+
+// Countdowns into a step get their own ring color
+const TRANSITION_RING_COLORS: Record<TransitionKind, { light: string; dark: string }> = {
+  leadIn: { light: '#AF52DE', dark: '#BF5AF2' },
+  getReady: { light: '#34C759', dark: '#30D158' }
+};
 
 export const TrainingScreen: React.FC<TrainingScreenProps> = ({
   program,
   soundsEnabled,
   vibrationsEnabled,
   onComplete,
-  onExit
+  onExit,
+  resumeSession
 }) => {
   const isDark = useColorScheme() === 'dark';
+  const { language, t } = useTranslation();
+  const { prefs } = usePreferences();
+  // Countdown settings are read once, when the session starts
+  const startOptionsRef = useRef({
+    leadInSec: prefs.leadInEnabled ? LEAD_IN_SEC : 0,
+    getReadySec: prefs.getReadySec
+  });
   
   // State management
-  const [state, dispatch] = useReducer(trainingReducer, {
+  const [state, dispatch, getTimeline] = useRecordedTrainingReducer({
     state: 'idle',
     program: null,
     currentStepIndex: 0,
@@ -59,19 +103,33 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
     stepStartTime: null,
     pausedAt: null,
     pausedDurationMs: 0,
+    extensionMs: 0,
+    transition: null,
+    transitionMs: 0,
+    totalTransitionMs: 0,
+    leadInSec: 0,
+    getReadySec: 0,
     showNextUpBanner: false,
     nextUpStep: null,
     isLastStep: false,
     stepResults: [],
+    roundsCompleted: 0,
+    substitution: null,
+    currentSide: null,
+    sideResults: [],
     soundsEnabled,
     vibrationsEnabled,
     error: null
   });
   
-  // Refs for timer management
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastUpdateRef = useRef<number>(0);
+  // Reps the user reports for a rep-based step, starting from the target
+  const [repCount, setRepCount] = useState(0);
+  const [showSwapOptions, setShowSwapOptions] = useState(false);
+  const [showSwitchSidesCue, setShowSwitchSidesCue] = useState(false);
+  
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
+  const stateRef = useRef(state);
+  stateRef.current = state;
   
   // Animated values
   const nextUpOpacity = useSharedValue(0);
@@ -79,68 +137,55 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
   const stepTransitionOpacity = useSharedValue(1);
   const stepTransitionScale = useSharedValue(1);
   
+  // Parents may pass a fresh copy of the same program on every render; only a
+  // different program starts a new session
+  const programRef = useRef(program);
+  programRef.current = program;
+  const completedRef = useRef(false);
+  
   // Start the program when component mounts
   useEffect(() => {
-    dispatch({ type: 'START', program });
-  }, [program]);
-  
-  // Timer management
-  const startTimer = useCallback(() => {
-    if (intervalRef.current) return;
-    
-    lastUpdateRef.current = Date.now();
-    intervalRef.current = setInterval(() => {
-      const now = Date.now();
-      const deltaMs = now - lastUpdateRef.current;
-      lastUpdateRef.current = now;
-      
-      if (state.state === 'running' && state.stepStartTime) {
-        const elapsed = now - state.stepStartTime - state.pausedDurationMs;
-        const stepDurationMs = (state.currentStep?.durationSec || 0) * 1000;
-        const remaining = Math.max(0, stepDurationMs - elapsed);
-        
-        dispatch({ type: 'TICK', remainingMs: remaining });
-      }
-    }, TICK_INTERVAL);
-  }, [state.state, state.stepStartTime, state.pausedDurationMs, state.currentStep]);
+    completedRef.current = false;
+    if (resumeSession) {
+      dispatch({ type: 'RESTORE', session: resumeSession });
+    } else {
+      dispatch({ type: 'START', program: programRef.current, ...startOptionsRef.current });
+    }
+  }, [program.id, resumeSession, dispatch]);
   
-  const stopTimer = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+  // Snapshot the session on every step change so it survives the app being killed
+  useEffect(() => {
+    if (state.state === 'running' || state.state === 'paused') {
+      trainingPersistence.saveSnapshot(stateRef.current);
     }
-  }, []);
+  }, [state.state, state.currentStepIndex, state.currentSide, state.stepResults, state.substitution]);
+  
+  // Ticks come from the shared timer engine while the session runs
+  const timer = useTrainingTimer(state, dispatch);
+  useAudioCues(state, soundsEnabled);
+  useTrainingHaptics(state, vibrationsEnabled);
+  useStepNotifications(state);
   
   // Handle app state changes for background management
   useEffect(() => {
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
       if (appStateRef.current.match(/inactive|background/) && nextAppState === 'active') {
-        // App came to foreground - timer will auto-resume
+        // App came to foreground - close steps that ended meanwhile, then tick right away
         if (state.state === 'running') {
-          startTimer();
+          dispatch({ type: 'CATCH_UP' });
+          timer.tick();
         }
       } else if (nextAppState.match(/inactive|background/)) {
-        // App going to background
-        stopTimer();
-        // TODO: Schedule local notification for step completion
+        // App going to background; the engine keeps measuring while JS is suspended
+        // and step notifications stand in for the cues
+        trainingPersistence.saveSnapshot(stateRef.current);
       }
       appStateRef.current = nextAppState;
     };
     
     const subscription = AppState.addEventListener('change', handleAppStateChange);
     return () => subscription?.remove();
-  }, [state.state, startTimer, stopTimer]);
-  
-  // Start/stop timer based on training state
-  useEffect(() => {
-    if (state.state === 'running') {
-      startTimer();
-    } else {
-      stopTimer();
-    }
-    
-    return stopTimer;
-  }, [state.state, startTimer, stopTimer]);
+  }, [state.state, timer, dispatch]);
   
   // Handle next up banner animation
   useEffect(() => {
@@ -174,40 +219,40 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
     }
   }, [state.currentStepIndex, stepTransitionOpacity, stepTransitionScale]);
   
-  // Handle completion
+  // Reset the rep counter for each rep-based step, and again for the second side
   useEffect(() => {
-    if (state.state === 'finished') {
-      stopTimer();
-      onComplete({
-        program: state.program,
-        stepResults: state.stepResults,
-        totalElapsedMs: state.totalElapsedMs
-      });
+    if (isRepBasedStep(state.currentStep)) {
+      setRepCount(getSideTargetReps(state.currentStep) ?? 0);
     }
-  }, [state.state, onComplete, stopTimer, state.program, state.stepResults, state.totalElapsedMs]);
+  }, [state.currentStep, state.currentSide]);
   
-  // Sound and vibration effects
+  // Cue the switch when the reducer moves a per-side step to the second side
   useEffect(() => {
-    const remainingSeconds = Math.ceil(state.remainingMs / 1000);
-    
-    if (state.state === 'running' && soundsEnabled) {
-      if (selectors.shouldPlayCountdownSound(state.remainingMs)) {
-        // TODO: Play countdown tick sound
-        console.log('Play countdown sound:', remainingSeconds);
-      }
-      
-      if (selectors.shouldPlayStepCompleteSound(state.remainingMs)) {
-        // TODO: Play step complete sound
-        console.log('Play step complete sound');
-      }
-    }
+    if (state.currentSide !== 'right') return;
     
-    if (state.state === 'running' && vibrationsEnabled) {
-      if (remainingSeconds <= 3 && remainingSeconds > 0 && state.remainingMs % 1000 < TICK_INTERVAL) {
-        Vibration.vibrate(100);
-      }
+    setShowSwitchSidesCue(true);
+    const timeout = setTimeout(() => setShowSwitchSidesCue(false), SWITCH_SIDES_CUE_MS);
+    return () => clearTimeout(timeout);
+  }, [state.currentSide, state.currentStepIndex]);
+  
+  // Swap options belong to the step they were opened on
+  useEffect(() => {
+    setShowSwapOptions(false);
+  }, [state.currentStepIndex]);
+  
+  // Handle completion, once per session
+  useEffect(() => {
+    if (state.state === 'finished' && !completedRef.current) {
+      completedRef.current = true;
+      trainingPersistence.clearSnapshot();
+      onComplete({
+        program: state.program,
+        stepResults: state.stepResults,
+        totalElapsedMs: state.totalElapsedMs,
+        timeline: getTimeline()
+      });
     }
-  }, [state.remainingMs, state.state, soundsEnabled, vibrationsEnabled]);
+  }, [state.state, onComplete, state.program, state.stepResults, state.totalElapsedMs, getTimeline]);
   
   // Event handlers
   const handlePauseResume = () => {
@@ -222,31 +267,66 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
     dispatch({ type: 'NEXT_STEP' });
   };
   
+  const handlePreviousStep = () => {
+    dispatch({ type: 'PREVIOUS_STEP' });
+  };
+  
+  const handleRestartStep = () => {
+    dispatch({ type: 'RESTART_STEP' });
+  };
+  
+  const handleCompleteReps = () => {
+    dispatch({ type: 'COMPLETE_REPS', actualReps: repCount });
+  };
+  
+  const handleStopStopwatch = () => {
+    dispatch({ type: 'STOP_STOPWATCH' });
+  };
+  
+  const handleCountRound = () => {
+    dispatch({ type: 'COUNT_ROUND' });
+  };
+  
+  const handleSwapExercise = (exercise: CatalogExercise) => {
+    if (state.currentStep?.type === 'exercise') {
+      dispatch({ type: 'SWAP_EXERCISE', step: substituteStep(state.currentStep, exercise) });
+    }
+    setShowSwapOptions(false);
+  };
+  
+  const handleLogStep = (stepIndex: number, log: StepLog) => {
+    dispatch({ type: 'LOG_STEP_RESULT', stepIndex, log });
+  };
+  
   const handleSkipRest = () => {
     if (state.currentStep?.type === 'rest') {
       dispatch({ type: 'SKIP_REST' });
     }
   };
   
-  const handleAddTenSeconds = () => {
-    if (state.currentStep?.type === 'rest') {
-      dispatch({ type: 'ADD_TEN_SECONDS' });
-    }
+  const handleAdjustTime = (seconds: number) => {
+    dispatch({ type: 'ADJUST_TIME', seconds });
   };
   
   const handleExit = () => {
     Alert.alert(
-      'Exit Workout',
-      'Are you sure you want to exit? Your progress will be lost.',
+      t('training.exitTitle'),
+      t('training.exitMessage'),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         { 
-          text: 'Exit',
+          text: t('common.exit'),
           style: 'destructive',
           onPress: () => {
-            stopTimer();
+            timer.reset();
+            trainingPersistence.clearSnapshot();
             dispatch({ type: 'EXIT' });
-            onExit({ totalElapsedMs: state.totalElapsedMs });
+            onExit({
+              totalElapsedMs: state.totalElapsedMs,
+              program: state.program,
+              stepResults: state.stepResults,
+              timeline: getTimeline()
+            });
           }
         }
       ]
@@ -267,7 +347,22 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
   // Computed values
   const currentProgress = selectors.getCurrentProgress(state);
   const totalProgress = selectors.getTotalProgress(state);
-  const formattedTime = selectors.getFormattedTime(state.remainingMs);
+  const { transition } = state;
+  const isRepStep = !transition && isRepBasedStep(state.currentStep);
+  const isStopwatch = !transition && isStopwatchStep(state.currentStep);
+  const stopwatchTargetSec = isStopwatch && state.currentStep?.type === 'exercise' ? state.currentStep.targetSec : undefined;
+  const hasRoundCounter = !transition && state.currentStep?.type === 'exercise' && !!state.currentStep.roundCounter;
+  const formattedTime = transition
+    ? String(Math.ceil(state.remainingMs / 1000))
+    : selectors.getFormattedTime(isRepStep || isStopwatch ? selectors.getStepElapsedMs(state) : state.remainingMs);
+  const blockLabel = selectors.getBlockLabel(state, { rounds: t('training.round'), superset: t('training.set') });
+  const loggableResult = selectors.getLoggableResult(state);
+  const substitutes = useMemo(
+    () => (state.currentStep?.type === 'exercise'
+      ? getSubstitutes(state.currentStep).map(exercise => localizeExercise(language, exercise))
+      : []),
+    [state.currentStep, language]
+  );
   
   if (!state.currentStep) {
     return (
@@ -275,7 +370,7 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
         <StatusBar barStyle={isDark ? 'light-content' : 'dark-content'} />
         <View style={styles.centerContent}>
           <Text style={[styles.errorText, isDark && styles.errorTextDark]}>
-            No current step available
+            {t('training.noStep')}
           </Text>
         </View>
       </SafeAreaView>
@@ -297,13 +392,16 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
       <View style={styles.header}>
         <Pressable onPress={handleExit} style={styles.exitButton}>
           <Text style={[styles.exitButtonText, isDark && styles.exitButtonTextDark]}>
-            Exit
+            {t('common.exit')}
           </Text>
         </Pressable>
         
         <View style={styles.progressContainer}>
           <Text style={[styles.progressText, isDark && styles.progressTextDark]}>
-            {state.currentStepIndex + 1} of {state.program?.steps.length || 0}
+            {t('training.progress', {
+              current: state.currentStepIndex + 1,
+              total: state.program?.steps.length || 0
+            })}
           </Text>
           <View style={[styles.progressBar, isDark && styles.progressBarDark]}>
             <View 
@@ -322,13 +420,21 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
       <Animated.View style={[styles.mainContent, stepContentStyle]}>
         {/* Step Info */}
         <View style={styles.stepInfo}>
+          {blockLabel && (
+            <Text style={[styles.blockLabel, isDark && styles.blockLabelDark]}>
+              {blockLabel}
+            </Text>
+          )}
+          
           <Text style={[
             styles.stepType, 
             isDark && styles.stepTypeDark,
             isRestStep && styles.stepTypeRest,
             isRestStep && isDark && styles.stepTypeRestDark
           ]}>
-            {isRestStep ? 'Rest Break' : 'Exercise'}
+            {transition === 'leadIn' && t('training.startingIn')}
+            {transition === 'getReady' && t('training.getReady')}
+            {!transition && (isRestStep ? t('training.restBreak') : t('training.exercise'))}
           </Text>
           
           <Text style={[
@@ -337,9 +443,21 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
             isRestStep && styles.stepTitleRest,
             isRestStep && isDark && styles.stepTitleRestDark
           ]}>
-            {state.currentStep.title}
+            {isRestStep ? t('common.rest') : state.currentStep.title}
           </Text>
           
+          {state.currentSide && (
+            <Text style={[
+              styles.sideLabel,
+              isDark && styles.sideLabelDark,
+              showSwitchSidesCue && styles.sideLabelCue
+            ]}>
+              {showSwitchSidesCue
+                ? t('training.switchSides')
+                : state.currentSide === 'left' ? t('training.leftSide') : t('training.rightSide')}
+            </Text>
+          )}
+          
           {state.currentStep.type === 'exercise' && 'description' in state.currentStep && state.currentStep.description && (
             <Text style={[
               styles.stepDescription, 
@@ -368,9 +486,13 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
               strokeWidth={16}
               colors={{
                 track: isDark ? '#333333' : '#E5E5E5',
-                progress: isRestStep 
-                  ? (isDark ? '#FF9500' : '#FF8C00')
-                  : (isDark ? '#0A84FF' : '#007AFF'),
+                progress: transition
+                  ? TRANSITION_RING_COLORS[transition][isDark ? 'dark' : 'light']
+                  : isRestStep
+                    ? (isDark ? '#FF9500' : '#FF8C00')
+                    : stopwatchTargetSec && currentProgress >= 1
+                      ? (isDark ? '#30D158' : '#34C759')
+                      : (isDark ? '#0A84FF' : '#007AFF'),
                 progressCritical: '#FF3B30'
               }}
             />
@@ -379,13 +501,23 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
                 styles.timerText, 
                 isDark && styles.timerTextDark,
                 isRestStep && styles.timerTextRest,
-                isRestStep && isDark && styles.timerTextRestDark
+                isRestStep && isDark && styles.timerTextRestDark,
+                transition && styles.timerTextCountdown,
+                transition === 'leadIn' && (isDark ? styles.timerTextLeadInDark : styles.timerTextLeadIn),
+                transition === 'getReady' && (isDark ? styles.timerTextGetReadyDark : styles.timerTextGetReady)
               ]}>
                 {formattedTime}
               </Text>
               {state.currentStep.type === 'exercise' && 'targetReps' in state.currentStep && state.currentStep.targetReps && (
                 <Text style={[styles.targetReps, isDark && styles.targetRepsDark]}>
-                  Target: {state.currentStep.targetReps} reps
+                  {t(state.currentSide ? 'training.targetPerSide' : 'training.target', {
+                    count: getSideTargetReps(state.currentStep) ?? 0
+                  })}
+                </Text>
+              )}
+              {stopwatchTargetSec !== undefined && (
+                <Text style={[styles.targetReps, isDark && styles.targetRepsDark]}>
+                  {t('training.targetTime', { time: formatDuration(stopwatchTargetSec) })}
                 </Text>
               )}
             </View>
@@ -400,7 +532,7 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
                 {'icon' in state.currentStep && state.currentStep.icon ? state.currentStep.icon : '💪'}
               </Text>
               <Text style={[styles.animationLabel, isDark && styles.animationLabelDark]}>
-                Exercise Animation
+                {t('training.animation')}
             </Text>
           </View>
         </View>
@@ -409,38 +541,172 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
       
       {/* Controls */}
       <View style={styles.controls}>
-        {isRestStep ? (
-          <View style={styles.restControls}>
-          <Pressable
-              style={[styles.restButton, styles.skipButton, isDark && styles.restButtonDark]}
-              onPress={handleSkipRest}
+        {loggableResult && (
+          <SetLogPanel
+            result={loggableResult}
+            stepTitle={state.program?.steps[loggableResult.stepIndex]?.title ?? t('training.exercise')}
+            isDark={isDark}
+            onChange={log => handleLogStep(loggableResult.stepIndex, log)}
+          />
+        )}
+        
+        {showSwapOptions && !isRestStep && (
+          <ExerciseSwapPanel
+            stepTitle={state.currentStep.title}
+            substitutes={substitutes}
+            isDark={isDark}
+            onSelect={handleSwapExercise}
+            onClose={() => setShowSwapOptions(false)}
+          />
+        )}
+        
+        {!isRepStep && !isStopwatch && !transition ? (
+          <View style={styles.timeControls}>
+            <Pressable
+              accessibilityLabel={t('training.removeTime', { count: TIME_ADJUSTMENT_SEC })}
+              style={[
+                styles.timeButton,
+                !isRestStep && styles.exerciseTimeButton,
+                isDark && (isRestStep ? styles.timeButtonDark : styles.exerciseTimeButtonDark)
+              ]}
+              onPress={() => handleAdjustTime(-TIME_ADJUSTMENT_SEC)}
+            >
+              <Text style={[styles.timeButtonText, isDark && styles.timeButtonTextDark]}>
+                −{TIME_ADJUSTMENT_SEC}s
+              </Text>
+            </Pressable>
+            
+            {isRestStep && (
+              <Pressable
+                style={[styles.timeButton, styles.skipButton, isDark && styles.timeButtonDark]}
+                onPress={handleSkipRest}
+              >
+                <Text style={[styles.timeButtonText, isDark && styles.timeButtonTextDark]}>
+                  {t('training.skipRest')}
+                </Text>
+              </Pressable>
+            )}
+            
+            <Pressable
+              accessibilityLabel={t('training.addTime', { count: TIME_ADJUSTMENT_SEC })}
+              style={[
+                styles.timeButton,
+                isRestStep ? styles.addTimeButton : styles.exerciseTimeButton,
+                isDark && (isRestStep ? styles.timeButtonDark : styles.exerciseTimeButtonDark)
+              ]}
+              onPress={() => handleAdjustTime(TIME_ADJUSTMENT_SEC)}
+            >
+              <Text style={[styles.timeButtonText, isDark && styles.timeButtonTextDark]}>
+                +{TIME_ADJUSTMENT_SEC}s
+              </Text>
+            </Pressable>
+          </View>
+        ) : null}
+        
+        {isRepStep ? (
+          <View style={styles.repControls}>
+            <Pressable
+              accessibilityLabel={t('training.decreaseReps')}
+              style={[styles.repAdjustButton, isDark && styles.repAdjustButtonDark]}
+              onPress={() => setRepCount(count => Math.max(0, count - 1))}
             >
-              <Text style={[styles.restButtonText, isDark && styles.restButtonTextDark]}>
-                Skip Rest
+              <Text style={[styles.repAdjustText, isDark && styles.repAdjustTextDark]}>−</Text>
+            </Pressable>
+            
+            <Pressable
+              style={[styles.doneButton, isDark && styles.doneButtonDark]}
+              onPress={handleCompleteReps}
+              disabled={state.state !== 'running'}
+            >
+              <Text style={styles.doneButtonText}>
+                {t('training.doneReps', { count: repCount })}
               </Text>
             </Pressable>
             
             <Pressable
-              style={[styles.restButton, styles.addTimeButton, isDark && styles.restButtonDark]}
-              onPress={handleAddTenSeconds}
+              accessibilityLabel={t('training.increaseReps')}
+              style={[styles.repAdjustButton, isDark && styles.repAdjustButtonDark]}
+              onPress={() => setRepCount(count => count + 1)}
+            >
+              <Text style={[styles.repAdjustText, isDark && styles.repAdjustTextDark]}>+</Text>
+            </Pressable>
+          </View>
+        ) : null}
+        
+        {isStopwatch ? (
+          <View style={styles.repControls}>
+            <Pressable
+              style={[styles.doneButton, isDark && styles.doneButtonDark]}
+              onPress={handleStopStopwatch}
+              disabled={state.state !== 'running'}
+              accessibilityLabel={t('training.stopLabel')}
+            >
+              <Text style={styles.doneButtonText}>
+                {t('training.stop')}
+              </Text>
+            </Pressable>
+          </View>
+        ) : null}
+        
+        {hasRoundCounter ? (
+          <View style={styles.repControls}>
+            <Pressable
+              style={[styles.doneButton, isDark && styles.doneButtonDark]}
+              onPress={handleCountRound}
+              disabled={state.state !== 'running'}
+              accessibilityLabel={t('training.countRoundLabel')}
             >
-              <Text style={[styles.restButtonText, isDark && styles.restButtonTextDark]}>
-                +10s
+              <Text style={styles.doneButtonText}>
+                {t('training.countRound', { count: state.roundsCompleted })}
               </Text>
             </Pressable>
           </View>
         ) : null}
         
+        <View style={styles.stepControls}>
+          <Pressable
+            style={[styles.stepButton, isDark && styles.stepButtonDark]}
+            onPress={handlePreviousStep}
+            accessibilityLabel={t('training.previousLabel')}
+          >
+            <Text style={[styles.stepButtonText, isDark && styles.stepButtonTextDark]}>
+              {t('training.previous')}
+            </Text>
+          </Pressable>
+          
+          <Pressable
+            style={[styles.stepButton, isDark && styles.stepButtonDark]}
+            onPress={handleRestartStep}
+            accessibilityLabel={t('training.restartLabel')}
+          >
+            <Text style={[styles.stepButtonText, isDark && styles.stepButtonTextDark]}>
+              {t('training.restart')}
+            </Text>
+          </Pressable>
+        </View>
+        
         <View style={styles.mainControls}>
           <Pressable 
             style={[styles.controlButton, styles.nextButton, isDark && styles.controlButtonDark]}
             onPress={handleNextStep}
           >
             <Text style={[styles.controlButtonText, isDark && styles.controlButtonTextDark]}>
-              Next
+              {transition ? t('training.startNow') : t('training.next')}
             </Text>
           </Pressable>
           
+          {!isRestStep && (
+            <Pressable 
+              style={[styles.controlButton, styles.swapButton, isDark && styles.controlButtonDark]}
+              onPress={() => setShowSwapOptions(prev => !prev)}
+              accessibilityLabel={t('training.swapLabel')}
+            >
+              <Text style={[styles.controlButtonText, isDark && styles.controlButtonTextDark]}>
+                {t('training.swap')}
+              </Text>
+            </Pressable>
+          )}
+          
           <Pressable 
             style={[
               styles.controlButton, 
@@ -455,7 +721,7 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
               styles.pauseButtonText,
               isDark && styles.controlButtonTextDark
             ]}>
-              {state.state === 'paused' ? 'Resume' : 'Pause'}
+              {state.state === 'paused' ? t('training.resume') : t('training.pause')}
             </Text>
           </Pressable>
         </View>
@@ -465,10 +731,12 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
       {state.showNextUpBanner && (
         <Animated.View style={[styles.nextUpBanner, nextUpBannerStyle, isDark && styles.nextUpBannerDark]}>
           <Text style={[styles.nextUpText, isDark && styles.nextUpTextDark]}>
-            Next up:
+            {t('training.nextUp')}
           </Text>
           <Text style={[styles.nextUpTitle, isDark && styles.nextUpTitleDark]}>
-            {state.isLastStep ? 'Finish!' : (state.nextUpStep?.title || 'Rest')}
+            {state.isLastStep
+              ? t('training.finish')
+              : state.nextUpStep?.type === 'exercise' ? state.nextUpStep.title : t('common.rest')}
           </Text>
         </Animated.View>
       )}
@@ -477,7 +745,7 @@ export const TrainingScreen: React.FC<TrainingScreenProps> = ({
       {state.state === 'paused' && (
         <View style={[styles.pausedOverlay, isDark && styles.pausedOverlayDark]}>
           <Text style={[styles.pausedText, isDark && styles.pausedTextDark]}>
-            Paused
+            {t('training.paused')}
           </Text>
         </View>
       )}
@@ -557,6 +825,16 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 20
   },
+  blockLabel: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '600',
+    marginBottom: 6,
+    fontVariant: ['tabular-nums']
+  },
+  blockLabelDark: {
+    color: '#0A84FF'
+  },
   stepType: {
     fontSize: 16,
     color: '#666666',
@@ -639,6 +917,21 @@ const styles = StyleSheet.create({
   timerTextRestDark: {
     color: '#FF9500'
   },
+  timerTextCountdown: {
+    fontSize: 72
+  },
+  timerTextLeadIn: {
+    color: '#AF52DE'
+  },
+  timerTextLeadInDark: {
+    color: '#BF5AF2'
+  },
+  timerTextGetReady: {
+    color: '#34C759'
+  },
+  timerTextGetReadyDark: {
+    color: '#30D158'
+  },
   targetReps: {
     fontSize: 14,
     color: '#666666',
@@ -683,13 +976,13 @@ const styles = StyleSheet.create({
     paddingHorizontal: 20,
     paddingBottom: 34
   },
-  restControls: {
+  timeControls: {
     flexDirection: 'row',
     justifyContent: 'center',
     gap: 16,
     marginBottom: 20
   },
-  restButton: {
+  timeButton: {
     paddingHorizontal: 24,
     paddingVertical: 12,
     borderRadius: 24,
@@ -697,7 +990,7 @@ const styles = StyleSheet.create({
     minWidth: 100,
     alignItems: 'center'
   },
-  restButtonDark: {
+  timeButtonDark: {
     backgroundColor: '#FF9500'
   },
   skipButton: {
@@ -706,12 +999,84 @@ const styles = StyleSheet.create({
   addTimeButton: {
     backgroundColor: '#FF8C00'
   },
-  restButtonText: {
+  exerciseTimeButton: {
+    backgroundColor: '#007AFF'
+  },
+  exerciseTimeButtonDark: {
+    backgroundColor: '#0A84FF'
+  },
+  timeButtonText: {
     color: '#FFFFFF',
     fontSize: 16,
     fontWeight: '600'
   },
-  restButtonTextDark: {
+  timeButtonTextDark: {
+    color: '#FFFFFF'
+  },
+  repControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    marginBottom: 20
+  },
+  repAdjustButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#E5E5E5',
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  repAdjustButtonDark: {
+    backgroundColor: '#333333'
+  },
+  repAdjustText: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: '#000000'
+  },
+  repAdjustTextDark: {
+    color: '#FFFFFF'
+  },
+  doneButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 24,
+    backgroundColor: '#007AFF',
+    alignItems: 'center'
+  },
+  doneButtonDark: {
+    backgroundColor: '#0A84FF'
+  },
+  doneButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600'
+  },
+  stepControls: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 16,
+    marginBottom: 16
+  },
+  stepButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    backgroundColor: '#E5E5EA',
+    minWidth: 100,
+    alignItems: 'center'
+  },
+  stepButtonDark: {
+    backgroundColor: '#2C2C2E'
+  },
+  stepButtonText: {
+    color: '#1C1C1E',
+    fontSize: 15,
+    fontWeight: '600'
+  },
+  stepButtonTextDark: {
     color: '#FFFFFF'
   },
   mainControls: {
@@ -735,6 +1100,22 @@ const styles = StyleSheet.create({
   pauseButton: {
     backgroundColor: '#FF9500'
   },
+  sideLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#666666',
+    textAlign: 'center',
+    marginBottom: 8
+  },
+  sideLabelDark: {
+    color: '#AAAAAA'
+  },
+  sideLabelCue: {
+    color: '#FF9500'
+  },
+  swapButton: {
+    backgroundColor: '#5856D6'
+  },
   resumeButton: {
     backgroundColor: '#34C759'
   },
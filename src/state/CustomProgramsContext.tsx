@@ -0,0 +1,70 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+} from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Program } from '../types/program';
+
+const STORAGE_KEY = '@custom_programs';
+
+interface CustomProgramsContextType {
+  programs: Program[];
+  saveProgram: (program: Program) => void; // Inserts or replaces by id
+  deleteProgram: (programId: string) => void;
+}
+
+const CustomProgramsContext = createContext<CustomProgramsContextType>({
+  programs: [],
+  saveProgram: () => {},
+  deleteProgram: () => {},
+});
+
+export const CustomProgramsProvider: React.FC<React.PropsWithChildren> = ({ children }) => {
+  const [programs, setPrograms] = useState<Program[]>([]);
+
+  useEffect(() => {
+    AsyncStorage.getItem(STORAGE_KEY)
+      .then(stored => { if (stored) setPrograms(JSON.parse(stored)); })
+      .catch(() => {});
+  }, []);
+
+  const persist = useCallback((updated: Program[]) => {
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated)).catch(() => {});
+  }, []);
+
+  const saveProgram = useCallback((program: Program) => {
+    setPrograms(prev => {
+      const exists = prev.some(p => p.id === program.id);
+      const updated = exists
+        ? prev.map(p => (p.id === program.id ? program : p))
+        : [program, ...prev];
+      persist(updated);
+      return updated;
+    });
+  }, [persist]);
+
+  const deleteProgram = useCallback((programId: string) => {
+    setPrograms(prev => {
+      const updated = prev.filter(p => p.id !== programId);
+      persist(updated);
+      return updated;
+    });
+  }, [persist]);
+
+  const value = useMemo(
+    () => ({ programs, saveProgram, deleteProgram }),
+    [programs, saveProgram, deleteProgram],
+  );
+
+  return (
+    <CustomProgramsContext.Provider value={value}>
+      {children}
+    </CustomProgramsContext.Provider>
+  );
+};
+
+export const useCustomPrograms = () => useContext(CustomProgramsContext);
@@ -1,21 +1,35 @@
 import React, { createContext, useContext, useMemo, useState } from 'react';
+import { DEFAULT_LANGUAGE, Language } from '../i18n/translate';
+import { DEFAULT_TRAINING_HAPTICS, TrainingHapticSettings } from '../utils/trainingHaptics';
 
 export type Preferences = {
   soundsEnabled: boolean;
   hapticsEnabled: boolean;
+  trainingHaptics: TrainingHapticSettings; // Which training events vibrate
   tickEvery10s: boolean;
+  voiceCues: boolean; // Spoken cues where the language has recordings, tones otherwise
   keepAwake: boolean;
+  autoWarmup: boolean; // Add a generated warm-up before programs that don't set autoWarmup
+  autoCooldown: boolean;
+  leadInEnabled: boolean; // 3-2-1 countdown before the first step
+  getReadySec: number; // Countdown before each exercise, 0 for none
   theme: 'light' | 'dark' | 'system';
-  language: 'en' | 'ru';
+  language: Language;
 };
 
 const defaultPrefs: Preferences = {
   soundsEnabled: true,
   hapticsEnabled: true,
+  trainingHaptics: DEFAULT_TRAINING_HAPTICS,
   tickEvery10s: false,
+  voiceCues: true,
   keepAwake: true,
+  autoWarmup: false,
+  autoCooldown: false,
+  leadInEnabled: true,
+  getReadySec: 0,
   theme: 'system',
-  language: 'en',
+  language: DEFAULT_LANGUAGE,
 };
 
 const PreferencesContext = createContext<{
@@ -1,11 +1,20 @@
 import React, { createContext, useContext, useMemo, useState } from 'react';
+import { IntervalFormat } from '../utils/intervalPrograms';
 
 export type Difficulty = 'Light' | 'Easy' | 'Middle' | 'Stunt' | 'Hardcore' | 'Pro';
 
+// 'single' is one continuous exercise; the rest are interval formats
+export type WorkoutFormat = 'single' | IntervalFormat;
+
 export type SessionSetup = {
   typeId: string | null;
   durationMin: 3 | 5 | 10 | number;
   difficulty: Difficulty;
+  format: WorkoutFormat;
+  exerciseIds: string[]; // Interval formats; empty means just typeId
+  workSec: number; // Custom HIIT
+  restSec: number; // Custom HIIT
+  rounds: number; // Custom HIIT
 };
 
 export type SessionState = 'idle' | 'running' | 'paused' | 'completed';
@@ -14,6 +23,11 @@ const defaultSetup: SessionSetup = {
   typeId: null,
   durationMin: 5,
   difficulty: 'Middle',
+  format: 'single',
+  exerciseIds: [],
+  workSec: 40,
+  restSec: 20,
+  rounds: 6,
 };
 
 const SessionContext = createContext<{
@@ -7,8 +7,15 @@ import React, {
   useMemo,
 } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StepResult } from './trainingStateMachine';
+import { SessionTimeline } from './sessionTimeline';
 
 const STORAGE_KEY = '@workout_sessions';
+const TIMELINE_KEY_PREFIX = '@workout_timeline:';
+// Timelines run to thousands of events, so only those of the latest sessions are kept
+export const MAX_STORED_TIMELINES = 20;
+
+const timelineKey = (sessionId: string) => `${TIMELINE_KEY_PREFIX}${sessionId}`;
 
 export interface WorkoutSession {
   id: string;
@@ -16,8 +23,16 @@ export interface WorkoutSession {
   totalElapsedMs: number;
   estimatedCalories: number;
   programTitle: string;
+  stepResults?: StepResult[]; // Per-step reps, load and RPE when logged
+  totalVolumeKg?: number;
+  hasTimeline?: boolean; // Event timeline stored under its own key, read with loadTimeline
 }
 
+// A finished session as reported by the training screens, timeline included
+export type NewWorkoutSession = Omit<WorkoutSession, 'id' | 'hasTimeline'> & {
+  timeline?: SessionTimeline;
+};
+
 export interface WorkoutStats {
   workoutsThisMonth: number;
   totalMinutes: number;
@@ -27,13 +42,49 @@ export interface WorkoutStats {
 
 interface WorkoutHistoryContextType {
   sessions: WorkoutSession[];
-  addSession: (session: Omit<WorkoutSession, 'id'>) => void;
+  addSession: (session: NewWorkoutSession) => void;
+  loadTimeline: (sessionId: string) => Promise<SessionTimeline | null>;
   stats: WorkoutStats;
 }
 
+// Sessions come newest first; timelines past the limit are dropped along with their flag
+export const keepRecentTimelines = (
+  sessions: WorkoutSession[],
+): { sessions: WorkoutSession[]; droppedIds: string[] } => {
+  const droppedIds: string[] = [];
+  let kept = 0;
+  const updated = sessions.map(session => {
+    if (!session.hasTimeline) return session;
+    if (kept < MAX_STORED_TIMELINES) {
+      kept++;
+      return session;
+    }
+    droppedIds.push(session.id);
+    return { ...session, hasTimeline: false };
+  });
+  return { sessions: updated, droppedIds };
+};
+
+const loadTimeline = async (sessionId: string): Promise<SessionTimeline | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(timelineKey(sessionId));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSessions = (sessions: WorkoutSession[], droppedIds: string[]) => {
+  AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(sessions)).catch(() => {});
+  if (droppedIds.length > 0) {
+    AsyncStorage.multiRemove(droppedIds.map(timelineKey)).catch(() => {});
+  }
+};
+
 const WorkoutHistoryContext = createContext<WorkoutHistoryContextType>({
   sessions: [],
   addSession: () => {},
+  loadTimeline: async () => null,
   stats: { workoutsThisMonth: 0, totalMinutes: 0, totalCalories: 0, streakDays: 0 },
 });
 
@@ -46,14 +97,18 @@ export const WorkoutHistoryProvider: React.FC<React.PropsWithChildren> = ({ chil
       .catch(() => {});
   }, []);
 
-  const addSession = useCallback((session: Omit<WorkoutSession, 'id'>) => {
+  const addSession = useCallback(({ timeline, ...session }: NewWorkoutSession) => {
     const newSession: WorkoutSession = {
       ...session,
       id: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
     };
+    if (timeline && timeline.entries.length > 0) {
+      newSession.hasTimeline = true;
+      AsyncStorage.setItem(timelineKey(newSession.id), JSON.stringify(timeline)).catch(() => {});
+    }
     setSessions(prev => {
-      const updated = [newSession, ...prev];
-      AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updated)).catch(() => {});
+      const { sessions: updated, droppedIds } = keepRecentTimelines([newSession, ...prev]);
+      saveSessions(updated, droppedIds);
       return updated;
     });
   }, []);
@@ -91,7 +146,7 @@ export const WorkoutHistoryProvider: React.FC<React.PropsWithChildren> = ({ chil
   }, [sessions]);
 
   const value = useMemo(
-    () => ({ sessions, addSession, stats }),
+    () => ({ sessions, addSession, loadTimeline, stats }),
     [sessions, addSession, stats],
   );
 
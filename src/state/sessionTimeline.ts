@@ -0,0 +1,117 @@
+import {
+  StepSide,
+  TrainingEvent,
+  TrainingSessionState,
+  TrainingState,
+  TransitionKind,
+  trainingReducer
+} from './trainingStateMachine';
+
+// Every event a session went through, stamped and paired with what it led to, so a
+// report like "the timer skipped my rest" can be read back or replayed exactly
+
+export interface TimelineSummary {
+  state: TrainingState;
+  stepIndex: number;
+  side: StepSide | null;
+  transition: TransitionKind | null;
+  remainingMs: number;
+  totalElapsedMs: number;
+  stepResults: number; // How many steps were recorded by then
+}
+
+export interface TimelineEntry {
+  at: number;
+  event: TrainingEvent; // Stamped with the same at
+  summary: TimelineSummary; // State after the event
+}
+
+export interface SessionTimeline {
+  initial: TrainingSessionState; // What the first event was applied to
+  entries: TimelineEntry[];
+}
+
+// A timeline being written. Ticks that only move the countdown are held back and
+// kept only when another event follows, which keeps a 100 ms tick rate out of
+// history while replay still sees the countdown each event saw.
+export interface TimelineRecording {
+  session: TrainingSessionState;
+  initial: TrainingSessionState;
+  entries: TimelineEntry[];
+  pendingTick: TimelineEntry | null;
+}
+
+export const summarizeSession = (session: TrainingSessionState): TimelineSummary => ({
+  state: session.state,
+  stepIndex: session.currentStepIndex,
+  side: session.currentSide,
+  transition: session.transition,
+  remainingMs: session.remainingMs,
+  totalElapsedMs: session.totalElapsedMs,
+  stepResults: session.stepResults.length
+});
+
+const onlyCountdownMoved = (prev: TrainingSessionState, next: TrainingSessionState): boolean =>
+  (Object.keys(next) as (keyof TrainingSessionState)[]).every(
+    key => key === 'remainingMs' || prev[key] === next[key]
+  );
+
+export const startRecording = (initial: TrainingSessionState): TimelineRecording => ({
+  session: initial,
+  initial,
+  entries: [],
+  pendingTick: null
+});
+
+// trainingReducer with a record of the event; events without at are stamped here
+export const recordEvent = (recording: TimelineRecording, event: TrainingEvent): TimelineRecording => {
+  const at = event.at ?? Date.now();
+  const stamped: TrainingEvent = { ...event, at };
+  const session = trainingReducer(recording.session, stamped);
+  const entry: TimelineEntry = { at, event: stamped, summary: summarizeSession(session) };
+
+  if (event.type === 'TICK') {
+    if (session === recording.session) return recording;
+    if (onlyCountdownMoved(recording.session, session)) {
+      return { ...recording, session, pendingTick: entry };
+    }
+  }
+
+  const held = recording.pendingTick ? [recording.pendingTick] : [];
+  return {
+    ...recording,
+    session,
+    entries: [...recording.entries, ...held, entry],
+    pendingTick: null
+  };
+};
+
+export const getTimeline = (recording: TimelineRecording): SessionTimeline => ({
+  initial: recording.initial,
+  entries: recording.pendingTick ? [...recording.entries, recording.pendingTick] : recording.entries
+});
+
+// The session as it stood after the first count entries, all of them by default
+export const replayTimeline = (
+  timeline: SessionTimeline,
+  count: number = timeline.entries.length
+): TrainingSessionState =>
+  timeline.entries
+    .slice(0, count)
+    .reduce((session, entry) => trainingReducer(session, { ...entry.event, at: entry.at }), timeline.initial);
+
+// Index of the first entry whose replay ends up somewhere other than recorded, or
+// null when the whole timeline reproduces
+export const findReplayMismatch = (timeline: SessionTimeline): number | null => {
+  let session = timeline.initial;
+  for (let index = 0; index < timeline.entries.length; index++) {
+    const entry = timeline.entries[index];
+    session = trainingReducer(session, { ...entry.event, at: entry.at });
+    const summary = summarizeSession(session);
+    const matches = (Object.keys(summary) as (keyof TimelineSummary)[]).every(
+      key => summary[key] === entry.summary[key]
+    );
+    if (!matches) return index;
+  }
+  return null;
+};
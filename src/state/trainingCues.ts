@@ -0,0 +1,145 @@
+// Cues for training sessions, for audio and haptics alike
+// Cues are worked out from consecutive reducer states rather than from timers of their
+// own, so they follow the session through pauses, skips, time adjustments and catch-up
+// after the app was in the background. Each subscriber maps them to its own output.
+
+import { TrainingSessionState, selectors } from './trainingStateMachine';
+import { isOpenEndedStep } from '../types/program';
+
+export type TrainingCue =
+  | { type: 'countdown'; seconds: number } // 3-2-1 at the end of a timed step or countdown
+  | { type: 'go' } // An exercise starts
+  | { type: 'rest' } // A rest starts
+  | { type: 'getReady' } // The countdown before an exercise starts
+  | { type: 'stepName'; exerciseId: string }
+  | { type: 'halfway' }
+  | { type: 'tenSecondsLeft' }
+  | { type: 'tick' } // Every 10 seconds, when Preferences.tickEvery10s is on
+  | { type: 'nextUp' } // The next-up banner appears near the end of a step
+  | { type: 'switchSides' }
+  | { type: 'finish' };
+
+export type TrainingCueOptions = {
+  tickEvery10s: boolean;
+};
+
+const COUNTDOWN_FROM_MS = 3000;
+const TEN_SECONDS_MS = 10000;
+const HALFWAY_MIN_DURATION_MS = 30000; // Shorter steps only get the 10 second warning
+const TEN_SECONDS_MIN_DURATION_MS = 20000;
+
+// Identifies one run of a step or of the countdown into it
+const isSameCountdown = (prev: TrainingSessionState, next: TrainingSessionState): boolean =>
+  prev.state !== 'idle' &&
+  prev.currentStepIndex === next.currentStepIndex &&
+  prev.stepStartTime === next.stepStartTime &&
+  prev.transition === next.transition;
+
+const getStartCues = (next: TrainingSessionState, announceName: boolean): TrainingCue[] => {
+  const step = next.currentStep;
+  if (!step) return [];
+  if (step.type === 'rest') return [{ type: 'rest' }];
+  const cues: TrainingCue[] = [{ type: 'go' }];
+  if (announceName && step.exerciseId) {
+    cues.push({ type: 'stepName', exerciseId: step.exerciseId });
+  }
+  return cues;
+};
+
+// Boundaries the remaining time is checked against, each with its cue
+const getMilestones = (
+  next: TrainingSessionState,
+  durationMs: number,
+  options: TrainingCueOptions
+): Array<[number, TrainingCue]> => {
+  const milestones: Array<[number, TrainingCue]> = [];
+  for (let seconds = 1; seconds * 1000 <= COUNTDOWN_FROM_MS; seconds++) {
+    milestones.push([seconds * 1000, { type: 'countdown', seconds }]);
+  }
+  if (next.transition) return milestones;
+
+  if (durationMs >= TEN_SECONDS_MIN_DURATION_MS) {
+    milestones.push([TEN_SECONDS_MS, { type: 'tenSecondsLeft' }]);
+  }
+  // A per-side step switches sides halfway, which has its own cue
+  const step = next.currentStep;
+  const announceHalfway =
+    step?.type === 'exercise' && !step.perSide && durationMs >= HALFWAY_MIN_DURATION_MS;
+  if (announceHalfway) {
+    milestones.push([durationMs / 2, { type: 'halfway' }]);
+  }
+  if (options.tickEvery10s) {
+    for (let boundaryMs = 2 * TEN_SECONDS_MS; boundaryMs < durationMs; boundaryMs += TEN_SECONDS_MS) {
+      if (!announceHalfway || boundaryMs !== durationMs / 2) {
+        milestones.push([boundaryMs, { type: 'tick' }]);
+      }
+    }
+  }
+  return milestones;
+};
+
+// Cues due between two consecutive reducer states
+export function getTrainingCues(
+  prev: TrainingSessionState,
+  next: TrainingSessionState,
+  options: TrainingCueOptions
+): TrainingCue[] {
+  if (next.state === 'finished') {
+    return prev.state === 'finished' ? [] : [{ type: 'finish' }];
+  }
+  if (next.state !== 'running' || !next.currentStep) return [];
+
+  const durationMs = selectors.getCountdownDurationMs(next);
+  const isTimed = next.transition !== null || !isOpenEndedStep(next.currentStep);
+
+  if (!isSameCountdown(prev, next)) {
+    const countdownEnded =
+      prev.transition !== null &&
+      next.transition === null &&
+      prev.currentStepIndex === next.currentStepIndex;
+    if (countdownEnded) {
+      // The name was given when the countdown began, unless it was too short to fit
+      return getStartCues(next, selectors.getCountdownDurationMs(prev) <= COUNTDOWN_FROM_MS);
+    }
+
+    // A step, or the countdown into it, begins: a new step, START, RESTORE, CATCH_UP,
+    // going back or a restart
+    const cues: TrainingCue[] = [];
+    const step = next.currentStep;
+    if (next.transition) {
+      if (next.transition === 'getReady') {
+        cues.push({ type: 'getReady' });
+      }
+      if (step.type === 'exercise' && step.exerciseId && durationMs > COUNTDOWN_FROM_MS) {
+        cues.push({ type: 'stepName', exerciseId: step.exerciseId });
+      }
+    } else {
+      cues.push(...getStartCues(next, true));
+    }
+    // A countdown no longer than the 3-2-1 starts on its first number
+    if (isTimed && next.remainingMs > 0 && next.remainingMs <= COUNTDOWN_FROM_MS) {
+      cues.push({ type: 'countdown', seconds: Math.ceil(next.remainingMs / 1000) });
+    }
+    return cues;
+  }
+
+  const cues: TrainingCue[] = [];
+  if (prev.currentSide === 'left' && next.currentSide === 'right') {
+    cues.push({ type: 'switchSides' });
+  }
+  if (!prev.showNextUpBanner && next.showNextUpBanner) {
+    cues.push({ type: 'nextUp' });
+  }
+
+  // Time taken off a step jumps past milestones rather than reaching them
+  if (!isTimed || next.extensionMs !== prev.extensionMs) return cues;
+
+  // After a stall several milestones can pass in one update; only the latest still applies
+  const crossed = getMilestones(next, durationMs, options)
+    .filter(([boundaryMs]) => prev.remainingMs > boundaryMs && next.remainingMs <= boundaryMs)
+    .sort(([a], [b]) => a - b);
+  if (crossed.length > 0) {
+    cues.push(crossed[0][1]);
+  }
+  return cues;
+}
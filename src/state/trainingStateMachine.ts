@@ -1,4 +1,14 @@
-import { Program, Step } from '../types/program';
+import {
+  BlockType,
+  ExerciseStep,
+  Program,
+  Step,
+  getSideTargetReps,
+  isOpenEndedStep,
+  isPerSideStep,
+  isRepBasedStep,
+  isStopwatchStep
+} from '../types/program';
 
 // Training session state types
 export type TrainingState = 
@@ -8,18 +18,38 @@ export type TrainingState =
   | 'finished'
   | 'exited';
 
-export type TrainingEvent = 
-  | { type: 'START'; program: Program }
-  | { type: 'TICK'; remainingMs: number }
+// Countdown into a step that has not started yet: the 3-2-1 lead-in before the
+// first step, or the "get ready" phase before an exercise
+export type TransitionKind = 'leadIn' | 'getReady';
+
+export const LEAD_IN_SEC = 3;
+
+type TrainingEventPayload =
+  | { type: 'START'; program: Program; leadInSec?: number; getReadySec?: number } // Countdowns are off by default
+  | { type: 'RESTORE'; session: TrainingSessionState } // Saved session from a previous launch
+  | { type: 'CATCH_UP' } // Account for time that passed without ticks, e.g. in the background
+  | { type: 'TICK'; remainingMs: number; stepIndex?: number } // stepIndex drops ticks meant for an earlier step
   | { type: 'PAUSE' }
   | { type: 'RESUME' }
   | { type: 'NEXT_STEP' }
+  | { type: 'PREVIOUS_STEP' } // Back to the start of the previous step, or of the first one
+  | { type: 'RESTART_STEP' }
+  | { type: 'COMPLETE_REPS'; actualReps?: number }
+  | { type: 'STOP_STOPWATCH' } // Ends a stopwatch step, or its first side
+  | { type: 'COUNT_ROUND' }
+  | { type: 'SWAP_EXERCISE'; step: ExerciseStep } // Replacement for the current exercise step
+  | { type: 'LOG_STEP_RESULT'; stepIndex: number; log: StepLog }
   | { type: 'SKIP_REST' }
-  | { type: 'ADD_TEN_SECONDS' }
+  | { type: 'ADJUST_TIME'; seconds: number } // Negative takes time off the current step
   | { type: 'EXIT' }
   | { type: 'COMPLETE' }
   | { type: 'RESET' };
 
+// at is when the event happened, in ms since the epoch. Events that carry it reduce
+// the same way every time, so a recorded session can be replayed exactly; without
+// it the event is taken to happen when it is reduced.
+export type TrainingEvent = TrainingEventPayload & { at?: number };
+
 export interface StepResult {
   stepId: string;
   stepIndex: number;
@@ -28,9 +58,36 @@ export interface StepResult {
   actualElapsedSec: number;
   wasSkipped: boolean;
   wasExtended: boolean;
-  extensionSec: number;
+  extensionSec: number; // Net time added, negative if the step was shortened
+  actualReps?: number;
+  loadKg?: number;
+  rpe?: number; // Rate of perceived exertion, 1-10
+  roundsCompleted?: number; // Rounds counted on an AMRAP step
+  achievedSec?: number; // Time a stopwatch step was held for, to 0.1s; absent if skipped
+  substitution?: StepSubstitution;
+  sides?: SideResult[]; // Per-side steps, in the order performed
+  transitionSec?: number; // Countdown before the step, not part of actualElapsedSec
+}
+
+export type StepSide = 'left' | 'right';
+
+export interface SideResult {
+  side: StepSide;
+  elapsedSec: number;
+  actualReps?: number;
 }
 
+// Exercise swapped in during the session in place of the planned one
+export interface StepSubstitution {
+  fromExerciseId?: string;
+  fromTitle: string;
+  toExerciseId?: string;
+  toTitle: string;
+}
+
+// What the user logs after an exercise step
+export type StepLog = Pick<StepResult, 'actualReps' | 'loadKg' | 'rpe'>;
+
 export interface TrainingSessionState {
   state: TrainingState;
   program: Program | null;
@@ -38,19 +95,29 @@ export interface TrainingSessionState {
   currentStep: Step | null;
   remainingMs: number;
   totalElapsedMs: number;
-  stepStartTime: number | null;
+  stepStartTime: number | null; // When the current step, or its countdown, began
   pausedAt: number | null;
   pausedDurationMs: number;
+  extensionMs: number; // Time added to the current step, negative if taken off
+  transition: TransitionKind | null; // Counting down into the current step
+  transitionMs: number; // Time the current step's countdown took
+  totalTransitionMs: number; // Countdown time, kept out of totalElapsedMs
+  leadInSec: number;
+  getReadySec: number;
   showNextUpBanner: boolean;
   nextUpStep: Step | null;
   isLastStep: boolean;
   stepResults: StepResult[];
+  roundsCompleted: number; // Rounds counted on the current step
+  substitution: StepSubstitution | null; // Swap made on the current step
+  currentSide: StepSide | null; // Side being worked on a per-side step
+  sideResults: SideResult[]; // Finished sides of the current step
   soundsEnabled: boolean;
   vibrationsEnabled: boolean;
   error: string | null;
 }
 
-const initialState: TrainingSessionState = {
+export const initialTrainingState: TrainingSessionState = {
   state: 'idle',
   program: null,
   currentStepIndex: 0,
@@ -60,10 +127,20 @@ const initialState: TrainingSessionState = {
   stepStartTime: null,
   pausedAt: null,
   pausedDurationMs: 0,
+  extensionMs: 0,
+  transition: null,
+  transitionMs: 0,
+  totalTransitionMs: 0,
+  leadInSec: 0,
+  getReadySec: 0,
   showNextUpBanner: false,
   nextUpStep: null,
   isLastStep: false,
   stepResults: [],
+  roundsCompleted: 0,
+  substitution: null,
+  currentSide: null,
+  sideResults: [],
   soundsEnabled: true,
   vibrationsEnabled: true,
   error: null
@@ -73,11 +150,11 @@ const initialState: TrainingSessionState = {
 const getCurrentTimeMs = (): number => Date.now();
 
 const calculateRemainingTime = (
+  now: number,
   stepStartTime: number,
   stepDurationMs: number,
   pausedDurationMs: number
 ): number => {
-  const now = getCurrentTimeMs();
   const elapsed = now - stepStartTime - pausedDurationMs;
   return Math.max(0, stepDurationMs - elapsed);
 };
@@ -86,6 +163,30 @@ const shouldShowNextUpBanner = (remainingMs: number): boolean => {
   return remainingMs <= 5000 && remainingMs > 0; // Show at T-5s
 };
 
+// The step's planned duration with any adjustments made during it
+const getStepDurationMs = (state: TrainingSessionState): number =>
+  state.currentStep ? state.currentStep.durationSec * 1000 + state.extensionMs : 0;
+
+const getExtensionSec = (state: TrainingSessionState): number => Math.round(state.extensionMs / 1000);
+
+const getTransitionDurationMs = (state: TrainingSessionState, transition: TransitionKind): number =>
+  (transition === 'leadIn' ? state.leadInSec : state.getReadySec) * 1000;
+
+// Length of whatever is counting down: the current countdown, or else the step
+const getCountdownDurationMs = (state: TrainingSessionState): number =>
+  state.transition ? getTransitionDurationMs(state, state.transition) : getStepDurationMs(state);
+
+// The lead-in only runs when the session starts; get ready runs before every exercise
+const getTransitionBefore = (
+  state: TrainingSessionState,
+  step: Step,
+  isSessionStart: boolean
+): TransitionKind | null => {
+  if (isSessionStart && state.leadInSec > 0) return 'leadIn';
+  if (step.type === 'exercise' && state.getReadySec > 0) return 'getReady';
+  return null;
+};
+
 const getNextStep = (program: Program, currentIndex: number): Step | null => {
   const nextIndex = currentIndex + 1;
   return nextIndex < program.steps.length ? program.steps[nextIndex] : null;
@@ -96,7 +197,8 @@ const createStepResult = (
   stepIndex: number,
   actualElapsedMs: number,
   wasSkipped: boolean = false,
-  extensionSec: number = 0
+  extensionSec: number = 0,
+  actualReps?: number
 ): StepResult => ({
   stepId: step.id,
   stepIndex,
@@ -105,14 +207,252 @@ const createStepResult = (
   actualElapsedSec: Math.round(actualElapsedMs / 1000),
   wasSkipped,
   wasExtended: extensionSec > 0,
-  extensionSec
+  extensionSec,
+  ...(actualReps !== undefined ? { actualReps } : {}),
+  ...(step.type === 'exercise' && step.loadKg !== undefined ? { loadKg: step.loadKg } : {})
+});
+
+const MIN_RPE = 1;
+const MAX_RPE = 10;
+
+// Drop invalid values instead of storing them
+const sanitizeStepLog = (log: StepLog): StepLog => {
+  const sanitized: StepLog = {};
+  if (log.actualReps !== undefined && Number.isFinite(log.actualReps)) {
+    sanitized.actualReps = Math.max(0, Math.round(log.actualReps));
+  }
+  if (log.loadKg !== undefined && Number.isFinite(log.loadKg)) {
+    sanitized.loadKg = Math.max(0, log.loadKg);
+  }
+  if (log.rpe !== undefined && Number.isFinite(log.rpe)) {
+    sanitized.rpe = Math.min(MAX_RPE, Math.max(MIN_RPE, Math.round(log.rpe)));
+  }
+  return sanitized;
+};
+
+// Logs reps, load or RPE onto an exercise's result; unchanged if the step has none yet
+export const applyStepLog = (
+  stepResults: StepResult[],
+  stepIndex: number,
+  log: StepLog
+): StepResult[] => {
+  const resultIndex = stepResults.findIndex(
+    result => result.stepIndex === stepIndex && result.type === 'exercise'
+  );
+  if (resultIndex === -1) return stepResults;
+  
+  const updated = [...stepResults];
+  updated[resultIndex] = {
+    ...updated[resultIndex],
+    ...sanitizeStepLog(log)
+  };
+  return updated;
+};
+
+const firstSide = (step: Step): StepSide | null => (isPerSideStep(step) ? 'left' : null);
+
+const sumSides = (sides: SideResult[], key: 'elapsedSec' | 'actualReps'): number =>
+  sides.reduce((sum, side) => sum + (side[key] ?? 0), 0);
+
+// The side in progress gets whatever the finished sides did not account for
+const completeSides = (state: TrainingSessionState, stepResult: StepResult): SideResult[] | undefined => {
+  if (!state.currentSide) return undefined;
+  const lastSide: SideResult = {
+    side: state.currentSide,
+    elapsedSec: Math.max(0, stepResult.actualElapsedSec - sumSides(state.sideResults, 'elapsedSec'))
+  };
+  if (stepResult.actualReps !== undefined) {
+    lastSide.actualReps = Math.max(0, stepResult.actualReps - sumSides(state.sideResults, 'actualReps'));
+  }
+  return [...state.sideResults, lastSide];
+};
+
+// Close the first side of a per-side step and start on the other one
+const switchSide = (state: TrainingSessionState, actualElapsedMs: number, actualReps?: number): TrainingSessionState => ({
+  ...state,
+  currentSide: 'right',
+  sideResults: [{
+    side: 'left',
+    elapsedSec: Math.round(actualElapsedMs / 1000),
+    ...(actualReps !== undefined ? { actualReps } : {})
+  }]
+});
+
+// Put a step up as the current one, behind its countdown if it has one
+const enterStep = (
+  state: TrainingSessionState,
+  program: Program,
+  stepIndex: number,
+  now: number,
+  transition: TransitionKind | null
+): TrainingSessionState => {
+  const step = program.steps[stepIndex];
+  
+  return {
+    ...state,
+    program,
+    currentStepIndex: stepIndex,
+    currentStep: step,
+    remainingMs: transition ? getTransitionDurationMs(state, transition) : step.durationSec * 1000,
+    stepStartTime: now,
+    pausedDurationMs: 0,
+    extensionMs: 0,
+    transition,
+    transitionMs: 0,
+    showNextUpBanner: false,
+    nextUpStep: getNextStep(program, stepIndex),
+    isLastStep: stepIndex === program.steps.length - 1,
+    roundsCompleted: 0,
+    currentSide: firstSide(step),
+    sideResults: []
+  };
+};
+
+// The countdown is over and the step itself starts
+const endTransition = (
+  state: TrainingSessionState,
+  transitionMs: number,
+  stepStartTime: number
+): TrainingSessionState => ({
+  ...state,
+  transition: null,
+  transitionMs,
+  totalTransitionMs: state.totalTransitionMs + transitionMs,
+  remainingMs: getStepDurationMs(state),
+  stepStartTime,
+  pausedDurationMs: 0
 });
 
+// Record the finished step and move to the next one, or finish the program
+const advanceStep = (
+  state: TrainingSessionState,
+  program: Program,
+  stepResult: StepResult,
+  actualElapsedMs: number,
+  nextStepStartTime: number
+): TrainingSessionState => {
+  const nextStepIndex = state.currentStepIndex + 1;
+  
+  const result: StepResult = {
+    ...stepResult,
+    ...(state.currentStep?.type === 'exercise' && state.currentStep.roundCounter
+      ? { roundsCompleted: state.roundsCompleted }
+      : {}),
+    ...(state.substitution ? { substitution: state.substitution } : {}),
+    ...(state.transitionMs > 0 ? { transitionSec: Math.round(state.transitionMs / 1000) } : {})
+  };
+  const sides = completeSides(state, stepResult);
+  if (sides) {
+    result.sides = sides;
+  }
+  
+  if (nextStepIndex >= program.steps.length) {
+    // Program complete
+    return {
+      ...state,
+      state: 'finished',
+      remainingMs: 0,
+      showNextUpBanner: false,
+      stepResults: [...state.stepResults, result],
+      roundsCompleted: 0,
+      substitution: null,
+      extensionMs: 0,
+      transitionMs: 0,
+      currentSide: null,
+      sideResults: [],
+      totalElapsedMs: state.totalElapsedMs + actualElapsedMs
+    };
+  }
+  
+  // Move to next step
+  const nextStep = program.steps[nextStepIndex];
+  
+  return {
+    ...enterStep(state, program, nextStepIndex, nextStepStartTime, getTransitionBefore(state, nextStep, false)),
+    stepResults: [...state.stepResults, result],
+    substitution: null,
+    totalElapsedMs: state.totalElapsedMs + actualElapsedMs
+  };
+};
+
+// Start a step over from the top, countdown included. A paused session stays paused,
+// and time already spent on the step being left still counts toward the session total.
+const restartStep = (
+  state: TrainingSessionState,
+  program: Program,
+  stepIndex: number,
+  now: number
+): TrainingSessionState => {
+  const spentMs = selectors.getStepElapsedMs(state, now);
+  
+  return {
+    ...enterStep(state, program, stepIndex, now, getTransitionBefore(state, program.steps[stepIndex], false)),
+    pausedAt: state.pausedAt !== null ? now : null,
+    ...(state.transition
+      ? { totalTransitionMs: state.totalTransitionMs + spentMs }
+      : { totalElapsedMs: state.totalElapsedMs + spentMs })
+  };
+};
+
+// Close every timed step that ran out since the last tick, each at the moment it
+// ended, so the following step starts on time rather than when ticking resumes
+const catchUp = (state: TrainingSessionState, now: number): TrainingSessionState => {
+  let current = state;
+  
+  while (
+    current.state === 'running' &&
+    current.program &&
+    current.currentStep &&
+    current.stepStartTime &&
+    (current.transition || !isOpenEndedStep(current.currentStep))
+  ) {
+    if (current.transition) {
+      const transitionMs = getTransitionDurationMs(current, current.transition);
+      const elapsedMs = now - current.stepStartTime - current.pausedDurationMs;
+      if (elapsedMs < transitionMs) {
+        return { ...current, remainingMs: transitionMs - elapsedMs };
+      }
+      current = endTransition(current, transitionMs, current.stepStartTime + current.pausedDurationMs + transitionMs);
+      continue;
+    }
+    
+    const stepDurationMs = getStepDurationMs(current);
+    const elapsedMs = now - current.stepStartTime - current.pausedDurationMs;
+    
+    if (current.currentSide === 'left' && elapsedMs >= stepDurationMs / 2) {
+      current = switchSide(current, stepDurationMs / 2);
+      continue;
+    }
+    if (elapsedMs < stepDurationMs) {
+      const remainingMs = calculateRemainingTime(now, current.stepStartTime, stepDurationMs, current.pausedDurationMs);
+      return {
+        ...current,
+        remainingMs,
+        showNextUpBanner: shouldShowNextUpBanner(remainingMs)
+      };
+    }
+    
+    const stepEndTime = current.stepStartTime + current.pausedDurationMs + stepDurationMs;
+    const stepResult = createStepResult(
+      current.currentStep,
+      current.currentStepIndex,
+      stepDurationMs,
+      false,
+      getExtensionSec(current)
+    );
+    current = advanceStep(current, current.program, stepResult, stepDurationMs, stepEndTime);
+  }
+  
+  return current;
+};
+
 // State machine reducer
 export const trainingReducer = (
   state: TrainingSessionState,
   event: TrainingEvent
 ): TrainingSessionState => {
+  const now = event.at ?? getCurrentTimeMs();
+  
   switch (event.type) {
     case 'START': {
       const { program } = event;
@@ -125,74 +465,89 @@ export const trainingReducer = (
         };
       }
       
-      const now = getCurrentTimeMs();
-      const stepDurationMs = firstStep.durationSec * 1000;
-      
-      return {
+      const started: TrainingSessionState = {
         ...state,
         state: 'running',
-        program,
-        currentStepIndex: 0,
-        currentStep: firstStep,
-        remainingMs: stepDurationMs,
         totalElapsedMs: 0,
-        stepStartTime: now,
+        totalTransitionMs: 0,
+        leadInSec: event.leadInSec ?? 0,
+        getReadySec: event.getReadySec ?? 0,
         pausedAt: null,
-        pausedDurationMs: 0,
-        showNextUpBanner: false,
-        nextUpStep: getNextStep(program, 0),
-        isLastStep: program.steps.length === 1,
         stepResults: [],
+        substitution: null,
         error: null
       };
+      
+      return enterStep(started, program, 0, now, getTransitionBefore(started, firstStep, true));
+    }
+    
+    case 'RESTORE': {
+      if (!event.session.program || !event.session.currentStep) return state;
+      
+      // Fields added since the session was saved start at their defaults
+      return catchUp({ ...initialTrainingState, ...event.session }, now);
+    }
+    
+    case 'CATCH_UP': {
+      return catchUp(state, now);
     }
     
     case 'TICK': {
-      if (state.state !== 'running' || !state.program || !state.currentStep || !state.stepStartTime) {
+      if (
+        state.state !== 'running' ||
+        !state.program ||
+        !state.currentStep ||
+        !state.stepStartTime ||
+        (event.stepIndex !== undefined && event.stepIndex !== state.currentStepIndex)
+      ) {
         return state;
       }
       
       const { remainingMs } = event;
+      
+      if (state.transition) {
+        return remainingMs <= 0
+          ? endTransition(state, now - state.stepStartTime - state.pausedDurationMs, now)
+          : { ...state, remainingMs };
+      }
+      
+      // Rep-based and stopwatch steps have no countdown; the user ends them
+      if (isOpenEndedStep(state.currentStep)) {
+        return {
+          ...state,
+          remainingMs,
+          showNextUpBanner: false
+        };
+      }
+      
       const shouldShowBanner = shouldShowNextUpBanner(remainingMs);
       
+      // Halfway through a timed per-side step, switch to the other side
+      if (
+        state.currentSide === 'left' &&
+        remainingMs > 0 &&
+        remainingMs <= getStepDurationMs(state) / 2
+      ) {
+        const actualElapsedMs = now - state.stepStartTime - state.pausedDurationMs;
+        return {
+          ...switchSide(state, actualElapsedMs),
+          remainingMs,
+          showNextUpBanner: shouldShowBanner
+        };
+      }
+      
       // Check if step is complete
       if (remainingMs <= 0) {
-        const actualElapsedMs = getCurrentTimeMs() - state.stepStartTime - state.pausedDurationMs;
-        const stepResult = createStepResult(state.currentStep, state.currentStepIndex, actualElapsedMs);
+        const actualElapsedMs = now - state.stepStartTime - state.pausedDurationMs;
+        const stepResult = createStepResult(
+          state.currentStep,
+          state.currentStepIndex,
+          actualElapsedMs,
+          false,
+          getExtensionSec(state)
+        );
         
-        // Move to next step or finish
-        const nextStepIndex = state.currentStepIndex + 1;
-        
-        if (nextStepIndex >= state.program.steps.length) {
-          // Program complete
-          return {
-            ...state,
-            state: 'finished',
-            remainingMs: 0,
-            showNextUpBanner: false,
-            stepResults: [...state.stepResults, stepResult],
-            totalElapsedMs: state.totalElapsedMs + actualElapsedMs
-          };
-        }
-        
-        // Move to next step
-        const nextStep = state.program.steps[nextStepIndex];
-        const now = getCurrentTimeMs();
-        const nextStepDurationMs = nextStep.durationSec * 1000;
-        
-        return {
-          ...state,
-          currentStepIndex: nextStepIndex,
-          currentStep: nextStep,
-          remainingMs: nextStepDurationMs,
-          stepStartTime: now,
-          pausedDurationMs: 0,
-          showNextUpBanner: false,
-          nextUpStep: getNextStep(state.program, nextStepIndex),
-          isLastStep: nextStepIndex === state.program.steps.length - 1,
-          stepResults: [...state.stepResults, stepResult],
-          totalElapsedMs: state.totalElapsedMs + actualElapsedMs
-        };
+        return advanceStep(state, state.program, stepResult, actualElapsedMs, now);
       }
       
       return {
@@ -208,14 +563,14 @@ export const trainingReducer = (
       return {
         ...state,
         state: 'paused',
-        pausedAt: getCurrentTimeMs()
+        pausedAt: now
       };
     }
     
     case 'RESUME': {
       if (state.state !== 'paused' || !state.pausedAt) return state;
       
-      const pauseDuration = getCurrentTimeMs() - state.pausedAt;
+      const pauseDuration = now - state.pausedAt;
       
       return {
         ...state,
@@ -230,38 +585,173 @@ export const trainingReducer = (
         return state;
       }
       
-      const actualElapsedMs = getCurrentTimeMs() - state.stepStartTime - state.pausedDurationMs;
-      const stepResult = createStepResult(state.currentStep, state.currentStepIndex, actualElapsedMs, true);
+      const actualElapsedMs = now - state.stepStartTime - state.pausedDurationMs;
+      // During a countdown, Next starts the step right away
+      if (state.transition) {
+        return endTransition(state, actualElapsedMs, now);
+      }
       
-      const nextStepIndex = state.currentStepIndex + 1;
+      const stepResult = createStepResult(
+        state.currentStep,
+        state.currentStepIndex,
+        actualElapsedMs,
+        true,
+        getExtensionSec(state)
+      );
       
-      if (nextStepIndex >= state.program.steps.length) {
-        return {
-          ...state,
-          state: 'finished',
-          remainingMs: 0,
-          showNextUpBanner: false,
-          stepResults: [...state.stepResults, stepResult],
-          totalElapsedMs: state.totalElapsedMs + actualElapsedMs
-        };
+      return advanceStep(state, state.program, stepResult, actualElapsedMs, now);
+    }
+    
+    case 'PREVIOUS_STEP': {
+      if ((state.state !== 'running' && state.state !== 'paused') || !state.program || !state.currentStep) {
+        return state;
+      }
+      if (state.currentStepIndex === 0) {
+        return restartStep(state, state.program, 0, now);
+      }
+      
+      // The previous step is done again from scratch; its result is recorded when it ends
+      const previousIndex = state.currentStepIndex - 1;
+      const previousResult = state.stepResults.find(result => result.stepIndex === previousIndex);
+      
+      return {
+        ...restartStep(state, state.program, previousIndex, now),
+        stepResults: state.stepResults.filter(result => result.stepIndex !== previousIndex),
+        substitution: previousResult?.substitution ?? null
+      };
+    }
+    
+    case 'RESTART_STEP': {
+      if ((state.state !== 'running' && state.state !== 'paused') || !state.program || !state.currentStep) {
+        return state;
+      }
+      
+      return restartStep(state, state.program, state.currentStepIndex, now);
+    }
+    
+    case 'COMPLETE_REPS': {
+      if (
+        state.state !== 'running' ||
+        !state.program ||
+        !isRepBasedStep(state.currentStep) ||
+        !state.stepStartTime ||
+        state.transition
+      ) {
+        return state;
+      }
+      
+      const actualElapsedMs = now - state.stepStartTime - state.pausedDurationMs;
+      
+      // Done on the first side only switches sides; reps are reported per side
+      if (state.currentSide === 'left') {
+        const sideReps = Math.max(0, event.actualReps ?? getSideTargetReps(state.currentStep) ?? 0);
+        return switchSide(state, actualElapsedMs, sideReps);
+      }
+      
+      const finishedReps = sumSides(state.sideResults, 'actualReps');
+      const defaultReps = state.currentSide
+        ? getSideTargetReps(state.currentStep)
+        : state.currentStep.targetReps;
+      const actualReps = finishedReps + Math.max(0, event.actualReps ?? defaultReps ?? 0);
+      const stepResult = createStepResult(
+        state.currentStep,
+        state.currentStepIndex,
+        actualElapsedMs,
+        false,
+        0,
+        actualReps
+      );
+      
+      return advanceStep(state, state.program, stepResult, actualElapsedMs, now);
+    }
+    
+    case 'STOP_STOPWATCH': {
+      if (
+        state.state !== 'running' ||
+        !state.program ||
+        !isStopwatchStep(state.currentStep) ||
+        !state.stepStartTime ||
+        state.transition
+      ) {
+        return state;
       }
       
-      const nextStep = state.program.steps[nextStepIndex];
-      const now = getCurrentTimeMs();
-      const nextStepDurationMs = nextStep.durationSec * 1000;
+      const actualElapsedMs = now - state.stepStartTime - state.pausedDurationMs;
+      
+      // Stopping the first side only switches sides; the time keeps running for the step
+      if (state.currentSide === 'left') {
+        return switchSide(state, actualElapsedMs);
+      }
+      
+      const stepResult: StepResult = {
+        ...createStepResult(state.currentStep, state.currentStepIndex, actualElapsedMs),
+        achievedSec: Math.round(actualElapsedMs / 100) / 10
+      };
+      
+      return advanceStep(state, state.program, stepResult, actualElapsedMs, now);
+    }
+    
+    case 'COUNT_ROUND': {
+      if (
+        state.state !== 'running' ||
+        state.currentStep?.type !== 'exercise' ||
+        !state.currentStep.roundCounter ||
+        state.transition
+      ) {
+        return state;
+      }
       
       return {
         ...state,
-        currentStepIndex: nextStepIndex,
-        currentStep: nextStep,
-        remainingMs: nextStepDurationMs,
-        stepStartTime: now,
-        pausedDurationMs: 0,
-        showNextUpBanner: false,
-        nextUpStep: getNextStep(state.program, nextStepIndex),
-        isLastStep: nextStepIndex === state.program.steps.length - 1,
-        stepResults: [...state.stepResults, stepResult],
-        totalElapsedMs: state.totalElapsedMs + actualElapsedMs
+        roundsCompleted: state.roundsCompleted + 1
+      };
+    }
+    
+    case 'SWAP_EXERCISE': {
+      const { currentStep, program } = state;
+      if (
+        (state.state !== 'running' && state.state !== 'paused') ||
+        !program ||
+        currentStep?.type !== 'exercise'
+      ) {
+        return state;
+      }
+      
+      // The step keeps its slot and id; only what is performed changes
+      const step: ExerciseStep = { ...event.step, id: currentStep.id, blockPath: currentStep.blockPath };
+      const original = state.substitution
+        ? { exerciseId: state.substitution.fromExerciseId, title: state.substitution.fromTitle }
+        : { exerciseId: currentStep.exerciseId, title: currentStep.title };
+      const isOriginal = original.exerciseId
+        ? step.exerciseId === original.exerciseId
+        : step.title === original.title;
+      const steps = [...program.steps];
+      steps[state.currentStepIndex] = step;
+      
+      return {
+        ...state,
+        program: { ...program, steps },
+        currentStep: step,
+        // A swap to or from a per-side exercise restarts side tracking
+        ...(!!step.perSide !== !!currentStep.perSide
+          ? { currentSide: firstSide(step), sideResults: [] }
+          : {}),
+        substitution: isOriginal ? null : {
+          fromExerciseId: original.exerciseId,
+          fromTitle: original.title,
+          toExerciseId: step.exerciseId,
+          toTitle: step.title
+        }
+      };
+    }
+    
+    case 'LOG_STEP_RESULT': {
+      const stepResults = applyStepLog(state.stepResults, event.stepIndex, event.log);
+      if (stepResults === state.stepResults) return state;
+      
+      return {
+        ...state,
+        stepResults
       };
     }
     
@@ -271,17 +761,30 @@ export const trainingReducer = (
       }
       
       // Trigger next step immediately
-      return trainingReducer(state, { type: 'NEXT_STEP' });
+      return trainingReducer(state, { type: 'NEXT_STEP', at: now });
     }
     
-    case 'ADD_TEN_SECONDS': {
-      if (state.state !== 'running' || !state.currentStep || state.currentStep.type !== 'rest') {
+    case 'ADJUST_TIME': {
+      // Rep-based and stopwatch steps have no countdown to adjust, and countdowns into a
+      // step have a set length
+      if (
+        (state.state !== 'running' && state.state !== 'paused') ||
+        !state.currentStep ||
+        isOpenEndedStep(state.currentStep) ||
+        state.transition
+      ) {
         return state;
       }
       
+      // Taking off more than is left just ends the step on the next tick
+      const adjustmentMs = Math.max(event.seconds * 1000, -state.remainingMs);
+      const remainingMs = state.remainingMs + adjustmentMs;
+      
       return {
         ...state,
-        remainingMs: state.remainingMs + 10000 // Add 10 seconds
+        remainingMs,
+        extensionMs: state.extensionMs + adjustmentMs,
+        showNextUpBanner: shouldShowNextUpBanner(remainingMs)
       };
     }
     
@@ -302,7 +805,7 @@ export const trainingReducer = (
     }
     
     case 'RESET': {
-      return initialState;
+      return initialTrainingState;
     }
     
     default:
@@ -312,16 +815,51 @@ export const trainingReducer = (
 
 // Selectors
 export const selectors = {
-  getCurrentProgress: (state: TrainingSessionState): number => {
+  // Count-up time for rep-based and stopwatch steps, which have no countdown
+  getStepElapsedMs: (state: TrainingSessionState, now: number = getCurrentTimeMs()): number => {
+    if (!state.stepStartTime) return 0;
+    const pausedMs = state.pausedAt ? now - state.pausedAt : 0;
+    return Math.max(0, now - state.stepStartTime - state.pausedDurationMs - pausedMs);
+  },
+  
+  // Most recent exercise result, offered for logging during the following rest
+  getLoggableResult: (state: TrainingSessionState): StepResult | null => {
+    if (state.currentStep?.type !== 'rest') return null;
+    const lastResult = state.stepResults[state.stepResults.length - 1];
+    return lastResult && lastResult.type === 'exercise' ? lastResult : null;
+  },
+  
+  // Training volume: sum of reps x load over logged exercise steps
+  getTotalVolumeKg: (stepResults: StepResult[]): number =>
+    stepResults.reduce(
+      (sum, result) => sum + (result.actualReps ?? 0) * (result.loadKg ?? 0),
+      0
+    ),
+  
+  // Planned duration of the current step with any time added or taken off
+  getStepDurationMs,
+  
+  // What remainingMs counts down from: the countdown into the step while it runs
+  getCountdownDurationMs,
+  
+  // Progress of the step, or of its countdown while that runs. A stopwatch step fills
+  // toward its target time and stays empty without one.
+  getCurrentProgress: (state: TrainingSessionState, now: number = getCurrentTimeMs()): number => {
     if (!state.currentStep) return 0;
-    const stepDurationMs = state.currentStep.durationSec * 1000;
+    if (!state.transition && isStopwatchStep(state.currentStep)) {
+      const { targetSec } = state.currentStep;
+      return targetSec ? Math.min(1, selectors.getStepElapsedMs(state, now) / (targetSec * 1000)) : 0;
+    }
+    const stepDurationMs = getCountdownDurationMs(state);
+    if (stepDurationMs <= 0) return 1; // All of its time was taken off
     const elapsedMs = stepDurationMs - state.remainingMs;
     return Math.min(1, Math.max(0, elapsedMs / stepDurationMs));
   },
   
   getTotalProgress: (state: TrainingSessionState): number => {
     if (!state.program) return 0;
-    return (state.currentStepIndex + selectors.getCurrentProgress(state)) / state.program.steps.length;
+    const stepProgress = state.transition ? 0 : selectors.getCurrentProgress(state);
+    return (state.currentStepIndex + stepProgress) / state.program.steps.length;
   },
   
   getFormattedTime: (ms: number): string => {
@@ -338,5 +876,18 @@ export const selectors = {
   
   shouldPlayStepCompleteSound: (remainingMs: number): boolean => {
     return remainingMs <= 0;
+  },
+  
+  // e.g. "Round 2/4" or "Round 2/4 · Set 1/3" for a superset inside a circuit
+  // labels lets screens pass translated words for rounds and superset sets
+  getBlockLabel: (
+    state: TrainingSessionState,
+    labels: Record<BlockType, string> = { rounds: 'Round', superset: 'Set' }
+  ): string | null => {
+    const blockPath = state.currentStep?.blockPath;
+    if (!blockPath || blockPath.length === 0) return null;
+    return blockPath
+      .map(info => `${labels[info.blockType]} ${info.round}/${info.totalRounds}`)
+      .join(' · ');
   }
 };
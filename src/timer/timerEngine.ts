@@ -1,74 +1,164 @@
-// Timer Engine Pseudocode matching SDD (no external deps yet)
-// Later: implement with Reanimated worklet and SVG progress ring.
+// Timer engine for training sessions
+// Time is read from a monotonic clock, so changing the device time or time zone
+// mid-workout has no effect. Ticks are scheduled against a fixed grid rather than
+// chained intervals: a late callback shortens the next delay instead of pushing
+// every later tick back, and elapsed time is always measured, never summed.
+
+export type TimeSource = () => number;
+
+type PerformanceLike = { now: () => number };
+
+// Date.now can jump either way; this only ever moves forward
+let lastWallMs = 0;
+let wallOffsetMs = 0;
+const forwardOnlyWallClock: TimeSource = () => {
+  const wallMs = Date.now();
+  if (wallMs < lastWallMs) {
+    wallOffsetMs += lastWallMs - wallMs;
+  }
+  lastWallMs = wallMs;
+  return wallMs + wallOffsetMs;
+};
+
+// Looked up on every call so test fake timers can replace it
+export const monotonicNow: TimeSource = () => {
+  const performance = (globalThis as { performance?: PerformanceLike }).performance;
+  return performance ? performance.now() : forwardOnlyWallClock();
+};
+
+export const DEFAULT_TICK_INTERVAL_MS = 100;
 
 export type TimerEngineConfig = {
-  totalMs: number;
+  intervalMs?: number;
+  now?: TimeSource;
+};
+
+export type TimerTick = {
+  elapsedMs: number; // Running time since start, pauses excluded
+  deltaMs: number; // Running time since the previous tick
+  missedTicks: number; // Grid slots skipped because the JS thread was busy or suspended
+};
+
+// Drift is how late a tick fired against its slot on the grid
+export type TimerTelemetry = {
+  ticks: number;
+  missedTicks: number;
+  lastDriftMs: number;
+  maxDriftMs: number;
 };
 
 export type TimerCallbacks = {
-  onTick?: (elapsedMs: number) => void; // consider throttling to ~250–500ms for text
-  onComplete?: () => void;
+  onTick?: (tick: TimerTick) => void;
 };
 
-export function createTimerEngine(_config: TimerEngineConfig, _cb: TimerCallbacks) {
-  // Placeholder JS fallback to keep interfaces stable before Reanimated integration
-  // This will be replaced with a UI-thread worklet implementation.
-  let startAt = 0;
-  let pausedAt = 0;
-  let rafId: number | null = null;
+export interface TimerEngine {
+  start: () => void; // Starts from zero
+  pause: () => void;
+  resume: () => void;
+  reset: () => void;
+  tick: () => void; // Emit a tick now, e.g. when the app returns to the foreground
+  isRunning: () => boolean;
+  getElapsedMs: () => number;
+  getTelemetry: () => TimerTelemetry;
+}
+
+const emptyTelemetry = (): TimerTelemetry => ({
+  ticks: 0,
+  missedTicks: 0,
+  lastDriftMs: 0,
+  maxDriftMs: 0
+});
+
+export function createTimerEngine(config: TimerEngineConfig, callbacks: TimerCallbacks): TimerEngine {
+  const intervalMs = config.intervalMs ?? DEFAULT_TICK_INTERVAL_MS;
+  const now = config.now ?? monotonicNow;
+
   let running = false;
-  let lastTick = 0;
-  let completed = false;
+  let runStartedAt = 0; // Clock time the current run began
+  let elapsedBeforeRunMs = 0; // Running time banked by earlier runs
+  let nextTickAt = 0;
+  let lastTickElapsedMs = 0;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let telemetry = emptyTelemetry();
 
-  const loop = () => {
-    if (!running) return;
-    const now = Date.now();
-    const elapsed = now - startAt;
-    // Throttle text updates to ~300ms to reduce JS churn
-    if (now - lastTick >= 300) {
-      lastTick = now;
-      _cb.onTick?.(elapsed);
-    }
-    // Completion condition
-    if (!completed && elapsed >= _config.totalMs) {
-      completed = true;
-      running = false;
-      if (rafId != null) cancelAnimationFrame(rafId);
-      rafId = null;
-      _cb.onComplete?.();
-      return;
+  const getElapsedMs = () => elapsedBeforeRunMs + (running ? now() - runStartedAt : 0);
+
+  const clearScheduled = () => {
+    if (timeout !== null) {
+      clearTimeout(timeout);
+      timeout = null;
     }
-    if (rafId != null) cancelAnimationFrame(rafId);
-    rafId = requestAnimationFrame(loop);
+  };
+
+  const emit = (missedTicks: number) => {
+    const elapsedMs = getElapsedMs();
+    const deltaMs = elapsedMs - lastTickElapsedMs;
+    lastTickElapsedMs = elapsedMs;
+    callbacks.onTick?.({ elapsedMs, deltaMs, missedTicks });
+  };
+
+  const schedule = () => {
+    clearScheduled();
+    timeout = setTimeout(fire, Math.max(0, nextTickAt - now()));
+  };
+
+  function fire() {
+    timeout = null;
+    if (!running) return;
+
+    const driftMs = Math.max(0, now() - nextTickAt);
+    const missedTicks = Math.floor(driftMs / intervalMs);
+    // Skip the slots that already passed; the tick below covers their time
+    nextTickAt += (missedTicks + 1) * intervalMs;
+
+    telemetry = {
+      ticks: telemetry.ticks + 1,
+      missedTicks: telemetry.missedTicks + missedTicks,
+      lastDriftMs: driftMs,
+      maxDriftMs: Math.max(telemetry.maxDriftMs, driftMs)
+    };
+
+    emit(missedTicks);
+    schedule();
+  }
+
+  const run = () => {
+    running = true;
+    runStartedAt = now();
+    nextTickAt = runStartedAt + intervalMs;
+    schedule();
   };
 
   return {
     start() {
-      if (running) return;
-      if (completed) {
-        // restarting after completion resets state
-        startAt = 0;
-        pausedAt = 0;
-        completed = false;
-      }
-      running = true;
-      startAt = Date.now() - pausedAt; // resume from paused offset if any
-      rafId = requestAnimationFrame(loop);
+      clearScheduled();
+      elapsedBeforeRunMs = 0;
+      lastTickElapsedMs = 0;
+      telemetry = emptyTelemetry();
+      run();
     },
     pause() {
       if (!running) return;
+      elapsedBeforeRunMs = getElapsedMs();
       running = false;
-      pausedAt = Date.now() - startAt;
-      if (rafId != null) cancelAnimationFrame(rafId);
-      rafId = null;
+      clearScheduled();
+    },
+    resume() {
+      if (running) return;
+      run();
     },
     reset() {
       running = false;
-      startAt = 0;
-      pausedAt = 0;
-      completed = false;
-      if (rafId != null) cancelAnimationFrame(rafId);
-      rafId = null;
+      clearScheduled();
+      elapsedBeforeRunMs = 0;
+      lastTickElapsedMs = 0;
+      telemetry = emptyTelemetry();
+    },
+    tick() {
+      if (running) emit(0);
     },
+    isRunning: () => running,
+    getElapsedMs,
+    getTelemetry: () => telemetry
   };
 }
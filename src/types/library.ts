@@ -55,7 +55,7 @@ export type Workout = BaseContent & {
   equipment: Equipment[];
   locations: Location[];
   goals: Goal[];
-  exercises: string[]; // Exercise IDs from existing trainingTypes
+  exercises: string[]; // EXERCISE_CATALOG ids
   estimatedCalories: number;
 };
 
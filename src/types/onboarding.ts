@@ -2,6 +2,14 @@ import { Goal, Level, Equipment, Location } from '../types/library';
 
 export type Gender = 'male' | 'female' | 'other';
 export type ActivityLevel = 'low' | 'moderate' | 'high';
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
 
 export type OnboardingProfile = {
   age?: number;
@@ -12,6 +20,8 @@ export type OnboardingProfile = {
   level?: Level;
   equipment: Equipment[];
   locations: Location[];
+  workoutDays?: Weekday[];
+  sessionDurationMin?: number;
   motivation?: string;
   notificationsOptIn?: boolean;
 };
@@ -1,21 +1,47 @@
 // Program and Step type definitions
 
+import { getExerciseById } from '../data/exerciseCatalog';
+
 export type StepType = 'exercise' | 'rest';
 
+// Generated steps around the main block; absent on the program's own steps
+export type StepPhase = 'warmup' | 'cooldown';
+
+// 'timed' steps count down durationSec; 'reps' steps run until the user taps Done;
+// 'stopwatch' steps count up until the user stops them, e.g. a max plank hold
+export type ExerciseMode = 'timed' | 'reps' | 'stopwatch';
+
+// Position of an expanded step inside a rounds/superset block
+export interface StepBlockInfo {
+  blockId: string;
+  blockType: BlockType;
+  title?: string;
+  round: number; // 1-based
+  totalRounds: number;
+}
+
 export interface BaseStep {
   id: string;
   type: StepType;
   title: string;
   durationSec: number;
+  blockPath?: StepBlockInfo[]; // Outermost block first, set when expanded from blocks
+  phase?: StepPhase;
 }
 
 export interface ExerciseStep extends BaseStep {
   type: 'exercise';
+  mode?: ExerciseMode; // Defaults to 'timed'; otherwise durationSec is the estimated time
+  exerciseId?: string; // EXERCISE_CATALOG id; absent for free-form steps
   description?: string;
   icon?: string;
   animationRef?: string; // Reference to Lottie animation or image sequence
   targetReps?: number;
+  targetSec?: number; // Stopwatch: time to beat, shown on the ring
+  loadKg?: number; // Planned weight for dumbbell/kettlebell/barbell work
   equipment?: string[];
+  roundCounter?: boolean; // AMRAP: the user taps to count completed rounds
+  perSide?: boolean; // Unilateral: durationSec, targetReps and targetSec are split between left and right
 }
 
 export interface RestStep extends BaseStep {
@@ -26,8 +52,42 @@ export interface RestStep extends BaseStep {
 
 export type Step = ExerciseStep | RestStep;
 
+// Block constructs that expand into a flat step list
+export type BlockType = 'rounds' | 'superset';
+
+// Exercises performed back-to-back with no rest, repeated for `sets`
+export interface SupersetBlock {
+  type: 'superset';
+  id: string;
+  title?: string;
+  sets: number;
+  exercises: ExerciseStep[];
+  restBetweenSetsSec?: number;
+}
+
+// Repeat the items N times, e.g. a 4-round circuit
+export interface RoundsBlock {
+  type: 'rounds';
+  id: string;
+  title?: string;
+  rounds: number;
+  items: (Step | SupersetBlock)[];
+  restBetweenRoundsSec?: number;
+}
+
+export type ProgramBlock = RoundsBlock | SupersetBlock;
+
+export type ProgramItem = Step | ProgramBlock;
+
 export type ProgramLevel = 'Beginner' | 'Intermediate' | 'Advanced';
 
+// Program.difficulty for programs that only state a level
+export const DEFAULT_DIFFICULTY_BY_LEVEL: Record<string, number> = {
+  Beginner: 2,
+  Intermediate: 3,
+  Advanced: 4
+};
+
 export interface Program {
   id: string;
   title: string;
@@ -37,23 +97,172 @@ export interface Program {
   totalRestSec: number; // Sum of rest step durations
   stepsCount: number;
   tags: string[]; // e.g., ["No equipment", "Upper body", "HIIT"]
-  steps: Step[];
+  steps: Step[]; // Flat list consumed by the training state machine
+  blocks?: ProgramItem[]; // Authoring layout; when present, steps is its expansion
   estimatedCalories?: number;
+  autoWarmup?: boolean; // Overrides Preferences.autoWarmup for this program
+  autoCooldown?: boolean; // Overrides Preferences.autoCooldown for this program
   thumbnailUrl?: string;
   difficulty: number; // 1-5 scale
   createdAt: string;
   updatedAt: string;
 }
 
+export const isRepBasedStep = (step: Step | null | undefined): step is ExerciseStep =>
+  !!step && step.type === 'exercise' && step.mode === 'reps';
+
+export const isStopwatchStep = (step: Step | null | undefined): step is ExerciseStep =>
+  !!step && step.type === 'exercise' && step.mode === 'stopwatch';
+
+// No countdown: the step lasts until the user ends it
+export const isOpenEndedStep = (step: Step | null | undefined): step is ExerciseStep =>
+  isRepBasedStep(step) || isStopwatchStep(step);
+
+export const isPerSideStep = (step: Step | null | undefined): step is ExerciseStep =>
+  !!step && step.type === 'exercise' && !!step.perSide;
+
+// Reps for one side of a per-side step; odd targets round up
+export const getSideTargetReps = (step: ExerciseStep): number | undefined =>
+  step.targetReps !== undefined && step.perSide ? Math.ceil(step.targetReps / 2) : step.targetReps;
+
+// Block expansion utilities
+const isBlock = (item: ProgramItem): item is ProgramBlock =>
+  item.type === 'rounds' || item.type === 'superset';
+
+const withBlockInfo = <T extends Step>(step: T, idSuffix: string, info: StepBlockInfo): T => ({
+  ...step,
+  id: `${step.id}${idSuffix}`,
+  blockPath: [info, ...(step.blockPath ?? [])]
+});
+
+const createBlockRest = (
+  block: ProgramBlock,
+  round: number,
+  durationSec: number,
+  info: StepBlockInfo
+): RestStep => ({
+  id: `${block.id}_rest_${round}`,
+  type: 'rest',
+  title: 'Rest',
+  durationSec,
+  tip: block.type === 'rounds' ? 'Get ready for the next round' : 'Get ready for the next set',
+  blockPath: [info]
+});
+
+const expandBlock = (block: ProgramBlock): Step[] => {
+  const repeats = block.type === 'rounds' ? block.rounds : block.sets;
+  const restSec = block.type === 'rounds' ? block.restBetweenRoundsSec : block.restBetweenSetsSec;
+  const suffix = block.type === 'rounds' ? 'r' : 's';
+  const innerSteps = block.type === 'rounds'
+    ? expandProgramItems(block.items)
+    : block.exercises;
+  const steps: Step[] = [];
+
+  for (let round = 1; round <= repeats; round++) {
+    const info: StepBlockInfo = {
+      blockId: block.id,
+      blockType: block.type,
+      title: block.title,
+      round,
+      totalRounds: repeats
+    };
+
+    innerSteps.forEach(step => {
+      steps.push(withBlockInfo(step, `_${suffix}${round}`, info));
+    });
+
+    if (restSec && restSec > 0 && round < repeats) {
+      steps.push(createBlockRest(block, round, restSec, info));
+    }
+  }
+
+  return steps;
+};
+
+// Expand rounds and supersets into the flat step list the reducer consumes
+export const expandProgramItems = (items: ProgramItem[]): Step[] =>
+  items.flatMap(item => (isBlock(item) ? expandBlock(item) : [item]));
+
+export const calculateStepTotals = (
+  steps: Step[]
+): Pick<Program, 'totalActiveSec' | 'totalRestSec' | 'stepsCount'> => ({
+  totalActiveSec: steps
+    .filter(step => step.type === 'exercise')
+    .reduce((sum, step) => sum + step.durationSec, 0),
+  totalRestSec: steps
+    .filter(step => step.type === 'rest')
+    .reduce((sum, step) => sum + step.durationSec, 0),
+  stepsCount: steps.length
+});
+
+// Build a Program from block items, deriving steps and totals
+export const buildProgram = (
+  base: Omit<Program, 'steps' | 'blocks' | 'totalActiveSec' | 'totalRestSec' | 'stepsCount'>,
+  blocks: ProgramItem[]
+): Program => {
+  const steps = expandProgramItems(blocks);
+  return {
+    ...base,
+    ...calculateStepTotals(steps),
+    steps,
+    blocks
+  };
+};
+
+const validateBlocks = (items: ProgramItem[], path: string, errors: string[]) => {
+  items.forEach((item, index) => {
+    if (!isBlock(item)) return;
+
+    const label = `${path}${index + 1} (${item.title ?? item.id})`;
+    const repeats = item.type === 'rounds' ? item.rounds : item.sets;
+    const restSec = item.type === 'rounds' ? item.restBetweenRoundsSec : item.restBetweenSetsSec;
+
+    if (!Number.isInteger(repeats) || repeats < 1) {
+      errors.push(`Block ${label} has invalid ${item.type === 'rounds' ? 'rounds' : 'sets'}: ${repeats}`);
+    }
+    if (restSec !== undefined && restSec < 0) {
+      errors.push(`Block ${label} has invalid rest: ${restSec}s`);
+    }
+
+    if (item.type === 'rounds') {
+      if (item.items.length === 0) {
+        errors.push(`Block ${label} has no steps`);
+      }
+      validateBlocks(item.items, `${path}${index + 1}.`, errors);
+    } else if (item.exercises.length === 0) {
+      errors.push(`Block ${label} has no exercises`);
+    }
+  });
+};
+
 // Validation utilities
 export const validateProgram = (program: Program): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
   
+  // Check block structure and that steps are its expansion
+  if (program.blocks) {
+    validateBlocks(program.blocks, '', errors);
+    const expandedIds = expandProgramItems(program.blocks).map(step => step.id);
+    const stepIds = program.steps.map(step => step.id);
+    if (expandedIds.join('|') !== stepIds.join('|')) {
+      errors.push('Steps are out of sync with program blocks');
+    }
+  }
+  
   // Check for zero or negative durations
   program.steps.forEach((step, index) => {
     if (step.durationSec <= 0) {
       errors.push(`Step ${index + 1} (${step.title}) has invalid duration: ${step.durationSec}s`);
     }
+    if (isRepBasedStep(step) && (!step.targetReps || step.targetReps <= 0)) {
+      errors.push(`Step ${index + 1} (${step.title}) is rep-based but has no target reps`);
+    }
+    if (isStopwatchStep(step) && step.targetSec !== undefined && step.targetSec <= 0) {
+      errors.push(`Step ${index + 1} (${step.title}) has invalid target time: ${step.targetSec}s`);
+    }
+    if (step.type === 'exercise' && step.exerciseId && !getExerciseById(step.exerciseId)) {
+      errors.push(`Step ${index + 1} (${step.title}) references unknown exercise: ${step.exerciseId}`);
+    }
   });
   
   // Check if steps count matches
@@ -62,13 +271,10 @@ export const validateProgram = (program: Program): { isValid: boolean; errors: s
   }
   
   // Validate totals
-  const actualActiveSec = program.steps
-    .filter(step => step.type === 'exercise')
-    .reduce((sum, step) => sum + step.durationSec, 0);
-  
-  const actualRestSec = program.steps
-    .filter(step => step.type === 'rest')
-    .reduce((sum, step) => sum + step.durationSec, 0);
+  const {
+    totalActiveSec: actualActiveSec,
+    totalRestSec: actualRestSec
+  } = calculateStepTotals(program.steps);
   
   if (actualActiveSec !== program.totalActiveSec) {
     errors.push(`Total active time mismatch: declared ${program.totalActiveSec}s, actual ${actualActiveSec}s`);
@@ -116,6 +322,108 @@ export const ProgramJSONSchema = {
   $schema: 'http://json-schema.org/draft-07/schema#',
   type: 'object',
   required: ['id', 'title', 'level', 'totalActiveSec', 'totalRestSec', 'stepsCount', 'tags', 'steps'],
+  definitions: {
+    blockInfo: {
+      type: 'object',
+      required: ['blockId', 'blockType', 'round', 'totalRounds'],
+      properties: {
+        blockId: { type: 'string' },
+        blockType: { enum: ['rounds', 'superset'] },
+        title: { type: 'string' },
+        round: { type: 'number', minimum: 1 },
+        totalRounds: { type: 'number', minimum: 1 }
+      },
+      additionalProperties: false
+    },
+    exerciseStep: {
+      type: 'object',
+      required: ['id', 'type', 'title', 'durationSec'],
+      properties: {
+        id: { type: 'string' },
+        type: { const: 'exercise' },
+        mode: { enum: ['timed', 'reps', 'stopwatch'] },
+        title: { type: 'string', minLength: 1 },
+        durationSec: { type: 'number', minimum: 1 },
+        description: { type: 'string' },
+        icon: { type: 'string' },
+        exerciseId: { type: 'string' },
+        animationRef: { type: 'string' },
+        targetReps: { type: 'number', minimum: 1 },
+        targetSec: { type: 'number', minimum: 1 },
+        loadKg: { type: 'number', minimum: 0 },
+        equipment: { type: 'array', items: { type: 'string' } },
+        roundCounter: { type: 'boolean' },
+        perSide: { type: 'boolean' },
+        phase: { enum: ['warmup', 'cooldown'] },
+        blockPath: { type: 'array', items: { $ref: '#/definitions/blockInfo' } }
+      },
+      additionalProperties: false
+    },
+    restStep: {
+      type: 'object',
+      required: ['id', 'type', 'title', 'durationSec'],
+      properties: {
+        id: { type: 'string' },
+        type: { const: 'rest' },
+        title: { const: 'Rest' },
+        durationSec: { type: 'number', minimum: 1 },
+        tip: { type: 'string' },
+        phase: { enum: ['warmup', 'cooldown'] },
+        blockPath: { type: 'array', items: { $ref: '#/definitions/blockInfo' } }
+      },
+      additionalProperties: false
+    },
+    step: {
+      oneOf: [
+        { $ref: '#/definitions/exerciseStep' },
+        { $ref: '#/definitions/restStep' }
+      ]
+    },
+    supersetBlock: {
+      type: 'object',
+      required: ['id', 'type', 'sets', 'exercises'],
+      properties: {
+        id: { type: 'string' },
+        type: { const: 'superset' },
+        title: { type: 'string' },
+        sets: { type: 'number', minimum: 1 },
+        exercises: { type: 'array', minItems: 1, items: { $ref: '#/definitions/exerciseStep' } },
+        restBetweenSetsSec: { type: 'number', minimum: 0 }
+      },
+      additionalProperties: false
+    },
+    roundsBlock: {
+      type: 'object',
+      required: ['id', 'type', 'rounds', 'items'],
+      properties: {
+        id: { type: 'string' },
+        type: { const: 'rounds' },
+        title: { type: 'string' },
+        rounds: { type: 'number', minimum: 1 },
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            oneOf: [
+              { $ref: '#/definitions/exerciseStep' },
+              { $ref: '#/definitions/restStep' },
+              { $ref: '#/definitions/supersetBlock' }
+            ]
+          }
+        },
+        restBetweenRoundsSec: { type: 'number', minimum: 0 }
+      },
+      additionalProperties: false
+    },
+    programItem: {
+      oneOf: [
+        { $ref: '#/definitions/exerciseStep' },
+        { $ref: '#/definitions/restStep' },
+        { $ref: '#/definitions/supersetBlock' },
+        { $ref: '#/definitions/roundsBlock' }
+      ]
+    }
+  },
   properties: {
     id: { type: 'string', minLength: 1 },
     title: { type: 'string', minLength: 1 },
@@ -128,40 +436,16 @@ export const ProgramJSONSchema = {
     steps: {
       type: 'array',
       minItems: 1,
-      items: {
-        oneOf: [
-          {
-            type: 'object',
-            required: ['id', 'type', 'title', 'durationSec'],
-            properties: {
-              id: { type: 'string' },
-              type: { const: 'exercise' },
-              title: { type: 'string', minLength: 1 },
-              durationSec: { type: 'number', minimum: 1 },
-              description: { type: 'string' },
-              icon: { type: 'string' },
-              animationRef: { type: 'string' },
-              targetReps: { type: 'number', minimum: 1 },
-              equipment: { type: 'array', items: { type: 'string' } }
-            },
-            additionalProperties: false
-          },
-          {
-            type: 'object',
-            required: ['id', 'type', 'title', 'durationSec'],
-            properties: {
-              id: { type: 'string' },
-              type: { const: 'rest' },
-              title: { const: 'Rest' },
-              durationSec: { type: 'number', minimum: 1 },
-              tip: { type: 'string' }
-            },
-            additionalProperties: false
-          }
-        ]
-      }
+      items: { $ref: '#/definitions/step' }
+    },
+    blocks: {
+      type: 'array',
+      minItems: 1,
+      items: { $ref: '#/definitions/programItem' }
     },
     estimatedCalories: { type: 'number', minimum: 0 },
+    autoWarmup: { type: 'boolean' },
+    autoCooldown: { type: 'boolean' },
     thumbnailUrl: { type: 'string', format: 'uri' },
     difficulty: { type: 'number', minimum: 1, maximum: 5 },
     createdAt: { type: 'string', format: 'date-time' },
@@ -1,85 +1,143 @@
 import { AppState, AppStateStatus } from 'react-native';
-// Note: For full implementation, you would need react-native-push-notification or similar
-// This is a stubbed implementation for the core functionality
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TrainingSessionState, selectors, trainingReducer } from '../state/trainingStateMachine';
+import { Step, isOpenEndedStep } from '../types/program';
 
-export interface BackgroundNotification {
+// Local notifications for the moments a backgrounded session moves on. The OS posts
+// them on time even while JS is suspended; the adapter keeps the notification library
+// out of this module so tests can schedule into memory instead.
+
+export interface ScheduledNotification {
   id: string;
   title: string;
   body: string;
-  fireDate: Date;
-  data?: any;
+  fireAt: number; // Wall clock ms
 }
 
-export interface TrainingBackgroundManager {
-  scheduleStepCompletion: (stepName: string, fireInMs: number) => Promise<string>;
-  scheduleNextUpWarning: (nextStepName: string, fireInMs: number) => Promise<string>;
-  cancelAllNotifications: () => Promise<void>;
-  cancelNotification: (id: string) => Promise<void>;
+export interface NotificationAdapter {
+  // Asks for permission and sets up anything the platform needs before scheduling
+  prepare: (channelName: string) => Promise<void>;
+  schedule: (notification: ScheduledNotification) => Promise<void>;
+  // Removes pending and already shown notifications alike
+  cancel: (ids: string[]) => Promise<void>;
 }
 
-// Stubbed implementation - in production you would use a proper push notification library
-class StubTrainingBackgroundManager implements TrainingBackgroundManager {
-  private scheduledNotifications: Map<string, BackgroundNotification> = new Map();
+export class InMemoryNotificationAdapter implements NotificationAdapter {
+  private notifications: Map<string, ScheduledNotification> = new Map();
   
-  async scheduleStepCompletion(stepName: string, fireInMs: number): Promise<string> {
-    const id = `step_complete_${Date.now()}`;
-    const fireDate = new Date(Date.now() + fireInMs);
-    
-    const notification: BackgroundNotification = {
-      id,
-      title: 'Step Complete!',
-      body: `Time to move to the next step: ${stepName}`,
-      fireDate,
-      data: { type: 'step_complete', stepName }
-    };
-    
-    this.scheduledNotifications.set(id, notification);
-    
-    // In production, schedule with the OS notification system
-    console.log(`[Background] Scheduled step completion notification for "${stepName}" in ${fireInMs}ms`);
-    
-    return id;
+  async prepare(): Promise<void> {}
+  
+  async schedule(notification: ScheduledNotification): Promise<void> {
+    this.notifications.set(notification.id, notification);
   }
   
-  async scheduleNextUpWarning(nextStepName: string, fireInMs: number): Promise<string> {
-    const id = `next_up_${Date.now()}`;
-    const fireDate = new Date(Date.now() + fireInMs);
-    
-    const notification: BackgroundNotification = {
-      id,
-      title: 'Get Ready!',
-      body: `Next up: ${nextStepName}`,
-      fireDate,
-      data: { type: 'next_up_warning', nextStepName }
-    };
-    
-    this.scheduledNotifications.set(id, notification);
+  async cancel(ids: string[]): Promise<void> {
+    ids.forEach(id => this.notifications.delete(id));
+  }
+  
+  getScheduled(): ScheduledNotification[] {
+    return Array.from(this.notifications.values()).sort((a, b) => a.fireAt - b.fireAt);
+  }
+}
+
+export type StepBoundary =
+  | { type: 'stepEnd'; at: number; step: Step; stepIndex: number; nextStep: Step | null }
+  | { type: 'switchSides'; at: number; step: Step; stepIndex: number };
+
+// When the session would move on if left alone: every step end and side switch from
+// now on. Stops at a rep-based or stopwatch step, which waits for the user, and a
+// paused session has none. Countdowns into a step are not boundaries; the step
+// before already was.
+export const getStepBoundaries = (
+  session: TrainingSessionState,
+  now: number = Date.now()
+): StepBoundary[] => {
+  const boundaries: StepBoundary[] = [];
+  let at = now;
+  let current = trainingReducer(session, { type: 'CATCH_UP', at });
+  
+  while (current.state === 'running' && current.program && current.currentStep) {
+    const step = current.currentStep;
+    if (!current.transition && isOpenEndedStep(step)) break;
     
-    // In production, schedule with the OS notification system
-    console.log(`[Background] Scheduled next up warning for "${nextStepName}" in ${fireInMs}ms`);
+    // remainingMs counts down to the step's end, past the switch halfway through
+    const untilSwitchMs = current.currentSide === 'left' && !current.transition
+      ? current.remainingMs - selectors.getStepDurationMs(current) / 2
+      : 0;
+    at += untilSwitchMs > 0 ? untilSwitchMs : current.remainingMs;
     
-    return id;
+    const next = trainingReducer(current, { type: 'CATCH_UP', at });
+    if (next.currentStepIndex !== current.currentStepIndex || next.state === 'finished') {
+      boundaries.push({
+        type: 'stepEnd',
+        at,
+        step,
+        stepIndex: current.currentStepIndex,
+        nextStep: next.state === 'finished' ? null : next.currentStep
+      });
+    } else if (next.currentSide !== current.currentSide) {
+      boundaries.push({ type: 'switchSides', at, step, stepIndex: current.currentStepIndex });
+    }
+    current = next;
+  }
+  
+  return boundaries;
+};
+
+export type NotificationContent = Pick<ScheduledNotification, 'title' | 'body'>;
+
+// Keeps the OS schedule in line with the session while the app is away
+export class StepNotificationScheduler {
+  private scheduledIds: string[] = [];
+  // Calls run one after another so a cancel never overtakes the schedule before it
+  private queue: Promise<void> = Promise.resolve();
+  
+  constructor(private adapter: NotificationAdapter) {}
+  
+  prepare(channelName: string): Promise<void> {
+    return this.enqueue(() => this.adapter.prepare(channelName));
+  }
+  
+  // Replaces whatever was scheduled with the session's remaining boundaries
+  reschedule(
+    session: TrainingSessionState,
+    describe: (boundary: StepBoundary) => NotificationContent,
+    now: number = Date.now()
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      await this.cancelScheduled();
+      const notifications = getStepBoundaries(session, now).map(boundary => ({
+        id: `training_${boundary.type}_${boundary.stepIndex}`,
+        fireAt: boundary.at,
+        ...describe(boundary)
+      }));
+      for (const notification of notifications) {
+        await this.adapter.schedule(notification);
+        this.scheduledIds.push(notification.id);
+      }
+    });
   }
   
-  async cancelAllNotifications(): Promise<void> {
-    this.scheduledNotifications.clear();
-    console.log('[Background] Cancelled all notifications');
+  cancelAll(): Promise<void> {
+    return this.enqueue(() => this.cancelScheduled());
   }
   
-  async cancelNotification(id: string): Promise<void> {
-    this.scheduledNotifications.delete(id);
-    console.log(`[Background] Cancelled notification: ${id}`);
+  private async cancelScheduled(): Promise<void> {
+    if (this.scheduledIds.length === 0) return;
+    const ids = this.scheduledIds;
+    this.scheduledIds = [];
+    await this.adapter.cancel(ids);
   }
   
-  // Debug method to see scheduled notifications
-  getScheduledNotifications(): BackgroundNotification[] {
-    return Array.from(this.scheduledNotifications.values());
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(error => {
+      console.error('[Notifications] Failed to update notifications:', error);
+    });
+    return this.queue;
   }
 }
 
-// Singleton instance
-export const backgroundManager = new StubTrainingBackgroundManager();
-
 // App state management utilities
 export class AppStateManager {
   private listeners: ((state: AppStateStatus) => void)[] = [];
@@ -132,41 +190,46 @@ export class AppStateManager {
 // Singleton instance
 export const appStateManager = new AppStateManager();
 
-// Training session persistence for background recovery
+// Training session persistence for crash recovery
 export interface TrainingSessionSnapshot {
-  programId: string;
-  currentStepIndex: number;
-  remainingMs: number;
-  totalElapsedMs: number;
-  stepStartTime: number;
-  pausedDurationMs: number;
-  stepResults: any[];
-  backgroundedAt: number;
+  session: TrainingSessionState;
+  savedAt: number;
 }
 
+// Older sessions are not worth resuming
+export const SNAPSHOT_MAX_AGE_MS = 6 * 60 * 60 * 1000;
+
+const isResumable = (session: TrainingSessionState | undefined): boolean =>
+  !!session?.program?.steps?.length &&
+  !!session.currentStep &&
+  (session.state === 'running' || session.state === 'paused');
+
 export class TrainingPersistence {
   private static readonly STORAGE_KEY = '@training_session_snapshot';
   
-  async saveSnapshot(snapshot: TrainingSessionSnapshot): Promise<void> {
+  async saveSnapshot(session: TrainingSessionState): Promise<void> {
+    if (!isResumable(session)) return;
+    
     try {
-      // In production, use AsyncStorage
-      const data = JSON.stringify(snapshot);
-      console.log('[Persistence] Saved training snapshot:', snapshot);
-      // await AsyncStorage.setItem(TrainingPersistence.STORAGE_KEY, data);
+      const snapshot: TrainingSessionSnapshot = { session, savedAt: Date.now() };
+      await AsyncStorage.setItem(TrainingPersistence.STORAGE_KEY, JSON.stringify(snapshot));
     } catch (error) {
       console.error('[Persistence] Failed to save snapshot:', error);
     }
   }
   
+  // Snapshot of a session that was still running or paused when the app stopped
   async loadSnapshot(): Promise<TrainingSessionSnapshot | null> {
     try {
-      // In production, use AsyncStorage
-      // const data = await AsyncStorage.getItem(TrainingPersistence.STORAGE_KEY);
-      // if (data) {
-      //   return JSON.parse(data);
-      // }
-      console.log('[Persistence] No saved snapshot found');
-      return null;
+      const data = await AsyncStorage.getItem(TrainingPersistence.STORAGE_KEY);
+      if (!data) return null;
+      
+      const snapshot: TrainingSessionSnapshot = JSON.parse(data);
+      if (!isResumable(snapshot.session) || Date.now() - snapshot.savedAt > SNAPSHOT_MAX_AGE_MS) {
+        await this.clearSnapshot();
+        return null;
+      }
+      return snapshot;
     } catch (error) {
       console.error('[Persistence] Failed to load snapshot:', error);
       return null;
@@ -175,9 +238,7 @@ export class TrainingPersistence {
   
   async clearSnapshot(): Promise<void> {
     try {
-      // In production, use AsyncStorage
-      // await AsyncStorage.removeItem(TrainingPersistence.STORAGE_KEY);
-      console.log('[Persistence] Cleared training snapshot');
+      await AsyncStorage.removeItem(TrainingPersistence.STORAGE_KEY);
     } catch (error) {
       console.error('[Persistence] Failed to clear snapshot:', error);
     }
@@ -188,25 +249,13 @@ export class TrainingPersistence {
 export const trainingPersistence = new TrainingPersistence();
 
 // Utility functions for background handling
+
+// Session as it stands now: timed steps that ran out while the app was away are
+// recorded as completed and the current step picks up with its true remaining time
 export const calculateBackgroundRecovery = (
-  backgroundedAt: number,
-  stepStartTime: number,
-  pausedDurationMs: number,
-  stepDurationMs: number
-): { remainingMs: number; shouldAdvanceStep: boolean } => {
-  const now = Date.now();
-  const timeInBackground = now - backgroundedAt;
-  const totalElapsed = now - stepStartTime - pausedDurationMs;
-  const remainingMs = Math.max(0, stepDurationMs - totalElapsed);
-  
-  console.log(`[Background Recovery] Time in background: ${timeInBackground}ms`);
-  console.log(`[Background Recovery] Remaining time: ${remainingMs}ms`);
-  
-  return {
-    remainingMs,
-    shouldAdvanceStep: remainingMs <= 0
-  };
-};
+  session: TrainingSessionState,
+  now: number = Date.now()
+): TrainingSessionState => trainingReducer(session, { type: 'CATCH_UP', at: now });
 
 // Hook for easy integration with React components
 export const useBackgroundHandling = (
@@ -223,47 +272,3 @@ export const useBackgroundHandling = (
   
   return cleanup;
 };
-
-/* 
-Production Implementation Notes:
-
-1. For full background notification support, install:
-   - react-native-push-notification
-   - @react-native-async-storage/async-storage
-
-2. Replace the stubbed backgroundManager with actual notification scheduling:
-   ```typescript
-   import PushNotification from 'react-native-push-notification';
-   
-   async scheduleStepCompletion(stepName: string, fireInMs: number): Promise<string> {
-     const id = Date.now().toString();
-     
-     PushNotification.localNotificationSchedule({
-       id,
-       title: 'Step Complete!',
-       message: `Time to move to the next step: ${stepName}`,
-       date: new Date(Date.now() + fireInMs),
-       allowWhileIdle: true,
-       userInfo: { type: 'step_complete', stepName }
-     });
-     
-     return id;
-   }
-   ```
-
-3. For persistence, use AsyncStorage:
-   ```typescript
-   import AsyncStorage from '@react-native-async-storage/async-storage';
-   
-   async saveSnapshot(snapshot: TrainingSessionSnapshot): Promise<void> {
-     await AsyncStorage.setItem(
-       TrainingPersistence.STORAGE_KEY, 
-       JSON.stringify(snapshot)
-     );
-   }
-   ```
-
-4. Add proper error handling and retry logic for network-dependent features.
-
-5. Consider implementing workout resume prompts when the app is reopened after being backgrounded during a training session.
-*/
@@ -0,0 +1,58 @@
+import { Program, Step } from '../types/program';
+import { StepResult } from '../state/trainingStateMachine';
+import { findStepExercise } from '../data/exerciseCatalog';
+
+// MET-based energy estimate: kcal = MET × body weight (kg) × hours
+
+export const DEFAULT_WEIGHT_KG = 70; // Used until onboarding records a weight
+export const DEFAULT_EXERCISE_MET = 5; // Free-form steps that are not in the catalog
+export const REST_MET = 1.5; // Standing or walking around between sets
+
+const SECONDS_PER_HOUR = 3600;
+
+export const getStepMet = (step: Step): number =>
+  step.type === 'rest' ? REST_MET : findStepExercise(step)?.met ?? DEFAULT_EXERCISE_MET;
+
+export const resolveWeightKg = (weightKg?: number | null): number =>
+  weightKg && Number.isFinite(weightKg) && weightKg > 0 ? weightKg : DEFAULT_WEIGHT_KG;
+
+export const caloriesForDuration = (met: number, durationSec: number, weightKg?: number | null): number =>
+  (met * resolveWeightKg(weightKg) * Math.max(0, durationSec)) / SECONDS_PER_HOUR;
+
+// Planned estimate from step durations, for program cards and exports
+export const estimateProgramCalories = (steps: Step[], weightKg?: number | null): number =>
+  Math.round(steps.reduce((sum, step) => sum + caloriesForDuration(getStepMet(step), step.durationSec, weightKg), 0));
+
+export interface SessionCalorieInput {
+  program: Program;
+  stepResults?: StepResult[];
+  totalElapsedMs?: number; // Used when no step results were recorded
+}
+
+// Walk the planned steps in order until the elapsed time is used up
+const attributeElapsedTime = (steps: Step[], totalElapsedMs: number): { step: Step; elapsedSec: number }[] => {
+  let remainingSec = totalElapsedMs / 1000;
+  return steps.map(step => {
+    const elapsedSec = Math.min(step.durationSec, remainingSec);
+    remainingSec -= elapsedSec;
+    return { step, elapsedSec };
+  }).filter(({ elapsedSec }) => elapsedSec > 0);
+};
+
+// Burned calories for a session, from the time actually spent on each step
+export const calculateSessionCalories = (
+  { program, stepResults, totalElapsedMs = 0 }: SessionCalorieInput,
+  weightKg?: number | null
+): number => {
+  const timedSteps = stepResults && stepResults.length > 0
+    ? stepResults.flatMap(result => {
+        const step = program.steps[result.stepIndex];
+        return step ? [{ step, elapsedSec: result.actualElapsedSec }] : [];
+      })
+    : attributeElapsedTime(program.steps, totalElapsedMs);
+
+  return Math.round(timedSteps.reduce(
+    (sum, { step, elapsedSec }) => sum + caloriesForDuration(getStepMet(step), elapsedSec, weightKg),
+    0
+  ));
+};
@@ -0,0 +1,83 @@
+import { Program, ProgramLevel, calculateStepTotals } from '../types/program';
+import { Difficulty } from '../state/SessionContext';
+import { getExerciseTitle } from '../data/exerciseCatalog';
+import { buildWorkRestIntervals } from './intervalPrograms';
+import { estimateProgramCalories } from './calories';
+import { DEFAULT_LANGUAGE, Language, translate } from '../i18n/translate';
+import { getLocalizedExerciseTitle } from '../i18n/content';
+
+// How each SessionSetup difficulty shapes a single-exercise session
+
+export interface DifficultyProfile {
+  level: ProgramLevel;
+  difficulty: number; // Program.difficulty, 1-5
+  workSec: number;
+  restRatio: number; // Rest length as a fraction of the work interval
+  targetReps: number; // Per work interval
+}
+
+export const DIFFICULTY_PROFILES: Record<Difficulty, DifficultyProfile> = {
+  Light: { level: 'Beginner', difficulty: 1, workSec: 30, restRatio: 1, targetReps: 8 },
+  Easy: { level: 'Beginner', difficulty: 2, workSec: 30, restRatio: 2 / 3, targetReps: 10 },
+  Middle: { level: 'Intermediate', difficulty: 3, workSec: 40, restRatio: 1 / 2, targetReps: 12 },
+  Stunt: { level: 'Intermediate', difficulty: 4, workSec: 45, restRatio: 1 / 3, targetReps: 15 },
+  Hardcore: { level: 'Advanced', difficulty: 5, workSec: 50, restRatio: 1 / 5, targetReps: 18 },
+  Pro: { level: 'Advanced', difficulty: 5, workSec: 60, restRatio: 1 / 6, targetReps: 22 }
+};
+
+export interface DifficultyStructure {
+  workSec: number;
+  restSec: number;
+  rounds: number;
+  targetReps: number;
+}
+
+// Fit as many work/rest rounds into the session as its length allows, never running over
+export const getDifficultyStructure = (difficulty: Difficulty, durationSec: number): DifficultyStructure => {
+  const profile = DIFFICULTY_PROFILES[difficulty] ?? DIFFICULTY_PROFILES.Middle;
+  const workSec = Math.min(profile.workSec, durationSec);
+  const restSec = Math.round(workSec * profile.restRatio);
+  // The last round has no rest, so n rounds take n * work + (n - 1) * rest
+  const rounds = Math.max(1, Math.floor((durationSec + restSec) / (workSec + restSec)));
+  return { workSec, restSec, rounds, targetReps: profile.targetReps };
+};
+
+export const createDifficultyProgram = (
+  typeId: string,
+  durationMin: number,
+  difficulty: Difficulty,
+  language: Language = DEFAULT_LANGUAGE,
+  now: Date = new Date()
+): Program => {
+  const profile = DIFFICULTY_PROFILES[difficulty] ?? DIFFICULTY_PROFILES.Middle;
+  const structure = getDifficultyStructure(difficulty, Math.round(durationMin * 60));
+  const exerciseTitle = getLocalizedExerciseTitle(language, typeId, getExerciseTitle(typeId));
+  const steps = buildWorkRestIntervals({
+    blockId: typeId,
+    title: difficulty,
+    exerciseIds: [typeId],
+    ...structure
+  });
+  const totals = calculateStepTotals(steps);
+  const timestamp = now.toISOString();
+
+  return {
+    id: `session_${typeId}_${durationMin}_${difficulty}`,
+    title: translate(language, 'session.title', { exercise: exerciseTitle, count: durationMin }),
+    level: profile.level,
+    description: translate(language, 'session.summary', {
+      rounds: structure.rounds,
+      work: structure.workSec,
+      rest: structure.restSec,
+      exercise: exerciseTitle.toLowerCase()
+    }),
+    ...totals,
+    tags: ['Interval', difficulty, profile.level],
+    steps,
+    estimatedCalories: estimateProgramCalories(steps),
+    thumbnailUrl: 'https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?ixlib=rb-4.0.3&auto=format&fit=crop&w=800&q=80',
+    difficulty: profile.difficulty,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+};
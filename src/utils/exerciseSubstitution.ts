@@ -0,0 +1,63 @@
+import { ExerciseStep } from '../types/program';
+import { Level } from '../types/library';
+import {
+  CatalogExercise,
+  EXERCISE_CATALOG,
+  findStepExercise,
+  getStepEquipment,
+  isBodyweight
+} from '../data/exerciseCatalog';
+
+// Alternatives offered when the user swaps an exercise mid-session
+
+const LEVEL_ORDER: Level[] = ['Beginner', 'Intermediate', 'Advanced'];
+
+export const DEFAULT_SUBSTITUTE_LIMIT = 4;
+
+const countShared = <T>(a: T[], b: T[]): number => a.filter(item => b.includes(item)).length;
+
+const scoreSubstitute = (source: CatalogExercise, candidate: CatalogExercise): number =>
+  countShared(source.primaryMuscles, candidate.primaryMuscles) * 3 +
+  countShared(source.secondaryMuscles, [...candidate.primaryMuscles, ...candidate.secondaryMuscles]) +
+  (source.category === candidate.category ? 2 : 0) -
+  Math.abs(LEVEL_ORDER.indexOf(source.difficulty) - LEVEL_ORDER.indexOf(candidate.difficulty));
+
+// Same primary muscles, no extra equipment and no more impact than the original
+export const getSubstitutes = (
+  step: ExerciseStep,
+  limit: number = DEFAULT_SUBSTITUTE_LIMIT
+): CatalogExercise[] => {
+  const source = findStepExercise(step);
+  if (!source) return [];
+
+  return EXERCISE_CATALOG
+    .filter(candidate =>
+      candidate.id !== source.id &&
+      countShared(source.primaryMuscles, candidate.primaryMuscles) > 0 &&
+      candidate.equipment.every(item => item === 'none' || source.equipment.includes(item)) &&
+      (source.highImpact || !candidate.highImpact)
+    )
+    .map(candidate => ({ candidate, score: scoreSubstitute(source, candidate) }))
+    .sort((a, b) =>
+      b.score - a.score ||
+      Number(isBodyweight(b.candidate)) - Number(isBodyweight(a.candidate)) ||
+      a.candidate.title.localeCompare(b.candidate.title)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+};
+
+// Keeps the step's id, timing and targets so the session structure is unchanged
+export const substituteStep = (step: ExerciseStep, exercise: CatalogExercise): ExerciseStep => {
+  const { loadKg, perSide, ...rest } = step;
+  return {
+    ...rest,
+    title: exercise.title,
+    exerciseId: exercise.id,
+    description: exercise.hints.join('. '),
+    animationRef: exercise.id,
+    equipment: getStepEquipment(exercise),
+    ...(loadKg !== undefined && !isBodyweight(exercise) ? { loadKg } : {}),
+    ...(perSide && exercise.unilateral ? { perSide } : {})
+  };
+};
@@ -0,0 +1,241 @@
+import {
+  DEFAULT_DIFFICULTY_BY_LEVEL,
+  ExerciseStep,
+  Program,
+  ProgramLevel,
+  RestStep,
+  Step,
+  StepBlockInfo,
+  calculateStepTotals
+} from '../types/program';
+import { getExerciseTitle, getExerciseById, getStepEquipment } from '../data/exerciseCatalog';
+import { estimateProgramCalories } from './calories';
+import { DEFAULT_LANGUAGE, Language, translate } from '../i18n/translate';
+import { getLocalizedExerciseTitle } from '../i18n/content';
+
+// Builds Programs from classic interval formats picked on SetupScreen
+
+export type IntervalFormat = 'tabata' | 'emom' | 'amrap' | 'hiit';
+
+export interface IntervalSettings {
+  format: IntervalFormat;
+  exerciseIds: string[];
+  level: ProgramLevel;
+  durationMin?: number; // EMOM and AMRAP length; Tabata and HIIT derive it from rounds
+  workSec?: number; // Custom HIIT only
+  restSec?: number; // Custom HIIT only
+  rounds?: number; // Custom HIIT only
+}
+
+export interface IntervalPreset {
+  title: string;
+  description: string;
+  workSec: number;
+  restSec: number;
+  rounds: number;
+}
+
+export const INTERVAL_PRESETS: Record<IntervalFormat, IntervalPreset> = {
+  tabata: {
+    title: 'Tabata',
+    description: '20s work / 10s rest × 8',
+    workSec: 20,
+    restSec: 10,
+    rounds: 8
+  },
+  emom: {
+    title: 'EMOM',
+    description: 'Every minute on the minute',
+    workSec: 60,
+    restSec: 0,
+    rounds: 10
+  },
+  amrap: {
+    title: 'AMRAP',
+    description: 'As many rounds as possible',
+    workSec: 600,
+    restSec: 0,
+    rounds: 1
+  },
+  hiit: {
+    title: 'Custom HIIT',
+    description: 'Your own work, rest and rounds',
+    workSec: 40,
+    restSec: 20,
+    rounds: 6
+  }
+};
+
+export const INTERVAL_FORMATS = Object.keys(INTERVAL_PRESETS) as IntervalFormat[];
+
+const DEFAULT_TARGET_REPS = 10;
+
+const exerciseName = (language: Language, exerciseId: string): string =>
+  getLocalizedExerciseTitle(language, exerciseId, getExerciseTitle(exerciseId));
+
+const repsOf = (language: Language, exerciseId: string): string =>
+  translate(language, 'session.repsOf', { count: DEFAULT_TARGET_REPS, exercise: exerciseName(language, exerciseId) });
+
+const roundInfo = (blockId: string, title: string, round: number, totalRounds: number): StepBlockInfo => ({
+  blockId,
+  blockType: 'rounds',
+  title,
+  round,
+  totalRounds
+});
+
+const exerciseFor = (exerciseId: string, id: string, durationSec: number): ExerciseStep => {
+  const exercise = getExerciseById(exerciseId);
+  return {
+    id,
+    type: 'exercise',
+    title: getExerciseTitle(exerciseId),
+    durationSec,
+    exerciseId: exercise?.id,
+    description: exercise?.hints.join('. '),
+    animationRef: exerciseId,
+    equipment: exercise ? getStepEquipment(exercise) : []
+  };
+};
+
+// Everything the circuit's exercises need, each item once
+const circuitEquipment = (exerciseIds: string[]): string[] => [
+  ...new Set(exerciseIds.flatMap(id => {
+    const exercise = getExerciseById(id);
+    return exercise ? getStepEquipment(exercise) : [];
+  }))
+];
+
+export interface WorkRestIntervals {
+  blockId: string; // Also the step id prefix
+  title: string;
+  exerciseIds: string[];
+  workSec: number;
+  restSec: number;
+  rounds: number;
+  targetReps?: number; // Per work interval
+}
+
+// Work/rest pairs, cycling through the exercises one interval at a time
+export const buildWorkRestIntervals = ({
+  blockId,
+  title,
+  exerciseIds,
+  workSec,
+  restSec,
+  rounds,
+  targetReps
+}: WorkRestIntervals): Step[] => {
+  const steps: Step[] = [];
+  for (let round = 1; round <= rounds; round++) {
+    const blockPath = [roundInfo(blockId, title, round, rounds)];
+    const exerciseId = exerciseIds[(round - 1) % exerciseIds.length];
+    steps.push({
+      ...exerciseFor(exerciseId, `${blockId}_work_${round}`, workSec),
+      ...(targetReps ? { targetReps } : {}),
+      blockPath
+    });
+
+    // No rest after the final interval
+    if (restSec > 0 && round < rounds) {
+      const rest: RestStep = {
+        id: `${blockId}_rest_${round}`,
+        type: 'rest',
+        title: 'Rest',
+        durationSec: restSec,
+        blockPath
+      };
+      steps.push(rest);
+    }
+  }
+  return steps;
+};
+
+// One minute per round; whatever is left after the reps is rest
+const buildEmom = (exerciseIds: string[], minutes: number, language: Language): Step[] =>
+  Array.from({ length: minutes }, (_, index) => {
+    const exerciseId = exerciseIds[index % exerciseIds.length];
+    const step = exerciseFor(exerciseId, `emom_min_${index + 1}`, 60);
+    return {
+      ...step,
+      targetReps: DEFAULT_TARGET_REPS,
+      description: translate(language, 'session.emomStep', { reps: repsOf(language, exerciseId) }),
+      blockPath: [roundInfo('emom', INTERVAL_PRESETS.emom.title, index + 1, minutes)]
+    };
+  });
+
+// A single time-capped step; the user counts finished rounds of the circuit
+const buildAmrap = (exerciseIds: string[], minutes: number, language: Language): Step[] => [{
+  id: 'amrap',
+  type: 'exercise',
+  title: 'AMRAP',
+  durationSec: minutes * 60,
+  description: exerciseIds.map(id => repsOf(language, id)).join(' · '),
+  animationRef: exerciseIds[0],
+  equipment: circuitEquipment(exerciseIds),
+  roundCounter: true
+}];
+
+export const createIntervalProgram = (
+  settings: IntervalSettings,
+  language: Language = DEFAULT_LANGUAGE,
+  now: Date = new Date()
+): Program => {
+  const { format, level } = settings;
+  const preset = INTERVAL_PRESETS[format];
+  const exerciseIds = settings.exerciseIds.length > 0 ? settings.exerciseIds : ['burpees'];
+  const minutes = Math.max(1, Math.round(settings.durationMin ?? (preset.workSec * preset.rounds) / 60));
+
+  let steps: Step[];
+  switch (format) {
+    case 'emom':
+      steps = buildEmom(exerciseIds, minutes, language);
+      break;
+    case 'amrap':
+      steps = buildAmrap(exerciseIds, minutes, language);
+      break;
+    case 'hiit':
+      steps = buildWorkRestIntervals({
+        blockId: format,
+        title: preset.title,
+        exerciseIds,
+        workSec: Math.max(5, settings.workSec ?? preset.workSec),
+        restSec: Math.max(0, settings.restSec ?? preset.restSec),
+        rounds: Math.max(1, settings.rounds ?? preset.rounds)
+      });
+      break;
+    default:
+      steps = buildWorkRestIntervals({
+        blockId: format,
+        title: preset.title,
+        exerciseIds,
+        workSec: preset.workSec,
+        restSec: preset.restSec,
+        rounds: preset.rounds
+      });
+  }
+
+  const totals = calculateStepTotals(steps);
+  const formatTitle = translate(language, `format.${format}`);
+  const exerciseTitles = exerciseIds.map(id => exerciseName(language, id)).join(', ');
+  const timestamp = now.toISOString();
+
+  return {
+    id: `interval_${format}_${exerciseIds.join('-')}_${totals.totalActiveSec + totals.totalRestSec}`,
+    title: format === 'emom' || format === 'amrap'
+      ? translate(language, 'session.timedTitle', { format: formatTitle, count: minutes })
+      : formatTitle,
+    level,
+    description: translate(language, 'session.formatDescription', {
+      description: translate(language, `format.${format}.description`),
+      exercises: exerciseTitles
+    }),
+    ...totals,
+    tags: ['Interval', preset.title, level],
+    steps,
+    estimatedCalories: estimateProgramCalories(steps),
+    difficulty: DEFAULT_DIFFICULTY_BY_LEVEL[level],
+    createdAt: timestamp,
+    updatedAt: timestamp
+  };
+};
@@ -0,0 +1,35 @@
+import notifee, { AndroidImportance, TriggerType } from '@notifee/react-native';
+import { NotificationAdapter, StepNotificationScheduler } from './backgroundHandling';
+
+// Notifee behind the NotificationAdapter; kept apart because the native module
+// has to be present as soon as notifee is imported
+
+const TRAINING_CHANNEL_ID = 'training';
+
+export const notifeeAdapter: NotificationAdapter = {
+  prepare: async channelName => {
+    await notifee.requestPermission();
+    await notifee.createChannel({
+      id: TRAINING_CHANNEL_ID,
+      name: channelName,
+      importance: AndroidImportance.HIGH
+    });
+  },
+  schedule: async ({ id, title, body, fireAt }) => {
+    await notifee.createTriggerNotification(
+      {
+        id,
+        title,
+        body,
+        android: { channelId: TRAINING_CHANNEL_ID, pressAction: { id: 'default' } },
+        ios: { sound: 'default' }
+      },
+      // Exact alarms, so a boundary is not shown minutes late on a dozing phone
+      { type: TriggerType.TIMESTAMP, timestamp: fireAt, alarmManager: { allowWhileIdle: true } }
+    );
+  },
+  cancel: ids => notifee.cancelAllNotifications(ids)
+};
+
+// Singleton instance
+export const stepNotifications = new StepNotificationScheduler(notifeeAdapter);
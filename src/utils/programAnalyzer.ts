@@ -0,0 +1,221 @@
+import { Program, Step, formatDuration, validateProgram } from '../types/program';
+import { MuscleGroup, findStepExercise } from '../data/exerciseCatalog';
+import { REST_MET, getStepMet } from './calories';
+
+// Quality checks and a load summary for a Program, on top of validateProgram
+
+export type ProgramIssueSeverity = 'error' | 'warning';
+
+export type ProgramIssueCode =
+  | 'invalid-program'
+  | 'duplicate-step-id'
+  | 'consecutive-rests'
+  | 'long-work-without-rest'
+  | 'same-muscle-back-to-back';
+
+export interface ProgramIssue {
+  severity: ProgramIssueSeverity;
+  code: ProgramIssueCode;
+  message: string; // English, for logs and imports; screens render code with params
+  params?: Record<string, string | number>;
+  muscles?: MuscleGroup[]; // Shared muscles of same-muscle-back-to-back
+  stepIndex?: number; // Step the issue starts at
+}
+
+export type BodyRegion = 'upper' | 'lower' | 'core';
+
+export interface ProgramAnalysis {
+  issues: ProgramIssue[];
+  hasErrors: boolean;
+  intensityScore: number; // 0-100, from the time-weighted MET including rest
+  suggestedDifficulty: number; // Program.difficulty, 1-5
+  muscleBalance: Partial<Record<MuscleGroup, number>>; // Share of the muscle load, sums to 1
+  regionBalance: Record<BodyRegion, number>;
+}
+
+export const MAX_WORK_WITHOUT_REST_SEC = 600;
+const INTENSITY_MAX_MET = 10; // Sprint-level effort for the whole session scores 100
+
+const REGION_BY_MUSCLE: Record<MuscleGroup, BodyRegion> = {
+  chest: 'upper',
+  shoulders: 'upper',
+  triceps: 'upper',
+  biceps: 'upper',
+  upper_back: 'upper',
+  lats: 'upper',
+  neck: 'upper',
+  forearms: 'upper',
+  core: 'core',
+  obliques: 'core',
+  lower_back: 'core',
+  glutes: 'lower',
+  quads: 'lower',
+  hamstrings: 'lower',
+  calves: 'lower',
+  hip_flexors: 'lower'
+};
+
+const formatMuscle = (muscle: MuscleGroup): string => muscle.replace('_', ' ');
+
+const describeStep = (step: Step, index: number): string => `Step ${index + 1} (${step.title})`;
+
+// Exercise steps that count as training load; warm-up, mobility and recovery moves don't
+const isWorkStep = (step: Step): boolean => {
+  if (step.type !== 'exercise' || step.phase) return false;
+  const category = findStepExercise(step)?.category;
+  return category !== 'mobility' && category !== 'recovery';
+};
+
+export type MuscleLoad = Map<MuscleGroup, number>;
+
+// Seconds each muscle group works across the steps; secondary muscles count half
+export const getMuscleLoad = (steps: Step[]): MuscleLoad => {
+  const load: MuscleLoad = new Map();
+  const add = (muscle: MuscleGroup, sec: number) => load.set(muscle, (load.get(muscle) ?? 0) + sec);
+
+  steps.forEach(step => {
+    if (step.type !== 'exercise') return;
+    const exercise = findStepExercise(step);
+    exercise?.primaryMuscles.forEach(muscle => add(muscle, step.durationSec));
+    exercise?.secondaryMuscles.forEach(muscle => add(muscle, step.durationSec / 2));
+  });
+  return load;
+};
+
+const findDuplicateIds = (steps: Step[]): ProgramIssue[] => {
+  const seen = new Set<string>();
+  return steps.flatMap((step, index) => {
+    if (!seen.has(step.id)) {
+      seen.add(step.id);
+      return [];
+    }
+    return [{
+      severity: 'error' as const,
+      code: 'duplicate-step-id' as const,
+      message: `${describeStep(step, index)} reuses step id "${step.id}"`,
+      params: { step: index + 1, title: step.title, id: step.id },
+      stepIndex: index
+    }];
+  });
+};
+
+const findConsecutiveRests = (steps: Step[]): ProgramIssue[] =>
+  steps.flatMap((step, index) =>
+    index > 0 && step.type === 'rest' && steps[index - 1].type === 'rest'
+      ? [{
+          severity: 'warning' as const,
+          code: 'consecutive-rests' as const,
+          message: `Steps ${index} and ${index + 1} are back-to-back rests`,
+          params: { first: index, second: index + 1 },
+          stepIndex: index - 1
+        }]
+      : []
+  );
+
+// Work stretches between rests; light exercise steps neither add to nor break a stretch
+const findLongWork = (steps: Step[]): ProgramIssue[] => {
+  const issues: ProgramIssue[] = [];
+  let start = -1;
+  let workSec = 0;
+
+  const closeStretch = (end: number) => {
+    if (workSec > MAX_WORK_WITHOUT_REST_SEC) {
+      issues.push({
+        severity: 'warning',
+        code: 'long-work-without-rest',
+        message: `Steps ${start + 1}-${end + 1} have ${formatDuration(workSec)} of work with no rest`,
+        params: { first: start + 1, last: end + 1, duration: formatDuration(workSec) },
+        stepIndex: start
+      });
+    }
+    start = -1;
+    workSec = 0;
+  };
+
+  steps.forEach((step, index) => {
+    if (step.type === 'rest') {
+      closeStretch(index - 1);
+    } else if (isWorkStep(step)) {
+      if (start < 0) start = index;
+      workSec += step.durationSec;
+    }
+  });
+  closeStretch(steps.length - 1);
+
+  return issues;
+};
+
+const findSameMuscleBackToBack = (steps: Step[]): ProgramIssue[] =>
+  steps.flatMap((step, index) => {
+    const previous = steps[index - 1];
+    if (index === 0 || !isWorkStep(step) || !isWorkStep(previous)) return [];
+
+    const current = findStepExercise(step);
+    const before = findStepExercise(previous);
+    const shared = current && before
+      ? current.primaryMuscles.filter(muscle => before.primaryMuscles.includes(muscle))
+      : [];
+    const muscles = shared.map(formatMuscle).join(' and ');
+    return shared.length > 0
+      ? [{
+          severity: 'warning' as const,
+          code: 'same-muscle-back-to-back' as const,
+          message: `${describeStep(previous, index - 1)} and ${describeStep(step, index)} both load the ${muscles}`,
+          params: { first: index, firstTitle: previous.title, second: index + 1, secondTitle: step.title },
+          muscles: shared,
+          stepIndex: index - 1
+        }]
+      : [];
+  });
+
+export const getIntensityScore = (steps: Step[]): number => {
+  const totalSec = steps.reduce((sum, step) => sum + Math.max(0, step.durationSec), 0);
+  if (totalSec === 0) return 0;
+
+  const averageMet = steps.reduce((sum, step) => sum + getStepMet(step) * Math.max(0, step.durationSec), 0) / totalSec;
+  const score = ((averageMet - REST_MET) / (INTENSITY_MAX_MET - REST_MET)) * 100;
+  return Math.round(Math.min(100, Math.max(0, score)));
+};
+
+// Five equal bands of the intensity score
+export const getSuggestedDifficulty = (intensityScore: number): number =>
+  Math.min(5, 1 + Math.floor(intensityScore / 20));
+
+const getBalance = (steps: Step[]): Pick<ProgramAnalysis, 'muscleBalance' | 'regionBalance'> => {
+  const load = getMuscleLoad(steps.filter(step => !step.phase));
+  const total = [...load.values()].reduce((sum, sec) => sum + sec, 0);
+  const muscleBalance: Partial<Record<MuscleGroup, number>> = {};
+  const regionBalance: Record<BodyRegion, number> = { upper: 0, lower: 0, core: 0 };
+
+  if (total > 0) {
+    load.forEach((sec, muscle) => {
+      muscleBalance[muscle] = sec / total;
+      regionBalance[REGION_BY_MUSCLE[muscle]] += sec / total;
+    });
+  }
+  return { muscleBalance, regionBalance };
+};
+
+export const analyzeProgram = (program: Program): ProgramAnalysis => {
+  const { steps } = program;
+  const issues: ProgramIssue[] = [
+    ...validateProgram(program).errors.map(message => ({
+      severity: 'error' as const,
+      code: 'invalid-program' as const,
+      message
+    })),
+    ...findDuplicateIds(steps),
+    ...findConsecutiveRests(steps),
+    ...findLongWork(steps),
+    ...findSameMuscleBackToBack(steps)
+  ];
+  const intensityScore = getIntensityScore(steps.filter(step => !step.phase));
+
+  return {
+    issues,
+    hasErrors: issues.some(issue => issue.severity === 'error'),
+    intensityScore,
+    suggestedDifficulty: getSuggestedDifficulty(intensityScore),
+    ...getBalance(steps)
+  };
+};
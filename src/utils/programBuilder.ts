@@ -0,0 +1,111 @@
+import {
+  DEFAULT_DIFFICULTY_BY_LEVEL,
+  ExerciseStep,
+  Program,
+  ProgramLevel,
+  RestStep,
+  Step,
+  calculateStepTotals
+} from '../types/program';
+import { CatalogExercise, getStepEquipment } from '../data/exerciseCatalog';
+import { getIntensityScore, getSuggestedDifficulty } from './programAnalyzer';
+
+// Pure helpers behind the custom program builder screen
+
+export interface ProgramDraft {
+  id?: string;
+  title: string;
+  level: ProgramLevel;
+  description?: string;
+  steps: Step[];
+  autoWarmup?: boolean;
+  autoCooldown?: boolean;
+  createdAt?: string;
+}
+
+export const DEFAULT_EXERCISE_DURATION_SEC = 30;
+export const DEFAULT_REST_DURATION_SEC = 15;
+export const MIN_STEP_DURATION_SEC = 5;
+
+export const createStepId = (prefix: string = 'step'): string =>
+  `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createEmptyDraft = (): ProgramDraft => ({
+  title: '',
+  level: 'Beginner',
+  steps: []
+});
+
+export const draftFromProgram = (program: Program): ProgramDraft => ({
+  id: program.id,
+  title: program.title,
+  level: program.level,
+  description: program.description,
+  steps: program.steps,
+  autoWarmup: program.autoWarmup,
+  autoCooldown: program.autoCooldown,
+  createdAt: program.createdAt
+});
+
+export const createExerciseStep = (exercise: CatalogExercise): ExerciseStep => ({
+  id: createStepId(exercise.id),
+  type: 'exercise',
+  title: exercise.title,
+  durationSec: DEFAULT_EXERCISE_DURATION_SEC,
+  exerciseId: exercise.id,
+  description: exercise.hints.join('. '),
+  animationRef: exercise.id,
+  equipment: getStepEquipment(exercise),
+  ...(exercise.unilateral ? { perSide: true } : {})
+});
+
+export const createRestStep = (): RestStep => ({
+  id: createStepId('rest'),
+  type: 'rest',
+  title: 'Rest',
+  durationSec: DEFAULT_REST_DURATION_SEC
+});
+
+export const updateStep = (steps: Step[], index: number, patch: Partial<Step>): Step[] =>
+  steps.map((step, i) => (i === index ? ({ ...step, ...patch } as Step) : step));
+
+export const moveStep = (steps: Step[], index: number, offset: -1 | 1): Step[] => {
+  const target = index + offset;
+  if (index < 0 || index >= steps.length || target < 0 || target >= steps.length) {
+    return steps;
+  }
+  const next = [...steps];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+export const duplicateStep = (steps: Step[], index: number): Step[] => {
+  const source = steps[index];
+  if (!source) return steps;
+  const copy = { ...source, id: createStepId(source.type) } as Step;
+  return [...steps.slice(0, index + 1), copy, ...steps.slice(index + 1)];
+};
+
+export const removeStep = (steps: Step[], index: number): Step[] =>
+  steps.filter((_, i) => i !== index);
+
+// Turn a draft into a Program with totals and difficulty derived from its steps
+export const assembleProgram = (draft: ProgramDraft, now: Date = new Date()): Program => {
+  const timestamp = now.toISOString();
+  return {
+    id: draft.id ?? createStepId('custom'),
+    title: draft.title.trim(),
+    level: draft.level,
+    description: draft.description?.trim() || undefined,
+    ...calculateStepTotals(draft.steps),
+    tags: ['Custom', draft.level],
+    steps: draft.steps,
+    ...(draft.autoWarmup !== undefined ? { autoWarmup: draft.autoWarmup } : {}),
+    ...(draft.autoCooldown !== undefined ? { autoCooldown: draft.autoCooldown } : {}),
+    difficulty: draft.steps.length > 0
+      ? getSuggestedDifficulty(getIntensityScore(draft.steps))
+      : DEFAULT_DIFFICULTY_BY_LEVEL[draft.level],
+    createdAt: draft.createdAt ?? timestamp,
+    updatedAt: timestamp
+  };
+};
@@ -0,0 +1,19 @@
+import { errorCodes, isErrorWithCode, pick, types } from '@react-native-documents/picker';
+
+// Reads a program file picked by the user; kept apart from programJson so the
+// validator stays free of native modules
+
+// Text of the picked file, or null when the user closes the picker
+export const pickProgramFile = async (): Promise<string | null> => {
+  try {
+    const [file] = await pick({ type: [types.json, types.plainText] });
+    // Picked files come as file:// (iOS) or content:// (Android) uris, both of which fetch reads
+    const response = await fetch(file.uri);
+    return await response.text();
+  } catch (error) {
+    if (isErrorWithCode(error) && error.code === errorCodes.OPERATION_CANCELED) {
+      return null;
+    }
+    throw error;
+  }
+};
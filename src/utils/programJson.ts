@@ -0,0 +1,275 @@
+import {
+  DEFAULT_DIFFICULTY_BY_LEVEL,
+  Program,
+  ProgramItem,
+  ProgramJSONSchema,
+  Step,
+  calculateStepTotals,
+  expandProgramItems
+} from '../types/program';
+import { analyzeProgram } from './programAnalyzer';
+
+// Runtime import/export of Programs in the ProgramJSONSchema format.
+// The validator below covers the JSON Schema keywords ProgramJSONSchema uses,
+// so coaches' files can be checked on-device without a schema library.
+
+export interface ProgramJSONError {
+  path: string; // e.g. "steps[3].durationSec"; empty for the program itself
+  message: string;
+}
+
+export interface ProgramImportResult {
+  program: Program | null;
+  errors: ProgramJSONError[];
+}
+
+// The subset of JSON Schema keywords the validator understands
+interface JSONSchema {
+  $ref?: string;
+  oneOf?: readonly JSONSchema[];
+  const?: unknown;
+  enum?: readonly unknown[];
+  type?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  format?: string;
+  minItems?: number;
+  items?: JSONSchema;
+  required?: readonly string[];
+  properties?: { readonly [key: string]: JSONSchema };
+  additionalProperties?: boolean;
+  definitions?: { readonly [key: string]: JSONSchema };
+}
+
+const joinPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeOf(value) === 'object';
+
+const resolveRef = (ref: string, root: JSONSchema): JSONSchema => {
+  const target = ref
+    .replace(/^#\//, '')
+    .split('/')
+    .reduce<unknown>((node, segment) => (isRecord(node) ? node[segment] : undefined), root);
+  if (!isRecord(target)) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return target as JSONSchema;
+};
+
+const isValidFormat = (format: string, value: string): boolean => {
+  switch (format) {
+    case 'date-time':
+      return /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value));
+    case 'uri':
+      return /^[a-z][a-z0-9+.-]*:\S+$/i.test(value);
+    default:
+      return true;
+  }
+};
+
+const describeValue = (value: unknown): string =>
+  typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+
+export const validateAgainstSchema = (
+  value: unknown,
+  schema: JSONSchema,
+  path: string = '',
+  root: JSONSchema = schema
+): ProgramJSONError[] => {
+  if (schema.$ref) {
+    return validateAgainstSchema(value, resolveRef(schema.$ref, root), path, root);
+  }
+
+  if (schema.oneOf) {
+    const branches = schema.oneOf.map(branch =>
+      branch.$ref ? resolveRef(branch.$ref, root) : branch
+    );
+    const branchErrors = branches.map(branch => validateAgainstSchema(value, branch, path, root));
+    const matches = branchErrors.filter(errors => errors.length === 0).length;
+    if (matches === 1) return [];
+
+    // Point at the branch selected by the "type" discriminator when there is one
+    const discriminator = isRecord(value) ? value.type : undefined;
+    const selected = branches.findIndex(branch => branch.properties?.type?.const === discriminator);
+    if (matches === 0 && selected !== -1) {
+      return branchErrors[selected];
+    }
+
+    const allowed = branches
+      .map(branch => branch.properties?.type?.const)
+      .filter(Boolean)
+      .join(', ');
+    return [{
+      path,
+      message: matches === 0
+        ? `has unknown type ${describeValue(discriminator)}${allowed ? ` (expected one of: ${allowed})` : ''}`
+        : 'matches more than one allowed shape'
+    }];
+  }
+
+  const errors: ProgramJSONError[] = [];
+
+  if ('const' in schema && value !== schema.const) {
+    errors.push({ path, message: `must be ${describeValue(schema.const)}` });
+    return errors;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of: ${schema.enum.join(', ')}` });
+    return errors;
+  }
+
+  if (schema.type) {
+    const actualType = typeOf(value);
+    if (actualType !== schema.type || (schema.type === 'number' && !Number.isFinite(value))) {
+      errors.push({ path, message: `must be a ${schema.type}, got ${actualType}` });
+      return errors;
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}, got ${value}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path, message: 'must not be empty' });
+    }
+    if (schema.format && !isValidFormat(schema.format, value)) {
+      errors.push({ path, message: `must be a valid ${schema.format}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} item(s)` });
+    }
+    const itemSchema = schema.items;
+    if (itemSchema) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, itemSchema, joinPath(path, index), root));
+      });
+    }
+  }
+
+  if (isRecord(value)) {
+    const record = value;
+    (schema.required ?? []).forEach(key => {
+      if (record[key] === undefined) {
+        errors.push({ path: joinPath(path, key), message: 'is required' });
+      }
+    });
+    Object.keys(record).forEach(key => {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        if (record[key] !== undefined) {
+          errors.push(...validateAgainstSchema(record[key], propertySchema, joinPath(path, key), root));
+        }
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: joinPath(path, key), message: 'is not an allowed field' });
+      }
+    });
+  }
+
+  return errors;
+};
+
+// Enough of a step for the totals; the schema checks the rest afterwards
+const hasDuration = (step: unknown): step is Step =>
+  isRecord(step) && typeof step.type === 'string' && Number.isFinite(step.durationSec);
+
+// Fill in fields coaches may leave out: steps expanded from blocks, totals and metadata.
+// Blocks are expanded only once they have passed the schema.
+const applyImportDefaults = (raw: Record<string, unknown>): Record<string, unknown> => {
+  const data = { ...raw };
+
+  if (data.steps === undefined && Array.isArray(data.blocks)) {
+    data.steps = expandProgramItems(data.blocks as ProgramItem[]);
+  }
+
+  if (Array.isArray(data.steps) && !data.steps.some(step => !isRecord(step))) {
+    const totals = calculateStepTotals(data.steps.filter(hasDuration));
+    data.totalActiveSec = data.totalActiveSec ?? totals.totalActiveSec;
+    data.totalRestSec = data.totalRestSec ?? totals.totalRestSec;
+    data.stepsCount = data.stepsCount ?? data.steps.length;
+  }
+
+  const now = new Date().toISOString();
+  const levelDifficulty = typeof data.level === 'string' ? DEFAULT_DIFFICULTY_BY_LEVEL[data.level] : undefined;
+  data.difficulty = data.difficulty ?? levelDifficulty ?? 3;
+  data.createdAt = data.createdAt ?? now;
+  data.updatedAt = data.updatedAt ?? data.createdAt;
+
+  return data;
+};
+
+// Parse and validate a Program from JSON text (a file's contents or pasted text)
+export const importProgramFromJSON = (text: string): ProgramImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return {
+      program: null,
+      errors: [{ path: '', message: `Invalid JSON: ${(error as Error).message}` }]
+    };
+  }
+
+  if (!isRecord(parsed)) {
+    return {
+      program: null,
+      errors: [{ path: '', message: `must be a program object, got ${typeOf(parsed)}` }]
+    };
+  }
+
+  if (parsed.steps === undefined && parsed.blocks !== undefined) {
+    const blockErrors = validateAgainstSchema(
+      parsed.blocks,
+      ProgramJSONSchema.properties.blocks,
+      'blocks',
+      ProgramJSONSchema
+    );
+    if (blockErrors.length > 0) {
+      return { program: null, errors: blockErrors };
+    }
+  }
+
+  const data = applyImportDefaults(parsed);
+  const schemaErrors = validateAgainstSchema(data, ProgramJSONSchema);
+  if (schemaErrors.length > 0) {
+    return { program: null, errors: schemaErrors };
+  }
+
+  const program = data as unknown as Program;
+  const analysis = analyzeProgram(program);
+  if (analysis.hasErrors) {
+    return {
+      program: null,
+      errors: analysis.issues
+        .filter(issue => issue.severity === 'error')
+        .map(issue => ({ path: '', message: issue.message }))
+    };
+  }
+
+  return { program, errors: [] };
+};
+
+// Serialize any Program, built-in or custom, to the import format
+export const exportProgramToJSON = (program: Program): string =>
+  JSON.stringify(program, null, 2);
+
+export const formatProgramJSONError = (error: ProgramJSONError): string =>
+  error.path ? `${error.path} ${error.message}` : error.message;
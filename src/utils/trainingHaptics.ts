@@ -0,0 +1,108 @@
+import { Vibration } from 'react-native';
+import { TrainingCue, getTrainingCues } from '../state/trainingCues';
+import { TrainingSessionState } from '../state/trainingStateMachine';
+
+// Named vibration patterns for training, driven by the same cues as the audio.
+// HapticsUtils stays with short taps for the library; these are longer patterns
+// meant to be felt mid-exercise with the phone on the floor or in a pocket.
+
+export type TrainingHapticEvent = 'stepStart' | 'nextUp' | 'countdown' | 'switchSides' | 'workoutComplete';
+
+// In the order settings lists them
+export const TRAINING_HAPTIC_EVENTS: TrainingHapticEvent[] = [
+  'stepStart',
+  'nextUp',
+  'countdown',
+  'switchSides',
+  'workoutComplete'
+];
+
+// Vibration.vibrate patterns: wait, buzz, wait, buzz... in ms
+export const TRAINING_HAPTIC_PATTERNS: Record<TrainingHapticEvent, number[]> = {
+  stepStart: [0, 400],
+  nextUp: [0, 80, 80, 80],
+  countdown: [0, 100],
+  switchSides: [0, 150, 100, 150],
+  workoutComplete: [0, 200, 100, 200, 100, 500]
+};
+
+export type TrainingHapticSettings = Record<TrainingHapticEvent, boolean>;
+
+export const DEFAULT_TRAINING_HAPTICS: TrainingHapticSettings = {
+  stepStart: true,
+  nextUp: true,
+  countdown: true,
+  switchSides: true,
+  workoutComplete: true
+};
+
+const getHapticEvent = (cue: TrainingCue): TrainingHapticEvent | null => {
+  switch (cue.type) {
+    case 'go':
+    case 'rest':
+      return 'stepStart';
+    case 'getReady':
+    case 'nextUp':
+      return 'nextUp';
+    case 'countdown':
+      return 'countdown';
+    case 'switchSides':
+      return 'switchSides';
+    case 'finish':
+      return 'workoutComplete';
+    default:
+      return null;
+  }
+};
+
+export interface HapticPlayer {
+  vibrate: (pattern: number[]) => void;
+  cancel: () => void;
+}
+
+export const vibrationPlayer: HapticPlayer = {
+  vibrate: pattern => Vibration.vibrate(pattern),
+  cancel: () => Vibration.cancel()
+};
+
+export type TrainingHapticsOptions = {
+  enabled: boolean;
+  events: TrainingHapticSettings;
+};
+
+export interface TrainingHaptics {
+  update: (state: TrainingSessionState) => TrainingHapticEvent | null; // Feed every reducer state
+  setOptions: (options: TrainingHapticsOptions) => void;
+}
+
+// A new pattern cuts off the last one, so each update plays at most one: the first
+// cue that is switched on, e.g. the step start rather than its 3-2-1
+export function createTrainingHaptics(
+  player: HapticPlayer,
+  initialOptions: TrainingHapticsOptions
+): TrainingHaptics {
+  let options = initialOptions;
+  let previous: TrainingSessionState | null = null;
+
+  return {
+    update: state => {
+      const prev = previous;
+      previous = state;
+      if (!prev || prev === state || !options.enabled) return null;
+
+      const event = getTrainingCues(prev, state, { tickEvery10s: false })
+        .map(getHapticEvent)
+        .find((candidate): candidate is TrainingHapticEvent => candidate !== null && options.events[candidate]);
+      if (!event) return null;
+
+      player.vibrate(TRAINING_HAPTIC_PATTERNS[event]);
+      return event;
+    },
+    setOptions: nextOptions => {
+      if (options.enabled && !nextOptions.enabled) {
+        player.cancel();
+      }
+      options = nextOptions;
+    }
+  };
+}
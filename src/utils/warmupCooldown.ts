@@ -0,0 +1,164 @@
+import {
+  ExerciseStep,
+  Program,
+  ProgramItem,
+  Step,
+  StepPhase,
+  calculateStepTotals
+} from '../types/program';
+import { StepResult } from '../state/trainingStateMachine';
+import { Preferences } from '../state/PreferencesContext';
+import {
+  CatalogExercise,
+  getExerciseById,
+  getStepEquipment
+} from '../data/exerciseCatalog';
+import { estimateProgramCalories } from './calories';
+import { MuscleLoad, getMuscleLoad } from './programAnalyzer';
+
+// Generated warm-up and cool-down around a program's main block
+
+export interface WarmupCooldownOptions {
+  warmup: boolean;
+  cooldown: boolean;
+}
+
+export interface PhaseDurations {
+  warmupSec: number;
+  mainSec: number;
+  cooldownSec: number;
+}
+
+export const WARMUP_EXERCISE_COUNT = 4;
+export const COOLDOWN_EXERCISE_COUNT = 3;
+export const PHASE_STEP_SEC = 30; // Per side for unilateral moves
+
+// Dynamic moves, in the order they are performed; ties go to the earlier one
+const WARMUP_POOL_IDS = [
+  'hip-circles',
+  'arm-circles',
+  'cat-cow',
+  'leg-swings',
+  'arm-swings',
+  'thoracic-rotation',
+  'side-bends',
+  'neck-rolls'
+];
+
+// Static stretches, standing first and finishing on the floor
+const COOLDOWN_POOL_IDS = [
+  'forward-fold',
+  'chest-opener',
+  'quad-stretch',
+  'hip-flexor',
+  'hamstring-stretch',
+  'spinal-twist',
+  'downward-dog',
+  'child-pose'
+];
+
+const toExercises = (ids: string[]): CatalogExercise[] =>
+  ids.map(id => getExerciseById(id) as CatalogExercise);
+
+const WARMUP_POOL = toExercises(WARMUP_POOL_IDS);
+const COOLDOWN_POOL = toExercises(COOLDOWN_POOL_IDS);
+
+const scoreExercise = (exercise: CatalogExercise, load: MuscleLoad): number =>
+  exercise.primaryMuscles.reduce((sum, muscle) => sum + (load.get(muscle) ?? 0), 0) +
+  exercise.secondaryMuscles.reduce((sum, muscle) => sum + (load.get(muscle) ?? 0) / 2, 0);
+
+// Each pick halves the load on its muscles so the next one covers something else
+const pickExercises = (pool: CatalogExercise[], load: MuscleLoad, count: number): CatalogExercise[] => {
+  const remaining: MuscleLoad = new Map(load);
+  const picked = new Set<CatalogExercise>();
+
+  while (picked.size < Math.min(count, pool.length)) {
+    const best = pool
+      .filter(exercise => !picked.has(exercise))
+      .reduce<CatalogExercise | null>(
+        (top, exercise) =>
+          !top || scoreExercise(exercise, remaining) > scoreExercise(top, remaining) ? exercise : top,
+        null
+      );
+    if (!best) break;
+    picked.add(best);
+    [...best.primaryMuscles, ...best.secondaryMuscles].forEach(muscle => {
+      const value = remaining.get(muscle);
+      if (value !== undefined) remaining.set(muscle, value / 2);
+    });
+  }
+
+  return pool.filter(exercise => picked.has(exercise));
+};
+
+const createPhaseStep = (exercise: CatalogExercise, phase: StepPhase): ExerciseStep => ({
+  id: `${phase}_${exercise.id}`,
+  type: 'exercise',
+  title: exercise.title,
+  durationSec: exercise.unilateral ? PHASE_STEP_SEC * 2 : PHASE_STEP_SEC,
+  exerciseId: exercise.id,
+  description: exercise.hints.join('. '),
+  animationRef: exercise.id,
+  equipment: getStepEquipment(exercise),
+  phase,
+  ...(exercise.unilateral ? { perSide: true } : {})
+});
+
+export const getMainSteps = (steps: Step[]): Step[] => steps.filter(step => !step.phase);
+
+export const createWarmupSteps = (mainSteps: Step[]): ExerciseStep[] =>
+  pickExercises(WARMUP_POOL, getMuscleLoad(mainSteps), WARMUP_EXERCISE_COUNT)
+    .map(exercise => createPhaseStep(exercise, 'warmup'));
+
+export const createCooldownSteps = (mainSteps: Step[]): ExerciseStep[] =>
+  pickExercises(COOLDOWN_POOL, getMuscleLoad(mainSteps), COOLDOWN_EXERCISE_COUNT)
+    .map(exercise => createPhaseStep(exercise, 'cooldown'));
+
+// The program's own setting wins over the global preference
+export const resolveWarmupCooldownOptions = (
+  program: Program,
+  prefs: Pick<Preferences, 'autoWarmup' | 'autoCooldown'>
+): WarmupCooldownOptions => ({
+  warmup: program.autoWarmup ?? prefs.autoWarmup,
+  cooldown: program.autoCooldown ?? prefs.autoCooldown
+});
+
+const isMainItem = (item: ProgramItem): boolean => !('phase' in item && item.phase);
+
+// Regenerates both phases from the main block, so a prepared program can be passed again
+export const applyWarmupCooldown = (program: Program, options: WarmupCooldownOptions): Program => {
+  const mainSteps = getMainSteps(program.steps);
+  const warmup = options.warmup ? createWarmupSteps(mainSteps) : [];
+  const cooldown = options.cooldown ? createCooldownSteps(mainSteps) : [];
+  if (warmup.length === 0 && cooldown.length === 0 && mainSteps.length === program.steps.length) {
+    return program;
+  }
+
+  const steps = [...warmup, ...mainSteps, ...cooldown];
+  return {
+    ...program,
+    ...calculateStepTotals(steps),
+    steps,
+    ...(program.blocks ? { blocks: [...warmup, ...program.blocks.filter(isMainItem), ...cooldown] } : {}),
+    ...(program.estimatedCalories !== undefined ? { estimatedCalories: estimateProgramCalories(steps) } : {})
+  };
+};
+
+const addToPhase = (totals: PhaseDurations, phase: StepPhase | undefined, sec: number): PhaseDurations => ({
+  warmupSec: totals.warmupSec + (phase === 'warmup' ? sec : 0),
+  mainSec: totals.mainSec + (phase ? 0 : sec),
+  cooldownSec: totals.cooldownSec + (phase === 'cooldown' ? sec : 0)
+});
+
+const NO_TIME: PhaseDurations = { warmupSec: 0, mainSec: 0, cooldownSec: 0 };
+
+// Planned time per phase
+export const getPhaseDurations = (steps: Step[]): PhaseDurations =>
+  steps.reduce((totals, step) => addToPhase(totals, step.phase, step.durationSec), NO_TIME);
+
+// Time actually spent per phase
+export const getPhaseElapsed = (program: Program, stepResults: StepResult[]): PhaseDurations =>
+  stepResults.reduce(
+    (totals, result) => addToPhase(totals, program.steps[result.stepIndex]?.phase, result.actualElapsedSec),
+    NO_TIME
+  );
@@ -0,0 +1,296 @@
+import {
+  DEFAULT_DIFFICULTY_BY_LEVEL,
+  ExerciseStep,
+  Program,
+  ProgramItem,
+  ProgramLevel,
+  RestStep,
+  buildProgram
+} from '../types/program';
+import { Goal } from '../types/library';
+import { CatalogExercise, ExerciseEquipment, getExerciseById, getStepEquipment, isBodyweight } from '../data/exerciseCatalog';
+import { OnboardingProfile, Weekday } from '../types/onboarding';
+
+// Builds a week of Programs from the onboarding profile
+
+export type SessionFocus = 'upper' | 'lower' | 'full' | 'conditioning' | 'mobility';
+
+export interface PlannedWorkout {
+  day: Weekday;
+  focus: SessionFocus;
+  program: Program;
+}
+
+export interface WeeklyPlan {
+  workouts: PlannedWorkout[];
+}
+
+type MovementPattern = 'upper' | 'lower' | 'core' | 'cardio' | 'mobility';
+
+// Catalog exercises the planner draws from, by movement pattern
+const PLAN_PATTERNS: Record<string, MovementPattern> = {
+  pushups: 'upper',
+  squats: 'lower',
+  lunges: 'lower',
+  plank: 'core',
+  crunches: 'core',
+  burpees: 'cardio',
+  'jumping-jacks': 'cardio',
+  'mountain-climbers': 'cardio',
+  'cat-cow': 'mobility',
+  'hip-circles': 'mobility',
+  'thoracic-rotation': 'mobility',
+  'dumbbell-row': 'upper',
+  'dumbbell-press': 'upper',
+  'goblet-squat': 'lower',
+  'band-pull-aparts': 'upper',
+  'band-good-morning': 'lower',
+  'kettlebell-swing': 'cardio',
+  'kettlebell-deadlift': 'lower',
+  'barbell-squat': 'lower',
+  'barbell-bench-press': 'upper',
+  'lat-pulldown': 'upper',
+  'leg-press': 'lower'
+};
+
+interface PlanExercise {
+  exercise: CatalogExercise;
+  pattern: MovementPattern;
+}
+
+const PLAN_EXERCISES: PlanExercise[] = Object.keys(PLAN_PATTERNS).map(id => ({
+  exercise: getExerciseById(id) as CatalogExercise,
+  pattern: PLAN_PATTERNS[id]
+}));
+
+interface LevelSettings {
+  sets: number;
+  reps: number;
+  restBetweenSetsSec: number;
+  workSec: number; // Conditioning and mobility intervals
+  restSec: number;
+}
+
+const LEVEL_SETTINGS: Record<ProgramLevel, LevelSettings> = {
+  Beginner: { sets: 2, reps: 8, restBetweenSetsSec: 75, workSec: 30, restSec: 30 },
+  Intermediate: { sets: 3, reps: 10, restBetweenSetsSec: 60, workSec: 40, restSec: 20 },
+  Advanced: { sets: 4, reps: 12, restBetweenSetsSec: 45, workSec: 45, restSec: 15 }
+};
+
+const SECONDS_PER_REP = 3;
+const REST_BETWEEN_EXERCISES_SEC = 60;
+const REST_BETWEEN_ROUNDS_SEC = 60;
+const DEFAULT_WORKOUT_DAYS: Weekday[] = ['monday', 'wednesday', 'friday'];
+const DEFAULT_SESSION_MIN = 30;
+const WEEK_ORDER: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const ALL_EQUIPMENT: ExerciseEquipment[] = [
+  'dumbbells',
+  'bands',
+  'kettlebell',
+  'barbell',
+  'machines',
+  'pullup-bar',
+  'jump-rope',
+  'box',
+  'bench',
+  'foam-roller'
+];
+
+const FOCUS_TITLES: Record<SessionFocus, string> = {
+  upper: 'Upper Body Strength',
+  lower: 'Lower Body Strength',
+  full: 'Full Body Strength',
+  conditioning: 'Conditioning Circuit',
+  mobility: 'Mobility Flow'
+};
+
+const STRENGTH_GOALS: Goal[] = ['muscle', 'strength'];
+const CONDITIONING_GOALS: Goal[] = ['fat_loss', 'cardio'];
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+// Bodyweight is always available; a gym brings its own equipment
+export const getAvailableEquipment = (profile: OnboardingProfile): ExerciseEquipment[] => {
+  const equipment = new Set<ExerciseEquipment>(['none', ...profile.equipment]);
+  if (profile.locations.includes('gym')) {
+    ALL_EQUIPMENT.forEach(item => equipment.add(item));
+  }
+  return Array.from(equipment);
+};
+
+const getExercisePool = (profile: OnboardingProfile): PlanExercise[] => {
+  const equipment = getAvailableEquipment(profile);
+  // Jumping is a poor fit when the only place to train is an office
+  const officeOnly = profile.locations.length > 0 && profile.locations.every(location => location === 'office');
+  return PLAN_EXERCISES.filter(({ exercise }) =>
+    exercise.equipment.every(item => equipment.includes(item)) && !(officeOnly && exercise.highImpact)
+  );
+};
+
+// Weekly rotation of session types driven by the goals
+export const getFocusRotation = (goals: Goal[], daysPerWeek: number): SessionFocus[] => {
+  const wantsStrength = goals.some(goal => STRENGTH_GOALS.includes(goal));
+  const wantsConditioning = goals.some(goal => CONDITIONING_GOALS.includes(goal));
+  const wantsMobility = goals.includes('mobility');
+  const rotation: SessionFocus[] = [];
+
+  if (wantsStrength || (!wantsConditioning && !wantsMobility)) {
+    rotation.push(...(daysPerWeek >= 3 ? (['upper', 'lower'] as SessionFocus[]) : (['full'] as SessionFocus[])));
+  }
+  if (wantsConditioning || !wantsStrength) {
+    rotation.push('conditioning');
+  }
+  if (wantsMobility) {
+    rotation.push('mobility');
+  }
+  return rotation;
+};
+
+const pickExercises = (pool: PlanExercise[], patterns: MovementPattern[], count: number): PlanExercise[] => {
+  // Equipment moves first so the equipment the user owns gets used
+  const candidates = pool
+    .filter(exercise => patterns.includes(exercise.pattern))
+    .sort((a, b) => Number(isBodyweight(a.exercise)) - Number(isBodyweight(b.exercise)));
+  if (candidates.length === 0) return [];
+
+  // Alternate between patterns, then cycle if the pool is small
+  const byPattern = patterns.map(pattern => candidates.filter(exercise => exercise.pattern === pattern));
+  const ordered: PlanExercise[] = [];
+  for (let i = 0; ordered.length < candidates.length; i++) {
+    byPattern.forEach(list => {
+      if (list[i]) ordered.push(list[i]);
+    });
+  }
+  return Array.from({ length: count }, (_, index) => ordered[index % ordered.length]);
+};
+
+const toExerciseStep = ({ exercise }: PlanExercise, id: string, fields: Partial<ExerciseStep>): ExerciseStep => ({
+  id,
+  type: 'exercise',
+  title: exercise.title,
+  durationSec: 30,
+  exerciseId: exercise.id,
+  animationRef: exercise.id,
+  equipment: getStepEquipment(exercise),
+  ...fields
+});
+
+const restStep = (id: string, durationSec: number, tip?: string): RestStep => ({
+  id,
+  type: 'rest',
+  title: 'Rest',
+  durationSec,
+  ...(tip ? { tip } : {})
+});
+
+// Straight sets of rep-based work, one exercise after another
+const buildStrengthItems = (
+  focus: SessionFocus,
+  pool: PlanExercise[],
+  settings: LevelSettings,
+  sessionSec: number
+): ProgramItem[] => {
+  const patterns: MovementPattern[] = focus === 'upper'
+    ? ['upper', 'core']
+    : focus === 'lower'
+      ? ['lower', 'core']
+      : ['upper', 'lower', 'core'];
+  const setSec = settings.reps * SECONDS_PER_REP;
+  const exerciseSec = settings.sets * setSec + (settings.sets - 1) * settings.restBetweenSetsSec + REST_BETWEEN_EXERCISES_SEC;
+  const count = Math.max(2, Math.round(sessionSec / exerciseSec));
+
+  return pickExercises(pool, patterns, count).flatMap((planned, index): ProgramItem[] => {
+    const { exercise } = planned;
+    const blockId = `${focus}_${index + 1}`;
+    const block: ProgramItem = {
+      type: 'superset',
+      id: blockId,
+      title: exercise.title,
+      sets: settings.sets,
+      restBetweenSetsSec: settings.restBetweenSetsSec,
+      exercises: [toExerciseStep(planned, `${blockId}_${exercise.id}`, {
+        mode: 'reps',
+        durationSec: setSec,
+        targetReps: settings.reps
+      })]
+    };
+    return index < count - 1
+      ? [block, restStep(`${blockId}_rest`, REST_BETWEEN_EXERCISES_SEC, 'Set up for the next exercise')]
+      : [block];
+  });
+};
+
+// Timed circuit repeated for as many rounds as fit
+const buildCircuitItems = (
+  focus: SessionFocus,
+  pool: PlanExercise[],
+  settings: LevelSettings,
+  sessionSec: number
+): ProgramItem[] => {
+  const patterns: MovementPattern[] = focus === 'mobility'
+    ? ['mobility', 'core']
+    : ['cardio', 'lower', 'upper', 'core'];
+  const workSec = focus === 'mobility' ? 45 : settings.workSec;
+  const restSec = focus === 'mobility' ? 15 : settings.restSec;
+  const exercises = pickExercises(pool, patterns, 4);
+  const roundSec = exercises.length * (workSec + restSec) + REST_BETWEEN_ROUNDS_SEC;
+  const rounds = Math.max(1, Math.round((sessionSec + REST_BETWEEN_ROUNDS_SEC) / roundSec));
+
+  const items = exercises.flatMap((planned, index) => {
+    const work = toExerciseStep(planned, `${focus}_${planned.exercise.id}_${index + 1}`, { durationSec: workSec });
+    return index < exercises.length - 1
+      ? [work, restStep(`${focus}_rest_${index + 1}`, restSec)]
+      : [work];
+  });
+
+  return [{
+    type: 'rounds',
+    id: focus,
+    title: FOCUS_TITLES[focus],
+    rounds,
+    restBetweenRoundsSec: REST_BETWEEN_ROUNDS_SEC,
+    items
+  }];
+};
+
+export const createPlannedProgram = (
+  profile: OnboardingProfile,
+  day: Weekday,
+  focus: SessionFocus,
+  now: Date = new Date()
+): Program => {
+  const level = profile.level ?? 'Beginner';
+  const settings = LEVEL_SETTINGS[level];
+  const sessionSec = (profile.sessionDurationMin ?? DEFAULT_SESSION_MIN) * 60;
+  const pool = getExercisePool(profile);
+  const isCircuit = focus === 'conditioning' || focus === 'mobility';
+  const items = isCircuit
+    ? buildCircuitItems(focus, pool, settings, sessionSec)
+    : buildStrengthItems(focus, pool, settings, sessionSec);
+  const timestamp = now.toISOString();
+
+  return buildProgram({
+    id: `plan_${day}_${focus}`,
+    title: FOCUS_TITLES[focus],
+    level,
+    description: `${capitalize(day)} · planned from your goals and equipment`,
+    tags: ['Plan', capitalize(focus), level],
+    difficulty: DEFAULT_DIFFICULTY_BY_LEVEL[level],
+    createdAt: timestamp,
+    updatedAt: timestamp
+  }, items);
+};
+
+export const generateWeeklyPlan = (profile: OnboardingProfile, now: Date = new Date()): WeeklyPlan => {
+  const days = (profile.workoutDays?.length ? profile.workoutDays : DEFAULT_WORKOUT_DAYS)
+    .slice()
+    .sort((a, b) => WEEK_ORDER.indexOf(a) - WEEK_ORDER.indexOf(b));
+  const rotation = getFocusRotation(profile.goals, days.length);
+
+  return {
+    workouts: days.map((day, index) => {
+      const focus = rotation[index % rotation.length];
+      return { day, focus, program: createPlannedProgram(profile, day, focus, now) };
+    })
+  };
+};